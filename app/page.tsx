@@ -11,6 +11,9 @@ import {
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { FileUploader } from '@/components/file-uploader';
+import { BatchQueue } from '@/components/batch-queue';
+import { MergeFragments } from '@/components/merge-fragments';
+import { VerifyFragments } from '@/components/verify-fragments';
 import { ProgressBar } from '@/components/progress-bar';
 import { NotificationSystem } from '@/components/notification-system';
 import { AdvancedSettings } from '@/components/advanced-settings';
@@ -341,6 +344,10 @@ function HomePageContent() {
               onError={handleError}
               className="w-full"
             />
+
+            <BatchQueue
+              className="w-full"
+            />
             
             <ProgressBar
               className="w-full"
@@ -349,6 +356,14 @@ function HomePageContent() {
             <AdvancedSettings
               className="w-full"
             />
+
+            <VerifyFragments
+              className="w-full"
+            />
+
+            <MergeFragments
+              className="w-full"
+            />
             
             {/* Show share results after successful Google Drive upload */}
             {state.status === 'complete' && 
@@ -16,7 +16,8 @@ import {
   Archive, 
   Sliders,
   Info,
-  RotateCcw
+  RotateCcw,
+  Lock
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -29,6 +30,12 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 import { useAppState, useAppActions } from '@/hooks/use-app-state';
 import { useStrategySelection } from '@/hooks/use-strategy-selection';
 import { useProcessing } from '@/hooks/use-processing';
+import { KeyringManager } from '@/components/keyring-manager';
+import { SigningKeyManager } from '@/components/signing-key-manager';
+import { EntryFilterSettings } from '@/components/entry-filter-settings';
+import { CompressionPolicySettings } from '@/components/compression-policy-settings';
+import { analyzeDuplicates } from '@/lib/strategy-selector';
+import type { ArchiveFormat, SplitMode, SplittingStrategy } from '@/types/processing';
 
 interface AdvancedSettingsProps {
   className?: string;
@@ -41,9 +48,11 @@ export function AdvancedSettings({ className }: AdvancedSettingsProps) {
   const { state, dispatch } = useAppState();
   const actions = useAppActions();
   const { selectStrategy, availableStrategies, getRecommendedFragmentSize, estimateProcessingTime } = useStrategySelection();
-  const { capabilities } = useProcessing();
+  const { capabilities, isProcessing } = useProcessing();
   
   const [isExpanded, setIsExpanded] = useState(state.showAdvancedOptions);
+  // Las partes raw no se empaquetan: formato, compresión y cifrado no aplican
+  const isRawMode = state.processingConfig.splitMode === 'raw';
 
   // Helper para formatear tamaño de archivo
   const formatSize = (sizeInMB: number) => {
@@ -67,6 +76,28 @@ export function AdvancedSettings({ className }: AdvancedSettingsProps) {
     actions.toggleAdvancedOptions();
   };
 
+  // El análisis solo busca duplicados con la opción activa: al activarla se buscan en el archivo actual
+  const handleDeduplicateChange = async (checked: boolean) => {
+    actions.updateConfig({ deduplicateEntries: checked });
+
+    const { currentFile, fileAnalysis } = state;
+    if (!checked || !currentFile || !fileAnalysis || fileAnalysis.duplicateFiles !== undefined) {
+      return;
+    }
+
+    try {
+      const duplicates = await analyzeDuplicates(currentFile);
+      actions.setAnalysis({
+        ...fileAnalysis,
+        duplicateFiles: duplicates.files,
+        duplicateBytes: duplicates.bytes,
+        duplicateHashes: duplicates.hashes
+      });
+    } catch {
+      // No es un archivo legible: el procesador informará el error con detalle
+    }
+  };
+
   const resetToDefaults = () => {
     actions.resetConfig();
     actions.addNotification({
@@ -234,11 +265,157 @@ export function AdvancedSettings({ className }: AdvancedSettingsProps) {
                         </Button>
                       </div>
                     )}
+
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <Label htmlFor="strict-size-limit" className="text-sm">Strict size limit</Label>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="h-4 w-4 text-slate-400 cursor-help" />
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>No fragment will exceed the selected size. Use it for hard upload limits like email attachments.</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </div>
+                      <Switch
+                        id="strict-size-limit"
+                        checked={state.processingConfig.strictSizeLimit}
+                        onCheckedChange={(checked) => actions.updateConfig({ strictSizeLimit: checked })}
+                      />
+                    </div>
                   </div>
                 </div>
 
                 <Separator />
 
+                {/* Output Format */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm font-medium">Output Format</Label>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Info className="h-4 w-4 text-slate-400 cursor-help" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>TAR fragments keep POSIX permissions, symlinks and long paths for Linux users. Split archives (.z01, .z02, … .zip) open as one archive in 7-Zip, WinRAR and zip -s. Raw parts cut any file (ISO, video, database dump) into byte ranges that are joined back in order.</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+
+                  <Select
+                    value={state.processingConfig.outputFormat}
+                    onValueChange={(value) => {
+                      const outputFormat = value as ArchiveFormat;
+                      // Los volúmenes divididos y el cifrado con contraseña solo existen en ZIP
+                      actions.updateConfig(outputFormat === 'zip'
+                        ? { outputFormat }
+                        : {
+                          outputFormat,
+                          encryptFragments: false,
+                          ...(state.processingConfig.splitMode === 'spanned' && { splitMode: 'independent' as const })
+                        });
+                    }}
+                    disabled={isRawMode}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="zip">ZIP (.zip)</SelectItem>
+                      <SelectItem value="tar">TAR (.tar)</SelectItem>
+                      <SelectItem value="tar.gz">Gzipped TAR (.tar.gz)</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  <Select
+                    value={state.processingConfig.splitMode}
+                    onValueChange={(value) => {
+                      const splitMode = value as SplitMode;
+                      // Las partes raw no son archivos ZIP: no admiten cifrado con contraseña
+                      actions.updateConfig(splitMode === 'raw' ? { splitMode, encryptFragments: false } : { splitMode });
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="independent">Independent fragments</SelectItem>
+                      <SelectItem value="spanned" disabled={state.processingConfig.outputFormat !== 'zip'}>
+                        Split archive (.z01, .z02, … .zip)
+                      </SelectItem>
+                      <SelectItem value="raw">Raw byte parts of any file (.001, .002, …)</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  {state.processingConfig.splitMode === 'spanned' && (
+                    <p className="text-xs text-slate-500">
+                      Headers and file data flow across volumes, so every volume except the last one has exactly the fragment size.
+                    </p>
+                  )}
+                </div>
+
+                <Separator />
+
+                {/* Splitting Strategy */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm font-medium">Splitting Strategy</Label>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Info className="h-4 w-4 text-slate-400 cursor-help" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>How files are grouped into independent ZIP fragments</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+
+                  <Select
+                    value={state.processingConfig.splittingStrategy}
+                    onValueChange={(value) => actions.updateConfig({ splittingStrategy: value as SplittingStrategy })}
+                    disabled={state.processingConfig.splitMode !== 'independent'}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="size-based">Size-based - fill each fragment in order</SelectItem>
+                      <SelectItem value="file-based">File-based - same number of files per fragment</SelectItem>
+                      <SelectItem value="balanced">Balanced - even fragment sizes</SelectItem>
+                      <SelectItem value="smart">Smart - keep folders and file types together</SelectItem>
+                      <SelectItem value="min-fragments">Fewest fragments - pack fragments as full as possible</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm">Maximum fragments</Label>
+                    <Select
+                      value={state.processingConfig.maxFragments.toString()}
+                      onValueChange={(value) => actions.updateConfig({ maxFragments: parseInt(value) })}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="0">No limit</SelectItem>
+                        <SelectItem value="5">5</SelectItem>
+                        <SelectItem value="10">10</SelectItem>
+                        <SelectItem value="20">20</SelectItem>
+                        <SelectItem value="50">50</SelectItem>
+                        <SelectItem value="100">100</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <Separator />
+
+                {/* Entry Filters */}
+                <EntryFilterSettings disabled={isProcessing} />
+
+                <Separator />
+
                 {/* Compression Settings */}
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
@@ -253,9 +430,58 @@ export function AdvancedSettings({ className }: AdvancedSettingsProps) {
                     </Tooltip>
                   </div>
 
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Label htmlFor="raw-copy" className="text-sm">Keep original compression</Label>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-4 w-4 text-slate-400 cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Copies compressed entries byte-for-byte instead of recompressing them. Much faster and lossless.</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </div>
+                    <Switch
+                      id="raw-copy"
+                      checked={state.processingConfig.rawCopy}
+                      onCheckedChange={(checked) => actions.updateConfig({ rawCopy: checked })}
+                      disabled={state.processingConfig.outputFormat !== 'zip' || isRawMode}
+                    />
+                  </div>
+
+                  {state.processingConfig.rawCopy && state.processingConfig.outputFormat === 'zip' && !isRawMode && (
+                    <p className="text-xs text-slate-500">
+                      Entries keep the compression they already have: turn this off to apply the level and file-type rules below. While it is on, files from a folder are stored uncompressed.
+                    </p>
+                  )}
+
+                  {state.processingConfig.rawCopy && state.processingConfig.outputFormat === 'zip' && !isRawMode && (
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <Label htmlFor="hash-copied-entries" className="text-sm">Hash copied entries</Label>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="h-4 w-4 text-slate-400 cursor-help" />
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>Decompresses every copied entry to record its SHA-256 in the manifest. Without it, copied entries are indexed by the CRC32 of the original archive only.</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </div>
+                      <Switch
+                        id="hash-copied-entries"
+                        checked={state.processingConfig.hashCopiedEntries}
+                        onCheckedChange={(checked) => actions.updateConfig({ hashCopiedEntries: checked })}
+                        disabled={isProcessing}
+                      />
+                    </div>
+                  )}
+
                   <Select
                     value={state.processingConfig.compressionLevel.toString()}
                     onValueChange={(value) => actions.updateConfig({ compressionLevel: parseInt(value) })}
+                    disabled={state.processingConfig.rawCopy || state.processingConfig.outputFormat !== 'zip' || isRawMode}
                   >
                     <SelectTrigger>
                       <SelectValue />
@@ -267,10 +493,65 @@ export function AdvancedSettings({ className }: AdvancedSettingsProps) {
                       <SelectItem value="9">Maximum compression (Slowest)</SelectItem>
                     </SelectContent>
                   </Select>
+
+                  <CompressionPolicySettings
+                    disabled={state.processingConfig.rawCopy || state.processingConfig.outputFormat !== 'zip' || isRawMode || isProcessing}
+                  />
                 </div>
 
                 <Separator />
 
+                {/* Encryption */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Lock className="h-4 w-4 text-slate-500" />
+                      <Label htmlFor="encrypt-fragments" className="text-sm font-medium">Encrypt fragments (AES-256)</Label>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Info className="h-4 w-4 text-slate-400 cursor-help" />
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Protects every fragment with WinZip AES-256, which 7-Zip, WinZip and most archive tools can open. The passphrase is never saved.</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </div>
+                    <Switch
+                      id="encrypt-fragments"
+                      checked={state.processingConfig.encryptFragments}
+                      onCheckedChange={(checked) => actions.updateConfig({ encryptFragments: checked })}
+                      disabled={state.processingConfig.outputFormat !== 'zip' || isRawMode}
+                    />
+                  </div>
+
+                  {state.processingConfig.encryptFragments && (
+                    <div className="space-y-2">
+                      <input
+                        id="fragment-passphrase"
+                        type="password"
+                        autoComplete="new-password"
+                        placeholder="Passphrase"
+                        value={state.outputPassphrase ?? ''}
+                        onChange={(event) => actions.setOutputPassphrase(event.target.value || null)}
+                        disabled={isProcessing}
+                        className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-primary dark:border-slate-600 dark:bg-slate-800 dark:text-white"
+                      />
+                      <p className="text-xs text-slate-500">
+                        You will need this passphrase to extract the fragments. It cannot be recovered.
+                      </p>
+                    </div>
+                  )}
+
+                  <KeyringManager disabled={isProcessing} />
+                </div>
+
+                <Separator />
+
+                {/* Manifest Signing */}
+                <SigningKeyManager disabled={isProcessing} />
+
+                <Separator />
+
                 {/* Additional Options */}
                 <div className="space-y-4">
                   <Label className="text-sm font-medium">Additional Options</Label>
@@ -295,6 +576,26 @@ export function AdvancedSettings({ className }: AdvancedSettingsProps) {
                       />
                     </div>
 
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2">
+                        <Label htmlFor="deduplicate-entries" className="text-sm">Store duplicate files once</Label>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Info className="h-4 w-4 text-slate-400 cursor-help" />
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>Files with identical contents are stored in one fragment only and their other paths are listed in the manifest. Reassembling with the manifest restores every copy; extracting fragments directly does not.</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </div>
+                      <Switch
+                        id="deduplicate-entries"
+                        checked={state.processingConfig.deduplicateEntries}
+                        onCheckedChange={handleDeduplicateChange}
+                        disabled={isRawMode || !state.processingConfig.includeManifest}
+                      />
+                    </div>
+
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-2">
                         <Label htmlFor="create-zip-archive" className="text-sm">Create ZIP archive</Label>
@@ -0,0 +1,263 @@
+/**
+ * BatchQueue Component
+ * Vista agregada de la cola de trabajos: progreso global, concurrencia y,
+ * por trabajo, sus opciones, su progreso y la descarga de sus fragmentos
+ */
+'use client';
+
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  ListOrdered,
+  Pause,
+  Play,
+  Download,
+  RotateCcw,
+  X,
+  Trash2,
+  CheckCircle,
+  AlertCircle,
+  Loader2,
+  Clock
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppState } from '@/hooks/use-app-state';
+import { useBatchQueue } from '@/hooks/use-batch-queue';
+import { FragmentSizeReport } from '@/components/fragment-size-report';
+import type { QueueJob, QueueJobStatus } from '@/lib/job-queue';
+import type { ArchiveFormat } from '@/types/processing';
+
+interface BatchQueueProps {
+  className?: string;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const STATUS_LABELS: Record<QueueJobStatus, string> = {
+  pending: 'Queued',
+  running: 'Processing',
+  complete: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+/**
+ * Formats file size for display
+ */
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+/**
+ * Formats time in seconds to human readable format
+ */
+const formatTime = (seconds: number): string => {
+  if (seconds < 60) {
+    return `${Math.round(seconds)}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ${Math.round(seconds % 60)}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const StatusIcon = ({ status }: { status: QueueJobStatus }) => {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="h-4 w-4 animate-spin text-brand-primary" />;
+    case 'complete':
+      return <CheckCircle className="h-4 w-4 text-green-500" />;
+    case 'error':
+    case 'cancelled':
+      return <AlertCircle className="h-4 w-4 text-status-error-border" />;
+    default:
+      return <Clock className="h-4 w-4 text-slate-400" />;
+  }
+};
+
+export function BatchQueue({ className }: BatchQueueProps) {
+  const { state } = useAppState();
+  const {
+    jobs,
+    summary,
+    isPaused,
+    updateJobOptions,
+    cancelJob,
+    retryJob,
+    removeJob,
+    clearFinished,
+    setPaused,
+    setConcurrency,
+    downloadJob
+  } = useBatchQueue();
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const renderJobOptions = (job: QueueJob) => {
+    const isRawJob = job.options.splitMode === 'raw';
+
+    return (
+      <div className="mt-2 flex flex-wrap items-center gap-3 text-xs">
+        <Label htmlFor={`fragment-size-${job.id}`} className="text-xs text-slate-500">Fragment size (MB)</Label>
+        <input
+          id={`fragment-size-${job.id}`}
+          type="number"
+          min={1}
+          value={Math.round(job.options.fragmentSize / (1024 * 1024))}
+          onChange={(event) => {
+            const megabytes = Number(event.target.value);
+            if (megabytes >= 1) {
+              updateJobOptions(job.id, { fragmentSize: megabytes * 1024 * 1024 });
+            }
+          }}
+          className="w-20 rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900 dark:border-slate-600 dark:bg-slate-800 dark:text-white"
+        />
+        <Select
+          value={job.options.outputFormat || 'zip'}
+          onValueChange={(value) => updateJobOptions(job.id, { outputFormat: value as ArchiveFormat })}
+          disabled={isRawJob || !!job.options.encryptionPassphrase}
+        >
+          <SelectTrigger className="h-7 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="zip">ZIP (.zip)</SelectItem>
+            <SelectItem value="tar">TAR (.tar)</SelectItem>
+            <SelectItem value="tar.gz">Gzipped TAR (.tar.gz)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="flex items-center space-x-2 text-lg">
+            <ListOrdered className="h-5 w-5 text-brand-primary" />
+            <span>Batch queue</span>
+          </CardTitle>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Label className="text-xs text-slate-500">Run at once</Label>
+            <Select
+              value={String(state.processingConfig.queueConcurrency)}
+              onValueChange={(value) => setConcurrency(Number(value))}
+            >
+              <SelectTrigger className="h-8 w-16">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONCURRENCY_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => setPaused(!isPaused)}>
+              {isPaused ? <Play className="h-4 w-4 mr-1" /> : <Pause className="h-4 w-4 mr-1" />}
+              {isPaused ? 'Resume' : 'Pause'}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={clearFinished}
+              disabled={summary.complete + summary.failed === 0}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Clear finished
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {/* Resumen de la cola */}
+        <div className="space-y-2">
+          <div className="flex flex-wrap justify-between gap-2 text-sm text-slate-600 dark:text-slate-400">
+            <span>
+              {summary.complete} of {summary.total} done
+              {summary.running > 0 && ` · ${summary.running} processing`}
+              {summary.pending > 0 && ` · ${summary.pending} queued`}
+              {summary.failed > 0 && ` · ${summary.failed} failed`}
+            </span>
+            <span>
+              {formatFileSize(summary.totalBytes)}
+              {summary.fragmentCount > 0 && ` · ${summary.fragmentCount} fragments`}
+              {summary.estimatedTimeLeft > 0 && ` · ${formatTime(summary.estimatedTimeLeft)} left`}
+            </span>
+          </div>
+          <Progress value={summary.progress} className="h-3" />
+          {isPaused && (
+            <p className="text-xs text-slate-500">Queue paused: running jobs finish, queued jobs wait.</p>
+          )}
+        </div>
+
+        {/* Trabajos */}
+        <ul className="space-y-2">
+          <AnimatePresence initial={false}>
+            {jobs.map(job => (
+              <motion.li
+                key={job.id}
+                initial={{ opacity: 0, height: 0 }}
+                animate={{ opacity: 1, height: 'auto' }}
+                exit={{ opacity: 0, height: 0 }}
+                className="rounded-lg border border-slate-200 p-3 dark:border-slate-700"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <StatusIcon status={job.status} />
+                      <p className="truncate text-sm font-medium text-slate-900 dark:text-white">{job.source.name}</p>
+                      <span className="flex-shrink-0 text-xs text-slate-500">
+                        {formatFileSize(job.source.size)} · {STATUS_LABELS[job.status]}
+                      </span>
+                    </div>
+                    {job.status === 'running' && <Progress value={job.progress} className="h-2" />}
+                    <p className="truncate text-xs text-slate-500" title={job.message}>{job.message}</p>
+                    {job.status === 'pending' && renderJobOptions(job)}
+                    {job.status === 'complete' && job.result?.sizeReport && (
+                      <FragmentSizeReport report={job.result.sizeReport} className="pt-1" />
+                    )}
+                  </div>
+
+                  <div className="flex flex-shrink-0 items-center space-x-1">
+                    {job.status === 'complete' && (
+                      <Button variant="outline" size="sm" onClick={() => downloadJob(job.id)}>
+                        <Download className="h-4 w-4 mr-1" />
+                        Download
+                      </Button>
+                    )}
+                    {(job.status === 'error' || job.status === 'cancelled') && (
+                      <Button variant="ghost" size="icon" onClick={() => retryJob(job.id)} aria-label={`Retry ${job.source.name}`}>
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {(job.status === 'pending' || job.status === 'running') && (
+                      <Button variant="ghost" size="icon" onClick={() => cancelJob(job.id)} aria-label={`Cancel ${job.source.name}`}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {job.status !== 'running' && (
+                      <Button variant="ghost" size="icon" onClick={() => removeJob(job.id)} aria-label={`Remove ${job.source.name}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </motion.li>
+            ))}
+          </AnimatePresence>
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
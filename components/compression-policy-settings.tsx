@@ -0,0 +1,144 @@
+/**
+ * Compression Policy Settings Component
+ * Tabla editable de niveles de compresión por extensión o tipo MIME
+ */
+'use client';
+
+import React from 'react';
+import { FileType, Info, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useAppState, useAppActions } from '@/hooks/use-app-state';
+import { DEFAULT_COMPRESSION_RULES, getCompressionRuleError } from '@/lib/compression-policy';
+import type { CompressionRule } from '@/types/processing';
+
+interface CompressionPolicySettingsProps {
+  disabled?: boolean;
+}
+
+const inputClassName = 'w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-primary dark:border-slate-600 dark:bg-slate-800 dark:text-white';
+
+const LEVEL_OPTIONS = [
+  { value: 0, label: 'Store (no compression)' },
+  { value: 1, label: 'Deflate 1 (fastest)' },
+  { value: 3, label: 'Deflate 3' },
+  { value: 6, label: 'Deflate 6 (balanced)' },
+  { value: 9, label: 'Deflate 9 (smallest)' }
+];
+
+/**
+ * Componente de la política de compresión por tipo de archivo
+ */
+export function CompressionPolicySettings({ disabled = false }: CompressionPolicySettingsProps) {
+  const { state } = useAppState();
+  const actions = useAppActions();
+
+  const rules = state.processingConfig.compressionRules;
+  // Las filas sin extensión todavía se están editando: no se usan al procesar
+  const ruleError = getCompressionRuleError(rules.filter(rule => rule.match.trim().length > 0));
+
+  const updateRule = (index: number, changes: Partial<CompressionRule>) => {
+    actions.updateConfig({
+      compressionRules: rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    });
+  };
+
+  const removeRule = (index: number) => {
+    actions.updateConfig({ compressionRules: rules.filter((_, i) => i !== index) });
+  };
+
+  // Un nivel fuera de las opciones (por ejemplo, editado a mano) sigue apareciendo en la lista
+  const getLevelOptions = (level: number) =>
+    LEVEL_OPTIONS.some(option => option.value === level)
+      ? LEVEL_OPTIONS
+      : [...LEVEL_OPTIONS, { value: level, label: `Deflate ${level}` }].sort((a, b) => a.value - b.value);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <FileType className="h-4 w-4 text-slate-500" />
+          <Label className="text-sm font-medium">Compression by File Type</Label>
+        </div>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Info className="h-4 w-4 text-slate-400 cursor-help" />
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Sets the level for entries with a given extension (jpg, tar.gz) or MIME type (image/*, video/mp4). The first matching rule wins; other files use the compression level above. Photos, videos and archives are already compressed, so storing them saves time without making fragments bigger.</p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-xs text-slate-500">No rules: every entry uses the compression level above.</p>
+      ) : (
+        <div className="max-h-64 space-y-2 overflow-y-auto pr-1">
+          {rules.map((rule, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                placeholder="jpg or image/*"
+                value={rule.match}
+                onChange={(event) => updateRule(index, { match: event.target.value })}
+                disabled={disabled}
+                aria-label="Extension or MIME type"
+                className={`${inputClassName} font-mono text-xs`}
+              />
+              <Select
+                value={rule.level.toString()}
+                onValueChange={(value) => updateRule(index, { level: parseInt(value) })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-52 flex-shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {getLevelOptions(rule.level).map(option => (
+                    <SelectItem key={option.value} value={option.value.toString()}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeRule(index)}
+                disabled={disabled}
+                aria-label={`Remove rule ${rule.match}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {ruleError && (
+        <p className="text-xs text-status-error-border">{ruleError}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => actions.updateConfig({ compressionRules: [...rules, { match: '', level: 0 }] })}
+          disabled={disabled}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add rule
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => actions.updateConfig({ compressionRules: DEFAULT_COMPRESSION_RULES })}
+          disabled={disabled}
+        >
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Restore defaults
+        </Button>
+      </div>
+    </div>
+  );
+}
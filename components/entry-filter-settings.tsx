@@ -0,0 +1,177 @@
+/**
+ * Entry Filter Settings Component
+ * Patrones de inclusión y exclusión de entradas, con presets de archivos basura y una
+ * vista previa de lo que descarta cada patrón en el archivo seleccionado
+ */
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Filter, Info } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useAppState, useAppActions } from '@/hooks/use-app-state';
+import { createArchiveReader } from '@/lib/archive-reader';
+import { ENTRY_FILTER_PRESETS, EntryFilter, getPatternError, type EntryFilterPreset } from '@/lib/entry-filter';
+import type { ZipEntryInfo } from '@/lib/zip-reader';
+
+interface EntryFilterSettingsProps {
+  disabled?: boolean;
+}
+
+const inputClassName = 'w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-primary dark:border-slate-600 dark:bg-slate-800 dark:text-white';
+
+/**
+ * Componente de los filtros de entradas
+ */
+export function EntryFilterSettings({ disabled = false }: EntryFilterSettingsProps) {
+  const { state } = useAppState();
+  const actions = useAppActions();
+
+  const [entries, setEntries] = useState<ZipEntryInfo[] | null>(null);
+
+  const { includePatterns, excludePatterns } = state.processingConfig;
+  // En modo raw el archivo se corta tal cual: no hay entradas que filtrar
+  const isRawMode = state.processingConfig.splitMode === 'raw';
+
+  // Solo se lee el directorio central (o el índice del TAR, o la lista de la carpeta)
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+
+    if (state.currentFile) {
+      createArchiveReader(state.currentFile).readCentralDirectory()
+        .then(archive => {
+          if (!cancelled) setEntries(archive.entries);
+        })
+        .catch(() => {
+          // No es un archivo legible: sin vista previa
+        });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [state.currentFile]);
+
+  const patternError = getPatternError(includePatterns) ?? getPatternError(excludePatterns);
+
+  const preview = useMemo(() => {
+    if (!entries || patternError) return null;
+    return new EntryFilter(includePatterns, excludePatterns).preview(entries);
+  }, [entries, includePatterns, excludePatterns, patternError]);
+
+  // Helper para formatear bytes
+  const formatBytes = (bytes: number): string => {
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    if (bytes === 0) return '0 Bytes';
+    const i = Math.floor(Math.log(bytes) / Math.log(1024));
+    return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+  };
+
+  const isPresetActive = (preset: EntryFilterPreset) =>
+    preset.patterns.every(pattern => excludePatterns.includes(pattern));
+
+  // Un preset agrega o quita sus patrones de la lista de exclusión, que sigue siendo editable
+  const togglePreset = (preset: EntryFilterPreset, checked: boolean) => {
+    const others = excludePatterns.filter(pattern => !preset.patterns.includes(pattern));
+    actions.updateConfig({
+      excludePatterns: checked
+        ? [...others.filter(pattern => pattern.trim().length > 0), ...preset.patterns]
+        : others
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Filter className="h-4 w-4 text-slate-500" />
+          <Label className="text-sm font-medium">Include / Exclude Files</Label>
+        </div>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Info className="h-4 w-4 text-slate-400 cursor-help" />
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>One glob per line, as in .gitignore: *.log matches at any depth, a pattern with a slash is relative to the archive root and node_modules/ drops a whole folder. Exclude patterns win over include patterns. Excluded entries are listed in the manifest.</p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+
+      <div className="space-y-2">
+        {ENTRY_FILTER_PRESETS.map(preset => (
+          <div key={preset.id} className="flex items-center justify-between">
+            <div className="min-w-0">
+              <Label htmlFor={`filter-preset-${preset.id}`} className="text-sm">{preset.label}</Label>
+              <p className="truncate text-xs text-slate-500" title={preset.patterns.join('  ')}>{preset.description}</p>
+            </div>
+            <Switch
+              id={`filter-preset-${preset.id}`}
+              checked={isPresetActive(preset)}
+              onCheckedChange={(checked) => togglePreset(preset, checked)}
+              disabled={disabled || isRawMode}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="exclude-patterns" className="text-xs text-slate-500">Exclude</Label>
+        <textarea
+          id="exclude-patterns"
+          placeholder={'__MACOSX/\n*.log'}
+          value={excludePatterns.join('\n')}
+          onChange={(event) => actions.updateConfig({ excludePatterns: event.target.value.split('\n') })}
+          disabled={disabled || isRawMode}
+          rows={4}
+          className={`${inputClassName} font-mono text-xs`}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="include-patterns" className="text-xs text-slate-500">Include only (leave empty to keep everything)</Label>
+        <textarea
+          id="include-patterns"
+          placeholder={'src/\n*.{png,jpg}'}
+          value={includePatterns.join('\n')}
+          onChange={(event) => actions.updateConfig({ includePatterns: event.target.value.split('\n') })}
+          disabled={disabled || isRawMode}
+          rows={2}
+          className={`${inputClassName} font-mono text-xs`}
+        />
+      </div>
+
+      {patternError && (
+        <p className="text-xs text-status-error-border">{patternError}</p>
+      )}
+
+      {preview && !isRawMode && (
+        <div className="space-y-1 text-xs">
+          <p className="text-slate-600 dark:text-slate-400">
+            Keeps {preview.keptFiles} of {preview.totalFiles} files ({formatBytes(preview.keptBytes)} of {formatBytes(preview.totalBytes)})
+          </p>
+          {preview.keptFiles === 0 && preview.totalFiles > 0 && (
+            <p className="text-status-error-border">These filters leave no files to split.</p>
+          )}
+          {preview.rules.filter(rule => rule.files > 0).map((rule, index) => (
+            <div key={`${index}-${rule.pattern}`} className="flex items-center justify-between gap-3 text-slate-500">
+              <span className="truncate font-mono">{rule.pattern}</span>
+              <span className="flex-shrink-0">−{rule.files} files · {formatBytes(rule.bytes)}</span>
+            </div>
+          ))}
+          {preview.notIncluded.files > 0 && (
+            <div className="flex items-center justify-between gap-3 text-slate-500">
+              <span className="truncate">Not matched by include patterns</span>
+              <span className="flex-shrink-0">−{preview.notIncluded.files} files · {formatBytes(preview.notIncluded.bytes)}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {isRawMode && (
+        <p className="text-xs text-slate-500">Raw parts split the file as it is, so filters do not apply.</p>
+      )}
+    </div>
+  );
+}
@@ -4,28 +4,44 @@
  */
 'use client';
 
-import React, { useCallback, useEffect } from 'react';
-import { useDropzone } from 'react-dropzone';
+import React, { useCallback, useEffect, useRef } from 'react';
+import { useDropzone, type DropEvent } from 'react-dropzone';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Upload, 
   FileArchive, 
+  Folder,
+  FolderOpen,
   AlertCircle, 
   CheckCircle, 
   X,
   HardDrive,
   Zap,
   Loader2,
-  BarChart3
+  BarChart3,
+  Lock
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { useAppState, useAppActions } from '@/hooks/use-app-state';
 import { useProcessing } from '@/hooks/use-processing';
 import { useStrategySelection } from '@/hooks/use-strategy-selection';
 import { useErrorHandling } from '@/hooks/use-error-handling';
+import { useBatchQueue } from '@/hooks/use-batch-queue';
 import { GoogleAuthFlow } from './google-auth-flow';
+import { getArchiveFormat } from '@/lib/archive-reader';
+import {
+  FileCollection,
+  canPickDirectory,
+  pickDirectory,
+  readDataTransfer,
+  readFileList,
+  type InputSource,
+} from '@/lib/file-collection';
 import type { FileUploadProps, FileInfo, UploadError, ProcessingStrategy } from '@/types/ui';
+import type { SourceFile } from '@/types/processing';
 
 /**
  * Determines processing strategy based on file size
@@ -48,15 +64,15 @@ const formatFileSize = (bytes: number): string => {
 };
 
 /**
- * Validates if file is a valid ZIP file
+ * Validates if file is a valid ZIP or TAR archive
  */
 const validateFile = (file: File): UploadError | null => {
   // Check file type
-  if (!file.type.includes('zip') && !file.name.toLowerCase().endsWith('.zip')) {
+  if (!file.type.includes('zip') && !getArchiveFormat(file.name)) {
     return {
       code: 'INVALID_TYPE',
       message: 'Invalid file type',
-      details: 'Only ZIP files are supported. Please select a .zip file.'
+      details: 'Only ZIP, TAR and TAR.GZ files are supported. Please select a .zip, .tar, .tar.gz or .tgz file.'
     };
   }
 
@@ -75,7 +91,7 @@ const validateFile = (file: File): UploadError | null => {
     return {
       code: 'FILE_TOO_SMALL',
       message: 'File too small',
-      details: 'File appears to be empty or corrupted. Please select a valid ZIP file.'
+      details: 'File appears to be empty or corrupted. Please select a valid archive.'
     };
   }
 
@@ -88,11 +104,125 @@ export function FileUploader({ onFileSelect, onError, className, disabled }: Fil
   const { validateFile, analyzeCurrentFile, capabilities } = useProcessing();
   const { availableStrategies, selectStrategy } = useStrategySelection();
   const { reportError } = useErrorHandling();
+  const { enqueueFiles } = useBatchQueue();
+  const isRawMode = state.processingConfig.splitMode === 'raw';
+
+  // Estrategia que se aplicará: la elegida o, si aún no hay ninguna, la recomendada por tamaño
+  const usesDrive = useCallback((size: number) =>
+    (state.selectedStrategy?.type ?? determineStrategy(size)) === 'CLIENT_DRIVE',
+  [state.selectedStrategy]);
+
+  // Árbol de la última carpeta soltada, recorrido antes de que react-dropzone llame a onDrop
+  const droppedSourcesRef = useRef<SourceFile[] | null>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+
+  const selectSource = useCallback(async (file: InputSource) => {
+    // Validate file
+    const validation = validateFile(file);
+    if (!validation.valid) {
+      const error: UploadError = {
+        code: 'VALIDATION_FAILED',
+        message: 'File validation failed',
+        details: validation.error || 'Unknown validation error'
+      };
+      
+      reportError({
+        code: 'VALIDATION_FAILED',
+        message: validation.error || 'File validation failed',
+        recoverable: true,
+        suggestedAction: isRawMode
+          ? 'Please select a single, non-empty file'
+          : 'Please select a ZIP or TAR archive, a folder or some files'
+      }, { component: 'FileUploader', action: 'file_validation' });
+      
+      onError?.(error);
+      return;
+    }
+
+    try {
+      // Si el archivo va a usar Drive (la estrategia elegida o, sin elegir, la recomendada
+      // para archivos grandes) hace falta sesión: se espera a la autenticación y
+      // GoogleAuthFlow lo analiza al terminar. Con Lightning Fast elegido no se bloquea,
+      // porque el modo local lee por demanda archivos del mismo tamaño
+      const requiredStrategy = determineStrategy(file.size);
+      if (usesDrive(file.size) && !state.isGoogleAuthenticated) {
+        actions.setFile(file);
+        actions.addNotification({
+          type: 'info',
+          title: 'Google Drive Authentication Required',
+          message: `The Google Drive strategy needs you to sign in before the file is analyzed. Sign in to continue, or switch to Lightning Fast and select the file again to split it locally.`
+        });
+        return;
+      }
+      
+      // Set file in global state
+      actions.setFile(file);
+      
+      // Auto-analyze file
+      await analyzeCurrentFile();
+      
+      // Create file info for callback compatibility
+      const fileInfo: FileInfo = {
+        file,
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        lastModified: file.lastModified,
+        strategy: requiredStrategy,
+      };
+
+      onFileSelect?.(fileInfo);
+      
+    } catch (error) {
+      reportError(error as Error, { 
+        component: 'FileUploader', 
+        action: 'file_analysis' 
+      });
+    }
+  }, [actions, analyzeCurrentFile, validateFile, reportError, onFileSelect, onError, isRawMode, usesDrive, state.isGoogleAuthenticated]);
+
+  // Encolar varios archivos como trabajos independientes; los no válidos se descartan
+  const enqueueArchives = useCallback((files: File[]) => {
+    const valid = files.filter(file => validateFile(file).valid);
+    const skipped = files.length - valid.length;
+    const added = enqueueFiles(valid);
+
+    if (added > 0) {
+      actions.addNotification({
+        type: 'info',
+        title: 'Added to the batch queue',
+        message: `${added} file${added === 1 ? '' : 's'} queued` +
+          (skipped > 0 ? `, ${skipped} skipped because they are not valid` : '')
+      });
+    }
+  }, [validateFile, enqueueFiles, actions]);
+
+  // Un único ZIP o TAR (o cualquier archivo en modo raw) se procesa tal cual y varios
+  // van a la cola; carpetas y archivos sueltos se empaquetan directamente en los fragmentos
+  const selectSources = useCallback(async (sources: SourceFile[]) => {
+    const [first] = sources;
+    if (!first) return;
+
+    const files = sources.flatMap(source => (source.file ? [source.file] : []));
+    const allArchives = files.length === sources.length &&
+      files.every(file => isRawMode || getArchiveFormat(file.name));
+
+    if (allArchives && files.length > 1) {
+      enqueueArchives(files);
+    } else if (allArchives && first.file) {
+      await selectSource(first.file);
+    } else {
+      await selectSource(FileCollection.fromSources(sources));
+    }
+  }, [selectSource, enqueueArchives, isRawMode]);
 
   const onDrop = useCallback(async (acceptedFiles: File[], rejectedFiles: any[]) => {
     // Clear previous state
     actions.clearError();
 
+    const droppedSources = droppedSourcesRef.current;
+    droppedSourcesRef.current = null;
+
     // Handle rejected files
     if (rejectedFiles.length > 0) {
       const rejection = rejectedFiles[0];
@@ -113,94 +243,69 @@ export function FileUploader({ onFileSelect, onError, className, disabled }: Fil
       return;
     }
 
-    // Handle accepted file
-    if (acceptedFiles.length > 0) {
-      const file = acceptedFiles[0];
-      if (!file) return;
-      
-      // Validate file
-      const validation = validateFile(file);
-      if (!validation.valid) {
-        const error: UploadError = {
-          code: 'VALIDATION_FAILED',
-          message: 'File validation failed',
-          details: validation.error || 'Unknown validation error'
-        };
-        
-        reportError({
-          code: 'VALIDATION_FAILED',
-          message: validation.error || 'File validation failed',
-          recoverable: true,
-          suggestedAction: 'Please select a valid ZIP file'
-        }, { component: 'FileUploader', action: 'file_validation' });
-        
-        onError?.(error);
-        return;
-      }
+    // Handle accepted files and folders
+    await selectSources(droppedSources ?? readFileList(acceptedFiles));
+  }, [actions, selectSources, reportError, onError]);
 
-      try {
-        // Check if file requires Google Drive and user is not authenticated
-        const requiredStrategy = determineStrategy(file.size);
-        if (requiredStrategy === 'CLIENT_DRIVE' && !state.isGoogleAuthenticated) {
-          // Set file but don't analyze yet - user needs to authenticate first
-          actions.setFile(file);
-          
-          // Show notification about authentication requirement
-          actions.addNotification({
-            type: 'info',
-            title: 'Google Drive Authentication Required',
-            message: `Files larger than 100MB require Google Drive integration. Please sign in to continue.`
-          });
-          
-          return;
-        }
-        
-        // Set file in global state
-        actions.setFile(file);
-        
-        // Auto-analyze file
-        await analyzeCurrentFile();
-        
-        // Create file info for callback compatibility
-        const fileInfo: FileInfo = {
-          file,
-          name: file.name,
-          size: file.size,
-          type: file.type,
-          lastModified: file.lastModified,
-          strategy: requiredStrategy,
-        };
-
-        onFileSelect?.(fileInfo);
-        
-      } catch (error) {
-        reportError(error as Error, { 
-          component: 'FileUploader', 
-          action: 'file_analysis' 
-        });
+  // Las carpetas soltadas se recorren con webkitGetAsEntry; el diálogo de archivos
+  // y el arrastre en curso se resuelven como en react-dropzone
+  const getFilesFromEvent = useCallback(async (event: DropEvent): Promise<Array<File | DataTransferItem>> => {
+    if (Array.isArray(event)) {
+      return Promise.all(event.map(handle => handle.getFile()));
+    }
+
+    if ('dataTransfer' in event && event.dataTransfer) {
+      if (event.type !== 'drop') {
+        return Array.from(event.dataTransfer.items).filter(item => item.kind === 'file');
       }
+      const sources = await readDataTransfer(event.dataTransfer);
+      droppedSourcesRef.current = sources;
+      return sources.flatMap(source => (source.file ? [source.file] : []));
     }
-  }, [actions, analyzeCurrentFile, validateFile, reportError, onFileSelect, onError]);
+
+    const input = event.target;
+    return input instanceof HTMLInputElement && input.files ? Array.from(input.files) : [];
+  }, []);
 
   const { getRootProps, getInputProps, isDragActive, isDragReject } = useDropzone({
     onDrop,
-    accept: {
-      'application/zip': ['.zip'],
-      'application/x-zip-compressed': ['.zip'],
-    },
-    multiple: false,
+    getFilesFromEvent,
+    multiple: true,
     disabled: disabled || false,
     noClick: false,
     noKeyboard: false,
   });
 
+  // Elegir una carpeta: showDirectoryPicker si existe; si no, un input con webkitdirectory
+  const handleSelectFolder = async () => {
+    actions.clearError();
+    if (!canPickDirectory()) {
+      folderInputRef.current?.click();
+      return;
+    }
+
+    try {
+      await selectSources(await pickDirectory());
+    } catch (error) {
+      // Cerrar el diálogo sin elegir una carpeta no es un error
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      reportError(error as Error, { component: 'FileUploader', action: 'folder_selection' });
+    }
+  };
+
+  const handleFolderInput = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    await selectSources(readFileList(files));
+  };
+
   const clearSelection = () => {
     actions.clearFile();
   };
 
-  // Check if we need to show Google auth for large files
+  // Mostrar autenticación solo si el archivo va a usar Google Drive
   const needsGoogleAuth = state.currentFile && 
-    determineStrategy(state.currentFile.size) === 'CLIENT_DRIVE' && 
+    usesDrive(state.currentFile.size) && 
     !state.isGoogleAuthenticated;
 
   return (
@@ -242,7 +347,7 @@ export function FileUploader({ onFileSelect, onError, className, disabled }: Fil
                 ${!isDragActive && !isDragReject ? 'border-upload-idle-border bg-upload-idle hover:border-upload-hover-border hover:bg-upload-hover' : ''}
                 ${disabled || state.status === 'analyzing' ? 'cursor-not-allowed opacity-50' : ''}
               `}
-              aria-label="Drop ZIP file here or click to browse"
+              aria-label={isRawMode ? 'Drop any file here or click to browse' : 'Drop an archive, a folder or files here or click to browse'}
               role="button"
               tabIndex={0}
             >
@@ -266,10 +371,9 @@ export function FileUploader({ onFileSelect, onError, className, disabled }: Fil
               {/* Upload Text */}
               <div className="space-y-2">
                 <h3 className="text-xl font-semibold text-slate-900 dark:text-white">
-                  {state.status === 'analyzing' ? 'Analyzing ZIP file...' :
-                   isDragActive ? 
-                    (isDragReject ? 'Invalid file type' : 'Drop your ZIP file here') :
-                    'Drop your ZIP file here'
+                  {state.status === 'analyzing' ? 'Analyzing archive...' :
+                   isDragActive && isDragReject ? 'Invalid file type' :
+                   isRawMode ? 'Drop any file here' : 'Drop your archive, folder or files here'
                   }
                 </h3>
                 <p id="file-upload-description" className="text-sm text-slate-600 dark:text-slate-400">
@@ -279,7 +383,9 @@ export function FileUploader({ onFileSelect, onError, className, disabled }: Fil
                   }
                 </p>
                 <p className="text-xs text-slate-500 dark:text-slate-500">
-                  Supports ZIP files up to 10GB
+                  {isRawMode
+                    ? 'Raw mode: any file up to 10GB is cut into numbered parts'
+                    : 'Supports ZIP, TAR and TAR.GZ archives (TAR.GZ up to 256MB uncompressed), folders and loose files up to 10GB'}
                 </p>
               </div>
 
@@ -301,6 +407,33 @@ export function FileUploader({ onFileSelect, onError, className, disabled }: Fil
                 </div>
               </div>
             </div>
+
+            {/* Selección de carpeta fuera de la zona de arrastre para no abrir también el diálogo de archivos */}
+            {!isRawMode && (
+              <div className="mt-3 flex justify-center">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleSelectFolder}
+                  disabled={disabled || state.status === 'analyzing'}
+                >
+                  <FolderOpen className="h-4 w-4 mr-1" />
+                  Select a folder
+                </Button>
+                <input
+                  ref={(input) => {
+                    folderInputRef.current = input;
+                    input?.setAttribute('webkitdirectory', '');
+                  }}
+                  type="file"
+                  multiple
+                  onChange={handleFolderInput}
+                  className="hidden"
+                  aria-hidden="true"
+                  tabIndex={-1}
+                />
+              </div>
+            )}
           </motion.div>
         ) : (
           <motion.div
@@ -315,7 +448,11 @@ export function FileUploader({ onFileSelect, onError, className, disabled }: Fil
                 <div className="flex items-start justify-between">
                   <div className="flex items-start space-x-4">
                     <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-brand-primary">
-                      <FileArchive className="h-6 w-6 text-white" />
+                      {state.currentFile instanceof FileCollection ? (
+                        <Folder className="h-6 w-6 text-white" />
+                      ) : (
+                        <FileArchive className="h-6 w-6 text-white" />
+                      )}
                     </div>
                     
                     <div className="flex-1 space-y-2">
@@ -338,6 +475,11 @@ export function FileUploader({ onFileSelect, onError, className, disabled }: Fil
                         {state.fileAnalysis && (
                           <p>Entries: <span className="font-medium">{state.fileAnalysis.entryCount.toLocaleString()}</span></p>
                         )}
+                        {state.fileAnalysis?.duplicateFiles ? (
+                          <p>Duplicates: <span className="font-medium">
+                            {state.fileAnalysis.duplicateFiles.toLocaleString()} {state.fileAnalysis.duplicateFiles === 1 ? 'copy' : 'copies'}, {formatFileSize(state.fileAnalysis.duplicateBytes ?? 0)} saved when stored once
+                          </span></p>
+                        ) : null}
                       </div>
 
                       {/* Strategy Badge */}
@@ -388,6 +530,42 @@ export function FileUploader({ onFileSelect, onError, className, disabled }: Fil
                     <X className="h-4 w-4" />
                   </Button>
                 </div>
+
+                {/* Contraseña del archivo cifrado */}
+                {state.fileAnalysis?.encrypted && (
+                  <div className="mt-4 space-y-3 border-t border-slate-200 pt-4 dark:border-slate-700">
+                    <div className="flex items-center space-x-2">
+                      <Lock className="h-4 w-4 text-brand-primary" />
+                      <Label htmlFor="archive-password" className="text-sm font-medium">
+                        This archive is password protected
+                      </Label>
+                    </div>
+
+                    <input
+                      id="archive-password"
+                      type="password"
+                      autoComplete="off"
+                      placeholder="Archive password"
+                      value={state.inputPassword ?? ''}
+                      onChange={(event) => actions.setPassword(event.target.value || null)}
+                      disabled={state.status === 'processing'}
+                      className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-primary dark:border-slate-600 dark:bg-slate-800 dark:text-white"
+                    />
+                    <p className="text-xs text-slate-500">
+                      Without the password, encrypted entries are copied as they are and cannot be split into parts.
+                    </p>
+
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="keep-encryption" className="text-sm">Keep entries encrypted in fragments</Label>
+                      <Switch
+                        id="keep-encryption"
+                        checked={state.processingConfig.keepEncryption}
+                        onCheckedChange={(checked) => actions.updateConfig({ keepEncryption: checked })}
+                        disabled={!state.inputPassword}
+                      />
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </motion.div>
@@ -0,0 +1,66 @@
+/**
+ * FragmentSizeReport Component
+ * Ocupación de cada fragmento respecto al tamaño solicitado: tamaño final, porcentaje
+ * del límite y si se reempaquetó tras superarlo
+ */
+'use client';
+
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import type { FragmentSizeReport as FragmentSizeReportEntry } from '@/types/processing';
+
+interface FragmentSizeReportProps {
+  report: FragmentSizeReportEntry[];
+  className?: string;
+}
+
+/**
+ * Formats file size for display
+ */
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export function FragmentSizeReport({ report, className }: FragmentSizeReportProps) {
+  if (report.length === 0) {
+    return null;
+  }
+
+  const fullest = Math.max(...report.map(fragment => fragment.utilization));
+  const limit = report[0]!.limit;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <p className="text-xs text-slate-500">
+        Size limit {formatFileSize(limit)} · fullest fragment uses {(fullest * 100).toFixed(1)}%
+      </p>
+      <ul className="max-h-48 space-y-1 overflow-y-auto pr-1">
+        {report.map(fragment => {
+          const overLimit = fragment.size > fragment.limit;
+
+          return (
+            <li key={fragment.fragmentId} className="grid grid-cols-[minmax(0,1fr)_6rem_7rem] items-center gap-2 text-xs">
+              <span className="truncate text-slate-700 dark:text-slate-300" title={fragment.name}>
+                {fragment.name}
+                {fragment.repacked && <span className="ml-1 text-slate-400">(repacked)</span>}
+              </span>
+              <Progress
+                value={Math.min(100, fragment.utilization * 100)}
+                className={cn('h-2', overLimit && 'bg-red-100')}
+                aria-label={`${fragment.name} uses ${(fragment.utilization * 100).toFixed(1)}% of the size limit`}
+              />
+              <span className={cn('text-right tabular-nums', overLimit ? 'text-red-600' : 'text-slate-500')}>
+                {formatFileSize(fragment.size)} · {(fragment.utilization * 100).toFixed(1)}%
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
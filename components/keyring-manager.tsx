@@ -0,0 +1,265 @@
+/**
+ * Keyring Manager Component
+ * Keyring local de claves públicas de destinatarios y descifrado de fragmentos
+ * recibidos con una clave privada importada
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { saveAs } from 'file-saver';
+import { KeyRound, Trash2, Plus, Download, Unlock, Info } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useAppState, useAppActions } from '@/hooks/use-app-state';
+import {
+  ENVELOPE_EXTENSION,
+  formatFingerprint,
+  generateRecipientKeyPair,
+  importPrivateKey,
+  openBlob,
+  parsePublicKey
+} from '@/lib/envelope-crypto';
+import type { EnvelopeAlgorithm } from '@/types/processing';
+
+interface KeyringManagerProps {
+  disabled?: boolean;
+}
+
+const inputClassName = 'w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-primary dark:border-slate-600 dark:bg-slate-800 dark:text-white';
+
+/**
+ * Componente del keyring de destinatarios
+ */
+export function KeyringManager({ disabled = false }: KeyringManagerProps) {
+  const { state } = useAppState();
+  const actions = useAppActions();
+
+  const [keyName, setKeyName] = useState('');
+  const [keyText, setKeyText] = useState('');
+  const [algorithm, setAlgorithm] = useState<EnvelopeAlgorithm>('ECDH-P256');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const selected = state.processingConfig.recipientFingerprints;
+
+  // Helper para notificar errores de claves
+  const notifyError = (title: string, error: unknown) => {
+    actions.addNotification({
+      type: 'error',
+      title,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  };
+
+  const toggleRecipient = (fingerprint: string, checked: boolean) => {
+    actions.updateConfig({
+      recipientFingerprints: checked
+        ? [...selected, fingerprint]
+        : selected.filter(item => item !== fingerprint)
+    });
+  };
+
+  // Agregar la clave pública pegada o cargada desde archivo
+  const handleAddKey = async () => {
+    try {
+      const key = await parsePublicKey(keyText, keyName);
+      actions.addRecipientKey(key);
+      setKeyText('');
+      setKeyName('');
+    } catch (error) {
+      notifyError('Invalid public key', error);
+    }
+  };
+
+  const handleKeyFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setKeyText(await file.text());
+      setKeyName(current => current || file.name.replace(/\.[^/.]+$/, ''));
+    }
+    event.target.value = '';
+  };
+
+  // Generar un par de claves propio: la privada solo se descarga, nunca se guarda
+  const handleGenerate = async () => {
+    setIsBusy(true);
+    try {
+      const { recipient, privateKey } = await generateRecipientKeyPair(keyName, algorithm);
+      actions.addRecipientKey(recipient);
+      saveAs(
+        new Blob([JSON.stringify(privateKey, null, 2)], { type: 'application/json' }),
+        `${recipient.name.replace(/[^\w.-]+/g, '_')}.private-key.json`
+      );
+      setKeyName('');
+
+      actions.addNotification({
+        type: 'success',
+        title: 'Key pair generated',
+        message: 'Keep the downloaded private key safe: it is the only way to decrypt fragments sent to this key'
+      });
+    } catch (error) {
+      notifyError('Key generation failed', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Descifrar fragmentos recibidos con una clave privada importada
+  const handleDecrypt = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = new FormData(event.currentTarget);
+    const keyFile = form.get('private-key');
+    const fragments = form.getAll('encrypted-fragments').filter((item): item is File =>
+      item instanceof File && item.size > 0
+    );
+
+    if (!(keyFile instanceof File) || keyFile.size === 0 || fragments.length === 0) {
+      notifyError('Nothing to decrypt', new Error('Select a private key and at least one encrypted fragment'));
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const privateKey = await importPrivateKey(await keyFile.text());
+
+      for (const fragment of fragments) {
+        const decrypted = await openBlob(fragment, privateKey);
+        const name = fragment.name.endsWith(ENVELOPE_EXTENSION)
+          ? fragment.name.slice(0, -ENVELOPE_EXTENSION.length)
+          : `${fragment.name}.zip`;
+        saveAs(decrypted, name);
+      }
+
+      actions.addNotification({
+        type: 'success',
+        title: 'Fragments decrypted',
+        message: `Decrypted ${fragments.length} fragment${fragments.length === 1 ? '' : 's'}`
+      });
+    } catch (error) {
+      notifyError('Decryption failed', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <KeyRound className="h-4 w-4 text-slate-500" />
+        <Label className="text-sm font-medium">Recipient keys</Label>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Info className="h-4 w-4 text-slate-400 cursor-help" />
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>Each fragment is encrypted so that only the selected recipients can open it, even from a public link. Only public keys are stored in this browser.</p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+
+      {state.keyring.length === 0 ? (
+        <p className="text-xs text-slate-500">No recipient keys yet. Add a public key or generate your own key pair.</p>
+      ) : (
+        <div className="space-y-2">
+          {state.keyring.map(key => (
+            <div key={key.fingerprint} className="flex items-center justify-between rounded-md border border-slate-200 p-2 dark:border-slate-700">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium">{key.name}</p>
+                <p className="font-mono text-xs text-slate-500" title={key.fingerprint}>
+                  {key.algorithm} · {formatFingerprint(key.fingerprint)}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  checked={selected.includes(key.fingerprint)}
+                  onCheckedChange={(checked) => toggleRecipient(key.fingerprint, checked)}
+                  disabled={disabled}
+                  aria-label={`Encrypt fragments for ${key.name}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => actions.removeRecipientKey(key.fingerprint)}
+                  disabled={disabled}
+                  aria-label={`Remove ${key.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          placeholder="Key name"
+          value={keyName}
+          onChange={(event) => setKeyName(event.target.value)}
+          disabled={disabled || isBusy}
+          className={inputClassName}
+        />
+        <textarea
+          placeholder="Paste a public key (PEM or JWK)"
+          value={keyText}
+          onChange={(event) => setKeyText(event.target.value)}
+          disabled={disabled || isBusy}
+          rows={3}
+          className={`${inputClassName} font-mono text-xs`}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handleAddKey} disabled={disabled || isBusy || !keyText.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add public key
+          </Button>
+          <Label className="cursor-pointer text-xs text-brand-primary">
+            Load from file
+            <input type="file" accept=".pem,.json,.jwk,.pub" onChange={handleKeyFile} className="hidden" />
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={algorithm} onValueChange={(value) => setAlgorithm(value as EnvelopeAlgorithm)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ECDH-P256">ECDH P-256</SelectItem>
+              <SelectItem value="RSA-OAEP">RSA-OAEP 3072</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleGenerate} disabled={disabled || isBusy}>
+            <Download className="h-4 w-4 mr-1" />
+            Generate key pair
+          </Button>
+        </div>
+      </div>
+
+      <form onSubmit={handleDecrypt} className="space-y-2 rounded-md bg-slate-50 p-3 dark:bg-slate-800/50">
+        <Label className="text-sm font-medium">Decrypt received fragments</Label>
+        <div className="space-y-1">
+          <Label htmlFor="private-key" className="text-xs text-slate-500">Private key (JWK or PEM)</Label>
+          <input id="private-key" name="private-key" type="file" accept=".json,.jwk,.pem,.key" className="block w-full text-xs" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="encrypted-fragments" className="text-xs text-slate-500">Encrypted fragments ({ENVELOPE_EXTENSION})</Label>
+          <input
+            id="encrypted-fragments"
+            name="encrypted-fragments"
+            type="file"
+            multiple
+            accept={ENVELOPE_EXTENSION}
+            className="block w-full text-xs"
+          />
+        </div>
+        <p className="text-xs text-slate-500">The private key never leaves this browser.</p>
+        <Button type="submit" variant="outline" size="sm" disabled={isBusy}>
+          <Unlock className="h-4 w-4 mr-1" />
+          Decrypt and download
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+/**
+ * MergeFragments Component
+ * Modo de reensamblado: recibe todos los fragmentos y el manifest.json, informa de
+ * las partes que faltan, sobran o están dañadas y reconstruye el archivo original
+ */
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import {
+  Combine,
+  CheckCircle,
+  AlertCircle,
+  Download,
+  HardDriveDownload,
+  Upload,
+  X
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { useAppActions } from '@/hooks/use-app-state';
+import {
+  FragmentMerger,
+  canSaveToDisk,
+  saveMergeResult,
+  type FragmentCheckStatus,
+  type FragmentSetReport,
+  type MergeResult
+} from '@/lib/fragment-merger';
+import { findManifestFile, parseManifest } from '@/lib/manifest';
+import { importPrivateKey } from '@/lib/envelope-crypto';
+import type { ProcessingManifest } from '@/types/processing';
+
+interface MergeFragmentsProps {
+  className?: string;
+}
+
+const STATUS_LABELS: Record<FragmentCheckStatus, string> = {
+  'ok': 'Verified',
+  'missing': 'Missing',
+  'size-mismatch': 'Wrong size',
+  'checksum-mismatch': 'Checksum mismatch'
+};
+
+const inputClassName = 'w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-primary dark:border-slate-600 dark:bg-slate-800 dark:text-white';
+
+/**
+ * Formats file size for display
+ */
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export function MergeFragments({ className }: MergeFragmentsProps) {
+  const actions = useAppActions();
+  const mergerRef = useRef<FragmentMerger | null>(null);
+
+  const [files, setFiles] = useState<File[]>([]);
+  const [manifest, setManifest] = useState<ProcessingManifest | null>(null);
+  const [report, setReport] = useState<FragmentSetReport | null>(null);
+  const [result, setResult] = useState<MergeResult | null>(null);
+  const [password, setPassword] = useState('');
+  const [privateKeyFile, setPrivateKeyFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState({ value: 0, message: '' });
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    mergerRef.current = new FragmentMerger();
+    mergerRef.current.setProgressCallback((value, message) => setProgress({ value, message }));
+    return () => {
+      mergerRef.current?.dispose();
+      mergerRef.current = null;
+    };
+  }, []);
+
+  // Helper para notificar errores del reensamblado
+  const notifyError = (title: string, error: unknown) => {
+    actions.addNotification({
+      type: 'error',
+      title,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  };
+
+  // Cada nueva tanda se suma a la anterior: un archivo con el mismo nombre sustituye al previo
+  const onDrop = async (accepted: File[]) => {
+    if (!mergerRef.current || accepted.length === 0) return;
+
+    const names = new Set(accepted.map(file => file.name));
+    const all = [...files.filter(file => !names.has(file.name)), ...accepted];
+    setFiles(all);
+    setResult(null);
+    setReport(null);
+
+    const manifestFile = findManifestFile(all);
+    if (!manifestFile) {
+      setManifest(null);
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const parsed = parseManifest(await manifestFile.text());
+      setManifest(parsed);
+      setReport(await mergerRef.current.inspect(parsed, all.filter(file => file !== manifestFile)));
+    } catch (error) {
+      setManifest(null);
+      notifyError('Cannot check fragments', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    multiple: true,
+    disabled: isBusy
+  });
+
+  const handleMerge = async () => {
+    if (!mergerRef.current || !manifest || !report) return;
+
+    setIsBusy(true);
+    try {
+      const privateKey = privateKeyFile ? await importPrivateKey(await privateKeyFile.text()) : undefined;
+      const merged = await mergerRef.current.merge(manifest, report, {
+        ...(privateKey && { privateKey }),
+        ...(password && { password })
+      });
+      setResult(merged);
+
+      actions.addNotification({
+        type: 'success',
+        title: 'Fragments merged',
+        message: `${merged.name} rebuilt from ${report.fragments.length} fragment${report.fragments.length === 1 ? '' : 's'}`
+      });
+    } catch (error) {
+      notifyError('Merge failed', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async (toDisk: boolean) => {
+    if (!result) return;
+
+    try {
+      await saveMergeResult(result, toDisk);
+    } catch (error) {
+      // Cerrar el diálogo de guardado no es un error
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        notifyError('Could not save the file', error);
+      }
+    }
+  };
+
+  const handleClear = () => {
+    mergerRef.current?.abort();
+    setFiles([]);
+    setManifest(null);
+    setReport(null);
+    setResult(null);
+    setPassword('');
+    setPrivateKeyFile(null);
+    setProgress({ value: 0, message: '' });
+  };
+
+  const isRawSet = manifest?.metadata.splitMode === 'raw';
+  const needsPrivateKey = !!manifest?.metadata.recipients?.length;
+  const needsPassword = manifest?.metadata.encryption === 'winzip-aes-256' && !!manifest.chunkedEntries?.length;
+  const missingCount = report?.fragments.filter(fragment => fragment.status === 'missing').length ?? 0;
+  const damagedCount = report?.fragments.filter(fragment =>
+    fragment.status === 'size-mismatch' || fragment.status === 'checksum-mismatch'
+  ).length ?? 0;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="flex items-center space-x-2 text-lg">
+            <Combine className="h-5 w-5 text-brand-primary" />
+            <span>Merge fragments</span>
+          </CardTitle>
+          {files.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={handleClear}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div
+          {...getRootProps()}
+          className={`
+            cursor-pointer rounded-lg border-2 border-dashed p-6 text-center transition-colors
+            ${isDragActive ? 'border-upload-dragover-border bg-upload-dragover' : 'border-upload-idle-border bg-upload-idle hover:border-upload-hover-border'}
+            ${isBusy ? 'cursor-not-allowed opacity-50' : ''}
+          `}
+          aria-label="Drop all fragments and manifest.json here or click to browse"
+        >
+          <input {...getInputProps()} />
+          <Upload className="mx-auto mb-2 h-6 w-6 text-slate-400" />
+          <p className="text-sm font-medium text-slate-900 dark:text-white">Drop all fragments and manifest.json</p>
+          <p className="text-xs text-slate-500">
+            {files.length > 0
+              ? `${files.length} file${files.length === 1 ? '' : 's'} selected · drop more to add them`
+              : 'Fragments are checked against the manifest before anything is rebuilt'}
+          </p>
+        </div>
+
+        {files.length > 0 && !manifest && !isBusy && (
+          <p className="text-sm text-status-error-border">Add the manifest.json that was created with these fragments.</p>
+        )}
+
+        {isBusy && (
+          <div className="space-y-1">
+            <Progress value={progress.value} className="h-2" />
+            <p className="truncate text-xs text-slate-500">{progress.message}</p>
+          </div>
+        )}
+
+        {report && manifest && (
+          <div className="space-y-3">
+            {/* Resumen de la verificación */}
+            <div className="flex items-start space-x-2 text-sm">
+              {report.complete
+                ? <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-500" />
+                : <AlertCircle className="h-4 w-4 flex-shrink-0 text-status-error-border" />}
+              <p className="text-slate-600 dark:text-slate-400">
+                {report.complete
+                  ? `All ${report.fragments.length} fragments of ${manifest.originalFile.name} are present and verified.`
+                  : `${missingCount} missing and ${damagedCount} damaged of ${report.fragments.length} fragments.`}
+              </p>
+            </div>
+
+            <ul className="max-h-60 space-y-1 overflow-y-auto">
+              {report.fragments.map(fragment => (
+                <li key={fragment.id} className="flex items-center justify-between gap-3 text-xs">
+                  <span className="truncate text-slate-700 dark:text-slate-300">
+                    {fragment.order}. {fragment.name}
+                  </span>
+                  <span className={`flex-shrink-0 ${fragment.status === 'ok' ? 'text-green-600' : 'text-status-error-border'}`}>
+                    {formatFileSize(fragment.size)} · {STATUS_LABELS[fragment.status]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {report.orderErrors.map(error => (
+              <p key={error} className="text-xs text-status-error-border">{error}</p>
+            ))}
+            {report.extra.length > 0 && (
+              <p className="text-xs text-slate-500">
+                Not part of this set (ignored): {report.extra.join(', ')}
+              </p>
+            )}
+
+            {report.complete && needsPrivateKey && (
+              <div className="space-y-1">
+                <Label htmlFor="merge-private-key" className="text-xs text-slate-500">
+                  Private key (JWK or PEM) to open the encrypted fragments
+                </Label>
+                <input
+                  id="merge-private-key"
+                  type="file"
+                  accept=".json,.jwk,.pem,.key"
+                  onChange={(event) => setPrivateKeyFile(event.target.files?.[0] ?? null)}
+                  className="block w-full text-xs"
+                />
+              </div>
+            )}
+
+            {report.complete && needsPassword && (
+              <div className="space-y-1">
+                <Label htmlFor="merge-password" className="text-xs text-slate-500">
+                  Passphrase, needed to join encrypted entries that were split across fragments
+                </Label>
+                <input
+                  id="merge-password"
+                  type="password"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                  autoComplete="off"
+                  className={inputClassName}
+                />
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                onClick={handleMerge}
+                disabled={!report.complete || isBusy || (needsPrivateKey && !privateKeyFile)}
+              >
+                <Combine className="h-4 w-4 mr-1" />
+                {isRawSet ? 'Rebuild original file' : 'Rebuild archive'}
+              </Button>
+
+              {result && (
+                <>
+                  <Button variant="outline" onClick={() => handleSave(false)}>
+                    <Download className="h-4 w-4 mr-1" />
+                    Download {result.name}
+                  </Button>
+                  {canSaveToDisk() && (
+                    <Button variant="outline" onClick={() => handleSave(true)}>
+                      <HardDriveDownload className="h-4 w-4 mr-1" />
+                      Save to disk
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+
+            {result && (
+              <p className="text-xs text-slate-500">
+                {result.name} · {formatFileSize(result.blob.size)}
+                {!isRawSet && ` · ${result.entryCount} entries`}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
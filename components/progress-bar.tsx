@@ -24,6 +24,7 @@ import { useAppState } from '@/hooks/use-app-state';
 import { useProcessing } from '@/hooks/use-processing';
 import { useGoogleDrive } from '@/hooks/use-google-drive';
 import { DriveUploadProgress } from './drive-upload-progress';
+import { FragmentSizeReport } from './fragment-size-report';
 import type { ProgressBarProps, ProgressState } from '@/types/ui';
 
 /**
@@ -347,6 +348,10 @@ export function ProgressBar({ className }: ProgressBarComponentProps) {
                   </div>
                 )}
 
+                {state.sizeReport && state.selectedStrategy?.type === 'CLIENT_SIDE' && (
+                  <FragmentSizeReport report={state.sizeReport} />
+                )}
+
                 {state.googleDriveData && state.selectedStrategy?.type === 'CLIENT_DRIVE' && (
                   <div className="flex items-center justify-between">
                     <div className="text-sm text-slate-600">
@@ -0,0 +1,270 @@
+/**
+ * Signing Key Manager Component
+ * Clave de firma del manifest guardada en este navegador y claves públicas fijadas
+ * de otros firmantes
+ */
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { saveAs } from 'file-saver';
+import { FileSignature, Trash2, Plus, Download, Info } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useAppState, useAppActions } from '@/hooks/use-app-state';
+import { formatFingerprint } from '@/lib/envelope-crypto';
+import {
+  addTrustedSigner,
+  deleteSigningKey,
+  exportSigningPublicKey,
+  generateSigningKey,
+  getSigningKey,
+  listTrustedSigners,
+  removeTrustedSigner,
+  type SigningKeyInfo,
+  type TrustedSigner
+} from '@/lib/manifest-signing';
+
+interface SigningKeyManagerProps {
+  disabled?: boolean;
+}
+
+const inputClassName = 'w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-primary dark:border-slate-600 dark:bg-slate-800 dark:text-white';
+
+/**
+ * Componente de la firma de manifests
+ */
+export function SigningKeyManager({ disabled = false }: SigningKeyManagerProps) {
+  const { state } = useAppState();
+  const actions = useAppActions();
+
+  const [signingKey, setSigningKey] = useState<SigningKeyInfo | null | undefined>(undefined); // undefined mientras se carga
+  const [trustedSigners, setTrustedSigners] = useState<TrustedSigner[]>([]);
+  const [keyName, setKeyName] = useState('');
+  const [signerName, setSignerName] = useState('');
+  const [signerKeyText, setSignerKeyText] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Helper para notificar errores de claves
+  const notifyError = (title: string, error: unknown) => {
+    actions.addNotification({
+      type: 'error',
+      title,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  };
+
+  // Las claves viven en IndexedDB, fuera del estado persistido de la aplicación
+  useEffect(() => {
+    Promise.all([getSigningKey(), listTrustedSigners()])
+      .then(([key, signers]) => {
+        setSigningKey(key);
+        setTrustedSigners(signers);
+      })
+      .catch(() => {
+        // Sin IndexedDB no hay claves que mostrar
+        setSigningKey(null);
+      });
+  }, []);
+
+  // Sin clave no se puede firmar: desactivar la opción si se borró
+  useEffect(() => {
+    if (signingKey === null && state.processingConfig.signManifest) {
+      actions.updateConfig({ signManifest: false });
+    }
+  }, [signingKey, state.processingConfig.signManifest, actions]);
+
+  const exportPublicKey = (key: SigningKeyInfo) => {
+    saveAs(
+      new Blob([exportSigningPublicKey(key)], { type: 'application/x-pem-file' }),
+      `${key.name.replace(/[^\w.-]+/g, '_')}.signing-key.pem`
+    );
+  };
+
+  // Generar la clave de firma: la privada no puede exportarse, nunca sale de este navegador
+  const handleGenerate = async () => {
+    setIsBusy(true);
+    try {
+      const key = await generateSigningKey(keyName);
+      setSigningKey(key);
+      setKeyName('');
+      exportPublicKey(key);
+
+      actions.addNotification({
+        type: 'success',
+        title: 'Signing key generated',
+        message: 'Share the downloaded public key so recipients can pin it and recognise your manifests'
+      });
+    } catch (error) {
+      notifyError('Key generation failed', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteSigningKey();
+      setSigningKey(null);
+    } catch (error) {
+      notifyError('Could not delete the signing key', error);
+    }
+  };
+
+  // Fijar la clave pública pegada o cargada desde archivo
+  const handleAddSigner = async () => {
+    try {
+      const signer = await addTrustedSigner(signerKeyText, signerName);
+      setTrustedSigners(current => [
+        ...current.filter(item => item.fingerprint !== signer.fingerprint),
+        signer
+      ]);
+      setSignerKeyText('');
+      setSignerName('');
+    } catch (error) {
+      notifyError('Invalid signing key', error);
+    }
+  };
+
+  const handleSignerFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      setSignerKeyText(await file.text());
+      setSignerName(current => current || file.name.replace(/(\.signing-key)?\.[^/.]+$/, ''));
+    }
+    event.target.value = '';
+  };
+
+  const handleRemoveSigner = async (fingerprint: string) => {
+    try {
+      await removeTrustedSigner(fingerprint);
+      setTrustedSigners(current => current.filter(item => item.fingerprint !== fingerprint));
+    } catch (error) {
+      notifyError('Could not remove the signer', error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <FileSignature className="h-4 w-4 text-slate-500" />
+          <Label htmlFor="sign-manifest" className="text-sm font-medium">Sign manifest</Label>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Info className="h-4 w-4 text-slate-400 cursor-help" />
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Signs manifest.json with an ECDSA P-256 key kept in this browser. Because the manifest lists every fragment checksum, recipients can detect a swapped manifest or fragment.</p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+        <Switch
+          id="sign-manifest"
+          checked={state.processingConfig.signManifest}
+          onCheckedChange={(checked) => actions.updateConfig({ signManifest: checked })}
+          disabled={disabled || !signingKey}
+        />
+      </div>
+
+      {signingKey ? (
+        <div className="flex items-center justify-between rounded-md border border-slate-200 p-2 dark:border-slate-700">
+          <div className="min-w-0">
+            <p className="truncate text-sm font-medium">{signingKey.name}</p>
+            <p className="font-mono text-xs text-slate-500" title={signingKey.fingerprint}>
+              ECDSA P-256 · {formatFingerprint(signingKey.fingerprint)}
+            </p>
+          </div>
+          <div className="flex items-center space-x-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => exportPublicKey(signingKey)}
+              aria-label="Export signing public key"
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleDelete}
+              disabled={disabled}
+              aria-label="Delete signing key"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ) : signingKey === null && (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            placeholder="Signing key name"
+            value={keyName}
+            onChange={(event) => setKeyName(event.target.value)}
+            disabled={disabled || isBusy}
+            className={inputClassName}
+          />
+          <Button variant="outline" size="sm" onClick={handleGenerate} disabled={disabled || isBusy}>
+            <Plus className="h-4 w-4 mr-1" />
+            Generate
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Pinned signers</Label>
+        {trustedSigners.length === 0 ? (
+          <p className="text-xs text-slate-500">Pin the signing public keys of your partners to recognise their manifests when verifying.</p>
+        ) : (
+          trustedSigners.map(signer => (
+            <div key={signer.fingerprint} className="flex items-center justify-between rounded-md border border-slate-200 p-2 dark:border-slate-700">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium">{signer.name}</p>
+                <p className="font-mono text-xs text-slate-500" title={signer.fingerprint}>
+                  {formatFingerprint(signer.fingerprint)}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemoveSigner(signer.fingerprint)}
+                disabled={disabled}
+                aria-label={`Unpin ${signer.name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+        <input
+          type="text"
+          placeholder="Signer name"
+          value={signerName}
+          onChange={(event) => setSignerName(event.target.value)}
+          disabled={disabled}
+          className={inputClassName}
+        />
+        <textarea
+          placeholder="Paste a signing public key (PEM or JWK)"
+          value={signerKeyText}
+          onChange={(event) => setSignerKeyText(event.target.value)}
+          disabled={disabled}
+          rows={3}
+          className={`${inputClassName} font-mono text-xs`}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handleAddSigner} disabled={disabled || !signerKeyText.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Pin signer
+          </Button>
+          <Label className="cursor-pointer text-xs text-brand-primary">
+            Load from file
+            <input type="file" accept=".pem,.json,.jwk,.pub" onChange={handleSignerFile} className="hidden" />
+          </Label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+/**
+ * VerifyFragments Component
+ * Modo de verificación: comprueba un conjunto de fragmentos contra su manifest sin
+ * reconstruirlo y muestra un informe por fragmento que puede exportarse como JSON
+ */
+'use client';
+
+import React, { useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { saveAs } from 'file-saver';
+import {
+  ShieldCheck,
+  BadgeCheck,
+  CheckCircle,
+  AlertCircle,
+  AlertTriangle,
+  HelpCircle,
+  FileJson,
+  Upload,
+  X
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { useAppActions } from '@/hooks/use-app-state';
+import { useVerifyWorker } from '@/hooks/use-verify-worker';
+import { findManifestFile, parseManifest } from '@/lib/manifest';
+import { formatFingerprint, importPrivateKey } from '@/lib/envelope-crypto';
+import type { FragmentVerificationStatus, VerificationReport } from '@/lib/fragment-verifier';
+import type { SignatureCheck } from '@/lib/manifest-signing';
+import type { ProcessingManifest } from '@/types/processing';
+
+interface VerifyFragmentsProps {
+  className?: string;
+}
+
+const STATUS_LABELS: Record<FragmentVerificationStatus, string> = {
+  pass: 'Pass',
+  fail: 'Fail',
+  missing: 'Missing'
+};
+
+const inputClassName = 'w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-brand-primary dark:border-slate-600 dark:bg-slate-800 dark:text-white';
+
+const StatusIcon = ({ status }: { status: FragmentVerificationStatus }) => {
+  switch (status) {
+    case 'pass':
+      return <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-500" />;
+    case 'fail':
+      return <AlertCircle className="h-4 w-4 flex-shrink-0 text-status-error-border" />;
+    default:
+      return <HelpCircle className="h-4 w-4 flex-shrink-0 text-slate-400" />;
+  }
+};
+
+// Quién firmó el manifest: la huella siempre se muestra para compararla con el remitente
+const SignatureSummary = ({ check }: { check: SignatureCheck }) => {
+  const fingerprint = check.fingerprint ? formatFingerprint(check.fingerprint) : '';
+
+  switch (check.status) {
+    case 'valid':
+      return (
+        <div className="flex items-start space-x-2 text-xs">
+          <BadgeCheck className="h-4 w-4 flex-shrink-0 text-green-500" />
+          <p className="text-slate-600 dark:text-slate-400">
+            Manifest signed by <strong>{check.signer}</strong>
+            <span className="block font-mono" title={check.fingerprint}>{fingerprint}</span>
+          </p>
+        </div>
+      );
+    case 'untrusted':
+      return (
+        <div className="flex items-start space-x-2 text-xs">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0 text-yellow-600 dark:text-yellow-400" />
+          <p className="text-yellow-700 dark:text-yellow-200">
+            Manifest signed by a key you have not pinned: anyone can re-sign a modified manifest with a new key.
+            Compare this fingerprint with the sender and pin their key in Advanced Settings to trust it.
+            <span className="block font-mono" title={check.fingerprint}>{fingerprint}</span>
+          </p>
+        </div>
+      );
+    case 'invalid':
+      return (
+        <div className="flex items-start space-x-2 text-xs">
+          <AlertCircle className="h-4 w-4 flex-shrink-0 text-status-error-border" />
+          <p className="text-status-error-border">
+            Invalid manifest signature: {check.error}
+            {fingerprint && <span className="block font-mono" title={check.fingerprint}>{fingerprint}</span>}
+          </p>
+        </div>
+      );
+    default:
+      return (
+        <div className="flex items-start space-x-2 text-xs">
+          <HelpCircle className="h-4 w-4 flex-shrink-0 text-slate-400" />
+          <p className="text-slate-500">The manifest is not signed, so a replaced manifest cannot be detected.</p>
+        </div>
+      );
+  }
+};
+
+export function VerifyFragments({ className }: VerifyFragmentsProps) {
+  const actions = useAppActions();
+  const [verifyState, { verify, cancel }] = useVerifyWorker();
+
+  const [files, setFiles] = useState<File[]>([]);
+  const [manifestFile, setManifestFile] = useState<File | null>(null);
+  const [manifest, setManifest] = useState<ProcessingManifest | null>(null);
+  const [report, setReport] = useState<VerificationReport | null>(null);
+  const [password, setPassword] = useState('');
+  const [privateKeyFile, setPrivateKeyFile] = useState<File | null>(null);
+
+  // Helper para notificar errores de la verificación
+  const notifyError = (title: string, error: unknown) => {
+    actions.addNotification({
+      type: 'error',
+      title,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  };
+
+  // Cada nueva tanda se suma a la anterior: un archivo con el mismo nombre sustituye al previo
+  const onDrop = async (accepted: File[]) => {
+    if (accepted.length === 0) return;
+
+    const names = new Set(accepted.map(file => file.name));
+    const all = [...files.filter(file => !names.has(file.name)), ...accepted];
+    const found = findManifestFile(all) ?? null;
+    setFiles(all);
+    setManifestFile(found);
+    setReport(null);
+
+    try {
+      setManifest(found ? parseManifest(await found.text()) : null);
+    } catch (error) {
+      setManifest(null);
+      notifyError('Invalid manifest', error);
+    }
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    multiple: true,
+    disabled: verifyState.isVerifying
+  });
+
+  const handleVerify = async () => {
+    if (!manifest) return;
+
+    try {
+      const privateKey = privateKeyFile ? await importPrivateKey(await privateKeyFile.text()) : undefined;
+      const result = await verify(manifest, files.filter(file => file !== manifestFile), {
+        ...(privateKey && { privateKey }),
+        ...(password && { password })
+      });
+      setReport(result);
+
+      actions.addNotification({
+        type: result.passed ? 'success' : 'warning',
+        title: result.passed ? 'Fragment set verified' : 'Verification failed',
+        message: result.passed
+          ? `All ${result.fragments.length} fragments of ${result.originalFile} are intact`
+          : `${result.fragments.filter(fragment => fragment.status !== 'pass').length} of ${result.fragments.length} fragments did not pass`
+      });
+    } catch (error) {
+      notifyError('Verification failed', error);
+    }
+  };
+
+  const handleExport = () => {
+    if (!report) return;
+    const name = report.originalFile.replace(/[^\w.-]+/g, '_');
+    saveAs(
+      new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' }),
+      `${name}.verification.json`
+    );
+  };
+
+  const handleClear = () => {
+    cancel();
+    setFiles([]);
+    setManifestFile(null);
+    setManifest(null);
+    setReport(null);
+    setPassword('');
+    setPrivateKeyFile(null);
+  };
+
+  const fragmentCount = files.length - (manifestFile ? 1 : 0);
+  const isSealed = !!manifest?.metadata.recipients?.length;
+  const hasPassphrase = manifest?.metadata.encryption === 'winzip-aes-256';
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="flex items-center space-x-2 text-lg">
+            <ShieldCheck className="h-5 w-5 text-brand-primary" />
+            <span>Verify fragments</span>
+          </CardTitle>
+          {files.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={handleClear}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div
+          {...getRootProps()}
+          className={`
+            cursor-pointer rounded-lg border-2 border-dashed p-6 text-center transition-colors
+            ${isDragActive ? 'border-upload-dragover-border bg-upload-dragover' : 'border-upload-idle-border bg-upload-idle hover:border-upload-hover-border'}
+            ${verifyState.isVerifying ? 'cursor-not-allowed opacity-50' : ''}
+          `}
+          aria-label="Drop fragments and manifest.json to verify them"
+        >
+          <input {...getInputProps()} />
+          <Upload className="mx-auto mb-2 h-6 w-6 text-slate-400" />
+          <p className="text-sm font-medium text-slate-900 dark:text-white">Drop fragments and manifest.json to verify</p>
+          <p className="text-xs text-slate-500">
+            {files.length > 0
+              ? `${fragmentCount} fragment${fragmentCount === 1 ? '' : 's'}${manifestFile ? ` and ${manifestFile.name}` : ', no manifest yet'}`
+              : 'Checksums, entry lists and CRC32s are checked without rebuilding the archive'}
+          </p>
+        </div>
+
+        {manifest && (isSealed || hasPassphrase) && (
+          <div className="space-y-3">
+            {isSealed && (
+              <div className="space-y-1">
+                <Label htmlFor="verify-private-key" className="text-xs text-slate-500">
+                  Private key (optional) to also check the contents of encrypted fragments
+                </Label>
+                <input
+                  id="verify-private-key"
+                  type="file"
+                  accept=".json,.jwk,.pem,.key"
+                  onChange={(event) => setPrivateKeyFile(event.target.files?.[0] ?? null)}
+                  className="block w-full text-xs"
+                />
+              </div>
+            )}
+            {hasPassphrase && (
+              <div className="space-y-1">
+                <Label htmlFor="verify-password" className="text-xs text-slate-500">
+                  Passphrase (optional) to also check encrypted entries
+                </Label>
+                <input
+                  id="verify-password"
+                  type="password"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                  autoComplete="off"
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button onClick={handleVerify} disabled={!manifest || verifyState.isVerifying}>
+            <ShieldCheck className="h-4 w-4 mr-1" />
+            Verify
+          </Button>
+          {verifyState.isVerifying && (
+            <Button variant="outline" onClick={cancel}>
+              Cancel
+            </Button>
+          )}
+          {report && (
+            <Button variant="outline" onClick={handleExport}>
+              <FileJson className="h-4 w-4 mr-1" />
+              Export report (JSON)
+            </Button>
+          )}
+        </div>
+
+        {verifyState.isVerifying && (
+          <div className="space-y-1">
+            <Progress value={verifyState.progress} className="h-2" />
+            <p className="truncate text-xs text-slate-500">{verifyState.message}</p>
+          </div>
+        )}
+
+        {report && (
+          <div className="space-y-3">
+            <div className="flex items-start space-x-2 text-sm">
+              <StatusIcon status={report.passed ? 'pass' : 'fail'} />
+              <p className="text-slate-600 dark:text-slate-400">
+                {report.passed
+                  ? `All ${report.fragments.length} fragments passed.`
+                  : `${report.fragments.filter(fragment => fragment.status === 'pass').length} of ${report.fragments.length} fragments passed.`}
+                {!report.passed && report.signature.status === 'untrusted' && ' The manifest signer is not pinned, so the set is not trusted.'}
+              </p>
+            </div>
+
+            <SignatureSummary check={report.signature} />
+
+            <ul className="max-h-80 space-y-2 overflow-y-auto">
+              {report.fragments.map(fragment => (
+                <li key={fragment.id} className="rounded-md border border-slate-200 p-2 text-xs dark:border-slate-700">
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex min-w-0 items-center space-x-2">
+                      <StatusIcon status={fragment.status} />
+                      <span className="truncate text-slate-700 dark:text-slate-300">
+                        {fragment.order}. {fragment.name}
+                      </span>
+                    </div>
+                    <span className="flex-shrink-0 text-slate-500">
+                      {fragment.entriesChecked > 0 && `${fragment.entriesChecked} entries · `}
+                      {STATUS_LABELS[fragment.status]}
+                    </span>
+                  </div>
+                  {fragment.issues.map(issue => (
+                    <p key={issue} className="ml-6 text-status-error-border">{issue}</p>
+                  ))}
+                  {fragment.notes.map(note => (
+                    <p key={note} className="ml-6 text-slate-500">{note}</p>
+                  ))}
+                </li>
+              ))}
+            </ul>
+
+            {report.orderErrors.map(error => (
+              <p key={error} className="text-xs text-status-error-border">{error}</p>
+            ))}
+            {report.extra.length > 0 && (
+              <p className="text-xs text-slate-500">
+                Not part of this set: {report.extra.join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
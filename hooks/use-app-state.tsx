@@ -10,17 +10,42 @@ import type {
   FileAnalysis, 
   ProcessedFragment,
   ProcessingError,
-  ProcessingMetrics
+  ProcessingMetrics,
+  FragmentSizeReport,
+  SplitMode,
+  SplittingStrategy,
+  ArchiveFormat,
+  RecipientKey,
+  CompressionRule
 } from '@/types/processing';
 import type { ProgressUpdate } from '@/lib/progress-tracker';
+import type { InputSource } from '@/lib/file-collection';
+import { isFinishedJob, type QueueJob } from '@/lib/job-queue';
+import { DEFAULT_COMPRESSION_RULES } from '@/lib/compression-policy';
 
 // Tipos para el estado de la aplicación
 export interface ProcessingConfig {
   targetFragmentSize: number; // en MB
   fragmentNaming: string;
   compressionLevel: number;
+  compressionRules: CompressionRule[]; // nivel por extensión o tipo MIME; la primera que coincide gana
+  rawCopy: boolean; // conservar la compresión original de cada entrada
+  hashCopiedEntries: boolean; // con copia directa: SHA-256 de cada entrada en el manifest (más lento)
+  splitMode: SplitMode;
+  outputFormat: ArchiveFormat; // contenedor de los fragmentos: ZIP, TAR o TAR.GZ
+  splittingStrategy: SplittingStrategy; // cómo se agrupan las entradas en fragmentos independientes
+  strictSizeLimit: boolean; // ningún fragmento supera targetFragmentSize
+  maxFragments: number; // 0 = sin límite
+  keepEncryption: boolean; // con contraseña: copiar las entradas cifradas en lugar de descifrarlas
+  encryptFragments: boolean; // cifrar los fragmentos con WinZip AES-256
+  recipientFingerprints: string[]; // claves del keyring para las que se cifra cada fragmento
+  signManifest: boolean; // firmar el manifest con la clave de firma de este navegador
+  includePatterns: string[]; // globs de las entradas que se conservan (vacío = todas)
+  excludePatterns: string[]; // globs de las entradas que se descartan
+  deduplicateEntries: boolean; // guardar una sola vez los archivos con el mismo contenido
   includeManifest: boolean;
   createZipArchive: boolean;
+  queueConcurrency: number; // trabajos de la cola que se procesan a la vez
 }
 
 export interface ProcessingProgress {
@@ -75,8 +100,11 @@ export type AppStatus =
 
 export interface AppState {
   // File Management
-  currentFile: File | null;
+  currentFile: InputSource | null; // Un archivo o una carpeta/selección de archivos
   fileAnalysis: FileAnalysis | null;
+  inputPassword: string | null; // Solo en memoria: nunca se persiste con la configuración
+  outputPassphrase: string | null; // Contraseña de los fragmentos cifrados, también solo en memoria
+  keyring: RecipientKey[]; // Claves públicas de destinatarios (las privadas nunca se guardan)
   
   // Strategy & Configuration  
   selectedStrategy: ProcessingStrategy | null;
@@ -90,10 +118,15 @@ export interface AppState {
   // Results
   fragments: ProcessedFragment[] | null;
   processingMetrics: ProcessingMetrics | null;
+  sizeReport: FragmentSizeReport[] | null; // Ocupación de cada fragmento respecto al tamaño solicitado
   downloadBatch: DownloadBatchInfo | null;
   
   // Google Drive Integration
   googleDriveData: GoogleDriveData | null;
+
+  // Batch Queue
+  queue: QueueJob[]; // Cada trabajo conserva sus opciones, su progreso y sus resultados
+  queuePaused: boolean; // En pausa no se inician más trabajos; los que están en curso terminan
   
   // Error Handling
   error: ProcessingError | null;
@@ -120,7 +153,14 @@ export enum AppActionType {
   // File Management
   SET_FILE = 'SET_FILE',
   SET_ANALYSIS = 'SET_ANALYSIS',
+  SET_PASSWORD = 'SET_PASSWORD',
+  SET_OUTPUT_PASSPHRASE = 'SET_OUTPUT_PASSPHRASE',
   CLEAR_FILE = 'CLEAR_FILE',
+
+  // Keyring
+  SET_KEYRING = 'SET_KEYRING',
+  ADD_RECIPIENT_KEY = 'ADD_RECIPIENT_KEY',
+  REMOVE_RECIPIENT_KEY = 'REMOVE_RECIPIENT_KEY',
   
   // Strategy & Configuration
   SET_STRATEGY = 'SET_STRATEGY',
@@ -136,12 +176,20 @@ export enum AppActionType {
   // Results
   SET_FRAGMENTS = 'SET_FRAGMENTS',
   SET_METRICS = 'SET_METRICS',
+  SET_SIZE_REPORT = 'SET_SIZE_REPORT',
   SET_DOWNLOAD_BATCH = 'SET_DOWNLOAD_BATCH',
   UPDATE_DOWNLOAD_PROGRESS = 'UPDATE_DOWNLOAD_PROGRESS',
   
   // Google Drive
   SET_GOOGLE_DRIVE_DATA = 'SET_GOOGLE_DRIVE_DATA',
   CLEAR_GOOGLE_DRIVE_DATA = 'CLEAR_GOOGLE_DRIVE_DATA',
+
+  // Batch Queue
+  ADD_QUEUE_JOBS = 'ADD_QUEUE_JOBS',
+  UPDATE_QUEUE_JOB = 'UPDATE_QUEUE_JOB',
+  REMOVE_QUEUE_JOB = 'REMOVE_QUEUE_JOB',
+  CLEAR_FINISHED_JOBS = 'CLEAR_FINISHED_JOBS',
+  SET_QUEUE_PAUSED = 'SET_QUEUE_PAUSED',
   
   // Error Handling
   SET_ERROR = 'SET_ERROR',
@@ -174,6 +222,9 @@ const initialState: AppState = {
   // File Management
   currentFile: null,
   fileAnalysis: null,
+  inputPassword: null,
+  outputPassphrase: null,
+  keyring: [],
   
   // Strategy & Configuration
   selectedStrategy: null,
@@ -182,8 +233,24 @@ const initialState: AppState = {
     targetFragmentSize: 25, // 25MB default
     fragmentNaming: 'sequential',
     compressionLevel: 6,
+    compressionRules: DEFAULT_COMPRESSION_RULES,
+    rawCopy: false, // con copia directa el nivel de compresión y las reglas por tipo no se aplican
+    hashCopiedEntries: false,
+    splitMode: 'independent',
+    outputFormat: 'zip',
+    splittingStrategy: 'size-based',
+    strictSizeLimit: false,
+    maxFragments: 0,
+    keepEncryption: true,
+    encryptFragments: false,
+    recipientFingerprints: [],
+    signManifest: false,
+    includePatterns: [],
+    excludePatterns: [],
+    deduplicateEntries: false,
     includeManifest: true,
-    createZipArchive: false
+    createZipArchive: false,
+    queueConcurrency: 2
   },
   
   // Processing State
@@ -202,10 +269,15 @@ const initialState: AppState = {
   // Results
   fragments: null,
   processingMetrics: null,
+  sizeReport: null,
   downloadBatch: null,
   
   // Google Drive Integration
   googleDriveData: null,
+
+  // Batch Queue
+  queue: [],
+  queuePaused: false,
   
   // Error Handling
   error: null,
@@ -229,7 +301,9 @@ function appReducer(state: AppState, action: AppAction): AppState {
         ...state,
         currentFile: action.payload,
         fileAnalysis: null,
+        inputPassword: null,
         fragments: null,
+        sizeReport: null,
         error: null,
         status: 'idle'
       };
@@ -240,17 +314,59 @@ function appReducer(state: AppState, action: AppAction): AppState {
         fileAnalysis: action.payload
       };
 
+    case AppActionType.SET_PASSWORD:
+      return {
+        ...state,
+        inputPassword: action.payload
+      };
+
+    case AppActionType.SET_OUTPUT_PASSPHRASE:
+      return {
+        ...state,
+        outputPassphrase: action.payload
+      };
+
     case AppActionType.CLEAR_FILE:
       return {
         ...state,
         currentFile: null,
         fileAnalysis: null,
+        inputPassword: null,
         fragments: null,
+        sizeReport: null,
         error: null,
         status: 'idle',
         progress: initialState.progress
       };
 
+    // Keyring
+    case AppActionType.SET_KEYRING:
+      return {
+        ...state,
+        keyring: action.payload
+      };
+
+    case AppActionType.ADD_RECIPIENT_KEY:
+      return {
+        ...state,
+        // Una misma clave solo aparece una vez, con el último nombre
+        keyring: [
+          ...state.keyring.filter(key => key.fingerprint !== action.payload.fingerprint),
+          action.payload
+        ]
+      };
+
+    case AppActionType.REMOVE_RECIPIENT_KEY:
+      return {
+        ...state,
+        keyring: state.keyring.filter(key => key.fingerprint !== action.payload),
+        processingConfig: {
+          ...state.processingConfig,
+          recipientFingerprints: state.processingConfig.recipientFingerprints
+            .filter(fingerprint => fingerprint !== action.payload)
+        }
+      };
+
     // Strategy & Configuration
     case AppActionType.SET_STRATEGY:
       return {
@@ -314,6 +430,12 @@ function appReducer(state: AppState, action: AppAction): AppState {
         processingMetrics: action.payload
       };
 
+    case AppActionType.SET_SIZE_REPORT:
+      return {
+        ...state,
+        sizeReport: action.payload
+      };
+
     case AppActionType.SET_DOWNLOAD_BATCH:
       return {
         ...state,
@@ -342,6 +464,39 @@ function appReducer(state: AppState, action: AppAction): AppState {
         googleDriveData: null
       };
 
+    // Batch Queue
+    case AppActionType.ADD_QUEUE_JOBS:
+      return {
+        ...state,
+        queue: [...state.queue, ...action.payload]
+      };
+
+    case AppActionType.UPDATE_QUEUE_JOB:
+      return {
+        ...state,
+        queue: state.queue.map(job =>
+          job.id === action.payload.id ? { ...job, ...action.payload.changes } : job
+        )
+      };
+
+    case AppActionType.REMOVE_QUEUE_JOB:
+      return {
+        ...state,
+        queue: state.queue.filter(job => job.id !== action.payload)
+      };
+
+    case AppActionType.CLEAR_FINISHED_JOBS:
+      return {
+        ...state,
+        queue: state.queue.filter(job => !isFinishedJob(job))
+      };
+
+    case AppActionType.SET_QUEUE_PAUSED:
+      return {
+        ...state,
+        queuePaused: action.payload
+      };
+
     // Error Handling
     case AppActionType.SET_ERROR:
       return {
@@ -423,7 +578,8 @@ function appReducer(state: AppState, action: AppAction): AppState {
         ...initialState,
         // Preservar autenticación de Google si existe
         googleUser: state.googleUser,
-        isGoogleAuthenticated: state.isGoogleAuthenticated
+        isGoogleAuthenticated: state.isGoogleAuthenticated,
+        keyring: state.keyring
       };
 
     default:
@@ -473,6 +629,33 @@ export function AppStateProvider({ children }: AppStateProviderProps) {
     }
   }, [state.processingConfig]);
 
+  // Persistir el keyring; el array inicial nunca se guarda para no borrar el ya guardado
+  useEffect(() => {
+    if (state.keyring === initialState.keyring) {
+      return;
+    }
+    try {
+      localStorage.setItem('smartZipSplitter_keyring', JSON.stringify(state.keyring));
+    } catch (error) {
+      console.warn('Failed to persist keyring to localStorage:', error);
+    }
+  }, [state.keyring]);
+
+  // Cargar keyring desde localStorage al inicio
+  useEffect(() => {
+    try {
+      const savedKeyring = localStorage.getItem('smartZipSplitter_keyring');
+      if (savedKeyring) {
+        dispatch({
+          type: AppActionType.SET_KEYRING,
+          payload: JSON.parse(savedKeyring)
+        });
+      }
+    } catch (error) {
+      console.warn('Failed to load keyring from localStorage:', error);
+    }
+  }, []);
+
   // Cargar configuración desde localStorage al inicio
   useEffect(() => {
     try {
@@ -513,12 +696,25 @@ export function useAppActions() {
 
   return {
     // File Management
-    setFile: (file: File | null) => 
+    setFile: (file: InputSource | null) => 
       dispatch({ type: AppActionType.SET_FILE, payload: file }),
     
     setAnalysis: (analysis: FileAnalysis) => 
       dispatch({ type: AppActionType.SET_ANALYSIS, payload: analysis }),
     
+    setPassword: (password: string | null) => 
+      dispatch({ type: AppActionType.SET_PASSWORD, payload: password }),
+    
+    setOutputPassphrase: (passphrase: string | null) => 
+      dispatch({ type: AppActionType.SET_OUTPUT_PASSPHRASE, payload: passphrase }),
+    
+    // Keyring
+    addRecipientKey: (key: RecipientKey) => 
+      dispatch({ type: AppActionType.ADD_RECIPIENT_KEY, payload: key }),
+    
+    removeRecipientKey: (fingerprint: string) => 
+      dispatch({ type: AppActionType.REMOVE_RECIPIENT_KEY, payload: fingerprint }),
+    
     clearFile: () => 
       dispatch({ type: AppActionType.CLEAR_FILE }),
 
@@ -552,6 +748,9 @@ export function useAppActions() {
     setMetrics: (metrics: ProcessingMetrics) => 
       dispatch({ type: AppActionType.SET_METRICS, payload: metrics }),
     
+    setSizeReport: (report: FragmentSizeReport[] | null) => 
+      dispatch({ type: AppActionType.SET_SIZE_REPORT, payload: report }),
+    
     setDownloadBatch: (batch: DownloadBatchInfo) => 
       dispatch({ type: AppActionType.SET_DOWNLOAD_BATCH, payload: batch }),
 
@@ -562,6 +761,22 @@ export function useAppActions() {
     clearGoogleDriveData: () => 
       dispatch({ type: AppActionType.CLEAR_GOOGLE_DRIVE_DATA }),
 
+    // Batch Queue
+    addQueueJobs: (jobs: QueueJob[]) => 
+      dispatch({ type: AppActionType.ADD_QUEUE_JOBS, payload: jobs }),
+    
+    updateQueueJob: (id: string, changes: Partial<QueueJob>) => 
+      dispatch({ type: AppActionType.UPDATE_QUEUE_JOB, payload: { id, changes } }),
+    
+    removeQueueJob: (id: string) => 
+      dispatch({ type: AppActionType.REMOVE_QUEUE_JOB, payload: id }),
+    
+    clearFinishedJobs: () => 
+      dispatch({ type: AppActionType.CLEAR_FINISHED_JOBS }),
+    
+    setQueuePaused: (paused: boolean) => 
+      dispatch({ type: AppActionType.SET_QUEUE_PAUSED, payload: paused }),
+
     // Error Handling
     setError: (error: ProcessingError) => 
       dispatch({ type: AppActionType.SET_ERROR, payload: error }),
@@ -0,0 +1,233 @@
+/**
+ * Batch Queue Hook
+ * Cola de procesamiento por lotes: encola archivos con la configuración actual y
+ * procesa a la vez tantos trabajos como indique queueConcurrency, cada uno en su zip-worker
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useAppState, useAppActions } from './use-app-state';
+import { createProcessingOptions } from './use-processing';
+import { DownloadManager } from '@/lib/download-manager';
+import { ZipWorkerClient } from '@/lib/zip-worker-client';
+import {
+  QueueJobRunner,
+  createQueueJob,
+  getQueueSummary,
+  isFinishedJob,
+  type QueueJob,
+  type QueueSummary
+} from '@/lib/job-queue';
+import type { InputSource } from '@/lib/file-collection';
+import type { ProcessingOptions } from '@/types/processing';
+
+export interface BatchQueueHookReturn {
+  // State
+  jobs: QueueJob[];
+  summary: QueueSummary;
+  isPaused: boolean;
+
+  // Actions
+  enqueueFiles: (files: InputSource[]) => number;
+  updateJobOptions: (id: string, changes: Partial<ProcessingOptions>) => void;
+  cancelJob: (id: string) => void;
+  retryJob: (id: string) => void;
+  removeJob: (id: string) => void;
+  clearFinished: () => void;
+  setPaused: (paused: boolean) => void;
+  setConcurrency: (concurrency: number) => void;
+  downloadJob: (id: string) => Promise<void>;
+}
+
+// Trabajos en curso, compartidos por todas las instancias del hook para que
+// cada trabajo se inicie una sola vez aunque varios componentes usen la cola
+const activeRunners = new Map<string, QueueJobRunner>();
+
+// Trabajos en curso que se quitaron de la cola: salen de ella cuando su runner termina
+const removedJobs = new Set<string>();
+
+// Un worker por hueco: los libres esperan al siguiente trabajo y se cierran los que sobran
+const idleWorkers: ZipWorkerClient[] = [];
+
+/**
+ * Worker libre para un trabajo, o null sin soporte de workers (se procesa en el hilo principal)
+ */
+function acquireWorker(): ZipWorkerClient | null {
+  if (typeof Worker === 'undefined') {
+    return null;
+  }
+  return idleWorkers.pop() ?? new ZipWorkerClient(new Worker(new URL('../workers/zip-worker.ts', import.meta.url)));
+}
+
+/**
+ * Devuelve el worker de un trabajo terminado; se cierra si falló o si ya no hace falta ese hueco
+ */
+function releaseWorker(worker: ZipWorkerClient, concurrency: number): void {
+  if (worker.isAvailable && activeRunners.size + idleWorkers.length < concurrency) {
+    idleWorkers.push(worker);
+  } else {
+    worker.terminate();
+  }
+}
+
+/**
+ * Hook de la cola de trabajos
+ */
+export function useBatchQueue(): BatchQueueHookReturn {
+  const { state } = useAppState();
+  const actions = useAppActions();
+  const downloadManagerRef = useRef<DownloadManager | null>(null);
+
+  useEffect(() => {
+    downloadManagerRef.current = new DownloadManager();
+    return () => {
+      downloadManagerRef.current?.dispose();
+      downloadManagerRef.current = null;
+    };
+  }, []);
+
+  // Iniciar trabajos pendientes mientras haya huecos libres
+  useEffect(() => {
+    if (state.queuePaused) return;
+
+    const slots = Math.max(1, state.processingConfig.queueConcurrency) - activeRunners.size;
+    const next = state.queue
+      .filter(job => job.status === 'pending' && !activeRunners.has(job.id))
+      .slice(0, Math.max(0, slots));
+
+    for (const job of next) {
+      const worker = acquireWorker();
+      const runner = new QueueJobRunner(job, worker ?? undefined);
+      activeRunners.set(job.id, runner);
+
+      runner.run((changes) => {
+        // El hueco se libera antes de publicar el estado final para que el siguiente trabajo pueda empezar
+        if (changes.status && changes.status !== 'running') {
+          activeRunners.delete(job.id);
+          if (worker) {
+            releaseWorker(worker, state.processingConfig.queueConcurrency);
+          }
+          if (removedJobs.delete(job.id)) {
+            actions.removeQueueJob(job.id);
+            return;
+          }
+        }
+        if (removedJobs.has(job.id)) return;
+        actions.updateQueueJob(job.id, changes);
+
+        if (changes.status === 'error') {
+          actions.addNotification({
+            type: 'error',
+            title: `Failed to process ${job.source.name}`,
+            message: changes.error || 'Processing failed'
+          });
+        }
+      });
+    }
+  }, [state.queue, state.queuePaused, state.processingConfig.queueConcurrency, actions]);
+
+  const summary = useMemo(() => getQueueSummary(state.queue), [state.queue]);
+
+  // Encolar archivos con una copia de la configuración actual
+  const enqueueFiles = useCallback((files: InputSource[]) => {
+    try {
+      const jobs = files.map(file => createQueueJob(file, createProcessingOptions(state, file, 'CLIENT_SIDE')));
+      actions.addQueueJobs(jobs);
+      return jobs.length;
+    } catch (error) {
+      actions.addNotification({
+        type: 'error',
+        title: 'Could not add files to the queue',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return 0;
+    }
+  }, [state, actions]);
+
+  // Las opciones solo pueden cambiarse mientras el trabajo espera
+  const updateJobOptions = useCallback((id: string, changes: Partial<ProcessingOptions>) => {
+    const job = state.queue.find(item => item.id === id);
+    if (job?.status === 'pending') {
+      actions.updateQueueJob(id, { options: { ...job.options, ...changes } });
+    }
+  }, [state.queue, actions]);
+
+  const cancelJob = useCallback((id: string) => {
+    const runner = activeRunners.get(id);
+    if (runner) {
+      runner.cancel();
+    } else {
+      actions.updateQueueJob(id, { status: 'cancelled', message: 'Cancelled' });
+    }
+  }, [actions]);
+
+  const retryJob = useCallback((id: string) => {
+    actions.updateQueueJob(id, {
+      status: 'pending',
+      progress: 0,
+      message: 'Waiting in queue',
+      estimatedTimeLeft: 0,
+      result: null,
+      error: null
+    });
+  }, [actions]);
+
+  // Un trabajo en curso solo se cancela: ocupa su hueco hasta que el runner termina
+  const removeJob = useCallback((id: string) => {
+    const runner = activeRunners.get(id);
+    if (runner) {
+      removedJobs.add(id);
+      runner.cancel();
+    } else {
+      actions.removeQueueJob(id);
+    }
+  }, [actions]);
+
+  const clearFinished = useCallback(() => {
+    actions.clearFinishedJobs();
+  }, [actions]);
+
+  const setPaused = useCallback((paused: boolean) => {
+    actions.setQueuePaused(paused);
+  }, [actions]);
+
+  const setConcurrency = useCallback((concurrency: number) => {
+    actions.updateConfig({ queueConcurrency: concurrency });
+  }, [actions]);
+
+  // Descargar los fragmentos (y el manifest) de un trabajo terminado
+  const downloadJob = useCallback(async (id: string) => {
+    const job = state.queue.find(item => item.id === id);
+    if (!job?.result?.fragments || !isFinishedJob(job) || !downloadManagerRef.current) {
+      return;
+    }
+
+    try {
+      const batchId = await downloadManagerRef.current.createBatch(job.result.fragments, job.result.manifest, {
+        createZipArchive: state.processingConfig.createZipArchive,
+        includeManifest: job.options.includeManifest
+      });
+      await downloadManagerRef.current.startBatch(batchId);
+    } catch (error) {
+      actions.addNotification({
+        type: 'error',
+        title: 'Download failed',
+        message: error instanceof Error ? error.message : 'Download failed'
+      });
+    }
+  }, [state.queue, state.processingConfig.createZipArchive, actions]);
+
+  return {
+    jobs: state.queue,
+    summary,
+    isPaused: state.queuePaused,
+    enqueueFiles,
+    updateJobOptions,
+    cancelJob,
+    retryJob,
+    removeJob,
+    clearFinished,
+    setPaused,
+    setConcurrency,
+    downloadJob
+  };
+}
@@ -336,6 +336,18 @@ export function useErrorHandling(): ErrorHandlingHookReturn {
         suggestions.push('Verify the ZIP file is not corrupted');
         break;
         
+      case 'ZIP64_UNSUPPORTED':
+        suggestions.push('Re-create the archive with a ZIP64-capable tool such as 7-Zip or Info-ZIP 3.0');
+        suggestions.push('Make sure the archive is not split across several disks');
+        suggestions.push('Use Lightning Fast processing with fragments smaller than 4 GB');
+        break;
+
+      case 'WRONG_PASSWORD':
+        suggestions.push('Re-enter the archive password, checking Caps Lock and keyboard layout');
+        suggestions.push('Confirm the password with the person who created the archive');
+        suggestions.push('Leave the password empty to split the archive without decrypting it');
+        break;
+
       case 'INSUFFICIENT_MEMORY':
         suggestions.push('Close other browser tabs');
         suggestions.push('Try with smaller fragment size');
@@ -407,7 +419,7 @@ export function useErrorHandling(): ErrorHandlingHookReturn {
   }, []);
 
   const getErrorCategory = useCallback((error: ProcessingError): 'user' | 'system' | 'network' | 'auth' | 'processing' => {
-    const userCodes = ['FILE_TOO_LARGE', 'INVALID_FILE', 'USER_CANCELLED'];
+    const userCodes = ['FILE_TOO_LARGE', 'INVALID_FILE', 'USER_CANCELLED', 'WRONG_PASSWORD'];
     const networkCodes = ['NETWORK_ERROR', 'TIMEOUT_ERROR', 'CONNECTION_FAILED'];
     const authCodes = ['GOOGLE_AUTH_EXPIRED', 'GOOGLE_AUTH_REQUIRED', 'UNAUTHORIZED'];
     const processingCodes = ['PROCESSING_FAILED', 'COMPRESSION_ERROR', 'FRAGMENTATION_FAILED'];
@@ -433,7 +445,8 @@ export function useErrorHandling(): ErrorHandlingHookReturn {
       'GOOGLE_AUTH_EXPIRED': 'Google Sign-in Required',
       'INSUFFICIENT_MEMORY': 'Insufficient Memory',
       'TIMEOUT_ERROR': 'Operation Timed Out',
-      'INVALID_FILE': 'Invalid File'
+      'INVALID_FILE': 'Invalid File',
+      'WRONG_PASSWORD': 'Wrong Password'
     };
     
     return titles[error.code] || 'Error';
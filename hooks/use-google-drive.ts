@@ -5,6 +5,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useAppState, useAppActions } from './use-app-state';
+import { MANIFEST_FILE_NAME, createManifestBlob } from '@/lib/manifest';
 import type { ProcessedFragment, ProcessingManifest } from '@/types/processing';
 
 // Tipos específicos para Google Drive
@@ -400,10 +401,7 @@ export function useGoogleDrive() {
       // Subir manifest si existe
       let manifestFile: DriveFile | undefined;
       if (manifest) {
-        const manifestBlob = new Blob([JSON.stringify(manifest, null, 2)], {
-          type: 'application/json'
-        });
-        manifestFile = await uploadFile(manifestBlob, 'manifest.json', folder.id);
+        manifestFile = await uploadFile(createManifestBlob(manifest), MANIFEST_FILE_NAME, folder.id);
       }
 
       // Crear Google Sheet con enlaces
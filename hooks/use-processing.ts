@@ -4,14 +4,19 @@
  */
 
 import { useCallback, useRef, useEffect } from 'react';
-import { useAppState, useAppActions } from './use-app-state';
+import { useAppState, useAppActions, type AppState, type ProcessingConfig } from './use-app-state';
 import { useZipWorker } from './useZipWorker';
 import { useGoogleDrive } from './use-google-drive';
 import { ZipProcessor } from '@/lib/zip-processor';
+import { ZIP64_UNSUPPORTED, ZipFormatError } from '@/lib/zip-format';
 import { DriveProcessor } from '@/lib/drive-processor';
 import { DownloadManager } from '@/lib/download-manager';
 import { ProgressTracker } from '@/lib/progress-tracker';
-import { analyzeFile, generateStrategyConfig } from '@/lib/strategy-selector';
+import { AVAILABLE_STRATEGIES, analyzeFile, generateStrategyConfig } from '@/lib/strategy-selector';
+import { getArchiveBaseName, getArchiveFormat } from '@/lib/archive-reader';
+import { MAX_DECOMPRESSED_TAR_SIZE, getDecompressedSizeError } from '@/lib/tar-reader';
+import { FileCollection, type InputSource } from '@/lib/file-collection';
+import { parsePatterns } from '@/lib/entry-filter';
 import type { 
   ProcessingOptions, 
   ProcessingResult, 
@@ -51,7 +56,98 @@ export interface ProcessingHookReturn {
   // Utilities
   estimateProcessingTime: (strategy?: ProcessingStrategyType) => number;
   getRecommendedFragmentSize: (strategy?: ProcessingStrategyType) => number;
-  validateFile: (file: File) => { valid: boolean; error?: string };
+  validateFile: (file: InputSource) => { valid: boolean; error?: string };
+}
+
+/**
+ * Patrones de inclusión y exclusión de la configuración, sin líneas vacías ni comentarios
+ */
+function getEntryFilterOptions(config: ProcessingConfig): Pick<ProcessingOptions, 'includePatterns' | 'excludePatterns'> {
+  const includePatterns = parsePatterns(config.includePatterns);
+  const excludePatterns = parsePatterns(config.excludePatterns);
+
+  return {
+    ...(includePatterns.length > 0 && { includePatterns }),
+    ...(excludePatterns.length > 0 && { excludePatterns })
+  };
+}
+
+/**
+ * Reglas de compresión por tipo de archivo, sin las filas que todavía no tienen extensión
+ */
+function getCompressionRuleOptions(config: ProcessingConfig): Pick<ProcessingOptions, 'compressionRules'> {
+  const compressionRules = config.compressionRules
+    .map(rule => ({ ...rule, match: rule.match.trim() }))
+    .filter(rule => rule.match.length > 0);
+
+  return compressionRules.length > 0 ? { compressionRules } : {};
+}
+
+/**
+ * Opciones de procesamiento de un archivo según la configuración actual
+ * (también las usa la cola para fijar las opciones de cada trabajo al encolarlo)
+ */
+export function createProcessingOptions(
+  state: AppState,
+  file: InputSource,
+  strategy: ProcessingStrategyType
+): ProcessingOptions {
+  if (state.processingConfig.encryptFragments && !state.outputPassphrase) {
+    throw new Error('Enter a passphrase to encrypt the fragments');
+  }
+
+  // Solo las claves seleccionadas que siguen en el keyring
+  const recipients = state.keyring.filter(key =>
+    state.processingConfig.recipientFingerprints.includes(key.fingerprint)
+  );
+
+  const config = generateStrategyConfig(
+    strategy,
+    file.size,
+    state.processingConfig.targetFragmentSize * 1024 * 1024 // Convert MB to bytes
+  );
+
+  return {
+    strategy,
+    fragmentSize: config.targetFragmentSize * 1024 * 1024,
+    compressionLevel: state.processingConfig.compressionLevel,
+    // Solo los fragmentos ZIP comprimen sus entradas
+    ...(state.processingConfig.splitMode !== 'raw' && state.processingConfig.outputFormat === 'zip' &&
+      getCompressionRuleOptions(state.processingConfig)),
+    rawCopy: state.processingConfig.rawCopy,
+    ...(state.processingConfig.rawCopy && state.processingConfig.hashCopiedEntries && { hashCopiedEntries: true }),
+    splitMode: state.processingConfig.splitMode,
+    outputFormat: state.processingConfig.outputFormat,
+    splittingStrategy: state.processingConfig.splittingStrategy,
+    strictSizeLimit: state.processingConfig.strictSizeLimit,
+    ...(state.processingConfig.maxFragments > 0 && { maxFragments: state.processingConfig.maxFragments }),
+    ...(state.inputPassword && {
+      password: state.inputPassword,
+      // Las entradas cifradas solo pueden copiarse tal cual en un ZIP
+      keepEncryption: state.processingConfig.keepEncryption && state.processingConfig.outputFormat === 'zip'
+    }),
+    ...(state.processingConfig.encryptFragments && state.outputPassphrase && {
+      encryptionPassphrase: state.outputPassphrase
+    }),
+    ...(recipients.length > 0 && { recipients }),
+    ...(state.processingConfig.signManifest && { signManifest: true }),
+    // En modo raw el archivo no se interpreta: no hay entradas que filtrar
+    ...(state.processingConfig.splitMode !== 'raw' && getEntryFilterOptions(state.processingConfig)),
+    // Las copias deduplicadas solo pueden restaurarse con el manifest
+    ...(state.processingConfig.deduplicateEntries && state.processingConfig.includeManifest &&
+      state.processingConfig.splitMode !== 'raw' && {
+      deduplicate: true,
+      // Los hashes del análisis solo valen para el archivo analizado, no para los de la cola
+      ...(file === state.currentFile && state.fileAnalysis?.duplicateHashes && {
+        knownHashes: state.fileAnalysis.duplicateHashes
+      })
+    }),
+    // Una carpeta da nombre a los fragmentos tal cual, aunque contenga puntos
+    customFilename: file instanceof FileCollection
+      ? file.name
+      : getArchiveBaseName(file.name),
+    includeManifest: state.processingConfig.includeManifest
+  };
 }
 
 /**
@@ -208,12 +304,13 @@ export function useProcessing(): ProcessingHookReturn {
       actions.setStatus('analyzing');
       actions.clearError();
 
-      const analysis = await analyzeFile(state.currentFile);
+      const analysis = await analyzeFile(state.currentFile, {
+        findDuplicates: state.processingConfig.deduplicateEntries
+      });
       actions.setAnalysis(analysis);
 
       // Auto-seleccionar estrategia recomendada si no hay una seleccionada
       if (!state.selectedStrategy) {
-        const { AVAILABLE_STRATEGIES } = await import('@/lib/strategy-selector');
         const recommendedStrategy = AVAILABLE_STRATEGIES[analysis.recommendedStrategy];
         actions.setStrategy(recommendedStrategy);
       }
@@ -241,7 +338,7 @@ export function useProcessing(): ProcessingHookReturn {
         message: errorMsg
       });
     }
-  }, [state.currentFile, state.selectedStrategy, actions]);
+  }, [state.currentFile, state.selectedStrategy, state.processingConfig.deduplicateEntries, actions]);
 
   // Iniciar procesamiento
   const startProcessing = useCallback(async () => {
@@ -255,19 +352,7 @@ export function useProcessing(): ProcessingHookReturn {
       actions.resetProgress();
 
       const strategy = state.selectedStrategy.type;
-      const config = generateStrategyConfig(
-        strategy,
-        state.currentFile.size,
-        state.processingConfig.targetFragmentSize * 1024 * 1024 // Convert MB to bytes
-      );
-
-      const processingOptions: ProcessingOptions = {
-        strategy,
-        fragmentSize: config.targetFragmentSize * 1024 * 1024,
-        compressionLevel: state.processingConfig.compressionLevel,
-        customFilename: state.currentFile.name.replace(/\.[^/.]+$/, ''),
-        includeManifest: state.processingConfig.includeManifest
-      };
+      const processingOptions = createProcessingOptions(state, state.currentFile, strategy);
 
       // Iniciar progress tracker
       progressTrackerRef.current?.start();
@@ -309,16 +394,25 @@ export function useProcessing(): ProcessingHookReturn {
           driveSpreadsheet: driveResult.spreadsheet
         } as any;
       } else {
-        throw new Error(`Strategy ${strategy} not implemented`);
+        // Sin servidor no pueden crearse fragmentos de más de 4GB: en local cada fragmento se
+        // construye en memoria, aunque la entrada (también ZIP64) se lea por streaming
+        throw new ZipFormatError(
+          'Fragments larger than 4 GB need server processing, which is not available. ' +
+          'Choose Lightning Fast to split the archive into smaller fragments in your browser.',
+          ZIP64_UNSUPPORTED
+        );
       }
 
       if (!result.success) {
-        throw new Error(result.error?.message || 'Processing failed');
+        throw result.error?.code
+          ? new ZipFormatError(result.error.message, result.error.code)
+          : new Error(result.error?.message || 'Processing failed');
       }
 
       // Guardar resultados
       actions.setFragments(result.fragments || []);
       actions.setMetrics(result.metrics);
+      actions.setSizeReport(result.sizeReport ?? null);
       
       // Guardar datos específicos de Google Drive si aplica
       if (strategy === 'CLIENT_DRIVE' && 'driveFolder' in result) {
@@ -340,16 +434,20 @@ export function useProcessing(): ProcessingHookReturn {
       progressTrackerRef.current?.complete();
       actions.setStatus('complete');
       
+      // Ocupación del fragmento más cercano al límite
+      const fullest = Math.max(0, ...(result.sizeReport || []).map(report => report.utilization));
+      
       actions.addNotification({
         type: 'success',
         title: 'Processing completed',
-        message: `Successfully created ${result.fragments?.length || 0} fragments`
+        message: `Successfully created ${result.fragments?.length || 0} fragments` +
+          (processingOptions.strictSizeLimit ? ` (largest uses ${(fullest * 100).toFixed(1)}% of the size limit)` : '')
       });
 
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Processing failed';
       actions.setError({
-        code: 'PROCESSING_FAILED',
+        code: error instanceof ZipFormatError ? error.code : 'PROCESSING_FAILED',
         message: errorMsg,
         recoverable: true,
         suggestedAction: 'Check your settings and try again'
@@ -401,7 +499,7 @@ export function useProcessing(): ProcessingHookReturn {
     try {
       actions.setStatus('downloading');
       
-      const batchId = downloadManagerRef.current!.createBatch(
+      const batchId = await downloadManagerRef.current!.createBatch(
         state.fragments,
         undefined, // manifest se incluirá automáticamente si está configurado
         {
@@ -481,17 +579,20 @@ export function useProcessing(): ProcessingHookReturn {
     return Math.round(calculateOptimalFragmentSize(state.currentFile.size, targetStrategy) / (1024 * 1024));
   }, [state.currentFile, state.selectedStrategy]);
 
-  const validateFile = useCallback((file: File) => {
-    const maxSizes = {
-      'CLIENT_SIDE': 100 * 1024 * 1024, // 100MB
-      'CLIENT_DRIVE': 2 * 1024 * 1024 * 1024, // 2GB
-      'SERVER_PREMIUM': 10 * 1024 * 1024 * 1024 // 10GB
-    };
-
-    if (!file.name.toLowerCase().endsWith('.zip')) {
+  const validateFile = useCallback((file: InputSource) => {
+    // Las carpetas se empaquetan directamente salvo en modo raw, que acepta cualquier
+    // archivo suelto (sin interpretar su contenido) pero no una carpeta
+    if (file instanceof FileCollection) {
+      if (state.processingConfig.splitMode === 'raw') {
+        return {
+          valid: false,
+          error: 'Raw mode splits a single file; select one file instead of a folder'
+        };
+      }
+    } else if (state.processingConfig.splitMode !== 'raw' && !getArchiveFormat(file.name)) {
       return {
         valid: false,
-        error: 'Only ZIP files are supported'
+        error: 'Only ZIP, TAR and TAR.GZ files are supported'
       };
     }
 
@@ -502,8 +603,18 @@ export function useProcessing(): ProcessingHookReturn {
       };
     }
 
+    // Un TAR.GZ se descomprime entero en memoria y nunca ocupa menos que el .tar.gz
+    if (!(file instanceof FileCollection) && state.processingConfig.splitMode !== 'raw' &&
+      getArchiveFormat(file.name) === 'tar.gz' && file.size > MAX_DECOMPRESSED_TAR_SIZE) {
+      return {
+        valid: false,
+        error: getDecompressedSizeError()
+      };
+    }
+
+    // Los límites son los de las estrategias, para que la validación y la recomendación coincidan
     const strategy = state.selectedStrategy?.type || 'CLIENT_SIDE';
-    const maxSize = maxSizes[strategy];
+    const maxSize = AVAILABLE_STRATEGIES[strategy].maxSize;
     
     if (file.size > maxSize) {
       return {
@@ -513,7 +624,7 @@ export function useProcessing(): ProcessingHookReturn {
     }
 
     return { valid: true };
-  }, [state.selectedStrategy]);
+  }, [state.selectedStrategy, state.processingConfig.splitMode]);
 
   return {
     // State
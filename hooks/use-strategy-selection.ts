@@ -306,7 +306,9 @@ export function useStrategySelection(): StrategySelectionHookReturn {
 
     try {
       actions.setStatus('analyzing');
-      const analysis = await analyzeFile(state.currentFile);
+      const analysis = await analyzeFile(state.currentFile, {
+        findDuplicates: state.processingConfig.deduplicateEntries
+      });
       actions.setAnalysis(analysis);
       actions.setStatus('idle');
       
@@ -324,7 +326,7 @@ export function useStrategySelection(): StrategySelectionHookReturn {
         suggestedAction: 'Try again or select a different file'
       });
     }
-  }, [state.currentFile, actions]);
+  }, [state.currentFile, state.processingConfig.deduplicateEntries, actions]);
 
   // Utilidades
   const isStrategyAvailable = useCallback((strategyType: ProcessingStrategyType) => {
@@ -0,0 +1,164 @@
+/**
+ * Verify Worker Hook
+ * Verificación de conjuntos de fragmentos en un Web Worker; si el navegador no
+ * puede crearlo, la verificación se ejecuta en el hilo principal
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  FragmentVerifier,
+  type VerificationReport,
+  type VerifyOptions,
+  type VerifyWorkerResponse
+} from '@/lib/fragment-verifier';
+import type { ProcessingManifest } from '@/types/processing';
+
+export interface VerifyWorkerState {
+  isVerifying: boolean;
+  progress: number;
+  message: string;
+}
+
+export interface VerifyWorkerActions {
+  verify: (manifest: ProcessingManifest, files: File[], options?: VerifyOptions) => Promise<VerificationReport>;
+  cancel: () => void;
+}
+
+interface PendingTask {
+  id: string;
+  resolve: (report: VerificationReport) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Hook para verificar fragmentos con Web Worker
+ */
+export function useVerifyWorker(): [VerifyWorkerState, VerifyWorkerActions] {
+  const workerRef = useRef<Worker | null>(null);
+  const fallbackRef = useRef<FragmentVerifier | null>(null);
+  const taskRef = useRef<PendingTask | null>(null);
+
+  const [state, setState] = useState<VerifyWorkerState>({
+    isVerifying: false,
+    progress: 0,
+    message: ''
+  });
+
+  const finishTask = useCallback(() => {
+    taskRef.current = null;
+    setState(prev => ({ ...prev, isVerifying: false }));
+  }, []);
+
+  /**
+   * Maneja mensajes del worker
+   */
+  const handleWorkerMessage = useCallback((event: MessageEvent<VerifyWorkerResponse>) => {
+    const message = event.data;
+    const task = taskRef.current;
+    if (!task || message.id !== task.id) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'PROGRESS': {
+        const { progress, message: text } = message.payload;
+        setState(prev => ({ ...prev, progress, message: text }));
+        break;
+      }
+
+      case 'COMPLETE':
+        finishTask();
+        task.resolve(message.payload);
+        break;
+
+      case 'ERROR':
+        finishTask();
+        task.reject(new Error(message.payload.message));
+        break;
+    }
+  }, [finishTask]);
+
+  /**
+   * Maneja errores del worker
+   */
+  const handleWorkerError = useCallback((error: ErrorEvent) => {
+    const task = taskRef.current;
+    if (task) {
+      finishTask();
+      task.reject(new Error(`Worker error: ${error.message}`));
+    }
+  }, [finishTask]);
+
+  useEffect(() => {
+    try {
+      workerRef.current = new Worker(new URL('../workers/verify-worker.ts', import.meta.url));
+      workerRef.current.addEventListener('message', handleWorkerMessage);
+      workerRef.current.addEventListener('error', handleWorkerError);
+    } catch {
+      // Sin Web Workers se verifica en el hilo principal
+      workerRef.current = null;
+    }
+
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      fallbackRef.current?.dispose();
+      fallbackRef.current = null;
+      taskRef.current = null;
+    };
+  }, [handleWorkerMessage, handleWorkerError]);
+
+  /**
+   * Verifica los fragmentos recibidos contra el manifest
+   */
+  const verify = useCallback(async (
+    manifest: ProcessingManifest,
+    files: File[],
+    options: VerifyOptions = {}
+  ): Promise<VerificationReport> => {
+    if (taskRef.current) {
+      throw new Error('Another verification is already running');
+    }
+
+    const id = `verify_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    setState({ isVerifying: true, progress: 0, message: 'Starting verification...' });
+
+    if (!workerRef.current) {
+      const verifier = new FragmentVerifier();
+      fallbackRef.current = verifier;
+      taskRef.current = { id, resolve: () => undefined, reject: () => undefined };
+      verifier.setProgressCallback((progress, message) => setState(prev => ({ ...prev, progress, message })));
+
+      try {
+        return await verifier.verify(manifest, files, options);
+      } finally {
+        fallbackRef.current = null;
+        finishTask();
+      }
+    }
+
+    const worker = workerRef.current;
+    return new Promise((resolve, reject) => {
+      taskRef.current = { id, resolve, reject };
+      worker.postMessage({ type: 'VERIFY', id, payload: { manifest, files, options } });
+    });
+  }, [finishTask]);
+
+  /**
+   * Cancela la verificación en curso
+   */
+  const cancel = useCallback(() => {
+    const task = taskRef.current;
+    if (!task) {
+      return;
+    }
+
+    if (fallbackRef.current) {
+      fallbackRef.current.abort();
+    } else {
+      workerRef.current?.postMessage({ type: 'CANCEL', id: task.id });
+    }
+  }, []);
+
+  return [state, { verify, cancel }];
+}
@@ -5,9 +5,11 @@
 
 import { useCallback, useRef, useEffect, useState } from 'react';
 import type { ProcessingOptions, ProcessingResult } from '@/types/processing';
+import { ZipFormatError } from '@/lib/zip-format';
+import type { InputSource } from '@/lib/file-collection';
 
 interface WorkerMessage {
-  type: 'PROGRESS' | 'COMPLETE' | 'ERROR' | 'PONG' | 'READY' | 'FRAGMENT_BLOB';
+  type: 'PROGRESS' | 'COMPLETE' | 'ERROR' | 'PONG' | 'READY';
   id: string;
   payload: any;
 }
@@ -18,12 +20,6 @@ interface WorkerProgressData {
   message: string;
 }
 
-interface WorkerCompleteData {
-  success: boolean;
-  fragments: any[];
-  metrics: any;
-}
-
 interface WorkerErrorData {
   message: string;
   code?: string;
@@ -40,7 +36,7 @@ export interface ZipWorkerState {
 }
 
 export interface ZipWorkerActions {
-  processFile: (file: File, options: ProcessingOptions) => Promise<ProcessingResult>;
+  processFile: (file: InputSource, options: ProcessingOptions) => Promise<ProcessingResult>;
   cancel: () => void;
   ping: () => Promise<boolean>;
 }
@@ -51,7 +47,6 @@ export interface ZipWorkerActions {
 export function useZipWorker(): [ZipWorkerState, ZipWorkerActions] {
   const workerRef = useRef<Worker | null>(null);
   const currentTaskRef = useRef<string | null>(null);
-  const fragmentBlobsRef = useRef<Map<number, Blob>>(new Map());
   const resolveRef = useRef<((result: ProcessingResult) => void) | null>(null);
   const rejectRef = useRef<((error: Error) => void) | null>(null);
 
@@ -73,8 +68,8 @@ export function useZipWorker(): [ZipWorkerState, ZipWorkerActions] {
     }
 
     try {
-      // Crear worker desde archivo estático
-      workerRef.current = new Worker('/zip-worker.js');
+      // Crear worker empaquetado junto con el resto de la aplicación
+      workerRef.current = new Worker(new URL('../workers/zip-worker.ts', import.meta.url));
       
       workerRef.current.addEventListener('message', handleWorkerMessage);
       workerRef.current.addEventListener('error', handleWorkerError);
@@ -115,28 +110,8 @@ export function useZipWorker(): [ZipWorkerState, ZipWorkerActions] {
         break;
 
       case 'COMPLETE':
-        const completeData = payload as WorkerCompleteData;
-        
-        // Esperar a que lleguen todos los blobs de fragmentos
-        const fragments = completeData.fragments.map((fragment, index) => ({
-          ...fragment,
-          blob: fragmentBlobsRef.current.get(index)
-        }));
-
-        const result: ProcessingResult = {
-          success: completeData.success,
-          fragments,
-          metrics: {
-            startTime: Date.now() - (completeData.metrics?.processingTime || 0),
-            endTime: Date.now(),
-            totalTime: completeData.metrics?.processingTime || 0,
-            memoryUsage: completeData.metrics?.originalSize || 0,
-            compressionRatio: completeData.metrics?.compressionRatio || 1,
-            throughput: completeData.metrics?.processingTime > 0 
-              ? (completeData.metrics?.originalSize || 0) / (completeData.metrics?.processingTime / 1000)
-              : 0
-          }
-        };
+        // El worker devuelve el ProcessingResult completo, con los Blob de cada fragmento
+        const result = payload as ProcessingResult;
 
         setState(prev => ({
           ...prev,
@@ -154,12 +129,6 @@ export function useZipWorker(): [ZipWorkerState, ZipWorkerActions] {
         }
 
         currentTaskRef.current = null;
-        fragmentBlobsRef.current.clear();
-        break;
-
-      case 'FRAGMENT_BLOB':
-        // Almacenar blob de fragmento
-        fragmentBlobsRef.current.set(payload.fragmentIndex, payload.blob);
         break;
 
       case 'ERROR':
@@ -174,12 +143,15 @@ export function useZipWorker(): [ZipWorkerState, ZipWorkerActions] {
         }));
 
         if (rejectRef.current) {
-          rejectRef.current(new Error(errorData.message));
+          rejectRef.current(
+            errorData.code
+              ? new ZipFormatError(errorData.message, errorData.code)
+              : new Error(errorData.message)
+          );
           rejectRef.current = null;
         }
 
         currentTaskRef.current = null;
-        fragmentBlobsRef.current.clear();
         break;
 
       case 'PONG':
@@ -214,7 +186,7 @@ export function useZipWorker(): [ZipWorkerState, ZipWorkerActions] {
   /**
    * Procesa un archivo usando el worker
    */
-  const processFile = useCallback(async (file: File, options: ProcessingOptions): Promise<ProcessingResult> => {
+  const processFile = useCallback(async (file: InputSource, options: ProcessingOptions): Promise<ProcessingResult> => {
     if (!workerRef.current) {
       initializeWorker();
       
@@ -242,28 +214,21 @@ export function useZipWorker(): [ZipWorkerState, ZipWorkerActions] {
         result: null
       }));
 
-      // Convertir archivo a ArrayBuffer
-      const reader = new FileReader();
-      reader.onload = () => {
-        if (reader.result instanceof ArrayBuffer && workerRef.current) {
-          workerRef.current.postMessage({
-            type: 'PROCESS_ZIP',
-            id: taskId,
-            payload: {
-              fileArrayBuffer: reader.result,
-              options
-            }
-          }, [reader.result]); // Transferir ArrayBuffer
-        } else {
-          reject(new Error('Failed to read file as ArrayBuffer'));
-        }
-      };
-
-      reader.onerror = () => {
-        reject(new Error('Failed to read file'));
-      };
+      if (!workerRef.current) {
+        reject(new Error('ZIP worker is not available'));
+        return;
+      }
 
-      reader.readAsArrayBuffer(file);
+      // El File (o los de una carpeta) se envía por structured clone: el worker
+      // lo lee por rangos sin que el hilo principal cargue el archivo en memoria
+      workerRef.current.postMessage({
+        type: 'PROCESS_ZIP',
+        id: taskId,
+        payload: {
+          file,
+          options
+        }
+      });
     });
   }, [state.isProcessing, initializeWorker]);
 
@@ -324,7 +289,6 @@ export function useZipWorker(): [ZipWorkerState, ZipWorkerActions] {
       currentTaskRef.current = null;
       resolveRef.current = null;
       rejectRef.current = null;
-      fragmentBlobsRef.current.clear();
     };
   }, [initializeWorker]);
 
@@ -0,0 +1,175 @@
+/**
+ * AES
+ * Cifrado de bloques AES (FIPS 197) para el modo CTR de WinZip AES, cuyo
+ * contador little-endian no puede expresarse con AES-CTR de WebCrypto
+ */
+
+const BLOCK_SIZE = 16;
+
+// Constantes de ronda de la expansión de clave
+const RCON = [0x00, 0x01, 0x02, 0x04, 0x08, 0x10, 0x20, 0x40, 0x80, 0x1b, 0x36];
+
+// S-box y tablas de ronda (SubBytes + ShiftRows + MixColumns), generadas una sola vez
+const SBOX = new Uint8Array(256);
+const T0 = new Uint32Array(256);
+const T1 = new Uint32Array(256);
+const T2 = new Uint32Array(256);
+const T3 = new Uint32Array(256);
+
+(() => {
+  // Multiplicación por x en GF(2^8)
+  const double = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    double[i] = i < 128 ? i << 1 : (i << 1) ^ 0x11b;
+  }
+
+  // Recorre el grupo multiplicativo: x avanza por potencias de 3 y xi por sus inversos
+  let x = 0;
+  let xi = 0;
+  for (let i = 0; i < 256; i++) {
+    let sx = xi ^ (xi << 1) ^ (xi << 2) ^ (xi << 3) ^ (xi << 4);
+    sx = (sx >>> 8) ^ (sx & 0xff) ^ 0x63;
+    SBOX[x] = sx;
+
+    const t = (double[sx]! * 0x101) ^ (sx * 0x1010100);
+    T0[x] = (t << 24) | (t >>> 8);
+    T1[x] = (t << 16) | (t >>> 16);
+    T2[x] = (t << 8) | (t >>> 24);
+    T3[x] = t;
+
+    if (x === 0) {
+      x = xi = 1;
+    } else {
+      const x2 = double[x]!;
+      const x8 = double[double[x2]!]!;
+      x = x2 ^ double[double[double[x8 ^ x2]!]!]!;
+      xi ^= double[double[xi]!]!;
+    }
+  }
+})();
+
+/**
+ * Cifrador AES-128/192/256 de un bloque
+ */
+export class Aes {
+  private readonly keySchedule: Uint32Array;
+  private readonly rounds: number;
+
+  constructor(key: Uint8Array) {
+    if (key.byteLength !== 16 && key.byteLength !== 24 && key.byteLength !== 32) {
+      throw new Error(`Invalid AES key length: ${key.byteLength} bytes`);
+    }
+
+    const keyWords = key.byteLength / 4;
+    this.rounds = keyWords + 6;
+    this.keySchedule = new Uint32Array((this.rounds + 1) * 4);
+
+    const view = new DataView(key.buffer, key.byteOffset, key.byteLength);
+    for (let i = 0; i < this.keySchedule.length; i++) {
+      if (i < keyWords) {
+        this.keySchedule[i] = view.getUint32(i * 4, false);
+        continue;
+      }
+
+      let t = this.keySchedule[i - 1]!;
+      if (i % keyWords === 0) {
+        t = subWord((t << 8) | (t >>> 24)) ^ (RCON[i / keyWords]! << 24);
+      } else if (keyWords > 6 && i % keyWords === 4) {
+        t = subWord(t);
+      }
+      this.keySchedule[i] = (this.keySchedule[i - keyWords]! ^ t) >>> 0;
+    }
+  }
+
+  /**
+   * Cifra un bloque de 16 bytes de input en output (pueden ser el mismo buffer)
+   */
+  public encryptBlock(input: Uint8Array, output: Uint8Array): void {
+    const ks = this.keySchedule;
+    let s0 = readWord(input, 0) ^ ks[0]!;
+    let s1 = readWord(input, 4) ^ ks[1]!;
+    let s2 = readWord(input, 8) ^ ks[2]!;
+    let s3 = readWord(input, 12) ^ ks[3]!;
+    let k = 4;
+
+    for (let round = 1; round < this.rounds; round++) {
+      const t0 = T0[s0 >>> 24]! ^ T1[(s1 >>> 16) & 0xff]! ^ T2[(s2 >>> 8) & 0xff]! ^ T3[s3 & 0xff]! ^ ks[k++]!;
+      const t1 = T0[s1 >>> 24]! ^ T1[(s2 >>> 16) & 0xff]! ^ T2[(s3 >>> 8) & 0xff]! ^ T3[s0 & 0xff]! ^ ks[k++]!;
+      const t2 = T0[s2 >>> 24]! ^ T1[(s3 >>> 16) & 0xff]! ^ T2[(s0 >>> 8) & 0xff]! ^ T3[s1 & 0xff]! ^ ks[k++]!;
+      const t3 = T0[s3 >>> 24]! ^ T1[(s0 >>> 16) & 0xff]! ^ T2[(s1 >>> 8) & 0xff]! ^ T3[s2 & 0xff]! ^ ks[k++]!;
+      s0 = t0;
+      s1 = t1;
+      s2 = t2;
+      s3 = t3;
+    }
+
+    // Última ronda sin MixColumns
+    writeWord(output, 0, lastRound(s0, s1, s2, s3) ^ ks[k++]!);
+    writeWord(output, 4, lastRound(s1, s2, s3, s0) ^ ks[k++]!);
+    writeWord(output, 8, lastRound(s2, s3, s0, s1) ^ ks[k++]!);
+    writeWord(output, 12, lastRound(s3, s0, s1, s2) ^ ks[k]!);
+  }
+}
+
+/**
+ * AES-CTR con contador little-endian de 128 bits que empieza en 1 (formato WinZip AES).
+ * Cifrar y descifrar son la misma operación.
+ */
+export class AesCtrLittleEndian {
+  private readonly aes: Aes;
+  private readonly counter = new Uint8Array(BLOCK_SIZE);
+  private readonly keystream = new Uint8Array(BLOCK_SIZE);
+  private keystreamOffset = BLOCK_SIZE;
+
+  constructor(key: Uint8Array) {
+    this.aes = new Aes(key);
+  }
+
+  /**
+   * Aplica el keystream a los datos y devuelve un buffer nuevo
+   */
+  public process(data: Uint8Array): Uint8Array<ArrayBuffer> {
+    const output = new Uint8Array(data.byteLength);
+
+    for (let i = 0; i < data.byteLength; i++) {
+      if (this.keystreamOffset === BLOCK_SIZE) {
+        this.incrementCounter();
+        this.aes.encryptBlock(this.counter, this.keystream);
+        this.keystreamOffset = 0;
+      }
+      output[i] = data[i]! ^ this.keystream[this.keystreamOffset++]!;
+    }
+
+    return output;
+  }
+
+  private incrementCounter(): void {
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      this.counter[i] = (this.counter[i]! + 1) & 0xff;
+      if (this.counter[i] !== 0) {
+        break;
+      }
+    }
+  }
+}
+
+function subWord(word: number): number {
+  return ((SBOX[word >>> 24]! << 24) | (SBOX[(word >>> 16) & 0xff]! << 16) |
+    (SBOX[(word >>> 8) & 0xff]! << 8) | SBOX[word & 0xff]!) >>> 0;
+}
+
+function lastRound(a: number, b: number, c: number, d: number): number {
+  return (SBOX[a >>> 24]! << 24) | (SBOX[(b >>> 16) & 0xff]! << 16) |
+    (SBOX[(c >>> 8) & 0xff]! << 8) | SBOX[d & 0xff]!;
+}
+
+function readWord(data: Uint8Array, offset: number): number {
+  return ((data[offset]! << 24) | (data[offset + 1]! << 16) | (data[offset + 2]! << 8) | data[offset + 3]!) >>> 0;
+}
+
+function writeWord(data: Uint8Array, offset: number, word: number): void {
+  data[offset] = word >>> 24;
+  data[offset + 1] = (word >>> 16) & 0xff;
+  data[offset + 2] = (word >>> 8) & 0xff;
+  data[offset + 3] = word & 0xff;
+}
@@ -0,0 +1,77 @@
+/**
+ * Archive Reader
+ * Interfaz común de los lectores de archivos de entrada (ZIP, TAR, TAR.GZ y
+ * selecciones de archivos sueltos) y selección del lector según el origen
+ */
+
+import { ZipReader, type ZipArchiveInfo, type ZipEntryInfo } from './zip-reader';
+import { TarReader } from './tar-reader';
+import { FileCollectionReader } from './file-collection-reader';
+import { FileCollection, type InputSource } from './file-collection';
+import type { ArchiveFormat } from '@/types/processing';
+
+export type { ArchiveFormat };
+
+// Formato del origen: un archivo o una carpeta/selección de archivos ('files')
+export type InputFormat = ArchiveFormat | 'files';
+
+/**
+ * Lector de un archivo de entrada: las entradas siguen el modelo de ZipEntryInfo
+ */
+export interface ArchiveReader {
+  readonly format: InputFormat;
+  readonly size: number;
+  readCentralDirectory(): Promise<ZipArchiveInfo>;
+  readRawData(entry: ZipEntryInfo): Promise<Uint8Array>;
+  sliceRawData(entry: ZipEntryInfo): Promise<Blob>;
+  streamEntryData(entry: ZipEntryInfo): Promise<ReadableStream<Uint8Array>>;
+  readEntryData(entry: ZipEntryInfo): Promise<Uint8Array>;
+}
+
+// Extensiones aceptadas, de la más específica a la más general
+const ARCHIVE_EXTENSIONS: [string, ArchiveFormat][] = [
+  ['.tar.gz', 'tar.gz'],
+  ['.tgz', 'tar.gz'],
+  ['.tar', 'tar'],
+  ['.zip', 'zip']
+];
+
+// Extensión y tipo MIME de los fragmentos de cada formato
+export const ARCHIVE_FILE_TYPES: Record<ArchiveFormat, { extension: string; mimeType: string }> = {
+  'zip': { extension: '.zip', mimeType: 'application/zip' },
+  'tar': { extension: '.tar', mimeType: 'application/x-tar' },
+  'tar.gz': { extension: '.tar.gz', mimeType: 'application/gzip' }
+};
+
+/**
+ * Formato de un archivo según su extensión; null si no está soportado
+ */
+export function getArchiveFormat(fileName: string): ArchiveFormat | null {
+  const name = fileName.toLowerCase();
+  return ARCHIVE_EXTENSIONS.find(([extension]) => name.endsWith(extension))?.[1] ?? null;
+}
+
+/**
+ * Nombre del archivo sin su extensión (incluida la doble de .tar.gz)
+ */
+export function getArchiveBaseName(fileName: string): string {
+  const name = fileName.toLowerCase();
+  const match = ARCHIVE_EXTENSIONS.find(([extension]) => name.endsWith(extension));
+  return match ? fileName.slice(0, -match[0].length) : fileName.replace(/\.[^/.]+$/, '');
+}
+
+/**
+ * Crea el lector adecuado; los archivos sin extensión conocida se leen como ZIP
+ */
+export function createArchiveReader(file: InputSource, password?: string): ArchiveReader {
+  if (file instanceof FileCollection) {
+    return new FileCollectionReader(file);
+  }
+
+  const format = getArchiveFormat(file.name);
+
+  if (format === 'tar' || format === 'tar.gz') {
+    return new TarReader(file, format === 'tar.gz');
+  }
+  return new ZipReader(file, password);
+}
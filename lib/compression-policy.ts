@@ -0,0 +1,194 @@
+/**
+ * Compression Policy
+ * Nivel de compresión de cada entrada según su extensión o tipo MIME: los formatos que
+ * ya van comprimidos (JPEG, MP4, ZIP...) se guardan con STORE en lugar de pasar por
+ * DEFLATE para no ganar casi nada
+ */
+
+import type { CompressionRule } from '@/types/processing';
+
+// Ratios típicos (comprimido / original) basados en tipos de archivo
+export const ESTIMATED_COMPRESSION_RATIOS: Record<string, number> = {
+  // Archivos ya comprimidos
+  zip: 0.95,
+  rar: 0.95,
+  '7z': 0.95,
+  gz: 0.95,
+  tgz: 0.95,
+  bz2: 0.95,
+
+  // Archivos de código/texto
+  js: 0.3,
+  ts: 0.3,
+  html: 0.3,
+  css: 0.3,
+  txt: 0.4,
+  json: 0.3,
+  xml: 0.3,
+
+  // Archivos de imagen
+  jpg: 0.95,
+  jpeg: 0.95,
+  png: 0.8,
+  gif: 0.9,
+  webp: 0.95,
+
+  // Archivos de video/audio
+  mp4: 0.98,
+  avi: 0.97,
+  mov: 0.97,
+  mp3: 0.98,
+  wav: 0.6,
+
+  // Documentos
+  pdf: 0.8,
+  doc: 0.6,
+  docx: 0.7
+};
+
+const DEFAULT_COMPRESSION_RATIO = 0.6;
+
+// Tipo MIME de las extensiones conocidas, para las reglas por tipo (image/*, video/mp4...)
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  zip: 'application/zip',
+  rar: 'application/vnd.rar',
+  '7z': 'application/x-7z-compressed',
+  gz: 'application/gzip',
+  tgz: 'application/gzip',
+  bz2: 'application/x-bzip2',
+  js: 'text/javascript',
+  ts: 'text/typescript',
+  html: 'text/html',
+  css: 'text/css',
+  txt: 'text/plain',
+  json: 'application/json',
+  xml: 'application/xml',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  avi: 'video/x-msvideo',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+// Desde este ratio DEFLATE no compensa: la entrada se guarda tal cual
+const STORE_RATIO_THRESHOLD = 0.9;
+
+/**
+ * Reglas por defecto, derivadas de la tabla de ratios: STORE para los formatos que casi
+ * no se comprimen; el resto usa el nivel general (solo bajan el nivel, así que con
+ * "sin compresión" ninguna entrada se comprime)
+ */
+export const DEFAULT_COMPRESSION_RULES: CompressionRule[] = Object.entries(ESTIMATED_COMPRESSION_RATIOS)
+  .filter(([, ratio]) => ratio >= STORE_RATIO_THRESHOLD)
+  .map(([extension]) => ({ match: extension, level: 0 }));
+
+/**
+ * Regla normalizada: extensión en minúsculas sin punto o tipo MIME (con "*" como subtipo)
+ */
+interface CompiledRule {
+  rule: CompressionRule;
+  extension: string | null;
+  mimeType: string | null;
+}
+
+/**
+ * Política de compresión: la primera regla que coincide con una entrada fija su nivel
+ * (0 = STORE, 1-9 = DEFLATE); sin ninguna, se usa el nivel general
+ */
+export class CompressionPolicy {
+  private readonly rules: CompiledRule[];
+
+  constructor(rules: CompressionRule[] = [], private readonly defaultLevel = 6) {
+    this.rules = rules.filter(rule => normalizeMatch(rule.match).length > 0).map(compileRule);
+  }
+
+  /**
+   * Nivel de compresión de una entrada según su ruta
+   */
+  public getLevel(path: string): number {
+    return this.findRule(path)?.level ?? this.defaultLevel;
+  }
+
+  /**
+   * Primera regla que coincide con la entrada, o null si se usa el nivel general
+   */
+  public findRule(path: string): CompressionRule | null {
+    const name = path.substring(path.lastIndexOf('/') + 1).toLowerCase();
+    const mimeType = getMimeType(name);
+
+    const match = this.rules.find(({ extension, mimeType: pattern }) => {
+      if (extension !== null) {
+        // Admite extensiones compuestas como tar.gz
+        return name.endsWith(`.${extension}`);
+      }
+      if (!mimeType || !pattern) {
+        return false;
+      }
+      return pattern.endsWith('/*')
+        ? mimeType.startsWith(pattern.slice(0, -1))
+        : mimeType === pattern;
+    });
+
+    return match?.rule ?? null;
+  }
+}
+
+/**
+ * Estima el ratio de compresión basado en el nombre del archivo
+ */
+export function estimateCompressionRatio(filename: string): number {
+  const extension = filename.toLowerCase().split('.').pop() || '';
+  return ESTIMATED_COMPRESSION_RATIOS[extension] || DEFAULT_COMPRESSION_RATIO;
+}
+
+/**
+ * Tipo MIME de un archivo según su extensión, o null si no se conoce
+ */
+export function getMimeType(filename: string): string | null {
+  const extension = filename.toLowerCase().split('.').pop() || '';
+  return EXTENSION_MIME_TYPES[extension] ?? null;
+}
+
+/**
+ * Comprueba que todas las reglas son válidas; devuelve el error de la primera que no
+ */
+export function getCompressionRuleError(rules: CompressionRule[]): string | null {
+  for (const rule of rules) {
+    const match = normalizeMatch(rule.match);
+    if (match.length === 0) {
+      return 'Every compression rule needs an extension or MIME type';
+    }
+    if (!Number.isInteger(rule.level) || rule.level < 0 || rule.level > 9) {
+      return `Compression rule "${rule.match}" must use a level between 0 and 9`;
+    }
+    if (match.includes('/') && !/^[a-z0-9.+-]+\/(\*|[a-z0-9.+-]+)$/.test(match)) {
+      return `Invalid MIME type "${rule.match}" in compression rules`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Quita espacios, mayúsculas y el "*." o "." inicial de las extensiones
+ */
+function normalizeMatch(match: string): string {
+  return match.trim().toLowerCase().replace(/^\*?\./, '');
+}
+
+function compileRule(rule: CompressionRule): CompiledRule {
+  const match = normalizeMatch(rule.match);
+  return match.includes('/')
+    ? { rule, extension: null, mimeType: match }
+    : { rule, extension: match, mimeType: null };
+}
@@ -4,6 +4,8 @@
  */
 
 import { saveAs } from 'file-saver';
+import { MANIFEST_FILE_NAME, createManifestBlob } from './manifest';
+import { sha256Hex } from './sha256';
 import type { ProcessedFragment, ProcessingManifest } from '@/types/processing';
 
 export type DownloadStatus = 'pending' | 'downloading' | 'completed' | 'failed' | 'cancelled';
@@ -90,11 +92,11 @@ export class DownloadManager {
   /**
    * Crea un nuevo batch de descargas
    */
-  public createBatch(
+  public async createBatch(
     fragments: ProcessedFragment[],
     manifest?: ProcessingManifest,
     options: Partial<DownloadOptions> = {}
-  ): string {
+  ): Promise<string> {
     const batchId = this.generateBatchId();
     const batchOptions = { ...this.defaultOptions, ...options };
     
@@ -108,16 +110,14 @@ export class DownloadManager {
 
     // Agregar manifest si está habilitado
     if (manifest && batchOptions.includeManifest) {
-      const manifestBlob = new Blob([JSON.stringify(manifest, null, 2)], {
-        type: 'application/json'
-      });
+      const manifestBlob = createManifestBlob(manifest);
 
       const manifestFragment: ProcessedFragment = {
         id: 'manifest',
-        name: 'manifest.json',
+        name: MANIFEST_FILE_NAME,
         size: manifestBlob.size,
         blob: manifestBlob,
-        checksum: 'manifest-checksum'
+        checksum: await sha256Hex(manifestBlob)
       };
 
       items.push({
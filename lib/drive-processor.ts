@@ -5,6 +5,10 @@
 
 import { GoogleDriveClient } from './google-drive-client';
 import { ZipProcessor } from './zip-processor';
+import { ARCHIVE_FILE_TYPES } from './archive-reader';
+import { sha256Hex } from './sha256';
+import { MANIFEST_FILE_NAME, MANIFEST_VERSION, createManifestBlob } from './manifest';
+import { signManifest } from './manifest-signing';
 import type {
   ProcessingOptions,
   ProcessingResult,
@@ -121,9 +125,11 @@ export class DriveProcessor {
       // Fase 1: Procesar ZIP localmente (0-50%)
       this.reportProgress(5, 'Processing ZIP file locally...');
       
+      // El manifest se firma cuando ya incluye los datos de Drive
       const zipResult = await this.zipProcessor.processFile(file, {
         ...options,
-        strategy: 'CLIENT_SIDE' // Procesamos localmente primero
+        strategy: 'CLIENT_SIDE', // Procesamos localmente primero
+        signManifest: false
       });
 
       if (!zipResult.success || !zipResult.fragments) {
@@ -141,12 +147,14 @@ export class DriveProcessor {
       // Fase 3: Generar manifest para Drive (95-98%)
       this.reportProgress(95, 'Creating Drive manifest...');
       
-      const driveManifest = this.createDriveManifest(
+      const unsignedManifest = this.createDriveManifest(
         file,
         zipResult.fragments,
         driveResult,
-        options
+        options,
+        zipResult.manifest
       );
+      const driveManifest = options.signManifest ? await signManifest(unsignedManifest) : unsignedManifest;
 
       // Fase 4: Subir manifest si es necesario (98-100%)
       let manifestUploadResult = null;
@@ -177,7 +185,7 @@ export class DriveProcessor {
         metrics: finalMetrics,
         driveFolder: driveResult.folder,
         driveFiles: driveResult.files,
-        shareableManifest: manifestUploadResult?.shareableLink
+        ...(manifestUploadResult && { shareableManifest: manifestUploadResult.shareableLink })
       };
 
     } catch (error) {
@@ -192,28 +200,15 @@ export class DriveProcessor {
     originalFile: File,
     fragments: ProcessedFragment[],
     driveResult: any,
-    options: DriveProcessingOptions
-  ): ProcessingManifest & {
-    driveInfo: {
-      folderId: string;
-      folderName: string;
-      folderLink: string;
-      files: Array<{
-        driveFileId: string;
-        shareableLink: string;
-        downloadUrl: string;
-      }>;
-    };
-    instructions: {
-      howToDownload: string[];
-      howToReassemble: string[];
-    };
-  } {
-    const baseManifest = {
-      originalFile: {
+    options: DriveProcessingOptions,
+    zipManifest?: ProcessingManifest
+  ): ProcessingManifest {
+    // Mismo formato que el manifest de ZipProcessor, con la carpeta de Drive y las instrucciones
+    const baseManifest: ProcessingManifest = {
+      originalFile: zipManifest?.originalFile ?? {
         name: originalFile.name,
         size: originalFile.size,
-        checksum: '' // Se calculará si es necesario
+        checksum: ''
       },
       fragments: fragments.map((fragment, index) => ({
         id: fragment.id,
@@ -222,13 +217,20 @@ export class DriveProcessor {
         checksum: fragment.checksum,
         order: index + 1
       })),
+      ...(zipManifest?.entries && { entries: zipManifest.entries }),
+      ...(zipManifest?.chunkedEntries && { chunkedEntries: zipManifest.chunkedEntries }),
+      ...(zipManifest?.excludedEntries && { excludedEntries: zipManifest.excludedEntries }),
       metadata: {
+        ...zipManifest?.metadata,
         createdAt: new Date().toISOString(),
-        version: '1.0.0',
+        version: MANIFEST_VERSION,
         strategy: 'CLIENT_DRIVE',
-        compressionLevel: options.compressionLevel
+        compressionLevel: options.compressionLevel,
+        splitMode: options.splitMode || 'independent',
+        ...(options.splitMode !== 'raw' && { outputFormat: options.outputFormat || 'zip' })
       }
     };
+    const extension = ARCHIVE_FILE_TYPES[options.outputFormat || 'zip'].extension;
 
     return {
       ...baseManifest,
@@ -249,12 +251,24 @@ export class DriveProcessor {
           '3. Right-click and choose "Download"',
           '4. Google Drive will create a ZIP containing all fragments'
         ],
-        howToReassemble: [
+        howToReassemble: options.splitMode === 'raw' ? [
+          '1. Extract the downloaded ZIP from Google Drive',
+          `2. Join the parts in order: cat "${originalFile.name}".* > "${originalFile.name}" (Windows: copy /b part1+part2+... file)`,
+          '3. Verify the sha256 of every part and of the whole file using "chunkedEntries" in this manifest file'
+        ] : options.splitMode === 'spanned' ? [
+          '1. Extract the downloaded ZIP from Google Drive',
+          '2. Keep all volumes (.z01, .z02, ... and the final .zip) in the same folder',
+          '3. Open the .zip volume with 7-Zip or WinRAR, or run "zip -s 0 archive.zip --out joined.zip"',
+          '4. Verify checksums using this manifest file'
+        ] : [
           '1. Extract the downloaded ZIP from Google Drive',
-          '2. You should see all fragment files (.zip files)',
-          '3. Use any ZIP extraction tool to extract each fragment',
+          `2. You should see all fragment files (${extension} files)`,
+          extension === '.zip'
+            ? '3. Use any ZIP extraction tool to extract each fragment'
+            : `3. Extract each fragment with "tar -xpf <fragment>${extension}" to keep POSIX permissions`,
           '4. Combine the extracted contents to reconstruct the original files',
-          '5. Verify checksums using this manifest file'
+          '5. Join split files listed under "chunkedEntries" in order (e.g. cat video.mp4.* > video.mp4)',
+          '6. Verify checksums using this manifest file'
         ]
       }
     };
@@ -264,19 +278,17 @@ export class DriveProcessor {
    * Sube manifest a Google Drive
    */
   private async uploadManifest(
-    manifest: any,
+    manifest: ProcessingManifest,
     folderId: string
   ): Promise<{ shareableLink: string; downloadUrl: string }> {
-    const manifestBlob = new Blob([JSON.stringify(manifest, null, 2)], {
-      type: 'application/json'
-    });
+    const manifestBlob = createManifestBlob(manifest);
 
     const manifestFragment: ProcessedFragment = {
       id: 'manifest',
-      name: 'manifest.json',
+      name: MANIFEST_FILE_NAME,
       size: manifestBlob.size,
       blob: manifestBlob,
-      checksum: await this.calculateChecksum(manifestBlob)
+      checksum: await sha256Hex(manifestBlob)
     };
 
     const result = await this.driveClient.uploadFragments([manifestFragment], {
@@ -292,16 +304,6 @@ export class DriveProcessor {
     };
   }
 
-  /**
-   * Calcula checksum SHA-256 de un blob
-   */
-  private async calculateChecksum(blob: Blob): Promise<string> {
-    const arrayBuffer = await blob.arrayBuffer();
-    const hashBuffer = await crypto.subtle.digest('SHA-256', arrayBuffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  }
-
   /**
    * Valida opciones de procesamiento para Drive
    */
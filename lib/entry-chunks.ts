@@ -0,0 +1,135 @@
+/**
+ * Entry Chunks
+ * División de entradas más grandes que un fragmento en partes por rangos de
+ * bytes, y reconstrucción verificada de la entrada a partir de esas partes
+ */
+
+import { Sha256, sha256Hex } from './sha256';
+import { crc32 } from './zip-format';
+import type { ManifestChunkedEntry, ManifestEntryPart } from '@/types/processing';
+
+export interface EntryRange {
+  part: number; // 1-based
+  totalParts: number;
+  offset: number;
+  length: number;
+}
+
+/**
+ * Divide el tamaño de una entrada en rangos consecutivos de como máximo partSize bytes
+ */
+export function planEntryRanges(size: number, partSize: number): EntryRange[] {
+  if (partSize <= 0) {
+    throw new Error('Part size must be greater than 0');
+  }
+
+  const totalParts = Math.ceil(size / partSize);
+  const ranges: EntryRange[] = [];
+
+  for (let part = 1; part <= totalParts; part++) {
+    const offset = (part - 1) * partSize;
+    ranges.push({
+      part,
+      totalParts,
+      offset,
+      length: Math.min(partSize, size - offset)
+    });
+  }
+
+  return ranges;
+}
+
+/**
+ * Nombre de una parte: video.mp4 -> video.mp4.001 (se une con cat video.mp4.* > video.mp4)
+ */
+export function getPartName(path: string, part: number, totalParts: number): string {
+  const digits = Math.max(3, totalParts.toString().length);
+  return `${path}.${part.toString().padStart(digits, '0')}`;
+}
+
+/**
+ * Lee un stream y entrega exactamente un bloque por rango, sin cargar el resto
+ */
+export async function* readEntryRanges(
+  stream: ReadableStream<Uint8Array>,
+  ranges: EntryRange[]
+): AsyncGenerator<{ range: EntryRange; data: Uint8Array }> {
+  const reader = stream.getReader();
+  let pending: Uint8Array = new Uint8Array(0);
+
+  try {
+    for (const range of ranges) {
+      const data = new Uint8Array(range.length);
+      let filled = 0;
+
+      while (filled < range.length) {
+        if (pending.byteLength === 0) {
+          const { done, value } = await reader.read();
+          if (done) {
+            throw new Error(`Unexpected end of entry data at byte ${range.offset + filled}`);
+          }
+          pending = value;
+          continue;
+        }
+
+        const take = Math.min(pending.byteLength, range.length - filled);
+        data.set(pending.subarray(0, take), filled);
+        filled += take;
+        pending = pending.subarray(take);
+      }
+
+      yield { range, data };
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Reconstruye una entrada dividida verificando el hash de cada parte y el total, y
+ * calcula su CRC32; las partes que llegan como Blob se leen para verificarlas pero no se copian
+ */
+export async function reassembleChunkedEntry(
+  entry: ManifestChunkedEntry,
+  readPart: (part: ManifestEntryPart) => Promise<Uint8Array | Blob>
+): Promise<{ blob: Blob; crc32: number }> {
+  const parts = [...entry.parts].sort((a, b) => a.offset - b.offset);
+  const wholeHash = new Sha256();
+  let checksum = 0;
+  const chunks: BlobPart[] = [];
+  let expectedOffset = 0;
+
+  for (const part of parts) {
+    if (part.offset !== expectedOffset) {
+      throw new Error(
+        `Missing bytes ${expectedOffset}-${part.offset} of "${entry.path}"`
+      );
+    }
+
+    const content = await readPart(part);
+    const data = content instanceof Blob ? new Uint8Array(await content.arrayBuffer()) : content;
+
+    if (data.byteLength !== part.length) {
+      throw new Error(`Part "${part.name}" has ${data.byteLength} bytes, expected ${part.length}`);
+    }
+
+    if (await sha256Hex(data) !== part.sha256) {
+      throw new Error(`Checksum mismatch in part "${part.name}"`);
+    }
+
+    wholeHash.update(data);
+    checksum = crc32(data, checksum);
+    chunks.push(content as BlobPart);
+    expectedOffset += part.length;
+  }
+
+  if (expectedOffset !== entry.size) {
+    throw new Error(`Missing bytes ${expectedOffset}-${entry.size} of "${entry.path}"`);
+  }
+
+  if (wholeHash.digestHex() !== entry.sha256) {
+    throw new Error(`Checksum mismatch in reassembled entry "${entry.path}"`);
+  }
+
+  return { blob: new Blob(chunks), crc32: checksum };
+}
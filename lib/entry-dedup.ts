@@ -0,0 +1,185 @@
+/**
+ * Entry Deduplication
+ * Detecta entradas con contenido idéntico: se agrupan por tamaño y CRC32 y solo las
+ * candidatas se leen para comparar su SHA-256, así que un archivo sin duplicados no
+ * se recorre
+ */
+
+import { canReadEntryData, type ZipEntryInfo } from './zip-reader';
+import type { ArchiveReader } from './archive-reader';
+import type { FileCollection } from './file-collection';
+import { Sha256 } from './sha256';
+import type { SourceFile } from '@/types/processing';
+
+/**
+ * Contenido repetido: el original se guarda y las copias solo se registran en el manifest
+ */
+export interface DuplicateGroup<T> {
+  sha256: string;
+  size: number;
+  original: T; // La primera aparición en el orden del archivo
+  duplicates: T[];
+}
+
+/**
+ * Copias que no se guardan y bytes (descomprimidos) que se ahorran
+ */
+export interface DuplicateSummary {
+  files: number;
+  bytes: number;
+}
+
+/**
+ * SHA-256 de las candidatas ya leídas, por su clave (getEntryKey o la ruta del archivo);
+ * el análisis las pasa al procesamiento para no leer dos veces las mismas entradas
+ */
+export type ContentHashes = Record<string, string>;
+
+/**
+ * Elemento que puede compararse: el CRC32 es null si no se conoce antes de leerlo
+ */
+interface DuplicateCandidate<T> {
+  item: T;
+  key: string;
+  size: number;
+  crc32: number | null;
+  open: () => Promise<ReadableStream<Uint8Array>>;
+}
+
+/**
+ * Busca entradas duplicadas de un archivo; las que no pueden leerse (cifradas sin
+ * contraseña o con métodos no soportados) nunca se consideran duplicadas. Las
+ * candidatas que ya están en hashes no se leen y las que se leen se añaden
+ */
+export async function findDuplicateEntries(
+  reader: ArchiveReader,
+  entries: ZipEntryInfo[],
+  decrypt = false,
+  signal?: AbortSignal,
+  hashes: ContentHashes = {}
+): Promise<DuplicateGroup<ZipEntryInfo>[]> {
+  const candidates = entries
+    .filter(entry => !entry.dir && canReadEntryData(entry, decrypt))
+    .map(entry => ({
+      item: entry,
+      key: getEntryKey(entry),
+      size: entry.uncompressedSize,
+      // Las entradas AES AE-2 guardan CRC 0: se agrupan solo por tamaño
+      crc32: entry.encryption ? null : entry.crc32,
+      open: () => reader.streamEntryData(entry)
+    }));
+
+  return findDuplicates(candidates, hashes, signal);
+}
+
+/**
+ * Busca archivos duplicados en una carpeta sin leer los que tienen un tamaño único
+ */
+export async function findDuplicateFiles(
+  collection: FileCollection,
+  signal?: AbortSignal,
+  hashes: ContentHashes = {}
+): Promise<DuplicateGroup<SourceFile>[]> {
+  const candidates: DuplicateCandidate<SourceFile>[] = [];
+  for (const source of collection.files) {
+    const file = source.file;
+    if (file) {
+      candidates.push({ item: source, key: source.path, size: file.size, crc32: null, open: async () => file.stream() });
+    }
+  }
+
+  return findDuplicates(candidates, hashes, signal);
+}
+
+/**
+ * Identifica una entrada igual en cualquier lectura del mismo archivo (los nombres
+ * pueden repetirse, la posición de su cabecera no)
+ */
+function getEntryKey(entry: ZipEntryInfo): string {
+  return `${entry.localHeaderOffset}:${entry.name}`;
+}
+
+/**
+ * Total de copias y bytes que se ahorran al guardar cada contenido una sola vez
+ */
+export function summarizeDuplicates<T>(groups: DuplicateGroup<T>[]): DuplicateSummary {
+  return groups.reduce(
+    (summary, group) => ({
+      files: summary.files + group.duplicates.length,
+      bytes: summary.bytes + group.size * group.duplicates.length
+    }),
+    { files: 0, bytes: 0 }
+  );
+}
+
+/**
+ * Agrupa por tamaño y CRC32 y confirma con SHA-256 dentro de cada grupo
+ */
+async function findDuplicates<T>(
+  candidates: DuplicateCandidate<T>[],
+  hashes: ContentHashes,
+  signal?: AbortSignal
+): Promise<DuplicateGroup<T>[]> {
+  const bySize = new Map<string, DuplicateCandidate<T>[]>();
+  for (const candidate of candidates) {
+    // Los vacíos no ocupan nada: no se ahorra nada al deduplicarlos
+    if (candidate.size === 0) {
+      continue;
+    }
+    const key = `${candidate.size}/${candidate.crc32 ?? '?'}`;
+    const group = bySize.get(key);
+    if (group) {
+      group.push(candidate);
+    } else {
+      bySize.set(key, [candidate]);
+    }
+  }
+
+  const groups: DuplicateGroup<T>[] = [];
+  for (const sameSize of bySize.values()) {
+    if (sameSize.length < 2) {
+      continue;
+    }
+
+    const byHash = new Map<string, T[]>();
+    for (const candidate of sameSize) {
+      const sha256 = hashes[candidate.key] ??= await hashStream(await candidate.open(), signal);
+      const items = byHash.get(sha256);
+      if (items) {
+        items.push(candidate.item);
+      } else {
+        byHash.set(sha256, [candidate.item]);
+      }
+    }
+
+    for (const [sha256, items] of byHash) {
+      if (items.length > 1) {
+        groups.push({ sha256, size: sameSize[0]!.size, original: items[0]!, duplicates: items.slice(1) });
+      }
+    }
+  }
+
+  return groups;
+}
+
+async function hashStream(stream: ReadableStream<Uint8Array>, signal?: AbortSignal): Promise<string> {
+  const reader = stream.getReader();
+  const hash = new Sha256();
+
+  try {
+    for (;;) {
+      if (signal?.aborted) {
+        throw new Error('Processing cancelled');
+      }
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      hash.update(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return hash.digestHex();
+}
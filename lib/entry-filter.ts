@@ -0,0 +1,321 @@
+/**
+ * Entry Filter
+ * Patrones glob de inclusión y exclusión para las entradas del archivo, con la misma
+ * semántica que .gitignore: un patrón sin barra compara solo el nombre a cualquier
+ * profundidad, uno con barra se ancla a la raíz y uno terminado en "/" solo descarta
+ * directorios (y todo lo que contienen)
+ */
+
+import type { ZipEntryInfo } from './zip-reader';
+import type { ManifestExcludedEntry } from '@/types/processing';
+
+/**
+ * Conjunto de patrones predefinidos para descartar archivos basura habituales
+ */
+export interface EntryFilterPreset {
+  id: string;
+  label: string;
+  description: string;
+  patterns: string[];
+}
+
+/**
+ * Archivos y bytes que un patrón descarta en la vista previa
+ */
+export interface EntryFilterRuleStats {
+  pattern: string;
+  files: number;
+  bytes: number;
+}
+
+/**
+ * Efecto de los filtros sobre las entradas de un archivo (solo cuentan los archivos:
+ * los directorios no ocupan bytes)
+ */
+export interface EntryFilterPreview {
+  totalFiles: number;
+  totalBytes: number;
+  keptFiles: number;
+  keptBytes: number;
+  rules: EntryFilterRuleStats[]; // Uno por patrón de exclusión, en orden; cada archivo cuenta en el primero que coincide
+  notIncluded: { files: number; bytes: number }; // Archivos que no coinciden con ningún patrón de inclusión
+}
+
+/**
+ * Patrón compilado a expresión regular
+ */
+interface CompiledPattern {
+  source: string;
+  regex: RegExp;
+  anchored: boolean; // Se compara con la ruta completa en lugar de con el nombre
+  dirOnly: boolean;
+}
+
+export const ENTRY_FILTER_PRESETS: EntryFilterPreset[] = [
+  {
+    id: 'macos',
+    label: 'macOS metadata',
+    description: 'Resource forks, Finder and Spotlight files',
+    patterns: ['__MACOSX/', '.DS_Store', '._*', '.Spotlight-V100/', '.Trashes/', '.fseventsd/']
+  },
+  {
+    id: 'windows',
+    label: 'Windows metadata',
+    description: 'Thumbnail caches, folder settings and the recycle bin',
+    patterns: ['Thumbs.db', 'ehthumbs.db', 'desktop.ini', '$RECYCLE.BIN/']
+  },
+  {
+    id: 'vcs',
+    label: 'Version control',
+    description: 'Git, Subversion and Mercurial folders',
+    patterns: ['.git/', '.svn/', '.hg/']
+  },
+  {
+    id: 'dependencies',
+    label: 'Dependencies and caches',
+    description: 'Installed packages and build caches that can be restored',
+    patterns: ['node_modules/', 'bower_components/', '__pycache__/', '.venv/']
+  },
+  {
+    id: 'logs',
+    label: 'Logs and temporary files',
+    description: 'Log files, editor backups and swap files',
+    patterns: ['*.log', '*.tmp', '*~', '*.swp']
+  }
+];
+
+/**
+ * Filtro de entradas a partir de listas de patrones de inclusión y exclusión
+ */
+export class EntryFilter {
+  private readonly include: CompiledPattern[];
+  private readonly exclude: CompiledPattern[];
+
+  constructor(include: string[] = [], exclude: string[] = []) {
+    this.include = parsePatterns(include).map(compilePattern);
+    this.exclude = parsePatterns(exclude).map(compilePattern);
+  }
+
+  /**
+   * Indica si no hay ningún patrón: todas las entradas se conservan
+   */
+  public get isEmpty(): boolean {
+    return this.include.length === 0 && this.exclude.length === 0;
+  }
+
+  /**
+   * Separa las entradas que se conservan de las descartadas; con patrones de inclusión,
+   * un directorio se conserva si coincide o si contiene alguna entrada conservada
+   */
+  public apply(entries: ZipEntryInfo[]): { kept: ZipEntryInfo[]; excluded: ManifestExcludedEntry[] } {
+    const reasons = new Map<ZipEntryInfo, string | null>();
+    const keptDirectories = new Set<string>();
+
+    for (const entry of entries) {
+      const reason = this.getExclusionReason(entry);
+      reasons.set(entry, reason);
+      if (reason === null && !entry.dir) {
+        for (const directory of getParentPaths(trimPath(entry.name))) {
+          keptDirectories.add(directory);
+        }
+      }
+    }
+
+    const kept: ZipEntryInfo[] = [];
+    const excluded: ManifestExcludedEntry[] = [];
+
+    for (const entry of entries) {
+      let reason = reasons.get(entry) ?? null;
+      if (reason === NOT_INCLUDED && entry.dir && keptDirectories.has(trimPath(entry.name))) {
+        reason = null;
+      }
+
+      if (reason === null) {
+        kept.push(entry);
+      } else {
+        excluded.push({
+          path: entry.name,
+          ...(entry.dir && { dir: true }),
+          size: entry.uncompressedSize,
+          ...(reason !== NOT_INCLUDED && { excludedBy: reason })
+        });
+      }
+    }
+
+    return { kept, excluded };
+  }
+
+  /**
+   * Cuenta los archivos y bytes que descarta cada patrón
+   */
+  public preview(entries: ZipEntryInfo[]): EntryFilterPreview {
+    const rules = this.exclude.map(({ source }) => ({ pattern: source, files: 0, bytes: 0 }));
+    const notIncluded = { files: 0, bytes: 0 };
+    const preview = { totalFiles: 0, totalBytes: 0, keptFiles: 0, keptBytes: 0 };
+
+    for (const entry of entries) {
+      if (entry.dir) {
+        continue;
+      }
+
+      const size = entry.uncompressedSize;
+      preview.totalFiles++;
+      preview.totalBytes += size;
+
+      const reason = this.getExclusionReason(entry);
+      const stats = reason === null
+        ? null
+        : reason === NOT_INCLUDED ? notIncluded : rules.find(rule => rule.pattern === reason);
+
+      if (stats) {
+        stats.files++;
+        stats.bytes += size;
+      } else {
+        preview.keptFiles++;
+        preview.keptBytes += size;
+      }
+    }
+
+    return { ...preview, rules, notIncluded };
+  }
+
+  /**
+   * Patrón de exclusión que descarta la entrada, NOT_INCLUDED si no coincide con ningún
+   * patrón de inclusión, o null si se conserva
+   */
+  private getExclusionReason(entry: ZipEntryInfo): string | null {
+    const path = trimPath(entry.name);
+
+    const excludedBy = this.exclude.find(pattern => matchesPath(pattern, path, entry.dir));
+    if (excludedBy) {
+      return excludedBy.source;
+    }
+
+    if (this.include.length > 0 && !this.include.some(pattern => matchesPath(pattern, path, entry.dir))) {
+      return NOT_INCLUDED;
+    }
+
+    return null;
+  }
+}
+
+// Motivo interno de las entradas que ningún patrón de inclusión selecciona
+const NOT_INCLUDED = '\0not-included';
+
+/**
+ * Limpia una lista de patrones: sin espacios de los extremos, líneas vacías ni comentarios (#)
+ */
+export function parsePatterns(patterns: string[]): string[] {
+  return patterns
+    .map(pattern => pattern.trim())
+    .filter(pattern => pattern.length > 0 && !pattern.startsWith('#'));
+}
+
+/**
+ * Comprueba que todos los patrones pueden compilarse; devuelve el error del primero que no
+ */
+export function getPatternError(patterns: string[]): string | null {
+  try {
+    parsePatterns(patterns).forEach(compilePattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+}
+
+/**
+ * Un patrón coincide con la entrada o con cualquiera de sus directorios padre
+ */
+function matchesPath(pattern: CompiledPattern, path: string, dir: boolean): boolean {
+  const candidates = [
+    ...getParentPaths(path).map(parent => ({ path: parent, dir: true })),
+    { path, dir }
+  ];
+
+  return candidates.some(candidate => {
+    if (pattern.dirOnly && !candidate.dir) {
+      return false;
+    }
+    const subject = pattern.anchored
+      ? candidate.path
+      : candidate.path.substring(candidate.path.lastIndexOf('/') + 1);
+    return pattern.regex.test(subject);
+  });
+}
+
+/**
+ * Rutas de los directorios que contienen una entrada, del más externo al más interno
+ */
+function getParentPaths(path: string): string[] {
+  const segments = path.split('/');
+  return segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join('/'));
+}
+
+function trimPath(path: string): string {
+  return path.replace(/\/+$/, '');
+}
+
+/**
+ * Convierte un glob en expresión regular: "*" y "?" no cruzan "/", "**" sí,
+ * y se admiten clases [abc] o [!abc] y alternativas {a,b}
+ */
+function compilePattern(source: string): CompiledPattern {
+  let glob = source;
+  const dirOnly = glob.endsWith('/');
+  glob = glob.replace(/\/+$/, '');
+  const anchored = glob.includes('/');
+  glob = glob.replace(/^\/+/, '');
+
+  if (glob.length === 0) {
+    throw new Error(`Invalid filter pattern "${source}"`);
+  }
+
+  let regex = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" cubre cero o más directorios; "**" al final, cualquier resto de la ruta
+        const slash = glob[i + 2] === '/';
+        regex += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        regex += '\\[';
+        continue;
+      }
+      const body = glob.substring(i + 1, end).replace(/\\/g, '\\\\');
+      regex += body.startsWith('!') ? `[^${body.substring(1)}]` : `[${body}]`;
+      i = end;
+    } else if (char === '{') {
+      braceDepth++;
+      regex += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      regex += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      regex += '|';
+    } else {
+      regex += char.replace(/[.+^$()|\\{}]/g, '\\$&');
+    }
+  }
+
+  if (braceDepth > 0) {
+    throw new Error(`Invalid filter pattern "${source}": unclosed "{"`);
+  }
+
+  try {
+    return { source, regex: new RegExp(`^${regex}$`), anchored, dirOnly };
+  } catch {
+    throw new Error(`Invalid filter pattern "${source}"`);
+  }
+}
@@ -0,0 +1,558 @@
+/**
+ * Envelope Crypto
+ * Cifrado de fragmentos para destinatarios con clave pública: cada fragmento se
+ * cifra con una clave AES-GCM aleatoria que se envuelve para cada destinatario
+ * con RSA-OAEP o ECDH P-256
+ */
+
+import type { EnvelopeAlgorithm, RecipientKey } from '@/types/processing';
+
+/**
+ * Clave privada importada para abrir fragmentos cifrados
+ */
+export interface EnvelopePrivateKey {
+  algorithm: EnvelopeAlgorithm;
+  key: CryptoKey;
+  fingerprint: string | null; // Solo se conoce si la clave incluye la parte pública (JWK)
+}
+
+/**
+ * Destinatario con su clave pública ya importada en WebCrypto
+ */
+export interface ImportedRecipient {
+  algorithm: EnvelopeAlgorithm;
+  fingerprint: Uint8Array;
+  key: CryptoKey;
+}
+
+/**
+ * Cabecera del sobre: destinatarios y tamaño de los segmentos cifrados
+ */
+interface EnvelopeHeader {
+  segmentSize: number;
+  recipients: { algorithm: EnvelopeAlgorithm; fingerprint: string; wrappedKey: Uint8Array }[];
+  bytes: Uint8Array; // Cabecera completa, autenticada en cada segmento
+}
+
+// Extensión de los fragmentos cifrados para destinatarios
+export const ENVELOPE_EXTENSION = '.enc';
+
+// Formato: 'SZSE', versión, tamaño de segmento, destinatarios y segmentos AES-GCM
+const ENVELOPE_MAGIC = new Uint8Array([0x53, 0x5a, 0x53, 0x45]);
+const ENVELOPE_VERSION = 1;
+const FIXED_HEADER_SIZE = 11;
+const RECIPIENT_HEADER_SIZE = 35; // Algoritmo, huella y longitud de la clave envuelta
+const FINGERPRINT_SIZE = 32;
+
+// Segmentos de 1MB: los fragmentos se cifran y descifran sin cargarlos completos
+const SEGMENT_SIZE = 1024 * 1024;
+const GCM_IV_SIZE = 12;
+const GCM_TAG_SIZE = 16;
+
+const ALGORITHM_IDS: Record<EnvelopeAlgorithm, number> = {
+  'RSA-OAEP': 1,
+  'ECDH-P256': 2
+};
+
+const RSA_PARAMS = { name: 'RSA-OAEP', hash: 'SHA-256' } as const;
+const ECDH_PARAMS = { name: 'ECDH', namedCurve: 'P-256' } as const;
+const RSA_MODULUS_LENGTH = 3072;
+// Clave pública efímera sin comprimir (65 bytes) + clave de contenido envuelta con AES-KW (40 bytes)
+const ECDH_EPHEMERAL_KEY_SIZE = 65;
+const ECDH_WRAPPED_KEY_SIZE = ECDH_EPHEMERAL_KEY_SIZE + 40;
+
+const utf8Encoder = new TextEncoder();
+const HKDF_INFO = utf8Encoder.encode('smart-zip-splitter envelope v1');
+
+/**
+ * Lee una clave pública en PEM (SPKI) o JWK y la prepara para el keyring
+ */
+export async function parsePublicKey(text: string, name: string): Promise<RecipientKey> {
+  const { algorithm, key } = await importPublicKeyText(text.trim());
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', key));
+
+  return {
+    name: name.trim() || 'Unnamed key',
+    algorithm,
+    publicKey: bytesToBase64(spki),
+    fingerprint: toHex(await sha256(spki)),
+    addedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Genera un par de claves nuevo: la pública va al keyring y la privada se entrega como JWK
+ */
+export async function generateRecipientKeyPair(
+  name: string,
+  algorithm: EnvelopeAlgorithm
+): Promise<{ recipient: RecipientKey; privateKey: JsonWebKey }> {
+  const pair = algorithm === 'RSA-OAEP'
+    ? await crypto.subtle.generateKey(
+      { ...RSA_PARAMS, modulusLength: RSA_MODULUS_LENGTH, publicExponent: new Uint8Array([1, 0, 1]) },
+      true,
+      ['wrapKey', 'unwrapKey']
+    )
+    : await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']);
+
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', pair.publicKey));
+
+  return {
+    recipient: {
+      name: name.trim() || 'My key',
+      algorithm,
+      publicKey: bytesToBase64(spki),
+      fingerprint: toHex(await sha256(spki)),
+      addedAt: new Date().toISOString()
+    },
+    privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey)
+  };
+}
+
+/**
+ * Lee una clave privada en JWK o PEM (PKCS#8) para abrir fragmentos
+ */
+export async function importPrivateKey(text: string): Promise<EnvelopePrivateKey> {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{')) {
+    const jwk = parseJwk(trimmed);
+    const algorithm = getJwkAlgorithm(jwk);
+    if (!jwk.d) {
+      throw new Error('This is a public key; a private key is needed to decrypt');
+    }
+
+    // La parte pública del JWK permite localizar al destinatario por su huella
+    const publicKey = await importKeyFor(algorithm, 'jwk', toPublicJwk(jwk, algorithm), 'public');
+    const spki = new Uint8Array(await crypto.subtle.exportKey('spki', publicKey));
+
+    return {
+      algorithm,
+      key: await importKeyFor(algorithm, 'jwk', jwk, 'private'),
+      fingerprint: toHex(await sha256(spki))
+    };
+  }
+
+  const der = readPem(trimmed, 'PRIVATE KEY');
+  for (const algorithm of Object.keys(ALGORITHM_IDS) as EnvelopeAlgorithm[]) {
+    try {
+      return { algorithm, key: await importKeyFor(algorithm, 'pkcs8', der, 'private'), fingerprint: null };
+    } catch {
+      // Probar con el siguiente algoritmo
+    }
+  }
+
+  throw new Error('Unsupported private key: use an RSA or P-256 key');
+}
+
+/**
+ * Bytes que el sobre añade a un fragmento del tamaño indicado (cota superior)
+ */
+export function estimateEnvelopeOverhead(size: number, recipients: RecipientKey[]): number {
+  const segments = Math.max(1, Math.ceil(size / SEGMENT_SIZE));
+  const recipientsSize = recipients.reduce((total, recipient) => {
+    // El módulo RSA nunca es más largo que su SPKI
+    const wrappedKeySize = recipient.algorithm === 'RSA-OAEP'
+      ? base64ToBytes(recipient.publicKey).byteLength
+      : ECDH_WRAPPED_KEY_SIZE;
+    return total + RECIPIENT_HEADER_SIZE + wrappedKeySize;
+  }, 0);
+
+  return FIXED_HEADER_SIZE + recipientsSize + segments * GCM_TAG_SIZE;
+}
+
+/**
+ * Importa las claves públicas de los destinatarios una sola vez para varios fragmentos
+ */
+export async function importRecipients(recipients: RecipientKey[]): Promise<ImportedRecipient[]> {
+  if (recipients.length === 0 || recipients.length > 0xffff) {
+    throw new Error('Fragments need between 1 and 65535 recipients');
+  }
+
+  return Promise.all(recipients.map(async recipient => {
+    const spki = base64ToBytes(recipient.publicKey);
+    const fingerprint = await sha256(spki);
+    if (toHex(fingerprint) !== recipient.fingerprint) {
+      throw new Error(`The public key of "${recipient.name}" does not match its fingerprint`);
+    }
+
+    return {
+      algorithm: recipient.algorithm,
+      fingerprint,
+      key: await importKeyFor(recipient.algorithm, 'spki', spki, 'public')
+    };
+  }));
+}
+
+/**
+ * Cifra un fragmento para los destinatarios: cabecera con la clave envuelta para
+ * cada uno y segmentos AES-GCM autenticados con la cabecera
+ */
+export async function sealBlob(blob: Blob, recipients: ImportedRecipient[]): Promise<Blob> {
+  const contentKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const wrappedKeys = await Promise.all(recipients.map(recipient => wrapContentKey(contentKey, recipient)));
+
+  const header = new ByteWriter(
+    FIXED_HEADER_SIZE + wrappedKeys.reduce((total, key) => total + RECIPIENT_HEADER_SIZE + key.byteLength, 0)
+  );
+  header.bytes(ENVELOPE_MAGIC);
+  header.uint8(ENVELOPE_VERSION);
+  header.uint32(SEGMENT_SIZE);
+  header.uint16(recipients.length);
+  recipients.forEach((recipient, i) => {
+    header.uint8(ALGORITHM_IDS[recipient.algorithm]);
+    header.bytes(recipient.fingerprint);
+    header.uint16(wrappedKeys[i]!.byteLength);
+    header.bytes(wrappedKeys[i]!);
+  });
+
+  const headerDigest = await sha256(header.output);
+  const segments = Math.max(1, Math.ceil(blob.size / SEGMENT_SIZE));
+  const parts: BlobPart[] = [header.output];
+
+  for (let i = 0; i < segments; i++) {
+    const plain = await blob.slice(i * SEGMENT_SIZE, (i + 1) * SEGMENT_SIZE).arrayBuffer();
+    parts.push(await crypto.subtle.encrypt(
+      segmentParams(i, i === segments - 1, headerDigest),
+      contentKey,
+      plain
+    ));
+  }
+
+  return new Blob(parts, { type: 'application/octet-stream' });
+}
+
+/**
+ * Huellas de los destinatarios de un fragmento cifrado
+ */
+export async function readEnvelopeRecipients(blob: Blob): Promise<string[]> {
+  const header = await readEnvelopeHeader(blob);
+  return header.recipients.map(recipient => recipient.fingerprint);
+}
+
+/**
+ * Descifra un fragmento con la clave privada de uno de sus destinatarios
+ */
+export async function openBlob(blob: Blob, privateKey: EnvelopePrivateKey): Promise<Blob> {
+  const header = await readEnvelopeHeader(blob);
+  const candidates = header.recipients.filter(recipient =>
+    recipient.algorithm === privateKey.algorithm &&
+    (privateKey.fingerprint === null || recipient.fingerprint === privateKey.fingerprint)
+  );
+
+  let contentKey: CryptoKey | null = null;
+  for (const candidate of candidates) {
+    try {
+      contentKey = await unwrapContentKey(candidate.wrappedKey, privateKey);
+      break;
+    } catch {
+      // Sin huella hay que probar cada destinatario con el mismo algoritmo
+    }
+  }
+
+  if (!contentKey) {
+    throw new Error('This private key is not one of the fragment recipients');
+  }
+
+  const headerDigest = await sha256(header.bytes);
+  const encryptedSegmentSize = header.segmentSize + GCM_TAG_SIZE;
+  const bodySize = blob.size - header.bytes.byteLength;
+  const segments = Math.max(1, Math.ceil(bodySize / encryptedSegmentSize));
+  const parts: BlobPart[] = [];
+
+  for (let i = 0; i < segments; i++) {
+    const start = header.bytes.byteLength + i * encryptedSegmentSize;
+    const encrypted = await blob.slice(start, start + encryptedSegmentSize).arrayBuffer();
+
+    try {
+      parts.push(await crypto.subtle.decrypt(
+        segmentParams(i, i === segments - 1, headerDigest),
+        contentKey,
+        encrypted
+      ));
+    } catch {
+      throw new Error('The encrypted fragment is corrupted or incomplete');
+    }
+  }
+
+  return new Blob(parts);
+}
+
+/**
+ * Huella en grupos de 4 caracteres para mostrarla en la interfaz
+ */
+export function formatFingerprint(fingerprint: string, length = 32): string {
+  return fingerprint.slice(0, length).toUpperCase().match(/.{1,4}/g)?.join(' ') ?? '';
+}
+
+/**
+ * Parámetros AES-GCM de un segmento: el IV lleva el índice y los datos adicionales
+ * marcan el último segmento, así no pueden reordenarse ni truncarse
+ */
+function segmentParams(index: number, final: boolean, headerDigest: Uint8Array): AesGcmParams {
+  const iv = new Uint8Array(GCM_IV_SIZE);
+  new DataView(iv.buffer).setUint32(GCM_IV_SIZE - 4, index, false);
+
+  const additionalData = new Uint8Array(headerDigest.byteLength + 1);
+  additionalData.set(headerDigest);
+  additionalData[headerDigest.byteLength] = final ? 1 : 0;
+
+  return { name: 'AES-GCM', iv, additionalData, tagLength: GCM_TAG_SIZE * 8 };
+}
+
+/**
+ * Envuelve la clave de contenido para un destinatario
+ */
+async function wrapContentKey(contentKey: CryptoKey, recipient: ImportedRecipient): Promise<Uint8Array> {
+  if (recipient.algorithm === 'RSA-OAEP') {
+    return new Uint8Array(await crypto.subtle.wrapKey('raw', contentKey, recipient.key, RSA_PARAMS));
+  }
+
+  // ECDH con una clave efímera: su parte pública viaja delante de la clave envuelta
+  const ephemeral = await crypto.subtle.generateKey(ECDH_PARAMS, false, ['deriveBits']);
+  const ephemeralPublic = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+  const keyEncryptionKey = await deriveKeyEncryptionKey(ephemeral.privateKey, recipient.key, ephemeralPublic, 'wrapKey');
+  const wrapped = new Uint8Array(await crypto.subtle.wrapKey('raw', contentKey, keyEncryptionKey, 'AES-KW'));
+
+  const output = new Uint8Array(ephemeralPublic.byteLength + wrapped.byteLength);
+  output.set(ephemeralPublic);
+  output.set(wrapped, ephemeralPublic.byteLength);
+  return output;
+}
+
+/**
+ * Recupera la clave de contenido con la clave privada del destinatario
+ */
+async function unwrapContentKey(wrappedKey: Uint8Array, privateKey: EnvelopePrivateKey): Promise<CryptoKey> {
+  if (privateKey.algorithm === 'RSA-OAEP') {
+    return crypto.subtle.unwrapKey(
+      'raw', wrappedKey as BufferSource, privateKey.key, RSA_PARAMS, 'AES-GCM', false, ['decrypt']
+    );
+  }
+
+  const ephemeralPublic = wrappedKey.subarray(0, ECDH_EPHEMERAL_KEY_SIZE);
+  const ephemeralKey = await crypto.subtle.importKey('raw', ephemeralPublic as BufferSource, ECDH_PARAMS, false, []);
+  const keyEncryptionKey = await deriveKeyEncryptionKey(privateKey.key, ephemeralKey, ephemeralPublic, 'unwrapKey');
+  return crypto.subtle.unwrapKey(
+    'raw',
+    wrappedKey.subarray(ECDH_EPHEMERAL_KEY_SIZE) as BufferSource,
+    keyEncryptionKey,
+    'AES-KW',
+    'AES-GCM',
+    false,
+    ['decrypt']
+  );
+}
+
+/**
+ * Deriva la clave AES-KW del secreto ECDH con HKDF-SHA256
+ */
+async function deriveKeyEncryptionKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  salt: Uint8Array,
+  usage: 'wrapKey' | 'unwrapKey'
+): Promise<CryptoKey> {
+  const secret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: salt as BufferSource, info: HKDF_INFO },
+    hkdfKey,
+    { name: 'AES-KW', length: 256 },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * Lee y valida la cabecera de un fragmento cifrado
+ */
+async function readEnvelopeHeader(blob: Blob): Promise<EnvelopeHeader> {
+  const fixed = await readBytes(blob, 0, FIXED_HEADER_SIZE);
+  if (fixed.byteLength < FIXED_HEADER_SIZE || ENVELOPE_MAGIC.some((byte, i) => fixed[i] !== byte)) {
+    throw new Error('This file is not an encrypted fragment');
+  }
+
+  const view = new DataView(fixed.buffer, fixed.byteOffset, fixed.byteLength);
+  if (view.getUint8(4) !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported encrypted fragment version ${view.getUint8(4)}`);
+  }
+
+  const segmentSize = view.getUint32(5, true);
+  const count = view.getUint16(9, true);
+  const recipients: EnvelopeHeader['recipients'] = [];
+  let offset = FIXED_HEADER_SIZE;
+
+  for (let i = 0; i < count; i++) {
+    const entry = await readBytes(blob, offset, RECIPIENT_HEADER_SIZE);
+    if (entry.byteLength < RECIPIENT_HEADER_SIZE) {
+      throw new Error('The encrypted fragment header is truncated');
+    }
+
+    const entryView = new DataView(entry.buffer, entry.byteOffset, entry.byteLength);
+    const algorithm = (Object.keys(ALGORITHM_IDS) as EnvelopeAlgorithm[])
+      .find(name => ALGORITHM_IDS[name] === entryView.getUint8(0));
+    const wrappedKeyLength = entryView.getUint16(RECIPIENT_HEADER_SIZE - 2, true);
+    const wrappedKey = await readBytes(blob, offset + RECIPIENT_HEADER_SIZE, wrappedKeyLength);
+    offset += RECIPIENT_HEADER_SIZE + wrappedKeyLength;
+
+    if (wrappedKey.byteLength < wrappedKeyLength) {
+      throw new Error('The encrypted fragment header is truncated');
+    }
+
+    // Algoritmos desconocidos (versiones futuras) se ignoran
+    if (algorithm) {
+      recipients.push({ algorithm, fingerprint: toHex(entry.subarray(1, 1 + FINGERPRINT_SIZE)), wrappedKey });
+    }
+  }
+
+  return { segmentSize, recipients, bytes: await readBytes(blob, 0, offset) };
+}
+
+/**
+ * Importa una clave pública en JWK o PEM, detectando el algoritmo
+ */
+async function importPublicKeyText(text: string): Promise<{ algorithm: EnvelopeAlgorithm; key: CryptoKey }> {
+  if (text.startsWith('{')) {
+    const jwk = parseJwk(text);
+    const algorithm = getJwkAlgorithm(jwk);
+    return { algorithm, key: await importKeyFor(algorithm, 'jwk', toPublicJwk(jwk, algorithm), 'public') };
+  }
+
+  const der = readPem(text, 'PUBLIC KEY');
+  for (const algorithm of Object.keys(ALGORITHM_IDS) as EnvelopeAlgorithm[]) {
+    try {
+      return { algorithm, key: await importKeyFor(algorithm, 'spki', der, 'public') };
+    } catch {
+      // Probar con el siguiente algoritmo
+    }
+  }
+
+  throw new Error('Unsupported public key: use an RSA or P-256 key');
+}
+
+/**
+ * Importa una clave con los parámetros y usos de su algoritmo
+ */
+async function importKeyFor(
+  algorithm: EnvelopeAlgorithm,
+  format: 'spki' | 'pkcs8' | 'jwk',
+  data: Uint8Array | JsonWebKey,
+  type: 'public' | 'private'
+): Promise<CryptoKey> {
+  const params = algorithm === 'RSA-OAEP' ? RSA_PARAMS : ECDH_PARAMS;
+  const usages: KeyUsage[] = algorithm === 'RSA-OAEP'
+    ? [type === 'public' ? 'wrapKey' : 'unwrapKey']
+    : type === 'public' ? [] : ['deriveBits'];
+
+  // Las claves públicas se exportan después para calcular su huella
+  const extractable = type === 'public';
+  return format === 'jwk'
+    ? crypto.subtle.importKey('jwk', data as JsonWebKey, params, extractable, usages)
+    : crypto.subtle.importKey(format, data as BufferSource, params, extractable, usages);
+}
+
+/**
+ * Lee un JWK ignorando alg y key_ops, que no siempre coinciden con el uso del sobre
+ */
+function parseJwk(text: string): JsonWebKey {
+  try {
+    const { alg: _alg, key_ops: _keyOps, ...jwk } = JSON.parse(text) as JsonWebKey;
+    return jwk;
+  } catch {
+    throw new Error('The key is not valid JSON (JWK)');
+  }
+}
+
+function getJwkAlgorithm(jwk: JsonWebKey): EnvelopeAlgorithm {
+  if (jwk.kty === 'RSA') {
+    return 'RSA-OAEP';
+  }
+  if (jwk.kty === 'EC' && jwk.crv === 'P-256') {
+    return 'ECDH-P256';
+  }
+  throw new Error('Unsupported key type: use an RSA or P-256 key');
+}
+
+/**
+ * Parte pública de un JWK (sin los campos privados)
+ */
+function toPublicJwk(jwk: JsonWebKey, algorithm: EnvelopeAlgorithm): JsonWebKey {
+  const fields = algorithm === 'RSA-OAEP' ? (['kty', 'n', 'e'] as const) : (['kty', 'crv', 'x', 'y'] as const);
+  const publicJwk: JsonWebKey = {};
+
+  for (const field of fields) {
+    const value = jwk[field];
+    if (value !== undefined) {
+      publicJwk[field] = value;
+    }
+  }
+
+  return publicJwk;
+}
+
+function readPem(text: string, label: string): Uint8Array {
+  const match = text.match(new RegExp(`-----BEGIN ${label}-----([^-]+)-----END ${label}-----`));
+  if (!match) {
+    throw new Error(`Expected a PEM "${label}" or a JWK`);
+  }
+  return base64ToBytes(match[1]!.replace(/\s+/g, ''));
+}
+
+async function readBytes(blob: Blob, offset: number, length: number): Promise<Uint8Array> {
+  return new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer());
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data as BufferSource));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+/**
+ * Escritura secuencial little-endian de la cabecera
+ */
+class ByteWriter {
+  public readonly output: Uint8Array<ArrayBuffer>;
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(size: number) {
+    this.output = new Uint8Array(size);
+    this.view = new DataView(this.output.buffer);
+  }
+
+  public uint8(value: number): void {
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  public uint16(value: number): void {
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  public uint32(value: number): void {
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  public bytes(data: Uint8Array): void {
+    this.output.set(data, this.offset);
+    this.offset += data.byteLength;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * File Collection Reader
+ * Presenta una carpeta o una selección de archivos sueltos como un archivo de entrada
+ * más: cada archivo es una entrada sin comprimir con el mismo modelo que ZipReader
+ */
+
+import {
+  ZIP_COMPRESSION_METHODS,
+  ZIP_HOST_SYSTEMS,
+  ZIP_VERSION_DEFAULT,
+  crc32,
+  dateToDosDateTime
+} from './zip-format';
+import { S_IFREG, S_IFDIR } from './tar-format';
+import type { ArchiveReader } from './archive-reader';
+import type { FileCollection } from './file-collection';
+import type { ZipArchiveInfo, ZipEntryInfo } from './zip-reader';
+
+// Permisos de los archivos y carpetas locales, que el navegador no expone
+const FILE_MODE = S_IFREG | 0o644;
+const DIRECTORY_MODE = S_IFDIR | 0o755;
+// Atributo DOS de directorio
+const DOS_DIRECTORY = 0x10;
+
+/**
+ * Lector de una FileCollection con la misma interfaz que ZipReader
+ */
+export class FileCollectionReader implements ArchiveReader {
+  public readonly format = 'files';
+  private readonly collection: FileCollection;
+  private readonly files = new Map<string, File>(); // Contenido de cada entrada por nombre
+
+  constructor(collection: FileCollection) {
+    this.collection = collection;
+  }
+
+  /**
+   * Tamaño total de los archivos de la selección
+   */
+  public get size(): number {
+    return this.collection.size;
+  }
+
+  /**
+   * Indexa la selección (equivalente al directorio central de un ZIP) con el CRC32 de cada archivo
+   */
+  public async readCentralDirectory(): Promise<ZipArchiveInfo> {
+    const entries = new Map<string, ZipEntryInfo>(); // Un nombre repetido sustituye al anterior
+
+    for (const source of this.collection.files) {
+      const name = source.file ? source.path : `${source.path.replace(/\/+$/, '')}/`;
+      if (!name || name === '/') {
+        continue;
+      }
+
+      entries.delete(name);
+      if (source.file) {
+        this.files.set(name, source.file);
+        entries.set(name, await this.createFileEntry(name, source.file));
+      } else {
+        entries.set(name, this.createDirectoryEntry(name));
+      }
+    }
+
+    return {
+      entries: [...entries.values()],
+      comment: '',
+      centralDirectoryOffset: 0,
+      centralDirectorySize: 0
+    };
+  }
+
+  /**
+   * Lee los bytes de una entrada (nunca están comprimidos)
+   */
+  public async readRawData(entry: ZipEntryInfo): Promise<Uint8Array> {
+    return new Uint8Array(await (await this.sliceRawData(entry)).arrayBuffer());
+  }
+
+  /**
+   * Devuelve el archivo de una entrada como Blob, sin leerlo
+   */
+  public async sliceRawData(entry: ZipEntryInfo): Promise<Blob> {
+    if (entry.dir) {
+      return new Blob([]);
+    }
+
+    const file = this.files.get(entry.name);
+    if (!file) {
+      throw new Error(`"${entry.name}" is not part of the selected files`);
+    }
+    return file;
+  }
+
+  /**
+   * Devuelve el contenido de una entrada como stream
+   */
+  public async streamEntryData(entry: ZipEntryInfo): Promise<ReadableStream<Uint8Array>> {
+    return (await this.sliceRawData(entry)).stream();
+  }
+
+  /**
+   * Lee el contenido de una entrada
+   */
+  public async readEntryData(entry: ZipEntryInfo): Promise<Uint8Array> {
+    return this.readRawData(entry);
+  }
+
+  /**
+   * Entrada de un archivo: se lee una vez por streaming para calcular su CRC32
+   */
+  private async createFileEntry(name: string, file: File): Promise<ZipEntryInfo> {
+    const reader = file.stream().getReader();
+    let checksum = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      checksum = crc32(value, checksum);
+    }
+
+    return {
+      ...this.createBaseEntry(name, new Date(file.lastModified), FILE_MODE),
+      compressedSize: file.size,
+      uncompressedSize: file.size,
+      crc32: checksum
+    };
+  }
+
+  private createDirectoryEntry(name: string): ZipEntryInfo {
+    return {
+      ...this.createBaseEntry(name, new Date(this.collection.lastModified), DIRECTORY_MODE, DOS_DIRECTORY),
+      dir: true
+    };
+  }
+
+  private createBaseEntry(name: string, lastModified: Date, mode: number, dosAttributes = 0): ZipEntryInfo {
+    const { dosDate, dosTime } = dateToDosDateTime(lastModified);
+
+    return {
+      name,
+      dir: false,
+      versionNeeded: ZIP_VERSION_DEFAULT,
+      compressionMethod: ZIP_COMPRESSION_METHODS.STORE,
+      compressedSize: 0,
+      uncompressedSize: 0,
+      crc32: 0,
+      flags: 0,
+      dosDate,
+      dosTime,
+      lastModified,
+      versionMadeBy: (ZIP_HOST_SYSTEMS.UNIX << 8) | ZIP_VERSION_DEFAULT,
+      internalAttributes: 0,
+      externalAttributes: ((mode << 16) | dosAttributes) >>> 0,
+      unixPermissions: mode,
+      dosPermissions: null,
+      comment: '',
+      localHeaderOffset: 0,
+      encryption: null
+    };
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * File Collection
+ * Carpetas y selecciones de varios archivos como origen: se recorren en registros
+ * con su ruta relativa para empaquetarlos en fragmentos sin un archivo intermedio
+ */
+
+import type { SourceFile } from '@/types/processing';
+
+// Nombre de una selección de archivos sueltos sin carpeta común
+const DEFAULT_COLLECTION_NAME = 'files';
+
+// Partes de la File System Access API que aún no incluyen los tipos del DOM
+type IterableDirectoryHandle = FileSystemDirectoryHandle & {
+  values(): AsyncIterable<FileSystemDirectoryHandle | FileSystemFileHandle>;
+};
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: () => Promise<FileSystemDirectoryHandle>;
+};
+
+/**
+ * Selección de archivos y carpetas con la misma forma que un File (nombre, tamaño, fecha)
+ * para que el análisis, la estrategia y el manifest la traten como un único origen
+ */
+export class FileCollection {
+  public readonly name: string;
+  public readonly type = '';
+  public readonly size: number;
+  public readonly lastModified: number;
+  public readonly files: SourceFile[];
+
+  constructor(name: string, files: SourceFile[]) {
+    this.name = name;
+    this.files = files;
+    this.size = files.reduce((total, source) => total + (source.file?.size ?? 0), 0);
+    this.lastModified = files.reduce((latest, source) => Math.max(latest, source.file?.lastModified ?? 0), 0) || Date.now();
+  }
+
+  /**
+   * Crea la colección con el nombre de la carpeta raíz común, si la hay
+   */
+  public static fromSources(files: SourceFile[]): FileCollection {
+    return new FileCollection(getCommonRoot(files) ?? DEFAULT_COLLECTION_NAME, files);
+  }
+}
+
+// Origen de un procesamiento: un archivo o una selección de archivos y carpetas
+export type InputSource = File | FileCollection;
+
+/**
+ * Recorre los elementos soltados; las carpetas se leen con webkitGetAsEntry
+ */
+export async function readDataTransfer(dataTransfer: DataTransfer): Promise<SourceFile[]> {
+  // Las entradas deben obtenerse antes de cualquier await: el DataTransfer se vacía al terminar el evento
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+  const files = Array.from(dataTransfer.files);
+
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return readFileList(files);
+  }
+
+  const sources: SourceFile[] = [];
+  for (const entry of entries) {
+    await walkEntry(entry!, '', sources);
+  }
+  return sources;
+}
+
+/**
+ * Registros de una selección del diálogo de archivos (con webkitdirectory conserva las rutas)
+ */
+export function readFileList(files: File[]): SourceFile[] {
+  return files.map(file => ({
+    path: normalizePath(file.webkitRelativePath || file.name),
+    file
+  }));
+}
+
+/**
+ * Indica si el navegador permite elegir una carpeta con showDirectoryPicker
+ */
+export function canPickDirectory(): boolean {
+  return typeof window !== 'undefined' && typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function';
+}
+
+/**
+ * Pide una carpeta con showDirectoryPicker y la recorre completa
+ */
+export async function pickDirectory(): Promise<SourceFile[]> {
+  const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+  if (!picker) {
+    throw new Error('Folder selection is not supported in this browser');
+  }
+
+  const sources: SourceFile[] = [];
+  await walkDirectoryHandle(await picker.call(window), '', sources);
+  return sources;
+}
+
+/**
+ * Recorre una entrada de webkitGetAsEntry; las carpetas se registran también vacías
+ */
+async function walkEntry(entry: FileSystemEntry, parent: string, sources: SourceFile[]): Promise<void> {
+  const path = parent + entry.name;
+
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    sources.push({ path, file });
+    return;
+  }
+
+  if (entry.isDirectory) {
+    sources.push({ path, file: null });
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await walkEntry(child, `${path}/`, sources);
+    }
+  }
+}
+
+/**
+ * readEntries devuelve las entradas por lotes: se llama hasta recibir uno vacío
+ */
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) {
+      return entries;
+    }
+    entries.push(...batch);
+  }
+}
+
+/**
+ * Recorre una carpeta de la File System Access API
+ */
+async function walkDirectoryHandle(handle: FileSystemDirectoryHandle, parent: string, sources: SourceFile[]): Promise<void> {
+  const path = parent + handle.name;
+  sources.push({ path, file: null });
+
+  for await (const child of (handle as IterableDirectoryHandle).values()) {
+    if (child.kind === 'directory') {
+      await walkDirectoryHandle(child, `${path}/`, sources);
+    } else {
+      sources.push({ path: `${path}/${child.name}`, file: await child.getFile() });
+    }
+  }
+}
+
+/**
+ * Carpeta de primer nivel que contiene todos los registros; null si no hay una sola
+ */
+function getCommonRoot(files: SourceFile[]): string | null {
+  const roots = new Set(files.map(source => source.path.split('/')[0]));
+  const [root] = roots;
+  const isFolder = files.some(source => source.path.includes('/') || (source.path === root && !source.file));
+  return roots.size === 1 && root && isFolder ? root : null;
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^(\.?\/)+/, '');
+}
@@ -3,10 +3,21 @@
  * Algoritmos inteligentes para dividir archivos ZIP de manera óptima
  */
 
-import JSZip from 'jszip';
-import type { ProcessedFragment } from '@/types/processing';
-
-export type SplittingStrategy = 'size-based' | 'file-based' | 'balanced' | 'smart';
+import { getPartName, planEntryRanges, type EntryRange } from './entry-chunks';
+import {
+  canReadEntryData,
+  getDataCompressionMethod,
+  type ZipArchiveInfo,
+  type ZipEntryInfo
+} from './zip-reader';
+import { WINZIP_AES_EXTRA_FIELD_SIZE, WinZipAesEncryptor } from './zip-crypto';
+import { ZipWriter } from './zip-writer';
+import { TarWriter } from './tar-writer';
+import { TAR_BLOCK_SIZE } from './tar-format';
+import { ZIP_COMPRESSION_METHODS, ZIP_RECORD_SIZES, ZIP64_LIMITS } from './zip-format';
+import type { ArchiveFormat, SplittingStrategy } from '@/types/processing';
+
+export type { SplittingStrategy };
 
 export interface SplittingOptions {
   strategy: SplittingStrategy;
@@ -16,6 +27,13 @@ export interface SplittingOptions {
   balanceFragmentSizes: boolean;
   prioritizeLargeFiles: boolean;
   groupSimilarFiles: boolean;
+  useCompressedSizes?: boolean; // Copia directa: cada entrada ocupa su tamaño comprimido
+  getCompressionLevel?: (path: string) => number; // Nivel al recomprimir; sin él se usa el tamaño descomprimido
+  maxInMemorySize?: number; // Tamaño descomprimido máximo de una entrada o parte que se recomprime en memoria
+  decryptEntries?: boolean; // Hay contraseña: las entradas cifradas pueden leerse y dividirse
+  encryptEntries?: boolean; // Los fragmentos se cifran con WinZip AES-256
+  strictSizeLimit?: boolean; // targetFragmentSize es un máximo: se cuentan también las cabeceras
+  outputFormat?: ArchiveFormat; // Por defecto 'zip'
 }
 
 export interface FileEntry {
@@ -25,7 +43,8 @@ export interface FileEntry {
   type: string;
   extension: string;
   directory: string;
-  zipEntry: JSZip.JSZipObject;
+  zipEntry: ZipEntryInfo;
+  range?: EntryRange; // Presente si es una parte de una entrada mayor que un fragmento
 }
 
 export interface FragmentPlan {
@@ -43,6 +62,8 @@ export interface FragmentPlan {
 export class FileSplitter {
   private options: SplittingOptions;
   private progressCallback?: (progress: number, message: string) => void;
+  private archiveOverhead: number = ZIP_RECORD_SIZES.END_OF_CENTRAL_DIRECTORY; // EOCD + comentario del archivo
+  private zip64 = false; // Los fragmentos pueden necesitar registros ZIP64
 
   constructor(options: SplittingOptions) {
     this.options = { ...options };
@@ -56,53 +77,76 @@ export class FileSplitter {
   }
 
   /**
-   * Analiza un archivo ZIP y crea un plan de división
+   * Analiza el directorio central de un ZIP y crea un plan de división
    */
-  public async createSplittingPlan(zip: JSZip): Promise<FragmentPlan[]> {
+  public async createSplittingPlan(archive: ZipArchiveInfo): Promise<FragmentPlan[]> {
     this.reportProgress(0, 'Analyzing ZIP structure...');
 
-    // Extraer y analizar archivos
-    const fileEntries = await this.extractFileEntries(zip);
+    // Fragmentos de 4 GB o más, o con más de 65.535 entradas, requieren ZIP64
+    this.zip64 = this.options.targetFragmentSize >= ZIP64_LIMITS.SIZE ||
+      archive.entries.length >= ZIP64_LIMITS.ENTRIES;
+
+    // Cada fragmento ZIP repite el comentario del archivo original
+    this.archiveOverhead = this.isTarOutput()
+      ? TarWriter.estimateArchiveOverhead(this.options.outputFormat === 'tar.gz')
+      : ZipWriter.estimateArchiveOverhead(archive.comment, this.zip64);
+
+    // Extraer y analizar archivos y directorios
+    const fileEntries = this.extractFileEntries(archive);
+    const oversizedEntries = fileEntries.filter(entry => this.shouldSplitEntry(entry));
+    const regularEntries = fileEntries.filter(entry => !this.shouldSplitEntry(entry));
     this.reportProgress(20, 'Categorizing files...');
 
-    // Aplicar estrategia de división
-    const fragments = await this.applySplittingStrategy(fileEntries);
+    // Las partes de entradas grandes van en fragmentos dedicados y consecutivos,
+    // fuera de la optimización para poder leerlas en un solo recorrido
+    const partFragments = this.createPartFragments(oversizedEntries);
+
+    // Aplicar estrategia de división (min-fragments también llena el hueco de la última parte)
+    const fragments = await this.applySplittingStrategy(regularEntries, partFragments);
     this.reportProgress(60, 'Optimizing fragment distribution...');
 
     // Optimizar distribución
     const optimizedFragments = await this.optimizeFragments(fragments);
     this.reportProgress(80, 'Calculating compression ratios...');
 
-    // Calcular ratios de compresión
-    const finalFragments = await this.calculateCompressionRatios(optimizedFragments);
+    const totalFragments = optimizedFragments.length + partFragments.length;
+    if (this.options.maxFragments && totalFragments > this.options.maxFragments) {
+      throw new Error(this.getMaxFragmentsError(totalFragments, regularEntries, partFragments));
+    }
+
+    // Calcular ratios de compresión; las partes van detrás del resto de fragmentos
+    const numberedParts = partFragments.map((plan, index) =>
+      this.createFragmentPlan(plan.entries, optimizedFragments.length + index, undefined, plan.estimatedSize)
+    );
+    const finalFragments = await this.calculateCompressionRatios([...optimizedFragments, ...numberedParts]);
     this.reportProgress(100, 'Splitting plan completed!');
 
     return finalFragments;
   }
 
   /**
-   * Extrae información detallada de los archivos en el ZIP
+   * Extrae información detallada de los archivos y directorios en el ZIP
    */
-  private async extractFileEntries(zip: JSZip): Promise<FileEntry[]> {
+  private extractFileEntries(archive: ZipArchiveInfo): FileEntry[] {
     const entries: FileEntry[] = [];
     
-    for (const [path, zipEntry] of Object.entries(zip.files)) {
-      if (!zipEntry.dir) {
-        const name = path.split('/').pop() || path;
-        const extension = name.split('.').pop()?.toLowerCase() || '';
-        const directory = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
-        const size = zipEntry._data?.uncompressedSize || 0;
-        
-        entries.push({
-          name,
-          path,
-          size,
-          type: this.getFileType(extension),
-          extension,
-          directory,
-          zipEntry
-        });
-      }
+    for (const zipEntry of archive.entries) {
+      // Los directorios se conservan como entradas vacías para mantener vacíos, fechas y permisos
+      const path = zipEntry.name;
+      const trimmedPath = zipEntry.dir ? path.replace(/\/+$/, '') : path;
+      const name = trimmedPath.split('/').pop() || trimmedPath;
+      const extension = zipEntry.dir ? '' : name.split('.').pop()?.toLowerCase() || '';
+      const directory = trimmedPath.includes('/') ? trimmedPath.substring(0, trimmedPath.lastIndexOf('/')) : '';
+      
+      entries.push({
+        name,
+        path,
+        size: this.getEntrySize(zipEntry),
+        type: zipEntry.dir ? 'directory' : this.getFileType(extension),
+        extension,
+        directory,
+        zipEntry
+      });
     }
 
     return entries.sort((a, b) => {
@@ -114,10 +158,226 @@ export class FileSplitter {
     });
   }
 
+  /**
+   * Calcula lo que ocupará una entrada dentro del fragmento
+   */
+  private getEntrySize(zipEntry: ZipEntryInfo): number {
+    const encrypt = this.shouldEncryptEntry(zipEntry);
+    const dataSize = this.estimateDataSize(zipEntry) + (encrypt ? WinZipAesEncryptor.DATA_OVERHEAD : 0);
+
+    // Con límite estricto también cuentan la cabecera local y el registro central
+    // (y el extra field de WinZip AES si la entrada se copia cifrada o se cifra)
+    const extraLength = zipEntry.encryption?.method === 'aes' || encrypt ? WINZIP_AES_EXTRA_FIELD_SIZE : 0;
+    return this.options.strictSizeLimit
+      ? dataSize + this.estimateEntryOverhead(zipEntry.name, zipEntry.comment, dataSize, extraLength)
+      : dataSize;
+  }
+
+  /**
+   * Bytes de datos de una entrada en el fragmento: los comprimidos si se copia tal cual;
+   * si se recomprime, el tamaño comprimido del origen es la mejor estimación y el
+   * descomprimido solo se usa cuando se guarda sin comprimir
+   */
+  private estimateDataSize(zipEntry: ZipEntryInfo): number {
+    if (this.options.useCompressedSizes || !this.canReadEntry(zipEntry)) {
+      return zipEntry.compressedSize;
+    }
+    return Math.ceil(zipEntry.uncompressedSize * this.estimateOutputRatio(zipEntry));
+  }
+
+  /**
+   * Proporción entre lo que ocupará el contenido recomprimido y su tamaño descomprimido:
+   * la del origen si venía comprimido y se vuelve a comprimir, 1 si se guarda sin comprimir
+   */
+  private estimateOutputRatio(zipEntry: ZipEntryInfo): number {
+    const getLevel = this.options.getCompressionLevel;
+    const compressed = this.options.outputFormat === 'tar.gz' ||
+      (!this.isTarOutput() && getLevel !== undefined && getLevel(zipEntry.name) > 0);
+    if (!compressed || zipEntry.dir || zipEntry.uncompressedSize === 0 ||
+        getDataCompressionMethod(zipEntry) === ZIP_COMPRESSION_METHODS.STORE) {
+      return 1;
+    }
+    return Math.min(1, zipEntry.compressedSize / zipEntry.uncompressedSize);
+  }
+
+  /**
+   * Bytes de cabeceras de una entrada en el formato de salida (en TAR, también el relleno)
+   */
+  private estimateEntryOverhead(name: string, comment: string, dataSize: number, extraLength = 0): number {
+    return this.isTarOutput()
+      ? TarWriter.estimateEntryOverhead(name, dataSize)
+      : ZipWriter.estimateEntryOverhead(name, comment, this.zip64, extraLength);
+  }
+
+  /**
+   * Indica si los fragmentos son TAR: las entradas se guardan siempre descomprimidas
+   */
+  private isTarOutput(): boolean {
+    return this.options.outputFormat === 'tar' || this.options.outputFormat === 'tar.gz';
+  }
+
+  /**
+   * Indica si una entrada no cabe en un fragmento y debe dividirse en partes
+   */
+  private shouldSplitEntry(entry: FileEntry): boolean {
+    const headers = this.options.strictSizeLimit
+      ? 0
+      : this.estimateEntryOverhead(entry.path, entry.zipEntry.comment, entry.size);
+    const fits = entry.size + headers + this.archiveOverhead <= this.options.targetFragmentSize;
+
+    // Sin poder descomprimirla, la entrada se copia completa aunque exceda el tamaño
+    if (!this.canReadEntry(entry.zipEntry)) {
+      if (!fits && this.options.strictSizeLimit) {
+        throw new Error(`"${entry.path}" is encrypted or uses an unsupported compression method and does not fit in a fragment`);
+      }
+      return false;
+    }
+
+    // Una entrada muy comprimible puede caber en un fragmento y aun así no caber en memoria
+    return !fits || this.exceedsMemoryLimit(entry);
+  }
+
+  /**
+   * Indica si una entrada que se recomprime es demasiado grande para tenerla descomprimida en memoria
+   */
+  private exceedsMemoryLimit(entry: FileEntry): boolean {
+    const limit = this.options.maxInMemorySize;
+    return limit !== undefined && !entry.zipEntry.dir && entry.zipEntry.uncompressedSize > limit &&
+      !this.options.useCompressedSizes;
+  }
+
+  /**
+   * Indica si el contenido de una entrada puede leerse (descomprimirse y, si hace falta, descifrarse)
+   */
+  private canReadEntry(zipEntry: ZipEntryInfo): boolean {
+    return canReadEntryData(zipEntry, this.options.decryptEntries);
+  }
+
+  /**
+   * Indica si la entrada se cifrará al escribirla: las que siguen cifradas con su
+   * cifrado original y los directorios no se cifran
+   */
+  private shouldEncryptEntry(zipEntry: ZipEntryInfo): boolean {
+    if (!this.options.encryptEntries || zipEntry.dir) {
+      return false;
+    }
+    return !zipEntry.encryption || this.canReadEntry(zipEntry);
+  }
+
+  /**
+   * Bytes disponibles para entradas en cada fragmento
+   */
+  private getCapacity(): number {
+    // Con límite estricto se reserva el registro de fin del directorio central
+    // (y, en TAR.GZ, la expansión de gzip sobre datos incompresibles)
+    if (!this.options.strictSizeLimit) {
+      return this.options.targetFragmentSize;
+    }
+    const gzipMargin = this.options.outputFormat === 'tar.gz' ? getDeflateMargin(this.options.targetFragmentSize) : 0;
+    return this.options.targetFragmentSize - this.archiveOverhead - gzipMargin;
+  }
+
+  /**
+   * Crea un fragmento dedicado por cada parte (rango de bytes) de las entradas grandes
+   */
+  private createPartFragments(entries: FileEntry[]): FragmentPlan[] {
+    const fragments: FragmentPlan[] = [];
+
+    for (const entry of entries) {
+      const ranges = planEntryRanges(entry.zipEntry.uncompressedSize, this.getPartSize(entry));
+
+      for (const range of ranges) {
+        const part: FileEntry = {
+          ...entry,
+          name: getPartName(entry.name, range.part, range.totalParts),
+          size: range.length,
+          range
+        };
+        // Lo que ocupa la parte con sus cabeceras, para llenar el resto del fragmento
+        fragments.push(this.createFragmentPlan([part], fragments.length, undefined, this.getPartFootprint(part)));
+      }
+    }
+
+    return fragments;
+  }
+
+  /**
+   * Bytes de una parte dentro de su fragmento en las mismas unidades que getCapacity():
+   * datos, cabeceras, cifrado y, si se comprime, el margen de DEFLATE
+   */
+  private getPartFootprint(part: FileEntry): number {
+    const partName = getPartName(part.path, part.range!.part, part.range!.totalParts);
+    const encryptionOverhead = this.options.encryptEntries ? WinZipAesEncryptor.DATA_OVERHEAD : 0;
+    const extraLength = this.options.encryptEntries ? WINZIP_AES_EXTRA_FIELD_SIZE : 0;
+    const headers = this.isTarOutput()
+      ? TarWriter.estimateEntryOverhead(partName, part.size)
+      : ZipWriter.estimateEntryOverhead(partName, '', this.zip64, extraLength);
+    const dataSize = this.isPartStored(part)
+      ? part.size
+      : Math.ceil(part.size * this.estimateOutputRatio(part.zipEntry)) + getDeflateMargin(part.size);
+
+    return dataSize + headers + encryptionOverhead;
+  }
+
+  /**
+   * Las partes de un origen STORE siguen sin comprimir, igual que las de nivel 0: no
+   * necesitan margen (ni las de un TAR sin gzip)
+   */
+  private isPartStored(entry: FileEntry): boolean {
+    return this.isTarOutput()
+      ? this.options.outputFormat === 'tar'
+      : getDataCompressionMethod(entry.zipEntry) === ZIP_COMPRESSION_METHODS.STORE ||
+        this.options.getCompressionLevel?.(entry.zipEntry.name) === 0;
+  }
+
+  /**
+   * Error cuando el plan supera maxFragments; solo sugiere min-fragments si con esa
+   * estrategia el archivo cabría
+   */
+  private getMaxFragmentsError(totalFragments: number, regularEntries: FileEntry[], partFragments: FragmentPlan[]): string {
+    const message = `The archive needs ${totalFragments} fragments, more than the maximum of ${this.options.maxFragments}.`;
+    if (this.options.strategy === 'min-fragments') {
+      return `${message} Increase the fragment size.`;
+    }
+
+    // Se empaqueta sobre copias para no tocar los planes de las partes
+    const partCopies = partFragments.map(plan => ({ ...plan, entries: [...plan.entries] }));
+    const minimum = this.createMinFragmentsFragments(regularEntries, partCopies).length + partFragments.length;
+    return minimum <= this.options.maxFragments!
+      ? `${message} Use the min-fragments strategy (${minimum} fragments) or increase the fragment size.`
+      : `${message} Increase the fragment size.`;
+  }
+
+  /**
+   * Calcula cuántos bytes de una entrada caben en cada parte
+   */
+  private getPartSize(entry: FileEntry): number {
+    // El número de partes nunca supera el tamaño, así que este nombre es el más largo posible
+    const partName = getPartName(entry.path, 1, entry.zipEntry.uncompressedSize);
+    const encryptionOverhead = this.options.encryptEntries ? WinZipAesEncryptor.DATA_OVERHEAD : 0;
+    const extraLength = this.options.encryptEntries ? WINZIP_AES_EXTRA_FIELD_SIZE : 0;
+    // En TAR se reserva además el relleno del peor caso
+    const headers = this.isTarOutput()
+      ? TarWriter.estimateEntryOverhead(partName, this.options.targetFragmentSize) + TAR_BLOCK_SIZE - 1
+      : ZipWriter.estimateEntryOverhead(partName, '', this.zip64, extraLength);
+    const available = this.options.targetFragmentSize - headers - this.archiveOverhead - encryptionOverhead;
+
+    if (this.isPartStored(entry)) {
+      return available;
+    }
+
+    // Las partes recomprimidas ocupan aproximadamente la proporción comprimida del origen; el
+    // margen de DEFLATE queda como cota y, con límite estricto, el procesador vuelve a
+    // dividir la parte que no quepa
+    const bound = available - getDeflateMargin(available);
+    const estimate = Math.floor(bound / this.estimateOutputRatio(entry.zipEntry));
+    return Math.max(bound, Math.min(estimate, this.options.maxInMemorySize ?? estimate));
+  }
+
   /**
    * Aplica la estrategia de división seleccionada
    */
-  private async applySplittingStrategy(entries: FileEntry[]): Promise<FragmentPlan[]> {
+  private async applySplittingStrategy(entries: FileEntry[], partFragments: FragmentPlan[]): Promise<FragmentPlan[]> {
     switch (this.options.strategy) {
       case 'size-based':
         return this.createSizeBasedFragments(entries);
@@ -127,6 +387,8 @@ export class FileSplitter {
         return this.createBalancedFragments(entries);
       case 'smart':
         return this.createSmartFragments(entries);
+      case 'min-fragments':
+        return this.createMinFragmentsFragments(entries, partFragments);
       default:
         throw new Error(`Unknown splitting strategy: ${this.options.strategy}`);
     }
@@ -157,7 +419,7 @@ export class FileSplitter {
       }
 
       // Si agregar este archivo excede el tamaño objetivo
-      if (currentSize + entry.size > this.options.targetFragmentSize && currentFragment.length > 0) {
+      if (currentSize + entry.size > this.getCapacity() && currentFragment.length > 0) {
         fragments.push(this.createFragmentPlan(currentFragment, fragmentIndex++));
         currentFragment = [entry];
         currentSize = entry.size;
@@ -220,7 +482,7 @@ export class FileSplitter {
         let fragmentSize = largeFile.size;
         
         for (const related of relatedFiles) {
-          if (fragmentSize + related.size <= this.options.targetFragmentSize) {
+          if (fragmentSize + related.size <= this.getCapacity()) {
             fragmentFiles.push(related);
             fragmentSize += related.size;
           }
@@ -239,7 +501,7 @@ export class FileSplitter {
     let currentSize = 0;
 
     for (const smallFile of remainingSmallFiles) {
-      if (currentSize + smallFile.size > this.options.targetFragmentSize && currentFragment.length > 0) {
+      if (currentSize + smallFile.size > this.getCapacity() && currentFragment.length > 0) {
         fragments.push(this.createFragmentPlan(currentFragment, fragmentIndex++));
         currentFragment = [smallFile];
         currentSize = smallFile.size;
@@ -272,8 +534,9 @@ export class FileSplitter {
     for (const [directory, dirEntries] of directoryGroups) {
       const totalSize = dirEntries.reduce((sum, e) => sum + e.size, 0);
       
-      // Si el directorio completo encaja en un fragmento
-      if (totalSize <= this.options.targetFragmentSize * 1.1 && totalSize >= this.options.targetFragmentSize * 0.3) {
+      // Si el directorio completo encaja en un fragmento (sin tolerancia con límite estricto)
+      const tolerance = this.options.strictSizeLimit ? 1 : 1.1;
+      if (totalSize <= this.getCapacity() * tolerance && totalSize >= this.options.targetFragmentSize * 0.3) {
         fragments.push(this.createFragmentPlan(dirEntries, fragmentIndex++, directory));
         dirEntries.forEach(e => processedEntries.add(e));
       }
@@ -300,7 +563,7 @@ export class FileSplitter {
       const sortedEntries = typeEntries.sort((a, b) => b.size - a.size);
 
       for (const entry of sortedEntries) {
-        if (currentSize + entry.size > this.options.targetFragmentSize && currentFragment.length > 0) {
+        if (currentSize + entry.size > this.getCapacity() && currentFragment.length > 0) {
           fragments.push(this.createFragmentPlan(currentFragment, fragmentIndex++, `${type}_files`));
           currentFragment = [entry];
           currentSize = entry.size;
@@ -318,6 +581,47 @@ export class FileSplitter {
     return fragments;
   }
 
+  /**
+   * Estrategia de mínimo número de fragmentos: empaquetado best-fit decreasing. El hueco
+   * que deja la última parte de cada entrada dividida se llena como un fragmento más:
+   * las entradas que caben ahí se agregan a ese plan y solo se devuelven los fragmentos nuevos
+   */
+  private createMinFragmentsFragments(entries: FileEntry[], partFragments: FragmentPlan[] = []): FragmentPlan[] {
+    const bins: { entries: FileEntry[]; size: number; plan?: FragmentPlan }[] = partFragments
+      .filter(plan => plan.entries[0]!.range!.part === plan.entries[0]!.range!.totalParts)
+      .map(plan => ({ entries: plan.entries, size: plan.estimatedSize, plan }));
+    const sortedEntries = [...entries].sort((a, b) => b.size - a.size);
+
+    for (const entry of sortedEntries) {
+      // Elegir el fragmento que quede más lleno tras agregar la entrada
+      let bestBin: { entries: FileEntry[]; size: number } | undefined;
+
+      for (const bin of bins) {
+        const fits = bin.size + entry.size <= this.getCapacity();
+        if (fits && (!bestBin || bin.size > bestBin.size)) {
+          bestBin = bin;
+        }
+      }
+
+      if (bestBin) {
+        bestBin.entries.push(entry);
+        bestBin.size += entry.size;
+      } else {
+        bins.push({ entries: [entry], size: entry.size });
+      }
+    }
+
+    for (const bin of bins) {
+      if (bin.plan) {
+        bin.plan.estimatedSize = bin.size;
+      }
+    }
+
+    return bins
+      .filter(bin => !bin.plan)
+      .map((bin, index) => this.createFragmentPlan(bin.entries, index));
+  }
+
   /**
    * Optimiza la distribución de fragmentos
    */
@@ -354,7 +658,7 @@ export class FileSplitter {
    * Intenta balancear dos fragmentos intercambiando archivos
    */
   private tryBalanceFragments(fragment1: FragmentPlan, fragment2: FragmentPlan): boolean {
-    const target = this.options.targetFragmentSize;
+    const target = this.getCapacity();
     const diff1 = Math.abs(fragment1.estimatedSize - target);
     const diff2 = Math.abs(fragment2.estimatedSize - target);
     const currentImbalance = diff1 + diff2;
@@ -365,6 +669,11 @@ export class FileSplitter {
         const newSize1 = fragment1.estimatedSize - entry1.size + entry2.size;
         const newSize2 = fragment2.estimatedSize - entry2.size + entry1.size;
         
+        // Con límite estricto ningún intercambio puede superar el tamaño objetivo
+        if (this.options.strictSizeLimit && Math.max(newSize1, newSize2) > target) {
+          continue;
+        }
+
         const newDiff1 = Math.abs(newSize1 - target);
         const newDiff2 = Math.abs(newSize2 - target);
         const newImbalance = newDiff1 + newDiff2;
@@ -401,8 +710,12 @@ export class FileSplitter {
   /**
    * Crea un plan de fragmento a partir de archivos
    */
-  private createFragmentPlan(entries: FileEntry[], index: number, customName?: string): FragmentPlan {
-    const estimatedSize = entries.reduce((sum, e) => sum + e.size, 0);
+  private createFragmentPlan(
+    entries: FileEntry[],
+    index: number,
+    customName?: string,
+    estimatedSize = entries.reduce((sum, e) => sum + e.size, 0)
+  ): FragmentPlan {
     const name = customName || `fragment_${index.toString().padStart(3, '0')}`;
     
     return {
@@ -539,4 +852,11 @@ export class FileSplitter {
       this.progressCallback(Math.min(100, Math.max(0, progress)), message);
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Margen del peor caso de DEFLATE sobre datos incompresibles (deflateBound de zlib)
+ */
+function getDeflateMargin(size: number): number {
+  return Math.floor(size / 4096) + Math.floor(size / 16384) + Math.floor(size / 33554432) + 13;
+}
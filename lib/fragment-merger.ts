@@ -0,0 +1,592 @@
+/**
+ * Fragment Merger
+ * Modo de reensamblado: comprueba un conjunto de fragmentos contra su manifest
+ * (orden, partes que faltan o sobran, tamaños y checksums) y reconstruye un único
+ * archivo o el flujo de bytes original
+ */
+
+import { saveAs } from 'file-saver';
+import { ZipReader, getDataCompressionMethod, type ZipEntryInfo } from './zip-reader';
+import { ZipWriter } from './zip-writer';
+import { TarWriter } from './tar-writer';
+import { WinZipAesEncryptor } from './zip-crypto';
+import { ZIP_COMPRESSION_METHODS, ZIP_HOST_SYSTEMS, dateToDosDateTime } from './zip-format';
+import { ENVELOPE_EXTENSION, openBlob, type EnvelopePrivateKey } from './envelope-crypto';
+import { reassembleChunkedEntry } from './entry-chunks';
+import { CompressionPolicy } from './compression-policy';
+import {
+  ARCHIVE_FILE_TYPES,
+  createArchiveReader,
+  getArchiveBaseName,
+  type ArchiveReader
+} from './archive-reader';
+import { BlobSha256 } from './sha256';
+import { MANIFEST_FILE_NAME } from './manifest';
+import type { ManifestChunkedEntry, ManifestEntryLocation, ProcessingManifest } from '@/types/processing';
+
+// Una entrada unida que supera este tamaño no se recomprime ni se cifra en memoria
+const MAX_IN_MEMORY_ENTRY_SIZE = 256 * 1024 * 1024; // 256MB
+
+export type FragmentCheckStatus = 'ok' | 'missing' | 'size-mismatch' | 'checksum-mismatch';
+
+export interface FragmentCheck {
+  id: string;
+  name: string;
+  order: number;
+  size: number; // Tamaño según el manifest
+  status: FragmentCheckStatus;
+  file: File | null;
+}
+
+export interface FragmentSetReport {
+  fragments: FragmentCheck[]; // En el orden del manifest
+  extra: string[]; // Archivos recibidos que no forman parte del conjunto
+  orderErrors: string[]; // Huecos o repeticiones en el orden del manifest
+  complete: boolean; // Están todos los fragmentos, en orden y con su checksum
+}
+
+// Fragmento del manifest junto con el archivo recibido con su nombre
+export interface FragmentMatch {
+  fragment: ProcessingManifest['fragments'][number];
+  file: File | null;
+}
+
+export interface MergeOptions {
+  privateKey?: EnvelopePrivateKey; // Abre los fragmentos cifrados para destinatarios
+  password?: string; // Une las partes cifradas con WinZip AES; nunca se guarda
+}
+
+export interface MergeResult {
+  blob: Blob;
+  name: string;
+  entryCount: number;
+}
+
+// Partes de la File System Access API que aún no incluyen los tipos del DOM
+type SaveFilePickerWindow = Window & {
+  showSaveFilePicker?: (options: { suggestedName: string }) => Promise<FileSystemFileHandle>;
+};
+
+/**
+ * Empareja por nombre los archivos recibidos con los fragmentos del manifest, en su orden
+ */
+export function matchFragments(manifest: ProcessingManifest, files: File[]): {
+  matches: FragmentMatch[];
+  extra: string[]; // Archivos recibidos que no forman parte del conjunto
+  orderErrors: string[]; // Huecos o repeticiones en la numeración (debe ser 1, 2, ..., n)
+} {
+  const byName = new Map(files.map(file => [file.name, file]));
+  const expected = [...manifest.fragments].sort((a, b) => a.order - b.order);
+  const matches = expected.map(fragment => {
+    const file = byName.get(fragment.name) ?? null;
+    byName.delete(fragment.name);
+    return { fragment, file };
+  });
+
+  const orderErrors: string[] = [];
+  const seen = new Set<number>();
+  for (const { order } of expected) {
+    if (seen.has(order)) {
+      orderErrors.push(`Fragment number ${order} appears more than once`);
+    }
+    seen.add(order);
+  }
+  for (let order = 1; order <= expected.length; order++) {
+    if (!seen.has(order)) {
+      orderErrors.push(`Fragment number ${order} is missing from ${MANIFEST_FILE_NAME}`);
+    }
+  }
+
+  return { matches, extra: [...byName.keys()], orderErrors };
+}
+
+/**
+ * Descifra un fragmento cifrado para destinatarios; conserva su nombre sin la extensión del sobre
+ */
+export async function openSealedFragment(file: File, privateKey: EnvelopePrivateKey): Promise<File> {
+  const blob = await openBlob(file, privateKey);
+  return new File([blob], file.name.slice(0, -ENVELOPE_EXTENSION.length));
+}
+
+/**
+ * Indica si el navegador permite elegir dónde guardar con showSaveFilePicker
+ */
+export function canSaveToDisk(): boolean {
+  return typeof window !== 'undefined' && typeof (window as SaveFilePickerWindow).showSaveFilePicker === 'function';
+}
+
+/**
+ * Escribe el resultado en un archivo elegido por el usuario o, si no es posible, lo descarga
+ */
+export async function saveMergeResult(result: MergeResult, toDisk = false): Promise<void> {
+  const picker = (window as SaveFilePickerWindow).showSaveFilePicker;
+  if (!toDisk || !picker) {
+    saveAs(result.blob, result.name);
+    return;
+  }
+
+  const handle = await picker.call(window, { suggestedName: result.name });
+  const writable = await handle.createWritable();
+  try {
+    await writable.write(result.blob);
+  } finally {
+    await writable.close();
+  }
+}
+
+/**
+ * Verifica y reconstruye conjuntos de fragmentos
+ */
+export class FragmentMerger {
+  private progressCallback: ((progress: number, message: string) => void) | undefined;
+  private abortController = new AbortController();
+
+  /**
+   * Establece callback para reportar progreso
+   */
+  public setProgressCallback(callback: (progress: number, message: string) => void): void {
+    this.progressCallback = callback;
+  }
+
+  /**
+   * Empareja los archivos recibidos con el manifest y verifica el checksum de cada fragmento
+   */
+  public async inspect(manifest: ProcessingManifest, files: File[]): Promise<FragmentSetReport> {
+    this.abortController = new AbortController();
+    const { matches, extra, orderErrors } = matchFragments(manifest, files);
+    const fragments: FragmentCheck[] = [];
+
+    for (let i = 0; i < matches.length; i++) {
+      this.throwIfAborted();
+
+      const { fragment, file } = matches[i]!;
+      let status: FragmentCheckStatus = 'ok';
+      if (!file) {
+        status = 'missing';
+      } else if (file.size !== fragment.size) {
+        status = 'size-mismatch';
+      } else {
+        this.reportProgress(Math.round((i / matches.length) * 100), `Verifying ${fragment.name}...`);
+        // Se lee por bloques: un fragmento puede ocupar cientos de MB
+        if (await new BlobSha256(file).digestHex() !== fragment.checksum) {
+          status = 'checksum-mismatch';
+        }
+      }
+
+      fragments.push({ id: fragment.id, name: fragment.name, order: fragment.order, size: fragment.size, status, file });
+    }
+
+    this.reportProgress(100, 'Verification complete');
+
+    return {
+      fragments,
+      extra,
+      orderErrors,
+      complete: fragments.length > 0 && orderErrors.length === 0 && fragments.every(fragment => fragment.status === 'ok')
+    };
+  }
+
+  /**
+   * Reconstruye el archivo a partir de un conjunto completo y verificado
+   */
+  public async merge(
+    manifest: ProcessingManifest,
+    report: FragmentSetReport,
+    options: MergeOptions = {}
+  ): Promise<MergeResult> {
+    if (!report.complete) {
+      throw new Error('The fragment set is incomplete or has damaged fragments');
+    }
+    this.abortController = new AbortController();
+
+    const volumes = await this.openFragments(manifest, report, options);
+    const splitMode = manifest.metadata.splitMode || 'independent';
+
+    if (splitMode === 'raw') {
+      return this.mergeByteRanges(manifest, volumes);
+    }
+    if (splitMode === 'spanned') {
+      return this.mergeSpannedVolumes(manifest, volumes);
+    }
+    return this.mergeArchives(manifest, volumes, options);
+  }
+
+  /**
+   * Descifra los fragmentos cifrados para destinatarios; el resto se usa tal cual
+   */
+  private async openFragments(
+    manifest: ProcessingManifest,
+    report: FragmentSetReport,
+    options: MergeOptions
+  ): Promise<Map<string, File>> {
+    const sealed = !!manifest.metadata.recipients?.length;
+    if (sealed && !options.privateKey) {
+      throw new Error('These fragments are encrypted for recipients; select your private key to merge them');
+    }
+
+    const volumes = new Map<string, File>();
+    for (const fragment of report.fragments) {
+      this.throwIfAborted();
+
+      if (sealed && fragment.name.endsWith(ENVELOPE_EXTENSION)) {
+        this.reportProgress(0, `Decrypting ${fragment.name}...`);
+        volumes.set(fragment.id, await openSealedFragment(fragment.file!, options.privateKey!));
+      } else {
+        volumes.set(fragment.id, fragment.file!);
+      }
+    }
+
+    return volumes;
+  }
+
+  /**
+   * Modo raw: une las partes en orden verificando el hash de cada una y el del archivo
+   */
+  private async mergeByteRanges(manifest: ProcessingManifest, volumes: Map<string, File>): Promise<MergeResult> {
+    const entry = manifest.chunkedEntries?.[0];
+    if (!entry) {
+      throw new Error(`${MANIFEST_FILE_NAME} does not list the parts of the original file`);
+    }
+
+    this.reportProgress(10, 'Joining parts...');
+    const { blob } = await this.joinChunkedEntry(entry, async part => this.getVolume(volumes, part.fragmentId));
+
+    this.reportProgress(100, 'Original file rebuilt');
+    return { blob, name: manifest.originalFile.name, entryCount: 1 };
+  }
+
+  /**
+   * ZIP dividido: los volúmenes se leen unidos en orden y sus entradas se copian
+   * tal cual a un único ZIP
+   */
+  private async mergeSpannedVolumes(manifest: ProcessingManifest, volumes: Map<string, File>): Promise<MergeResult> {
+    const ordered = [...volumes.values()];
+    const volumeStarts: number[] = [];
+    let position = 0;
+    for (const volume of ordered) {
+      volumeStarts.push(position);
+      position += volume.size;
+    }
+
+    this.reportProgress(10, 'Reading split archive directory...');
+    const reader = new ZipReader(new Blob(ordered), undefined, volumeStarts);
+    const archive = await reader.readCentralDirectory();
+    const writer = new ZipWriter();
+
+    for (let i = 0; i < archive.entries.length; i++) {
+      this.throwIfAborted();
+
+      const entry = archive.entries[i]!;
+      writer.addRawEntry(entry, await reader.sliceRawData(entry));
+      this.reportProgress(
+        10 + Math.round(((i + 1) / archive.entries.length) * 85),
+        `Copying ${i + 1} of ${archive.entries.length} entries...`
+      );
+    }
+
+    // Las copias deduplicadas reutilizan los datos comprimidos de su original
+    const duplicates = getDuplicateLocations(manifest);
+    for (const location of duplicates) {
+      this.throwIfAborted();
+
+      const original = archive.entries.find(entry => entry.name === location.duplicateOf);
+      if (!original) {
+        throw new Error(`"${location.duplicateOf}" is missing from the split archive`);
+      }
+      writer.addRawEntry(toDuplicateEntry(original, location), await reader.sliceRawData(original));
+    }
+
+    this.reportProgress(100, 'Archive rebuilt');
+    return {
+      blob: writer.generate(archive.comment),
+      name: this.getOutputName(manifest),
+      entryCount: archive.entries.length + duplicates.length
+    };
+  }
+
+  /**
+   * Fragmentos independientes: sus entradas se copian a un único archivo del mismo
+   * formato y las entradas divididas se unen en una sola
+   */
+  private async mergeArchives(
+    manifest: ProcessingManifest,
+    volumes: Map<string, File>,
+    options: MergeOptions
+  ): Promise<MergeResult> {
+    const format = manifest.metadata.outputFormat || 'zip';
+    const writer = format === 'zip' ? new ZipWriter() : new TarWriter(format === 'tar.gz');
+    const readers = new Map<string, ArchiveReader>();
+    const entriesByFragment = new Map<string, Map<string, ZipEntryInfo>>();
+
+    // Parte que corresponde a cada (fragmento, nombre) para reconocerla al copiar
+    const parts = new Map<string, ManifestChunkedEntry>();
+    for (const entry of manifest.chunkedEntries || []) {
+      for (const part of entry.parts) {
+        parts.set(`${part.fragmentId}/${part.name}`, entry);
+      }
+    }
+
+    const openFragment = async (fragmentId: string) => {
+      let entries = entriesByFragment.get(fragmentId);
+      if (!entries) {
+        const reader = createArchiveReader(this.getVolume(volumes, fragmentId), options.password);
+        const archive = await reader.readCentralDirectory();
+        entries = new Map(archive.entries.map(entry => [entry.name, entry]));
+        readers.set(fragmentId, reader);
+        entriesByFragment.set(fragmentId, entries);
+      }
+      return { reader: readers.get(fragmentId)!, entries };
+    };
+
+    const fragmentIds = [...volumes.keys()];
+    const written = new Set<string>(); // Las carpetas pueden repetirse en varios fragmentos
+
+    for (let i = 0; i < fragmentIds.length; i++) {
+      const fragmentId = fragmentIds[i]!;
+      const { reader, entries } = await openFragment(fragmentId);
+
+      for (const entry of entries.values()) {
+        this.throwIfAborted();
+
+        const chunked = parts.get(`${fragmentId}/${entry.name}`);
+        if (!chunked && !written.has(entry.name)) {
+          await this.copyEntry(writer, reader, entry);
+          written.add(entry.name);
+        } else if (chunked?.parts[0]?.fragmentId === fragmentId && chunked.parts[0].name === entry.name) {
+          // La entrada dividida se escribe al encontrar su primera parte
+          const location = manifest.entries?.find(item => item.path === chunked.path);
+          const target = { ...entry, name: chunked.path, comment: location?.comment ?? '' };
+          await this.writeChunkedEntry(writer, chunked, target, manifest, options, openFragment);
+          written.add(chunked.path);
+        }
+      }
+
+      this.reportProgress(
+        Math.round(((i + 1) / fragmentIds.length) * 95),
+        `Merged fragment ${i + 1} of ${fragmentIds.length}`
+      );
+    }
+
+    // Las copias deduplicadas se escriben con el contenido de su original
+    const chunkedByPath = new Map((manifest.chunkedEntries || []).map(entry => [entry.path, entry]));
+    for (const location of getDuplicateLocations(manifest)) {
+      this.throwIfAborted();
+      if (written.has(location.path)) {
+        continue;
+      }
+
+      const chunked = chunkedByPath.get(location.duplicateOf!);
+      const source = chunked?.parts[0] ?? { fragmentId: location.fragmentId, name: location.duplicateOf! };
+      const { reader, entries } = await openFragment(source.fragmentId);
+      const original = entries.get(source.name);
+      if (!original) {
+        throw new Error(`"${location.duplicateOf}" is missing from its fragment`);
+      }
+
+      const target = toDuplicateEntry(original, location);
+      if (chunked) {
+        await this.writeChunkedEntry(writer, chunked, target, manifest, options, openFragment);
+      } else {
+        await this.copyEntry(writer, reader, original, target);
+      }
+      written.add(location.path);
+    }
+
+    const blob = writer instanceof TarWriter
+      ? await writer.generate()
+      : writer.generate(manifest.originalFile.comment);
+
+    this.reportProgress(100, 'Archive rebuilt');
+    return { blob, name: this.getOutputName(manifest), entryCount: written.size };
+  }
+
+  /**
+   * Copia una entrada de un fragmento al archivo reconstruido; target da el nombre y
+   * los metadatos con que se escribe (los de una copia deduplicada, por ejemplo)
+   */
+  private async copyEntry(
+    writer: ZipWriter | TarWriter,
+    reader: ArchiveReader,
+    entry: ZipEntryInfo,
+    target: ZipEntryInfo = entry
+  ): Promise<void> {
+    if (writer instanceof TarWriter) {
+      writer.addEntry(target.name, entry.dir ? new Uint8Array(0) : await reader.readEntryData(entry), {
+        lastModified: target.lastModified,
+        versionMadeBy: target.versionMadeBy,
+        externalAttributes: target.externalAttributes
+      });
+      return;
+    }
+
+    // Mismos bytes comprimidos (y cifrados, si lo estaban) que en el fragmento
+    writer.addRawEntry(target, await reader.sliceRawData(entry));
+  }
+
+  /**
+   * Une las partes de una entrada dividida y la escribe como una sola entrada con el
+   * nombre y los metadatos de target (la primera parte con la ruta de la entrada)
+   */
+  private async writeChunkedEntry(
+    writer: ZipWriter | TarWriter,
+    chunked: ManifestChunkedEntry,
+    target: ZipEntryInfo,
+    manifest: ProcessingManifest,
+    options: MergeOptions,
+    openFragment: (fragmentId: string) => Promise<{ reader: ArchiveReader; entries: Map<string, ZipEntryInfo> }>
+  ): Promise<void> {
+    if (target.encryption && !options.password) {
+      throw new Error(`Enter the passphrase to join the encrypted parts of "${chunked.path}"`);
+    }
+
+    this.reportProgress(50, `Joining ${chunked.parts.length} parts of ${chunked.path}...`);
+    const { blob, crc32: checksum } = await this.joinChunkedEntry(chunked, async part => {
+      const { reader, entries } = await openFragment(part.fragmentId);
+      const entry = entries.get(part.name);
+      if (!entry) {
+        throw new Error(`Part "${part.name}" is missing from its fragment`);
+      }
+      // Una parte sin comprimir ni cifrar es una vista del fragmento: no se copia a memoria
+      return entry.compressionMethod === ZIP_COMPRESSION_METHODS.STORE && !entry.encryption
+        ? reader.sliceRawData(entry)
+        : reader.readEntryData(entry);
+    });
+
+    const entryOptions = {
+      lastModified: target.lastModified,
+      versionMadeBy: target.versionMadeBy,
+      externalAttributes: target.externalAttributes
+    };
+
+    if (writer instanceof TarWriter) {
+      writer.addEntry(target.name, blob, entryOptions);
+      return;
+    }
+
+    // Se conserva el método de las partes (y el nivel de su tipo de archivo) y, si estaban cifradas, se vuelve a cifrar
+    const level = getDataCompressionMethod(target) === ZIP_COMPRESSION_METHODS.STORE
+      ? 0
+      : new CompressionPolicy(manifest.metadata.compressionRules, manifest.metadata.compressionLevel ?? 6).getLevel(target.name);
+
+    // Sin recomprimir ni cifrar, o si es demasiado grande para tenerla en memoria, se escribe
+    // con STORE directamente desde las partes
+    if (!target.encryption && (level === 0 || blob.size > MAX_IN_MEMORY_ENTRY_SIZE)) {
+      writer.addStoredEntry(target.name, blob, checksum, {
+        ...entryOptions,
+        ...(target.comment && { comment: target.comment })
+      });
+      return;
+    }
+
+    if (blob.size > MAX_IN_MEMORY_ENTRY_SIZE) {
+      throw new Error(
+        `"${chunked.path}" is too large to encrypt again while merging (${Math.round(blob.size / (1024 * 1024))}MB, ` +
+        `limit ${MAX_IN_MEMORY_ENTRY_SIZE / (1024 * 1024)}MB); extract its parts with an archive tool instead`
+      );
+    }
+
+    writer.addEntry(target.name, new Uint8Array(await blob.arrayBuffer()), level, {
+      ...entryOptions,
+      ...(target.comment && { comment: target.comment }),
+      ...(target.encryption && { encryption: await WinZipAesEncryptor.create(options.password!) })
+    });
+  }
+
+  /**
+   * Une las partes de una entrada comprobando su hash y el de la entrada completa
+   */
+  private async joinChunkedEntry(
+    entry: ManifestChunkedEntry,
+    readPart: Parameters<typeof reassembleChunkedEntry>[1]
+  ): ReturnType<typeof reassembleChunkedEntry> {
+    return reassembleChunkedEntry(entry, async part => {
+      this.throwIfAborted();
+      return readPart(part);
+    });
+  }
+
+  /**
+   * Nombre del archivo reconstruido con la extensión del formato de los fragmentos
+   */
+  private getOutputName(manifest: ProcessingManifest): string {
+    const format = manifest.metadata.outputFormat || 'zip';
+    return getArchiveBaseName(manifest.originalFile.name) + ARCHIVE_FILE_TYPES[format].extension;
+  }
+
+  private getVolume(volumes: Map<string, File>, fragmentId: string): File {
+    const volume = volumes.get(fragmentId);
+    if (!volume) {
+      throw new Error(`Fragment "${fragmentId}" is not listed in ${MANIFEST_FILE_NAME}`);
+    }
+    return volume;
+  }
+
+  /**
+   * Reporta progreso
+   */
+  private reportProgress(progress: number, message: string): void {
+    if (this.progressCallback) {
+      this.progressCallback(Math.min(100, Math.max(0, progress)), message);
+    }
+  }
+
+  /**
+   * Interrumpe el reensamblado si se solicitó cancelación
+   */
+  private throwIfAborted(): void {
+    if (this.abortController.signal.aborted) {
+      throw new Error('Merge cancelled');
+    }
+  }
+
+  /**
+   * Cancela la verificación o el reensamblado en curso
+   */
+  public abort(): void {
+    this.abortController.abort();
+  }
+
+  /**
+   * Limpia recursos
+   */
+  public dispose(): void {
+    this.abort();
+    this.progressCallback = undefined;
+  }
+}
+
+/**
+ * Entradas del índice que son copias deduplicadas de otra entrada
+ */
+function getDuplicateLocations(manifest: ProcessingManifest): ManifestEntryLocation[] {
+  return (manifest.entries || []).filter(location => location.duplicateOf !== undefined);
+}
+
+/**
+ * Entrada original con la ruta y los metadatos de su copia según el índice; el contenido
+ * (y su CRC32, tamaños y método) es el mismo
+ */
+function toDuplicateEntry(original: ZipEntryInfo, location: ManifestEntryLocation): ZipEntryInfo {
+  const lastModified = new Date(location.date);
+  const version = original.versionMadeBy & 0xff;
+  const unixPermissions = location.unixPermissions ?? null;
+  const dosPermissions = location.dosPermissions ?? null;
+
+  // Los atributos externos se rehacen con los permisos del sistema que creó la copia
+  const attributes = unixPermissions !== null
+    ? { versionMadeBy: (ZIP_HOST_SYSTEMS.UNIX << 8) | version, externalAttributes: (unixPermissions << 16) >>> 0 }
+    : dosPermissions !== null
+      ? { versionMadeBy: (ZIP_HOST_SYSTEMS.DOS << 8) | version, externalAttributes: dosPermissions }
+      : {};
+
+  return {
+    ...original,
+    ...attributes,
+    name: location.path,
+    lastModified,
+    ...dateToDosDateTime(lastModified),
+    comment: location.comment ?? '',
+    unixPermissions,
+    dosPermissions
+  };
+}
@@ -0,0 +1,422 @@
+/**
+ * Fragment Verifier
+ * Modo de verificación: comprueba un conjunto de fragmentos contra su manifest sin
+ * reconstruirlo (checksum de cada fragmento, lista de entradas y CRC32 de cada
+ * entrada) y genera un informe por fragmento exportable como JSON
+ */
+
+import { ZipReader, canReadEntryData, type ZipEntryInfo } from './zip-reader';
+import { createArchiveReader, type ArchiveReader } from './archive-reader';
+import { crc32 } from './zip-format';
+import { ENVELOPE_EXTENSION, type EnvelopePrivateKey } from './envelope-crypto';
+import { matchFragments, openSealedFragment } from './fragment-merger';
+import { BlobSha256, Sha256 } from './sha256';
+import { verifyManifestSignature, type SignatureCheck } from './manifest-signing';
+import type { ProcessingManifest, SplitMode } from '@/types/processing';
+
+export type FragmentVerificationStatus = 'pass' | 'fail' | 'missing';
+
+export interface FragmentVerification {
+  id: string;
+  name: string;
+  order: number;
+  status: FragmentVerificationStatus;
+  expectedSize: number;
+  size: number | null; // Tamaño del archivo recibido
+  expectedChecksum: string;
+  checksum: string | null; // SHA-256 calculado
+  entriesChecked: number;
+  issues: string[]; // Motivos del fallo
+  notes: string[]; // Comprobaciones que no pudieron hacerse
+}
+
+export interface VerificationReport {
+  originalFile: string;
+  manifestCreatedAt: string;
+  splitMode: SplitMode;
+  verifiedAt: string;
+  passed: boolean;
+  fragments: FragmentVerification[]; // En el orden del manifest
+  extra: string[]; // Archivos recibidos que no forman parte del conjunto
+  orderErrors: string[];
+  signature: SignatureCheck; // Una firma que no coincide o de una clave no fijada hace fallar la verificación
+}
+
+export interface VerifyOptions {
+  privateKey?: EnvelopePrivateKey; // Permite comprobar el contenido de los fragmentos cifrados para destinatarios
+  password?: string; // Permite comprobar las entradas cifradas con WinZip AES
+}
+
+/**
+ * Mensajes que envía workers/verify-worker.ts al hilo principal
+ */
+export type VerifyWorkerResponse =
+  | { type: 'PROGRESS'; id: string; payload: { progress: number; message: string } }
+  | { type: 'COMPLETE'; id: string; payload: VerificationReport }
+  | { type: 'ERROR'; id: string; payload: { message: string } }
+  | { type: 'READY'; id: string; payload: { message: string } };
+
+/**
+ * Fragmentos donde el manifest sitúa una entrada (las carpetas pueden repetirse)
+ * y su hash, si el índice lo registra
+ */
+interface ExpectedEntry {
+  fragmentIds: string[];
+  sha256?: string;
+}
+
+/**
+ * Verifica conjuntos de fragmentos sin reconstruirlos
+ */
+export class FragmentVerifier {
+  private progressCallback: ((progress: number, message: string) => void) | undefined;
+  private abortController = new AbortController();
+
+  /**
+   * Establece callback para reportar progreso
+   */
+  public setProgressCallback(callback: (progress: number, message: string) => void): void {
+    this.progressCallback = callback;
+  }
+
+  /**
+   * Verifica cada fragmento recibido contra el manifest
+   */
+  public async verify(
+    manifest: ProcessingManifest,
+    files: File[],
+    options: VerifyOptions = {}
+  ): Promise<VerificationReport> {
+    this.abortController = new AbortController();
+    const { matches, extra, orderErrors } = matchFragments(manifest, files);
+    const splitMode = manifest.metadata.splitMode || 'independent';
+    const expectedEntries = this.getExpectedEntries(manifest);
+    const results: FragmentVerification[] = [];
+    const opened = new Map<string, File>(); // Fragmentos listos para leer su contenido
+
+    for (let i = 0; i < matches.length; i++) {
+      this.throwIfAborted();
+
+      const { fragment, file } = matches[i]!;
+      const result: FragmentVerification = {
+        id: fragment.id,
+        name: fragment.name,
+        order: fragment.order,
+        status: file ? 'pass' : 'missing',
+        expectedSize: fragment.size,
+        size: file?.size ?? null,
+        expectedChecksum: fragment.checksum,
+        checksum: null,
+        entriesChecked: 0,
+        issues: [],
+        notes: []
+      };
+      results.push(result);
+
+      if (!file) {
+        result.issues.push('Fragment not found');
+        continue;
+      }
+
+      this.reportProgress(Math.round((i / matches.length) * 100), `Verifying ${fragment.name}...`);
+
+      if (file.size !== fragment.size) {
+        result.issues.push(`Size is ${file.size} bytes, expected ${fragment.size}`);
+      }
+      result.checksum = await new BlobSha256(file).digestHex();
+      if (result.checksum !== fragment.checksum) {
+        result.issues.push('SHA-256 checksum does not match the manifest');
+      }
+
+      const content = await this.openContent(file, manifest, options, result);
+      if (content) {
+        opened.set(fragment.id, content);
+      }
+
+      // Las partes en modo raw no tienen entradas: su checksum es la comprobación completa
+      if (content && splitMode === 'independent') {
+        await this.checkFragmentEntries(content, fragment.id, expectedEntries, options, result);
+      }
+    }
+
+    if (splitMode === 'spanned') {
+      await this.checkSpannedEntries(results, opened, expectedEntries, options);
+    }
+
+    for (const result of results) {
+      if (result.status !== 'missing') {
+        result.status = result.issues.length === 0 ? 'pass' : 'fail';
+      }
+    }
+
+    const signature = await verifyManifestSignature(manifest);
+    this.reportProgress(100, 'Verification complete');
+
+    return {
+      originalFile: manifest.originalFile.name,
+      manifestCreatedAt: manifest.metadata.createdAt,
+      splitMode,
+      verifiedAt: new Date().toISOString(),
+      passed: results.length > 0 && orderErrors.length === 0 &&
+        (signature.status === 'valid' || signature.status === 'unsigned') &&
+        results.every(result => result.status === 'pass'),
+      fragments: results,
+      extra,
+      orderErrors,
+      signature
+    };
+  }
+
+  /**
+   * Contenido legible de un fragmento; los cifrados para destinatarios necesitan la clave privada
+   */
+  private async openContent(
+    file: File,
+    manifest: ProcessingManifest,
+    options: VerifyOptions,
+    result: FragmentVerification
+  ): Promise<File | null> {
+    if (!manifest.metadata.recipients?.length || !file.name.endsWith(ENVELOPE_EXTENSION)) {
+      return file;
+    }
+
+    if (!options.privateKey) {
+      result.notes.push('Contents not checked: the fragment is encrypted for recipients');
+      return null;
+    }
+
+    try {
+      return await openSealedFragment(file, options.privateKey);
+    } catch (error) {
+      result.issues.push(`Cannot decrypt: ${this.describeError(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Compara las entradas de un fragmento independiente con el manifest y comprueba su CRC32
+   */
+  private async checkFragmentEntries(
+    file: File,
+    fragmentId: string,
+    expectedEntries: Map<string, ExpectedEntry> | null,
+    options: VerifyOptions,
+    result: FragmentVerification
+  ): Promise<void> {
+    let reader: ArchiveReader;
+    let entries: ZipEntryInfo[];
+    try {
+      reader = createArchiveReader(file, options.password);
+      entries = (await reader.readCentralDirectory()).entries;
+    } catch (error) {
+      result.issues.push(`Cannot read the fragment: ${this.describeError(error)}`);
+      return;
+    }
+
+    if (expectedEntries) {
+      const names = new Set(entries.map(entry => entry.name));
+      for (const [name, expected] of expectedEntries) {
+        if (expected.fragmentIds.includes(fragmentId) && !names.has(name)) {
+          result.issues.push(`Missing entry "${name}"`);
+        }
+      }
+      for (const entry of entries) {
+        if (!expectedEntries.get(entry.name)?.fragmentIds.includes(fragmentId)) {
+          result.issues.push(`Unexpected entry "${entry.name}"`);
+        }
+      }
+    } else {
+      result.notes.push('Entry list not checked: the manifest does not list entries');
+    }
+
+    for (const entry of entries) {
+      this.throwIfAborted();
+      await this.checkEntryData(reader, entry, expectedEntries?.get(entry.name), options, result);
+    }
+  }
+
+  /**
+   * ZIP dividido: las entradas cruzan volúmenes, así que se comprueban con todos los
+   * volúmenes unidos y cada problema se asigna al volumen donde empieza la entrada
+   */
+  private async checkSpannedEntries(
+    results: FragmentVerification[],
+    opened: Map<string, File>,
+    expectedEntries: Map<string, ExpectedEntry> | null,
+    options: VerifyOptions
+  ): Promise<void> {
+    const available = results.filter(result => opened.has(result.id));
+    if (available.length < results.length) {
+      for (const result of available) {
+        result.notes.push('Entries not checked: some volumes are missing or could not be opened');
+      }
+      return;
+    }
+
+    const volumes = results.map(result => opened.get(result.id)!);
+    const volumeStarts: number[] = [];
+    let position = 0;
+    for (const volume of volumes) {
+      volumeStarts.push(position);
+      position += volume.size;
+    }
+
+    const last = results[results.length - 1]!;
+    const resultFor = (name: string) =>
+      results.find(result => result.id === expectedEntries?.get(name)?.fragmentIds[0]) ?? last;
+
+    let reader: ZipReader;
+    let entries: ZipEntryInfo[];
+    try {
+      reader = new ZipReader(new Blob(volumes), options.password, volumeStarts);
+      entries = (await reader.readCentralDirectory()).entries;
+    } catch (error) {
+      last.issues.push(`Cannot read the split archive: ${this.describeError(error)}`);
+      return;
+    }
+
+    if (expectedEntries) {
+      const names = new Set(entries.map(entry => entry.name));
+      for (const name of expectedEntries.keys()) {
+        if (!names.has(name)) {
+          resultFor(name).issues.push(`Missing entry "${name}"`);
+        }
+      }
+      for (const entry of entries) {
+        if (!expectedEntries.has(entry.name)) {
+          last.issues.push(`Unexpected entry "${entry.name}"`);
+        }
+      }
+    }
+
+    for (let i = 0; i < entries.length; i++) {
+      this.throwIfAborted();
+
+      const entry = entries[i]!;
+      await this.checkEntryData(reader, entry, expectedEntries?.get(entry.name), options, resultFor(entry.name));
+      this.reportProgress(Math.round(((i + 1) / entries.length) * 100), `Checking ${entry.name}...`);
+    }
+  }
+
+  /**
+   * Lee el contenido de una entrada comprobando su CRC32 (o, si está cifrada, su
+   * autenticación) y, en las partes de entradas divididas, su SHA-256
+   */
+  private async checkEntryData(
+    reader: ArchiveReader,
+    entry: ZipEntryInfo,
+    expected: ExpectedEntry | undefined,
+    options: VerifyOptions,
+    result: FragmentVerification
+  ): Promise<void> {
+    if (entry.dir) {
+      return;
+    }
+
+    if (!canReadEntryData(entry, options.password !== undefined)) {
+      const note = entry.encryption && options.password === undefined
+        ? 'Encrypted entries not checked: enter the passphrase to check them'
+        : 'Entries with an unsupported encryption or compression method not checked';
+      if (!result.notes.includes(note)) {
+        result.notes.push(note);
+      }
+      return;
+    }
+
+    try {
+      const stream = (await reader.streamEntryData(entry)).getReader();
+      const hash = expected?.sha256 ? new Sha256() : null;
+      let checksum = 0;
+
+      for (;;) {
+        const { done, value } = await stream.read();
+        if (done) {
+          break;
+        }
+        checksum = crc32(value, checksum);
+        hash?.update(value);
+      }
+
+      // Las entradas cifradas ya se verifican al leerlas
+      if (!entry.encryption && checksum !== entry.crc32) {
+        result.issues.push(`CRC32 mismatch in "${entry.name}"`);
+      } else if (hash && hash.digestHex() !== expected?.sha256) {
+        result.issues.push(`SHA-256 mismatch in "${entry.name}"`);
+      }
+      result.entriesChecked++;
+    } catch (error) {
+      result.issues.push(`Cannot read "${entry.name}": ${this.describeError(error)}`);
+    }
+  }
+
+  /**
+   * Entradas que el manifest sitúa en cada fragmento (en un ZIP dividido, el volumen donde
+   * empiezan); null si el manifest no registra las entradas
+   */
+  private getExpectedEntries(manifest: ProcessingManifest): Map<string, ExpectedEntry> | null {
+    if (!manifest.entries) {
+      return null;
+    }
+
+    const expected = new Map<string, ExpectedEntry>();
+    const chunked = new Set<string>();
+
+    for (const entry of manifest.chunkedEntries || []) {
+      chunked.add(entry.path);
+      for (const part of entry.parts) {
+        expected.set(part.name, { fragmentIds: [part.fragmentId], sha256: part.sha256 });
+      }
+    }
+
+    // En fragmentos independientes una entrada dividida solo aparece como partes, y las
+    // copias deduplicadas no aparecen: su contenido es el de la entrada original
+    for (const location of manifest.entries) {
+      if (!chunked.has(location.path) && !location.duplicateOf) {
+        const fragmentIds = expected.get(location.path)?.fragmentIds ?? [];
+        expected.set(location.path, {
+          fragmentIds: [...fragmentIds, location.fragmentId],
+          ...(location.sha256 && { sha256: location.sha256 })
+        });
+      }
+    }
+
+    return expected;
+  }
+
+  private describeError(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  /**
+   * Reporta progreso
+   */
+  private reportProgress(progress: number, message: string): void {
+    if (this.progressCallback) {
+      this.progressCallback(Math.min(100, Math.max(0, progress)), message);
+    }
+  }
+
+  /**
+   * Interrumpe la verificación si se solicitó cancelación
+   */
+  private throwIfAborted(): void {
+    if (this.abortController.signal.aborted) {
+      throw new Error('Verification cancelled');
+    }
+  }
+
+  /**
+   * Cancela la verificación en curso
+   */
+  public abort(): void {
+    this.abortController.abort();
+  }
+
+  /**
+   * Limpia recursos
+   */
+  public dispose(): void {
+    this.abort();
+    this.progressCallback = undefined;
+  }
+}
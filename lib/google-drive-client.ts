@@ -330,8 +330,10 @@ export class GoogleDriveClient {
       throw new Error('Fragment blob is required for upload');
     }
 
+    // El tipo MIME sigue el formato del fragmento (ZIP, TAR o TAR.GZ)
     const metadata = {
       name: fragment.name,
+      mimeType: fragment.blob.type || 'application/octet-stream',
       parents: [folderId]
     };
 
@@ -0,0 +1,195 @@
+/**
+ * Job Queue
+ * Trabajos de la cola de procesamiento por lotes: cada uno conserva sus opciones,
+ * su ProgressTracker y sus resultados, y se ejecuta en un zip-worker o, sin
+ * soporte de workers, con su propio ZipProcessor
+ */
+
+import { ZipProcessor } from './zip-processor';
+import { ProgressTracker } from './progress-tracker';
+import type { InputSource } from './file-collection';
+import type { ProcessingOptions, ProcessingResult } from '@/types/processing';
+
+export type QueueJobStatus = 'pending' | 'running' | 'complete' | 'error' | 'cancelled';
+
+export interface QueueJob {
+  id: string;
+  source: InputSource;
+  options: ProcessingOptions; // Copia de la configuración al encolar; editable mientras espera
+  status: QueueJobStatus;
+  progress: number; // 0-100
+  message: string;
+  estimatedTimeLeft: number; // en segundos
+  result: ProcessingResult | null;
+  error: string | null;
+  startedAt?: number;
+  completedAt?: number;
+}
+
+/**
+ * Lo que el runner necesita del procesador: ZipProcessor o ZipWorkerClient
+ */
+export interface JobProcessor {
+  setProgressCallback(callback: (progress: number, message: string) => void): void;
+  processFile(file: InputSource, options: ProcessingOptions): Promise<ProcessingResult>;
+  abort(): void;
+}
+
+export interface QueueSummary {
+  total: number;
+  pending: number;
+  running: number;
+  complete: number;
+  failed: number; // Con error o cancelados
+  progress: number; // 0-100, ponderado por el tamaño de cada trabajo
+  totalBytes: number;
+  fragmentCount: number;
+  estimatedTimeLeft: number; // El del trabajo en curso que más tarde en terminar
+}
+
+// Fase del tracker para cada hito que informa ZipProcessor (0, 10, 25, 40 y 80%)
+const PROCESSOR_PHASES: [number, string][] = [
+  [80, 'finalization'],
+  [40, 'processing'],
+  [25, 'analyzing'],
+  [10, 'reading'],
+  [0, 'initialization']
+];
+
+/**
+ * Crea un trabajo pendiente para un archivo o carpeta
+ */
+export function createQueueJob(source: InputSource, options: ProcessingOptions): QueueJob {
+  return {
+    id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    source,
+    options,
+    status: 'pending',
+    progress: 0,
+    message: 'Waiting in queue',
+    estimatedTimeLeft: 0,
+    result: null,
+    error: null
+  };
+}
+
+/**
+ * Indica si un trabajo ya no volverá a ejecutarse
+ */
+export function isFinishedJob(job: QueueJob): boolean {
+  return job.status === 'complete' || job.status === 'error' || job.status === 'cancelled';
+}
+
+/**
+ * Resumen de la cola para la vista agregada
+ */
+export function getQueueSummary(jobs: QueueJob[]): QueueSummary {
+  const totalBytes = jobs.reduce((sum, job) => sum + job.source.size, 0);
+  const doneBytes = jobs.reduce((sum, job) =>
+    sum + job.source.size * (isFinishedJob(job) ? 1 : job.progress / 100), 0);
+
+  return {
+    total: jobs.length,
+    pending: jobs.filter(job => job.status === 'pending').length,
+    running: jobs.filter(job => job.status === 'running').length,
+    complete: jobs.filter(job => job.status === 'complete').length,
+    failed: jobs.filter(job => job.status === 'error' || job.status === 'cancelled').length,
+    progress: totalBytes > 0 ? Math.round((doneBytes / totalBytes) * 100) : 0,
+    totalBytes,
+    fragmentCount: jobs.reduce((sum, job) => sum + (job.result?.fragments?.length ?? 0), 0),
+    estimatedTimeLeft: Math.max(0, ...jobs.filter(job => job.status === 'running').map(job => job.estimatedTimeLeft))
+  };
+}
+
+/**
+ * Ejecuta un trabajo de la cola y traduce su progreso a cambios del trabajo
+ */
+export class QueueJobRunner {
+  private readonly job: QueueJob;
+  private readonly processor: JobProcessor;
+  private readonly ownProcessor: ZipProcessor | null; // El worker de un hueco sigue vivo para el siguiente trabajo
+  private readonly tracker: ProgressTracker;
+  private cancelled = false;
+
+  constructor(job: QueueJob, processor?: JobProcessor) {
+    this.job = job;
+    this.ownProcessor = processor ? null : new ZipProcessor();
+    this.processor = processor ?? this.ownProcessor!;
+    this.tracker = new ProgressTracker(job.options.strategy, job.source.size);
+  }
+
+  /**
+   * Procesa el archivo del trabajo; nunca lanza: el resultado llega como cambios del trabajo
+   */
+  public async run(onUpdate: (changes: Partial<QueueJob>) => void): Promise<void> {
+    let message = 'Starting...';
+    const unsubscribe = this.tracker.subscribe(update => {
+      onUpdate({
+        progress: Math.round(update.totalProgress),
+        estimatedTimeLeft: update.estimatedTimeRemaining,
+        message
+      });
+    });
+
+    this.processor.setProgressCallback((progress, processorMessage) => {
+      message = processorMessage;
+      const [start, phase] = PROCESSOR_PHASES.find(([threshold]) => progress >= threshold)!;
+      const end = PROCESSOR_PHASES.find(([threshold]) => threshold > start)?.[0] ?? 100;
+      this.tracker.setPhase(phase, ((progress - start) / (end - start || 1)) * 100);
+    });
+
+    onUpdate({ status: 'running', startedAt: Date.now(), message, error: null });
+    this.tracker.start();
+
+    try {
+      // El worker informa los errores rechazando; ZipProcessor, con un resultado fallido
+      let result: ProcessingResult | null = null;
+      let error: string | null = null;
+      try {
+        result = await this.processor.processFile(this.job.source, this.job.options);
+        if (!result.success) {
+          error = result.error?.message || 'Processing failed';
+        }
+      } catch (processingError) {
+        error = processingError instanceof Error ? processingError.message : 'Processing failed';
+      }
+
+      if (this.cancelled) {
+        onUpdate({ status: 'cancelled', message: 'Cancelled', completedAt: Date.now() });
+      } else if (result && !error) {
+        this.tracker.complete();
+        onUpdate({
+          status: 'complete',
+          progress: 100,
+          estimatedTimeLeft: 0,
+          message: `Created ${result.fragments?.length ?? 0} fragments`,
+          result,
+          completedAt: Date.now()
+        });
+      } else {
+        const message = error || 'Processing failed';
+        this.tracker.error(message);
+        onUpdate({ status: 'error', message, error: message, estimatedTimeLeft: 0, completedAt: Date.now() });
+      }
+    } finally {
+      unsubscribe();
+      this.dispose();
+    }
+  }
+
+  /**
+   * Cancela el trabajo en curso
+   */
+  public cancel(): void {
+    this.cancelled = true;
+    this.processor.abort();
+  }
+
+  /**
+   * Limpia recursos
+   */
+  public dispose(): void {
+    this.ownProcessor?.dispose();
+    this.tracker.dispose();
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * Manifest Signing
+ * Firma del manifest con ECDSA P-256: la clave privada se genera con WebCrypto como
+ * no extraíble y se guarda en IndexedDB; las claves públicas de otros firmantes se
+ * fijan en el mismo almacén para reconocerlos al verificar
+ */
+
+import type { ManifestSignature, ProcessingManifest, SignatureAlgorithm } from '@/types/processing';
+
+/**
+ * Parte pública de la clave de firma de este navegador
+ */
+export interface SigningKeyInfo {
+  name: string;
+  algorithm: SignatureAlgorithm;
+  publicKey: string; // SPKI en base64
+  fingerprint: string; // SHA-256 del SPKI en hexadecimal
+  createdAt: string;
+}
+
+/**
+ * Clave pública fijada de un firmante de confianza
+ */
+export interface TrustedSigner {
+  name: string;
+  publicKey: string; // SPKI en base64
+  fingerprint: string;
+  addedAt: string;
+}
+
+/**
+ * 'untrusted': la firma coincide con la clave incluida en el manifest, pero esa clave no
+ * está fijada; cualquiera puede volver a firmar un manifest modificado con una clave nueva
+ */
+export type SignatureStatus = 'unsigned' | 'valid' | 'untrusted' | 'invalid';
+
+/**
+ * Resultado de comprobar la firma de un manifest
+ */
+export interface SignatureCheck {
+  status: SignatureStatus;
+  fingerprint?: string; // Huella de quien firmó, aunque no sea de confianza
+  signedAt?: string;
+  signer?: string; // Nombre de la clave fijada (o de la propia) que coincide con la huella
+  error?: string;
+}
+
+/**
+ * Clave conocida al verificar: la propia o una fijada
+ */
+export type KnownSigner = Pick<TrustedSigner, 'name' | 'fingerprint'>;
+
+/**
+ * Registro guardado en IndexedDB: la clave privada es un CryptoKey no extraíble
+ */
+interface StoredSigningKey {
+  info: SigningKeyInfo;
+  privateKey: CryptoKey;
+}
+
+const SIGNATURE_ALGORITHM: SignatureAlgorithm = 'ECDSA-P256-SHA256';
+const ECDSA_KEY_PARAMS = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const ECDSA_SIGN_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+const DB_NAME = 'smart-zip-splitter-keys';
+const DB_VERSION = 1;
+const SIGNING_KEY_STORE = 'signingKey';
+const TRUSTED_SIGNERS_STORE = 'trustedSigners';
+const SIGNING_KEY_ID = 'default';
+
+const utf8Encoder = new TextEncoder();
+
+/**
+ * Clave de firma de este navegador, si existe
+ */
+export async function getSigningKey(): Promise<SigningKeyInfo | null> {
+  return (await readSigningKey())?.info ?? null;
+}
+
+/**
+ * Genera una clave de firma nueva y sustituye a la anterior
+ */
+export async function generateSigningKey(name: string): Promise<SigningKeyInfo> {
+  const pair = await crypto.subtle.generateKey(ECDSA_KEY_PARAMS, false, ['sign', 'verify']);
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', pair.publicKey));
+
+  const info: SigningKeyInfo = {
+    name: name.trim() || 'My signing key',
+    algorithm: SIGNATURE_ALGORITHM,
+    publicKey: bytesToBase64(spki),
+    fingerprint: await fingerprintOf(spki),
+    createdAt: new Date().toISOString()
+  };
+
+  await runStore(SIGNING_KEY_STORE, 'readwrite', store =>
+    store.put({ info, privateKey: pair.privateKey } satisfies StoredSigningKey, SIGNING_KEY_ID)
+  );
+  return info;
+}
+
+/**
+ * Borra la clave de firma; los manifests ya firmados siguen pudiendo comprobarse
+ */
+export async function deleteSigningKey(): Promise<void> {
+  await runStore(SIGNING_KEY_STORE, 'readwrite', store => store.delete(SIGNING_KEY_ID));
+}
+
+/**
+ * Clave pública en PEM (SPKI) para que otros la fijen
+ */
+export function exportSigningPublicKey(key: SigningKeyInfo | TrustedSigner): string {
+  const lines = key.publicKey.match(/.{1,64}/g) || [];
+  return `-----BEGIN PUBLIC KEY-----\n${lines.join('\n')}\n-----END PUBLIC KEY-----\n`;
+}
+
+/**
+ * Firmantes de confianza fijados en este navegador
+ */
+export async function listTrustedSigners(): Promise<TrustedSigner[]> {
+  return runStore<TrustedSigner[]>(TRUSTED_SIGNERS_STORE, 'readonly', store => store.getAll());
+}
+
+/**
+ * Fija la clave pública (PEM o JWK) de un firmante
+ */
+export async function addTrustedSigner(text: string, name: string): Promise<TrustedSigner> {
+  const key = await importVerifyKey(text.trim());
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', key));
+
+  const signer: TrustedSigner = {
+    name: name.trim() || 'Unnamed signer',
+    publicKey: bytesToBase64(spki),
+    fingerprint: await fingerprintOf(spki),
+    addedAt: new Date().toISOString()
+  };
+
+  await runStore(TRUSTED_SIGNERS_STORE, 'readwrite', store => store.put(signer));
+  return signer;
+}
+
+export async function removeTrustedSigner(fingerprint: string): Promise<void> {
+  await runStore(TRUSTED_SIGNERS_STORE, 'readwrite', store => store.delete(fingerprint));
+}
+
+/**
+ * Firma el manifest con la clave de este navegador; una firma anterior se sustituye
+ */
+export async function signManifest(manifest: ProcessingManifest): Promise<ProcessingManifest> {
+  const stored = await readSigningKey();
+  if (!stored) {
+    throw new Error('No signing key in this browser: generate one in Advanced Settings');
+  }
+  return signManifestWithKey(manifest, stored.info, stored.privateKey);
+}
+
+/**
+ * Firma el manifest con una clave privada concreta y la parte pública que la acompaña
+ */
+export async function signManifestWithKey(
+  manifest: ProcessingManifest,
+  info: Pick<SigningKeyInfo, 'publicKey' | 'fingerprint'>,
+  privateKey: CryptoKey
+): Promise<ProcessingManifest> {
+  const { signature: _previous, ...unsigned } = manifest;
+  const header: Omit<ManifestSignature, 'value'> = {
+    algorithm: SIGNATURE_ALGORITHM,
+    publicKey: info.publicKey,
+    fingerprint: info.fingerprint,
+    signedAt: new Date().toISOString()
+  };
+
+  const value = await crypto.subtle.sign(
+    ECDSA_SIGN_PARAMS,
+    privateKey,
+    getSignedBytes({ ...unsigned, signature: header })
+  );
+
+  return { ...unsigned, signature: { ...header, value: bytesToBase64(new Uint8Array(value)) } };
+}
+
+/**
+ * Comprueba la firma del manifest y si quien firmó es un firmante de confianza: solo una
+ * clave fijada (o la propia) da 'valid'. Sin lista de firmantes se leen los del navegador
+ */
+export async function verifyManifestSignature(
+  manifest: ProcessingManifest,
+  knownSigners?: KnownSigner[]
+): Promise<SignatureCheck> {
+  const { signature } = manifest;
+  if (!signature) {
+    return { status: 'unsigned' };
+  }
+
+  const result: SignatureCheck = {
+    status: 'invalid',
+    fingerprint: signature.fingerprint,
+    signedAt: signature.signedAt
+  };
+
+  try {
+    const spki = base64ToBytes(signature.publicKey);
+    if (await fingerprintOf(spki) !== signature.fingerprint) {
+      return { ...result, error: 'The signer fingerprint does not match its public key' };
+    }
+
+    const key = await crypto.subtle.importKey('spki', spki as BufferSource, ECDSA_KEY_PARAMS, false, ['verify']);
+    const { value, ...header } = signature;
+    const valid = await crypto.subtle.verify(
+      ECDSA_SIGN_PARAMS,
+      key,
+      base64ToBytes(value) as BufferSource,
+      getSignedBytes({ ...manifest, signature: header })
+    );
+    if (!valid) {
+      return { ...result, error: 'The manifest was modified after it was signed' };
+    }
+  } catch {
+    return { ...result, error: 'The signature cannot be read' };
+  }
+
+  const signers = knownSigners ?? await listKnownSigners();
+  const signer = signers.find(known => known.fingerprint === signature.fingerprint);
+  if (!signer) {
+    return { ...result, status: 'untrusted', error: 'The manifest was signed by a key you have not pinned' };
+  }
+  return { ...result, status: 'valid', signer: signer.name };
+}
+
+/**
+ * Bytes firmados: el manifest con la cabecera de la firma, en JSON canónico
+ */
+function getSignedBytes(manifest: object): BufferSource {
+  return utf8Encoder.encode(canonicalJson(manifest)) as BufferSource;
+}
+
+/**
+ * JSON con las claves ordenadas, para que la firma no dependa del orden de las propiedades
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const fields = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * La clave propia y las fijadas en este navegador; sin IndexedDB no hay ninguna
+ */
+async function listKnownSigners(): Promise<KnownSigner[]> {
+  try {
+    const own = await getSigningKey();
+    return [...(own ? [own] : []), ...await listTrustedSigners()];
+  } catch {
+    return [];
+  }
+}
+
+async function readSigningKey(): Promise<StoredSigningKey | null> {
+  const stored = await runStore<StoredSigningKey | undefined>(SIGNING_KEY_STORE, 'readonly', store =>
+    store.get(SIGNING_KEY_ID)
+  );
+  return stored ?? null;
+}
+
+/**
+ * Importa una clave pública ECDSA P-256 en PEM (SPKI) o JWK
+ */
+async function importVerifyKey(text: string): Promise<CryptoKey> {
+  try {
+    if (text.startsWith('{')) {
+      const { kty, crv, x, y } = JSON.parse(text) as JsonWebKey;
+      return await crypto.subtle.importKey('jwk', { kty, crv, x, y } as JsonWebKey, ECDSA_KEY_PARAMS, true, ['verify']);
+    }
+
+    const match = text.match(/-----BEGIN PUBLIC KEY-----([^-]+)-----END PUBLIC KEY-----/);
+    if (!match) {
+      throw new Error('Not a PEM public key');
+    }
+    const spki = base64ToBytes(match[1]!.replace(/\s+/g, ''));
+    return await crypto.subtle.importKey('spki', spki as BufferSource, ECDSA_KEY_PARAMS, true, ['verify']);
+  } catch {
+    throw new Error('Unsupported signing key: use an ECDSA P-256 public key in PEM or JWK');
+  }
+}
+
+/**
+ * Abre la base de datos de claves y crea sus almacenes la primera vez
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser cannot store signing keys (IndexedDB is not available)'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SIGNING_KEY_STORE)) {
+        db.createObjectStore(SIGNING_KEY_STORE);
+      }
+      if (!db.objectStoreNames.contains(TRUSTED_SIGNERS_STORE)) {
+        db.createObjectStore(TRUSTED_SIGNERS_STORE, { keyPath: 'fingerprint' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Cannot open the key store'));
+  });
+}
+
+/**
+ * Ejecuta una operación en un almacén y espera a que termine la transacción
+ */
+async function runStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error ?? new Error('Key store operation failed'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('Key store operation was aborted'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function fingerprintOf(spki: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', spki as BufferSource));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,484 @@
+/**
+ * Manifest
+ * Formato versionado del manifest.json: JSON Schema, validación en tiempo de ejecución
+ * y migraciones desde versiones anteriores. Todo manifest que se lee pasa por aquí
+ */
+
+import type { ProcessingManifest } from '@/types/processing';
+
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+// Versión del formato; solo cambia cuando cambia la estructura del manifest
+export const MANIFEST_VERSION = '2.0.0';
+
+// Versiones que se leen sin migrar: las de la misma versión mayor, cuyas versiones
+// menores solo añaden campos opcionales
+const CURRENT_MAJOR_PATTERN = `^${MANIFEST_VERSION.split('.')[0]}\\.\\d+\\.\\d+$`;
+
+/**
+ * Subconjunto de JSON Schema que usa el manifest y que entiende el validador
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  pattern?: string;
+}
+
+const SHA256_PATTERN = '^[0-9a-f]{64}$';
+
+/**
+ * JSON Schema de la versión actual del manifest; las propiedades desconocidas se
+ * admiten para que una versión menor pueda añadir campos sin romper a las anteriores,
+ * y por eso metadata.version acepta cualquier versión con la misma versión mayor
+ */
+export const MANIFEST_SCHEMA: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'smart-zip-splitter/manifest/2.0.0',
+  title: 'Smart ZIP Splitter manifest',
+  description: 'Fragments of a split file and how to rebuild it',
+  type: 'object',
+  required: ['originalFile', 'fragments', 'metadata'],
+  properties: {
+    originalFile: {
+      type: 'object',
+      required: ['name', 'size', 'checksum'],
+      properties: {
+        name: { type: 'string' },
+        size: { type: 'integer', minimum: 0 },
+        // Vacío si la entrada fue una carpeta
+        checksum: { type: 'string', pattern: '^([0-9a-f]{64})?$' },
+        comment: { type: 'string' }
+      }
+    },
+    fragments: {
+      type: 'array',
+      items: { $ref: '#/$defs/fragment' }
+    },
+    entries: {
+      type: 'array',
+      items: { $ref: '#/$defs/entryLocation' }
+    },
+    chunkedEntries: {
+      type: 'array',
+      items: { $ref: '#/$defs/chunkedEntry' }
+    },
+    excludedEntries: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['path', 'size'],
+        properties: {
+          path: { type: 'string' },
+          dir: { type: 'boolean' },
+          size: { type: 'integer', minimum: 0 },
+          excludedBy: { type: 'string' }
+        }
+      }
+    },
+    driveInfo: { $ref: '#/$defs/driveInfo' },
+    signature: {
+      type: 'object',
+      required: ['algorithm', 'publicKey', 'fingerprint', 'signedAt', 'value'],
+      properties: {
+        algorithm: { type: 'string', enum: ['ECDSA-P256-SHA256'] },
+        publicKey: { type: 'string' },
+        fingerprint: { type: 'string', pattern: SHA256_PATTERN },
+        signedAt: { type: 'string' },
+        value: { type: 'string' }
+      }
+    },
+    instructions: {
+      type: 'object',
+      required: ['howToDownload', 'howToReassemble'],
+      properties: {
+        howToDownload: { type: 'array', items: { type: 'string' } },
+        howToReassemble: { type: 'array', items: { type: 'string' } }
+      }
+    },
+    metadata: {
+      type: 'object',
+      required: ['createdAt', 'version', 'strategy', 'compressionLevel', 'splitMode'],
+      properties: {
+        createdAt: { type: 'string' },
+        version: { type: 'string', pattern: CURRENT_MAJOR_PATTERN },
+        strategy: { type: 'string', enum: ['CLIENT_SIDE', 'CLIENT_DRIVE', 'SERVER_PREMIUM'] },
+        compressionLevel: { type: 'integer', minimum: 0 },
+        compressionRules: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['match', 'level'],
+            properties: {
+              match: { type: 'string' },
+              level: { type: 'integer', minimum: 0 }
+            }
+          }
+        },
+        splitMode: { type: 'string', enum: ['independent', 'spanned', 'raw'] },
+        outputFormat: { type: 'string', enum: ['zip', 'tar', 'tar.gz'] },
+        encryption: { type: 'string', enum: ['winzip-aes-256'] },
+        recipients: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['algorithm', 'fingerprint'],
+            properties: {
+              algorithm: { type: 'string', enum: ['RSA-OAEP', 'ECDH-P256'] },
+              fingerprint: { type: 'string', pattern: SHA256_PATTERN }
+            }
+          }
+        },
+        entryFilter: {
+          type: 'object',
+          required: ['include', 'exclude'],
+          properties: {
+            include: { type: 'array', items: { type: 'string' } },
+            exclude: { type: 'array', items: { type: 'string' } }
+          }
+        }
+      }
+    }
+  },
+  $defs: {
+    fragment: {
+      type: 'object',
+      required: ['id', 'name', 'size', 'checksum', 'order'],
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        size: { type: 'integer', minimum: 0 },
+        checksum: { type: 'string', pattern: SHA256_PATTERN },
+        order: { type: 'integer', minimum: 1 }
+      }
+    },
+    entryRange: {
+      type: 'object',
+      required: ['fragmentId', 'offset', 'length'],
+      properties: {
+        fragmentId: { type: 'string' },
+        offset: { type: 'integer', minimum: 0 },
+        length: { type: 'integer', minimum: 0 }
+      }
+    },
+    entryLocation: {
+      type: 'object',
+      required: ['path', 'fragmentId', 'date'],
+      properties: {
+        path: { type: 'string' },
+        fragmentId: { type: 'string' },
+        lastFragmentId: { type: 'string' },
+        dir: { type: 'boolean' },
+        size: { type: 'integer', minimum: 0 },
+        crc32: { type: 'integer', minimum: 0 },
+        sha256: { type: 'string', pattern: SHA256_PATTERN },
+        ranges: { type: 'array', items: { $ref: '#/$defs/entryRange' } },
+        date: { type: 'string' },
+        unixPermissions: { type: 'integer', minimum: 0 },
+        dosPermissions: { type: 'integer', minimum: 0 },
+        comment: { type: 'string' },
+        duplicateOf: { type: 'string' }
+      }
+    },
+    chunkedEntry: {
+      type: 'object',
+      required: ['path', 'size', 'crc32', 'sha256', 'parts'],
+      properties: {
+        path: { type: 'string' },
+        size: { type: 'integer', minimum: 0 },
+        crc32: { type: 'integer', minimum: 0 },
+        sha256: { type: 'string', pattern: SHA256_PATTERN },
+        parts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['name', 'fragmentId', 'offset', 'length', 'sha256'],
+            properties: {
+              name: { type: 'string' },
+              fragmentId: { type: 'string' },
+              offset: { type: 'integer', minimum: 0 },
+              length: { type: 'integer', minimum: 0 },
+              sha256: { type: 'string', pattern: SHA256_PATTERN }
+            }
+          }
+        }
+      }
+    },
+    driveInfo: {
+      type: 'object',
+      required: ['folderId', 'folderName', 'folderLink', 'files'],
+      properties: {
+        folderId: { type: 'string' },
+        folderName: { type: 'string' },
+        folderLink: { type: 'string' },
+        files: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['driveFileId', 'shareableLink', 'downloadUrl'],
+            properties: {
+              driveFileId: { type: 'string' },
+              shareableLink: { type: 'string' },
+              downloadUrl: { type: 'string' }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+type ManifestObject = Record<string, unknown>;
+
+// Manifest todavía sin validar del que solo se sabe que metadata es un objeto
+type UnvalidatedManifest = ManifestObject & { metadata: ManifestObject };
+
+/**
+ * Migración de una versión del formato a la siguiente
+ */
+interface ManifestMigration {
+  to: string;
+  upgrade: (manifest: UnvalidatedManifest) => UnvalidatedManifest;
+}
+
+// Cadena de migraciones, indexada por la versión de origen
+const MIGRATIONS: Record<string, ManifestMigration> = {
+  '1.0.0': { to: '2.0.0', upgrade: upgradeFrom1 }
+};
+
+/**
+ * 1.0.0 → 2.0.0: el modo y el formato de salida pasan a ser explícitos y las entradas
+ * del índice reciben el tamaño y los hashes que el manifest ya conoce
+ */
+function upgradeFrom1(manifest: UnvalidatedManifest): UnvalidatedManifest {
+  const metadata = manifest.metadata;
+  metadata.splitMode ??= 'independent';
+  if (metadata.splitMode !== 'raw') {
+    metadata.outputFormat ??= 'zip';
+  }
+
+  const chunked = new Map<unknown, ManifestObject>();
+  for (const entry of getObjects(manifest.chunkedEntries)) {
+    chunked.set(entry.path, entry);
+  }
+
+  for (const location of getObjects(manifest.entries)) {
+    const entry = chunked.get(location.path);
+    if (entry && Array.isArray(entry.parts)) {
+      location.size ??= entry.size;
+      location.crc32 ??= entry.crc32;
+      location.sha256 ??= entry.sha256;
+      location.ranges ??= getObjects(entry.parts).map(({ fragmentId, offset, length }) => ({
+        fragmentId,
+        offset,
+        length
+      }));
+    } else if (location.dir) {
+      location.size ??= 0;
+      location.crc32 ??= 0;
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Lleva un manifest de cualquier versión conocida a la versión mayor actual; uno de
+ * una versión menor posterior se devuelve tal cual
+ */
+export function upgradeManifest(value: unknown): UnvalidatedManifest {
+  if (!isUnvalidatedManifest(value)) {
+    throw new Error(`${MANIFEST_FILE_NAME} does not describe a fragment set`);
+  }
+
+  const current = new RegExp(CURRENT_MAJOR_PATTERN);
+  let manifest = structuredClone(value);
+  while (typeof manifest.metadata.version !== 'string' || !current.test(manifest.metadata.version)) {
+    const version = manifest.metadata.version;
+    const migration = typeof version === 'string' ? MIGRATIONS[version] : undefined;
+
+    if (!migration) {
+      throw new Error(
+        typeof version === 'string' && compareVersions(version, MANIFEST_VERSION) > 0
+          ? `${MANIFEST_FILE_NAME} uses format ${version}, newer than this app supports (${MANIFEST_VERSION})`
+          : `${MANIFEST_FILE_NAME} uses an unknown format version: ${String(version)}`
+      );
+    }
+
+    manifest = migration.upgrade(manifest);
+    manifest.metadata.version = migration.to;
+  }
+
+  return manifest;
+}
+
+/**
+ * Comprueba un manifest ya convertido a la versión actual contra MANIFEST_SCHEMA y
+ * devuelve la lista de problemas (vacía si es válido)
+ */
+export function getManifestErrors(value: unknown): string[] {
+  const errors: string[] = [];
+  checkSchema(value, MANIFEST_SCHEMA, 'manifest', errors);
+  return errors;
+}
+
+/**
+ * Migra y valida un manifest de cualquier versión conocida
+ */
+export function validateManifest(value: unknown): ProcessingManifest {
+  const manifest = upgradeManifest(value);
+  const errors: string[] = [];
+
+  if (!matchesManifestSchema(manifest, errors)) {
+    const more = errors.length > 3 ? ` (and ${errors.length - 3} more)` : '';
+    throw new Error(`${MANIFEST_FILE_NAME} is invalid: ${errors.slice(0, 3).join('; ')}${more}`);
+  }
+
+  return manifest;
+}
+
+/**
+ * Un manifest que cumple MANIFEST_SCHEMA tiene la forma de ProcessingManifest;
+ * los problemas encontrados se acumulan en errors
+ */
+function matchesManifestSchema(value: unknown, errors: string[]): value is ProcessingManifest {
+  checkSchema(value, MANIFEST_SCHEMA, 'manifest', errors);
+  return errors.length === 0;
+}
+
+/**
+ * Lee, migra y valida el manifest de un conjunto de fragmentos
+ */
+export function parseManifest(text: string): ProcessingManifest {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error(`${MANIFEST_FILE_NAME} is not valid JSON`);
+  }
+
+  return validateManifest(value);
+}
+
+/**
+ * Serializa el manifest tal como se descarga o se sube
+ */
+export function createManifestBlob(manifest: ProcessingManifest): Blob {
+  return new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Manifest entre los archivos recibidos: manifest.json o, si se renombró, el primer .json
+ */
+export function findManifestFile(files: File[]): File | undefined {
+  return files.find(file => file.name.toLowerCase() === MANIFEST_FILE_NAME) ??
+    files.find(file => file.name.toLowerCase().endsWith('.json'));
+}
+
+/**
+ * Valida un valor contra un esquema y acumula los errores con la ruta de cada uno
+ */
+function checkSchema(value: unknown, schema: JsonSchema, path: string, errors: string[]): void {
+  if (schema.$ref) {
+    checkSchema(value, resolveRef(schema.$ref), path, errors);
+    return;
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push(`${path} must be ${schema.type === 'array' || schema.type === 'integer' ? 'an' : 'a'} ${schema.type}`);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+  }
+  if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+    errors.push(`${path} must be at least ${schema.minimum}`);
+  }
+  if (schema.pattern && typeof value === 'string' && !new RegExp(schema.pattern).test(value)) {
+    errors.push(`${path} has an invalid format`);
+  }
+
+  if (schema.items && Array.isArray(value)) {
+    value.forEach((item, index) => checkSchema(item, schema.items!, `${path}[${index}]`, errors));
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties || {})) {
+      if (value[key] !== undefined) {
+        checkSchema(value[key], property, `${path}.${key}`, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Resuelve una referencia local (#/$defs/nombre) de MANIFEST_SCHEMA
+ */
+function resolveRef(ref: string): JsonSchema {
+  const name = ref.startsWith('#/$defs/') ? ref.slice('#/$defs/'.length) : '';
+  const schema = MANIFEST_SCHEMA.$defs?.[name];
+  if (!schema) {
+    throw new Error(`Unknown schema reference: ${ref}`);
+  }
+  return schema;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isSafeInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is ManifestObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUnvalidatedManifest(value: unknown): value is UnvalidatedManifest {
+  return isObject(value) && isObject(value.metadata);
+}
+
+/**
+ * Elementos de un array que son objetos; los demás los señala después la validación
+ */
+function getObjects(value: unknown): ManifestObject[] {
+  return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+/**
+ * Compara dos versiones semver (mayor.menor.parche)
+ */
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
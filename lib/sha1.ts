@@ -0,0 +1,174 @@
+/**
+ * SHA-1
+ * Hash incremental para el HMAC-SHA1 de WinZip AES, que autentica entradas
+ * demasiado grandes para pasarlas de una vez a WebCrypto
+ */
+
+const BLOCK_SIZE = 64;
+
+/**
+ * Calculadora SHA-1 que acepta datos en varias llamadas a update()
+ */
+export class Sha1 {
+  private readonly state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0]);
+  private readonly block = new Uint8Array(BLOCK_SIZE);
+  private readonly words = new Uint32Array(80);
+  private blockLength = 0;
+  private totalLength = 0;
+  private finished = false;
+
+  /**
+   * Agrega datos al hash
+   */
+  public update(data: Uint8Array): this {
+    if (this.finished) {
+      throw new Error('SHA-1 digest already computed');
+    }
+
+    let offset = 0;
+    this.totalLength += data.byteLength;
+
+    // Completar el bloque pendiente
+    if (this.blockLength > 0) {
+      const take = Math.min(BLOCK_SIZE - this.blockLength, data.byteLength);
+      this.block.set(data.subarray(0, take), this.blockLength);
+      this.blockLength += take;
+      offset = take;
+
+      if (this.blockLength === BLOCK_SIZE) {
+        this.processBlock(this.block, 0);
+        this.blockLength = 0;
+      }
+    }
+
+    // Procesar bloques completos directamente desde la entrada
+    while (offset + BLOCK_SIZE <= data.byteLength) {
+      this.processBlock(data, offset);
+      offset += BLOCK_SIZE;
+    }
+
+    if (offset < data.byteLength) {
+      this.block.set(data.subarray(offset), 0);
+      this.blockLength = data.byteLength - offset;
+    }
+
+    return this;
+  }
+
+  /**
+   * Finaliza el hash y devuelve el digest de 20 bytes
+   */
+  public digest(): Uint8Array {
+    if (!this.finished) {
+      const bitLength = this.totalLength * 8;
+
+      // Relleno: 0x80, ceros y longitud en bits (64 bits big-endian)
+      this.block[this.blockLength++] = 0x80;
+      if (this.blockLength > BLOCK_SIZE - 8) {
+        this.block.fill(0, this.blockLength);
+        this.processBlock(this.block, 0);
+        this.blockLength = 0;
+      }
+      this.block.fill(0, this.blockLength);
+
+      const view = new DataView(this.block.buffer);
+      view.setUint32(BLOCK_SIZE - 8, Math.floor(bitLength / 0x100000000), false);
+      view.setUint32(BLOCK_SIZE - 4, bitLength >>> 0, false);
+      this.processBlock(this.block, 0);
+      this.finished = true;
+    }
+
+    const digest = new Uint8Array(20);
+    const view = new DataView(digest.buffer);
+    this.state.forEach((word, i) => view.setUint32(i * 4, word, false));
+    return digest;
+  }
+
+  /**
+   * Aplica la función de compresión a un bloque de 64 bytes
+   */
+  private processBlock(data: Uint8Array, offset: number): void {
+    const w = this.words;
+
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = ((data[j]! << 24) | (data[j + 1]! << 16) | (data[j + 2]! << 8) | data[j + 3]!) >>> 0;
+    }
+
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3]! ^ w[i - 8]! ^ w[i - 14]! ^ w[i - 16]!;
+      w[i] = ((x << 1) | (x >>> 31)) >>> 0;
+    }
+
+    let a = this.state[0]!;
+    let b = this.state[1]!;
+    let c = this.state[2]!;
+    let d = this.state[3]!;
+    let e = this.state[4]!;
+
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+
+      const t = (((a << 5) | (a >>> 27)) + f + e + k + w[i]!) >>> 0;
+      e = d;
+      d = c;
+      c = ((b << 30) | (b >>> 2)) >>> 0;
+      b = a;
+      a = t;
+    }
+
+    this.state[0] = (this.state[0]! + a) >>> 0;
+    this.state[1] = (this.state[1]! + b) >>> 0;
+    this.state[2] = (this.state[2]! + c) >>> 0;
+    this.state[3] = (this.state[3]! + d) >>> 0;
+    this.state[4] = (this.state[4]! + e) >>> 0;
+  }
+}
+
+/**
+ * HMAC-SHA1 incremental (RFC 2104)
+ */
+export class HmacSha1 {
+  private readonly inner = new Sha1();
+  private readonly outerKey: Uint8Array;
+
+  constructor(key: Uint8Array) {
+    // Las claves más largas que un bloque se reducen con su hash
+    const blockKey = new Uint8Array(BLOCK_SIZE);
+    blockKey.set(key.byteLength > BLOCK_SIZE ? new Sha1().update(key).digest() : key);
+
+    const innerKey = blockKey.map(byte => byte ^ 0x36);
+    this.outerKey = blockKey.map(byte => byte ^ 0x5c);
+    this.inner.update(innerKey);
+  }
+
+  /**
+   * Agrega datos al mensaje autenticado
+   */
+  public update(data: Uint8Array): this {
+    this.inner.update(data);
+    return this;
+  }
+
+  /**
+   * Finaliza y devuelve el código de autenticación de 20 bytes
+   */
+  public digest(): Uint8Array {
+    return new Sha1().update(this.outerKey).update(this.inner.digest()).digest();
+  }
+}
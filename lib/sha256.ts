@@ -0,0 +1,226 @@
+/**
+ * SHA-256
+ * Hash incremental para datos que llegan por partes (WebCrypto solo admite
+ * calcular el digest de un bloque completo)
+ */
+
+// Constantes de ronda (FIPS 180-4)
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const BLOCK_SIZE = 64;
+
+/**
+ * Calculadora SHA-256 que acepta datos en varias llamadas a update()
+ */
+export class Sha256 {
+  private readonly state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+  private readonly block = new Uint8Array(BLOCK_SIZE);
+  private readonly words = new Uint32Array(64);
+  private blockLength = 0;
+  private totalLength = 0;
+  private finished = false;
+
+  /**
+   * Agrega datos al hash
+   */
+  public update(data: Uint8Array): this {
+    if (this.finished) {
+      throw new Error('SHA-256 digest already computed');
+    }
+
+    let offset = 0;
+    this.totalLength += data.byteLength;
+
+    // Completar el bloque pendiente
+    if (this.blockLength > 0) {
+      const take = Math.min(BLOCK_SIZE - this.blockLength, data.byteLength);
+      this.block.set(data.subarray(0, take), this.blockLength);
+      this.blockLength += take;
+      offset = take;
+
+      if (this.blockLength === BLOCK_SIZE) {
+        this.processBlock(this.block, 0);
+        this.blockLength = 0;
+      }
+    }
+
+    // Procesar bloques completos directamente desde la entrada
+    while (offset + BLOCK_SIZE <= data.byteLength) {
+      this.processBlock(data, offset);
+      offset += BLOCK_SIZE;
+    }
+
+    if (offset < data.byteLength) {
+      this.block.set(data.subarray(offset), 0);
+      this.blockLength = data.byteLength - offset;
+    }
+
+    return this;
+  }
+
+  /**
+   * Finaliza el hash y devuelve el digest en hexadecimal
+   */
+  public digestHex(): string {
+    return Array.from(this.digest(), b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Finaliza el hash y devuelve el digest de 32 bytes
+   */
+  public digest(): Uint8Array {
+    if (!this.finished) {
+      const bitLength = this.totalLength * 8;
+
+      // Relleno: 0x80, ceros y longitud en bits (64 bits big-endian)
+      this.block[this.blockLength++] = 0x80;
+      if (this.blockLength > BLOCK_SIZE - 8) {
+        this.block.fill(0, this.blockLength);
+        this.processBlock(this.block, 0);
+        this.blockLength = 0;
+      }
+      this.block.fill(0, this.blockLength);
+
+      const view = new DataView(this.block.buffer);
+      view.setUint32(BLOCK_SIZE - 8, Math.floor(bitLength / 0x100000000), false);
+      view.setUint32(BLOCK_SIZE - 4, bitLength >>> 0, false);
+      this.processBlock(this.block, 0);
+      this.finished = true;
+    }
+
+    const digest = new Uint8Array(32);
+    const view = new DataView(digest.buffer);
+    this.state.forEach((word, i) => view.setUint32(i * 4, word, false));
+    return digest;
+  }
+
+  /**
+   * Aplica la función de compresión a un bloque de 64 bytes
+   */
+  private processBlock(data: Uint8Array, offset: number): void {
+    const w = this.words;
+
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = ((data[j]! << 24) | (data[j + 1]! << 16) | (data[j + 2]! << 8) | data[j + 3]!) >>> 0;
+    }
+
+    for (let i = 16; i < 64; i++) {
+      const w15 = w[i - 15]!;
+      const w2 = w[i - 2]!;
+      const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+      const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+      w[i] = (w[i - 16]! + s0 + w[i - 7]! + s1) >>> 0;
+    }
+
+    let a = this.state[0]!;
+    let b = this.state[1]!;
+    let c = this.state[2]!;
+    let d = this.state[3]!;
+    let e = this.state[4]!;
+    let f = this.state[5]!;
+    let g = this.state[6]!;
+    let h = this.state[7]!;
+
+    for (let i = 0; i < 64; i++) {
+      const S1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (h + S1 + ch + K[i]! + w[i]!) >>> 0;
+      const S0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) >>> 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    this.state[0] = (this.state[0]! + a) >>> 0;
+    this.state[1] = (this.state[1]! + b) >>> 0;
+    this.state[2] = (this.state[2]! + c) >>> 0;
+    this.state[3] = (this.state[3]! + d) >>> 0;
+    this.state[4] = (this.state[4]! + e) >>> 0;
+    this.state[5] = (this.state[5]! + f) >>> 0;
+    this.state[6] = (this.state[6]! + g) >>> 0;
+    this.state[7] = (this.state[7]! + h) >>> 0;
+  }
+}
+
+/**
+ * Calcula el SHA-256 de un bloque completo con WebCrypto; es el checksum de los
+ * fragmentos y del manifest
+ */
+export async function sha256Hex(data: Uint8Array | Blob): Promise<string> {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const hashBuffer = await crypto.subtle.digest('SHA-256', buffer as BufferSource);
+  return Array.from(new Uint8Array(hashBuffer), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 de un Blob que se lee por rangos: cada lectura se agrega al hash a partir de
+ * la posición ya procesada y los huecos (datos que se copian sin leerlos) se leen al
+ * llegar a ellos, así que un recorrido en orden lee cada byte una sola vez
+ */
+export class BlobSha256 {
+  private readonly hash = new Sha256();
+  private position = 0; // Bytes del Blob ya incluidos en el hash
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly blob: Blob) {}
+
+  /**
+   * Agrega los bytes leídos desde offset; lo que ya pasó por el hash se ignora
+   */
+  public update(offset: number, data: Uint8Array): Promise<void> {
+    this.pending = this.pending.then(() => this.apply(offset, data));
+    return this.pending;
+  }
+
+  /**
+   * Lee lo que falta hasta el final del Blob y devuelve el digest en hexadecimal
+   */
+  public async digestHex(): Promise<string> {
+    await this.update(this.blob.size, new Uint8Array(0));
+    return this.hash.digestHex();
+  }
+
+  private async apply(offset: number, data: Uint8Array): Promise<void> {
+    const end = offset + data.byteLength;
+    if (end <= this.position) {
+      return;
+    }
+    if (offset > this.position) {
+      await this.readUntil(offset);
+    }
+    this.hash.update(data.subarray(this.position - offset));
+    this.position = end;
+  }
+
+  private async readUntil(end: number): Promise<void> {
+    const reader = this.blob.slice(this.position, end).stream().getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      this.hash.update(value);
+    }
+    this.position = end;
+  }
+}
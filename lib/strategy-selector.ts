@@ -10,12 +10,28 @@ import type {
   FileAnalysis,
   StorageLocation 
 } from '@/types/processing';
+import { createArchiveReader } from './archive-reader';
+import { FileCollection, type InputSource } from './file-collection';
+import {
+  findDuplicateEntries,
+  findDuplicateFiles,
+  summarizeDuplicates,
+  type ContentHashes,
+  type DuplicateSummary
+} from './entry-dedup';
+import { estimateCompressionRatio } from './compression-policy';
+
+// Tamaño máximo que el navegador lee por demanda: el lector solo carga los trozos que
+// necesita, así que los ZIP64 de más de 4GB se procesan en local. Drive también procesa
+// el archivo en local antes de subirlo, así que comparte el límite con el modo local
+const CLIENT_READ_MAX = 1024 * 1024 * 1024 * 1024; // 1TB
 
 // Constantes de configuración
 const STRATEGY_THRESHOLDS = {
-  CLIENT_SIDE_MAX: 100 * 1024 * 1024, // 100MB
-  CLIENT_DRIVE_MAX: 2 * 1024 * 1024 * 1024, // 2GB
-  SERVER_PREMIUM_MIN: 2 * 1024 * 1024 * 1024, // 2GB+
+  CLIENT_SIDE_MAX: 100 * 1024 * 1024, // 100MB (recomendación)
+  CLIENT_DRIVE_RECOMMENDED_MAX: 4 * 1024 * 1024 * 1024, // 4GB (recomendación: más, y la subida tarda demasiado)
+  CLIENT_SIDE_STREAMING_MAX: CLIENT_READ_MAX,
+  CLIENT_DRIVE_MAX: CLIENT_READ_MAX,
 } as const;
 
 const DEFAULT_FRAGMENT_SIZES = {
@@ -30,7 +46,7 @@ const DEFAULT_FRAGMENT_SIZES = {
 export const AVAILABLE_STRATEGIES: Record<ProcessingStrategyType, ProcessingStrategy> = {
   CLIENT_SIDE: {
     type: 'CLIENT_SIDE',
-    maxSize: STRATEGY_THRESHOLDS.CLIENT_SIDE_MAX,
+    maxSize: STRATEGY_THRESHOLDS.CLIENT_SIDE_STREAMING_MAX,
     name: 'Lightning Fast',
     description: 'Instant client-side processing with zero upload required',
     features: [
@@ -38,6 +54,7 @@ export const AVAILABLE_STRATEGIES: Record<ProcessingStrategyType, ProcessingStra
       'Complete privacy - files never leave your device',
       'No internet required after page load',
       'Perfect for sensitive documents',
+      'Streams multi-GB archives without loading them into memory',
       'Direct download links',
     ],
     recommended: true,
@@ -79,9 +96,13 @@ export const AVAILABLE_STRATEGIES: Record<ProcessingStrategyType, ProcessingStra
 };
 
 /**
- * Analiza un archivo y determina la mejor estrategia de procesamiento
+ * Analiza un archivo y determina la mejor estrategia de procesamiento; los duplicados
+ * solo se buscan con findDuplicates, porque hay que leer el contenido de cada candidato
  */
-export async function analyzeFile(file: File): Promise<FileAnalysis> {
+export async function analyzeFile(
+  file: InputSource,
+  options: { findDuplicates?: boolean } = {}
+): Promise<FileAnalysis> {
   const startTime = performance.now();
   
   try {
@@ -92,8 +113,9 @@ export async function analyzeFile(file: File): Promise<FileAnalysis> {
       name: file.name,
     };
 
-    // Estimación de entradas ZIP (aproximación basada en tamaño)
-    const estimatedEntryCount = Math.max(1, Math.floor(file.size / (50 * 1024))); // ~50KB por entrada promedio
+    // Entradas y cifrado según el directorio central; si no puede leerse, estimación por tamaño
+    const summary = await readArchiveSummary(file, !!options.findDuplicates);
+    const estimatedEntryCount = summary?.entryCount ?? Math.max(1, Math.floor(file.size / (50 * 1024))); // ~50KB por entrada promedio
 
     // Estimación de ratio de compresión (basado en tipo de archivo)
     const compressionRatio = estimateCompressionRatio(file.name);
@@ -118,6 +140,12 @@ export async function analyzeFile(file: File): Promise<FileAnalysis> {
       estimatedProcessingTime,
       recommendedStrategy,
       recommendedFragmentSize,
+      encrypted: summary?.encrypted ?? false,
+      ...(summary?.duplicates && {
+        duplicateFiles: summary.duplicates.files,
+        duplicateBytes: summary.duplicates.bytes,
+        duplicateHashes: summary.duplicates.hashes,
+      }),
     };
 
   } catch (error) {
@@ -126,16 +154,66 @@ export async function analyzeFile(file: File): Promise<FileAnalysis> {
 }
 
 /**
- * Selecciona la estrategia óptima basada en el tamaño del archivo
+ * Busca el contenido repetido de un archivo o carpeta, para cuando se activa la
+ * deduplicación después del análisis; devuelve también los hashes que calculó
+ */
+export async function analyzeDuplicates(file: InputSource): Promise<DuplicateSummary & { hashes: ContentHashes }> {
+  const hashes: ContentHashes = {};
+  if (file instanceof FileCollection) {
+    return { ...summarizeDuplicates(await findDuplicateFiles(file, undefined, hashes)), hashes };
+  }
+
+  const reader = createArchiveReader(file);
+  const archive = await reader.readCentralDirectory();
+  return { ...summarizeDuplicates(await findDuplicateEntries(reader, archive.entries, false, undefined, hashes)), hashes };
+}
+
+/**
+ * Lee el directorio central (o el índice del TAR) para contar las entradas y detectar cifrado
+ * y, con findDuplicates, el contenido de las entradas con el mismo tamaño y CRC32
+ */
+async function readArchiveSummary(
+  file: InputSource,
+  findDuplicates: boolean
+): Promise<{ entryCount: number; encrypted: boolean; duplicates?: DuplicateSummary & { hashes: ContentHashes } } | null> {
+  // Una carpeta ya está indexada: leer sus archivos solo para contarlos sería recorrerlos dos veces
+  if (file instanceof FileCollection) {
+    return {
+      entryCount: file.files.length,
+      encrypted: false,
+      ...(findDuplicates && { duplicates: await analyzeDuplicates(file) }),
+    };
+  }
+
+  try {
+    const reader = createArchiveReader(file);
+    const archive = await reader.readCentralDirectory();
+    const hashes: ContentHashes = {};
+    return {
+      entryCount: archive.entries.length,
+      encrypted: archive.entries.some(entry => entry.encryption !== null),
+      ...(findDuplicates && {
+        duplicates: {
+          ...summarizeDuplicates(await findDuplicateEntries(reader, archive.entries, false, undefined, hashes)),
+          hashes,
+        },
+      }),
+    };
+  } catch {
+    // No es un archivo legible: el procesador informará el error con detalle
+    return null;
+  }
+}
+
+/**
+ * Selecciona la estrategia óptima basada en el tamaño del archivo; el procesamiento en
+ * servidor no está disponible, así que los archivos más grandes se procesan en local
  */
 export function selectOptimalStrategy(fileSize: number): ProcessingStrategyType {
-  if (fileSize <= STRATEGY_THRESHOLDS.CLIENT_SIDE_MAX) {
-    return 'CLIENT_SIDE';
-  } else if (fileSize <= STRATEGY_THRESHOLDS.CLIENT_DRIVE_MAX) {
+  if (fileSize > STRATEGY_THRESHOLDS.CLIENT_SIDE_MAX && fileSize <= STRATEGY_THRESHOLDS.CLIENT_DRIVE_RECOMMENDED_MAX) {
     return 'CLIENT_DRIVE';
-  } else {
-    return 'SERVER_PREMIUM';
   }
+  return 'CLIENT_SIDE';
 }
 
 /**
@@ -223,56 +301,6 @@ export function estimateProcessingTime(fileSize: number, strategy: ProcessingStr
   return Math.round(baseTime + overhead[strategy]);
 }
 
-/**
- * Estima el ratio de compresión basado en el nombre del archivo
- */
-function estimateCompressionRatio(filename: string): number {
-  const extension = filename.toLowerCase().split('.').pop() || '';
-  
-  // Ratios típicos basados en tipos de archivo
-  const compressionRatios: Record<string, number> = {
-    // Archivos ya comprimidos
-    zip: 0.95,
-    rar: 0.95,
-    '7z': 0.95,
-    gz: 0.95,
-    bz2: 0.95,
-    
-    // Archivos de código/texto
-    js: 0.3,
-    ts: 0.3,
-    html: 0.3,
-    css: 0.3,
-    txt: 0.4,
-    json: 0.3,
-    xml: 0.3,
-    
-    // Archivos de imagen
-    jpg: 0.95,
-    jpeg: 0.95,
-    png: 0.8,
-    gif: 0.9,
-    webp: 0.95,
-    
-    // Archivos de video/audio
-    mp4: 0.98,
-    avi: 0.97,
-    mov: 0.97,
-    mp3: 0.98,
-    wav: 0.6,
-    
-    // Documentos
-    pdf: 0.8,
-    doc: 0.6,
-    docx: 0.7,
-    
-    // Por defecto
-    default: 0.6,
-  };
-  
-  return compressionRatios[extension] || compressionRatios.default;
-}
-
 /**
  * Determina el nivel óptimo de compresión
  */
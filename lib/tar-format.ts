@@ -0,0 +1,35 @@
+/**
+ * TAR Format
+ * Constantes y utilidades compartidas por el lector y el escritor de TAR
+ */
+
+export const TAR_BLOCK_SIZE = 512;
+// Final del archivo: dos bloques a cero
+export const TAR_END_OF_ARCHIVE_SIZE = 2 * TAR_BLOCK_SIZE;
+
+export const TAR_TYPES = {
+  FILE: '0',
+  OLD_FILE: '\0',
+  CONTIGUOUS: '7',
+  HARD_LINK: '1',
+  SYMLINK: '2',
+  DIRECTORY: '5',
+  PAX_HEADER: 'x',
+  PAX_GLOBAL: 'g',
+  GNU_LONG_NAME: 'L',
+  GNU_LONG_LINK: 'K',
+  GNU_SPARSE: 'S'
+} as const;
+
+// Bits de tipo de st_mode
+export const S_IFMT = 0o170000;
+export const S_IFREG = 0o100000;
+export const S_IFDIR = 0o040000;
+export const S_IFLNK = 0o120000;
+
+/**
+ * Bytes de relleno hasta completar el último bloque de los datos
+ */
+export function getTarPadding(size: number): number {
+  return (TAR_BLOCK_SIZE - (size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+}
@@ -0,0 +1,590 @@
+/**
+ * TAR Reader
+ * Lector de archivos TAR (ustar, GNU y PAX), opcionalmente comprimidos con gzip.
+ * Recorre el archivo una sola vez para indexar las entradas con el mismo modelo
+ * que ZipReader, de modo que FileSplitter y el procesador las tratan igual.
+ *
+ * Un TAR.GZ no permite acceso aleatorio: se descomprime entero en Blobs, así que la
+ * memoria necesaria crece con su tamaño descomprimido (bytesInMemory), no con el del .tar.gz,
+ * y se rechaza si descomprimido supera MAX_DECOMPRESSED_TAR_SIZE. Los TAR sin comprimir se
+ * leen por rangos, sin ese límite.
+ */
+
+import {
+  ZIP_COMPRESSION_METHODS,
+  ZIP_HOST_SYSTEMS,
+  ZIP_VERSION_DEFAULT,
+  crc32,
+  dateToDosDateTime
+} from './zip-format';
+import {
+  TAR_BLOCK_SIZE,
+  TAR_TYPES,
+  S_IFREG,
+  S_IFDIR,
+  S_IFLNK,
+  getTarPadding
+} from './tar-format';
+import { Sha256 } from './sha256';
+import type { ArchiveReader } from './archive-reader';
+import type { ZipArchiveInfo, ZipEntryInfo } from './zip-reader';
+
+// Cabeceras PAX y nombres largos de GNU: se rechazan los absurdamente grandes
+const MAX_METADATA_SIZE = 1024 * 1024;
+// El gzip descomprimido se guarda en Blobs de este tamaño para no duplicar memoria
+const DECOMPRESSED_BATCH_SIZE = 16 * 1024 * 1024;
+// Tamaño descomprimido máximo de un TAR.GZ, que se mantiene entero en memoria
+export const MAX_DECOMPRESSED_TAR_SIZE = 256 * 1024 * 1024;
+// Tamaño del campo ISIZE al final de un gzip (tamaño descomprimido módulo 2^32)
+const GZIP_ISIZE_LENGTH = 4;
+// Atributo DOS de directorio
+const DOS_DIRECTORY = 0x10;
+
+const utf8Decoder = new TextDecoder();
+
+/**
+ * Índice de un TAR ya recorrido, con el TAR descomprimido si venía en gzip
+ */
+interface TarIndex {
+  entries: ZipEntryInfo[];
+  data: Blob;
+  linkTargets: Map<string, Uint8Array>;
+  sha256: string; // Del archivo tal como se recibió, calculado en el mismo recorrido
+}
+
+// El análisis y el procesamiento del mismo archivo comparten un único índice (y una única descompresión)
+const indexCache = new WeakMap<Blob, TarIndex>();
+
+/**
+ * Campos de una cabecera TAR ya combinados con PAX y nombres largos de GNU
+ */
+interface TarHeader {
+  name: string;
+  mode: number;
+  size: number;
+  mtime: number; // Segundos desde 1970
+  type: string;
+  linkName: string;
+}
+
+/**
+ * Metadatos pendientes que modifican la siguiente cabecera
+ */
+interface PendingMetadata {
+  pax: Record<string, string>;
+  longName: string | null;
+  longLink: string | null;
+}
+
+/**
+ * Lector de TAR y TAR.GZ con la misma interfaz que ZipReader
+ */
+export class TarReader implements ArchiveReader {
+  public readonly format: 'tar' | 'tar.gz';
+  private readonly file: Blob;
+  private data: Blob | null = null; // TAR sin comprimir una vez indexado
+  private linkTargets = new Map<string, Uint8Array>(); // Contenido de los enlaces simbólicos
+  private checksum = ''; // SHA-256 del archivo, al indexarlo
+
+  constructor(file: Blob, gzip: boolean) {
+    this.file = file;
+    this.format = gzip ? 'tar.gz' : 'tar';
+  }
+
+  /**
+   * Tamaño total del archivo subyacente
+   */
+  public get size(): number {
+    return this.file.size;
+  }
+
+  /**
+   * Bytes del TAR descomprimido que se mantienen mientras se usa el lector (0 si no es TAR.GZ)
+   */
+  public get bytesInMemory(): number {
+    return this.format === 'tar.gz' ? this.data?.size ?? 0 : 0;
+  }
+
+  /**
+   * SHA-256 del archivo, calculado mientras se indexa (sin volver a leerlo)
+   */
+  public async getChecksum(): Promise<string> {
+    if (!this.data) {
+      await this.readCentralDirectory();
+    }
+    return this.checksum;
+  }
+
+  /**
+   * Indexa el TAR (equivalente al directorio central de un ZIP): posición, tamaño y CRC32 de cada entrada
+   */
+  public async readCentralDirectory(): Promise<ZipArchiveInfo> {
+    const cached = indexCache.get(this.file);
+    if (cached) {
+      this.data = cached.data;
+      this.linkTargets = cached.linkTargets;
+      this.checksum = cached.sha256;
+      return this.createArchiveInfo(cached.entries);
+    }
+
+    if (this.format === 'tar.gz') {
+      await this.checkDecompressedSize();
+    }
+
+    const batches: Blob[] = [];
+    const hash = new Sha256();
+    const source = this.file.stream().pipeThrough(hashChunks(hash));
+    // El gzip no permite acceso aleatorio: se conserva el TAR descomprimido
+    const stream: ReadableStream<Uint8Array> = this.format === 'tar.gz'
+      ? source
+        .pipeThrough(new DecompressionStream('gzip'))
+        .pipeThrough(this.collectBatches(batches))
+      : source;
+
+    let entries: ZipEntryInfo[];
+    try {
+      entries = await this.indexEntries(stream);
+    } catch (error) {
+      if (error instanceof TypeError) {
+        throw new Error('Invalid TAR.GZ file: the gzip data is corrupted');
+      }
+      throw error;
+    }
+
+    this.data = this.format === 'tar.gz' ? new Blob(batches) : this.file;
+    this.checksum = hash.digestHex();
+    indexCache.set(this.file, { entries, data: this.data, linkTargets: this.linkTargets, sha256: this.checksum });
+
+    return this.createArchiveInfo(entries);
+  }
+
+  /**
+   * Copia las entradas del índice para que cada lectura trabaje con sus propios objetos
+   */
+  private createArchiveInfo(entries: ZipEntryInfo[]): ZipArchiveInfo {
+    return {
+      entries: entries.map(entry => ({ ...entry })),
+      comment: '',
+      centralDirectoryOffset: 0,
+      centralDirectorySize: 0
+    };
+  }
+
+  /**
+   * Lee los bytes de una entrada (en un TAR nunca están comprimidos)
+   */
+  public async readRawData(entry: ZipEntryInfo): Promise<Uint8Array> {
+    return new Uint8Array(await (await this.sliceRawData(entry)).arrayBuffer());
+  }
+
+  /**
+   * Devuelve los bytes de una entrada como Blob, sin leerlos
+   */
+  public async sliceRawData(entry: ZipEntryInfo): Promise<Blob> {
+    const linkTarget = this.linkTargets.get(entry.name);
+    if (linkTarget) {
+      return new Blob([linkTarget as BlobPart]);
+    }
+
+    if (!this.data) {
+      throw new Error('The TAR archive must be read before its entries');
+    }
+    return this.data.slice(entry.localHeaderOffset, entry.localHeaderOffset + entry.compressedSize);
+  }
+
+  /**
+   * Devuelve el contenido de una entrada como stream
+   */
+  public async streamEntryData(entry: ZipEntryInfo): Promise<ReadableStream<Uint8Array>> {
+    return (await this.sliceRawData(entry)).stream();
+  }
+
+  /**
+   * Lee el contenido de una entrada
+   */
+  public async readEntryData(entry: ZipEntryInfo): Promise<Uint8Array> {
+    return this.readRawData(entry);
+  }
+
+  /**
+   * Recorre el TAR en orden: cabeceras, datos (con su CRC32) y relleno hasta el bloque
+   */
+  private async indexEntries(stream: ReadableStream<Uint8Array>): Promise<ZipEntryInfo[]> {
+    const entries = new Map<string, ZipEntryInfo>(); // Un nombre repetido sustituye al anterior, como en tar
+    const reader = stream.getReader();
+    const header = new Uint8Array(TAR_BLOCK_SIZE);
+    let headerFill = 0;
+    let offset = 0;
+    let skip = 0; // Datos sin interés o relleno
+    let pending: PendingMetadata = { pax: {}, longName: null, longLink: null };
+    let globalPax: Record<string, string> = {};
+    let current: { entry: ZipEntryInfo; remaining: number } | null = null;
+    let metadata: { type: string; buffer: Uint8Array; fill: number } | null = null;
+    let finished = false;
+
+    while (!finished) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      let i = 0;
+      while (i < value.byteLength && !finished) {
+        if (current) {
+          // Datos de una entrada: se calcula su CRC32 al pasar
+          const take = Math.min(current.remaining, value.byteLength - i);
+          current.entry.crc32 = crc32(value.subarray(i, i + take), current.entry.crc32);
+          current.remaining -= take;
+          i += take;
+          offset += take;
+          if (current.remaining === 0) {
+            skip = getTarPadding(current.entry.compressedSize);
+            current = null;
+          }
+        } else if (metadata) {
+          const take = Math.min(metadata.buffer.byteLength - metadata.fill, value.byteLength - i);
+          metadata.buffer.set(value.subarray(i, i + take), metadata.fill);
+          metadata.fill += take;
+          i += take;
+          offset += take;
+          if (metadata.fill === metadata.buffer.byteLength) {
+            skip = getTarPadding(metadata.buffer.byteLength);
+            if (metadata.type === TAR_TYPES.PAX_GLOBAL) {
+              globalPax = { ...globalPax, ...parsePaxRecords(metadata.buffer) };
+            } else {
+              applyMetadata(pending, metadata.type, metadata.buffer);
+            }
+            metadata = null;
+          }
+        } else if (skip > 0) {
+          const take = Math.min(skip, value.byteLength - i);
+          skip -= take;
+          i += take;
+          offset += take;
+        } else {
+          const take = Math.min(TAR_BLOCK_SIZE - headerFill, value.byteLength - i);
+          header.set(value.subarray(i, i + take), headerFill);
+          headerFill += take;
+          i += take;
+          offset += take;
+          if (headerFill < TAR_BLOCK_SIZE) {
+            continue;
+          }
+          headerFill = 0;
+
+          // Un bloque vacío marca el final del archivo
+          if (header.every(byte => byte === 0)) {
+            finished = true;
+            break;
+          }
+
+          const parsed = parseHeader(header, offset - TAR_BLOCK_SIZE, { ...pending, pax: { ...globalPax, ...pending.pax } });
+
+          if (isMetadataType(parsed.type)) {
+            if (parsed.size > MAX_METADATA_SIZE) {
+              throw new Error(`Invalid TAR file: extended header of ${parsed.size} bytes at offset ${offset - TAR_BLOCK_SIZE}`);
+            }
+            metadata = { type: parsed.type, buffer: new Uint8Array(parsed.size), fill: 0 };
+            if (parsed.size === 0) {
+              applyMetadata(pending, parsed.type, metadata.buffer);
+              metadata = null;
+            }
+            continue;
+          }
+
+          pending = { pax: {}, longName: null, longLink: null };
+          const entry = this.createEntry(parsed, offset, entries);
+          if (entry) {
+            entries.set(entry.name, entry);
+          }
+
+          // Los enlaces no tienen datos; los de otros tipos (dispositivos, FIFO) se omiten
+          const dataSize = parsed.type === TAR_TYPES.HARD_LINK || parsed.type === TAR_TYPES.SYMLINK ? 0 : parsed.size;
+          if (entry && isRegularFile(parsed) && dataSize > 0) {
+            current = { entry, remaining: dataSize };
+          } else {
+            skip = dataSize + getTarPadding(dataSize);
+          }
+        }
+      }
+    }
+
+    if (finished) {
+      // El resto son bloques de relleno: igual hay que consumirlos para el SHA-256 del
+      // archivo (y, en un .tar.gz, para conservar los datos)
+      while (!(await reader.read()).done) {
+        // Descartar
+      }
+    } else if (current || metadata || headerFill > 0 || skip > 0) {
+      throw new Error('Invalid TAR file: the archive is truncated');
+    }
+
+    return Array.from(entries.values());
+  }
+
+  /**
+   * Convierte una cabecera en entrada; null para los tipos que no pueden guardarse en un ZIP
+   */
+  private createEntry(header: TarHeader, dataOffset: number, entries: Map<string, ZipEntryInfo>): ZipEntryInfo | null {
+    // Los TAR antiguos marcan los directorios solo con la '/' final
+    const directory = header.type === TAR_TYPES.DIRECTORY || (isFileType(header.type) && header.name.endsWith('/'));
+    const name = normalizePath(header.name, directory);
+    if (!name) {
+      return null;
+    }
+    if (header.type !== TAR_TYPES.SYMLINK) {
+      this.linkTargets.delete(name);
+    }
+
+    const lastModified = new Date(header.mtime * 1000);
+    const { dosDate, dosTime } = dateToDosDateTime(lastModified);
+    const base = {
+      name,
+      dir: false,
+      versionNeeded: ZIP_VERSION_DEFAULT,
+      compressionMethod: ZIP_COMPRESSION_METHODS.STORE,
+      compressedSize: header.size,
+      uncompressedSize: header.size,
+      crc32: 0,
+      flags: 0,
+      dosDate,
+      dosTime,
+      lastModified,
+      versionMadeBy: (ZIP_HOST_SYSTEMS.UNIX << 8) | ZIP_VERSION_DEFAULT,
+      internalAttributes: 0,
+      dosPermissions: null,
+      comment: '',
+      localHeaderOffset: dataOffset,
+      encryption: null
+    };
+    const withMode = (mode: number, dosAttributes = 0) => ({
+      ...base,
+      externalAttributes: ((mode << 16) | dosAttributes) >>> 0,
+      unixPermissions: mode
+    });
+    const permissions = header.mode & 0o7777;
+
+    if (directory) {
+      return { ...withMode(S_IFDIR | permissions, DOS_DIRECTORY), dir: true, compressedSize: 0, uncompressedSize: 0 };
+    }
+
+    switch (header.type) {
+      case TAR_TYPES.FILE:
+      case TAR_TYPES.OLD_FILE:
+      case TAR_TYPES.CONTIGUOUS:
+        return withMode(S_IFREG | permissions);
+
+      case TAR_TYPES.SYMLINK: {
+        // En un ZIP el destino del enlace es el contenido de la entrada
+        const target = new TextEncoder().encode(header.linkName);
+        this.linkTargets.set(name, target);
+        return {
+          ...withMode(S_IFLNK | 0o777),
+          compressedSize: target.byteLength,
+          uncompressedSize: target.byteLength,
+          crc32: crc32(target)
+        };
+      }
+
+      case TAR_TYPES.HARD_LINK: {
+        // Un enlace duro repite los datos de una entrada anterior
+        const target = entries.get(normalizePath(header.linkName, false));
+        return target && !target.dir ? { ...target, name, lastModified, dosDate, dosTime } : null;
+      }
+
+      case TAR_TYPES.GNU_SPARSE:
+        throw new Error(`Sparse file "${name}" in TAR archives is not supported`);
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Rechaza antes de descomprimir un TAR.GZ cuyo ISIZE ya supera el límite (el ISIZE es
+   * módulo 2^32, así que un valor pequeño no garantiza nada: eso lo comprueba collectBatches)
+   */
+  private async checkDecompressedSize(): Promise<void> {
+    if (this.file.size < GZIP_ISIZE_LENGTH) {
+      return;
+    }
+    const trailer = await this.file.slice(this.file.size - GZIP_ISIZE_LENGTH).arrayBuffer();
+    if (new DataView(trailer).getUint32(0, true) > MAX_DECOMPRESSED_TAR_SIZE) {
+      throw new Error(getDecompressedSizeError());
+    }
+  }
+
+  /**
+   * Guarda el TAR descomprimido en Blobs de tamaño fijo a medida que pasa, sin pasar del límite
+   */
+  private collectBatches(batches: Blob[]): TransformStream<Uint8Array, Uint8Array> {
+    let chunks: Uint8Array[] = [];
+    let size = 0;
+    let total = 0;
+
+    return new TransformStream({
+      transform(chunk, controller) {
+        total += chunk.byteLength;
+        if (total > MAX_DECOMPRESSED_TAR_SIZE) {
+          throw new Error(getDecompressedSizeError());
+        }
+        chunks.push(chunk);
+        size += chunk.byteLength;
+        if (size >= DECOMPRESSED_BATCH_SIZE) {
+          batches.push(new Blob(chunks as BlobPart[]));
+          chunks = [];
+          size = 0;
+        }
+        controller.enqueue(chunk);
+      },
+      flush() {
+        batches.push(new Blob(chunks as BlobPart[]));
+      }
+    });
+  }
+}
+
+/**
+ * Error de un TAR.GZ demasiado grande para descomprimirlo en memoria
+ */
+export function getDecompressedSizeError(): string {
+  return `TAR.GZ files are decompressed in memory and must not exceed ${MAX_DECOMPRESSED_TAR_SIZE / (1024 * 1024)}MB ` +
+    'uncompressed: extract the archive and select the .tar file or the folder instead';
+}
+
+/**
+ * Agrega al hash los bytes del archivo según pasan
+ */
+function hashChunks(hash: Sha256): TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>> {
+  return new TransformStream({
+    transform(chunk, controller) {
+      hash.update(chunk);
+      controller.enqueue(chunk);
+    }
+  });
+}
+
+/**
+ * Lee una cabecera de 512 bytes validando su checksum
+ */
+function parseHeader(block: Uint8Array, offset: number, pending: PendingMetadata): TarHeader {
+  const stored = readOctal(block, 148, 8);
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    // El campo del checksum cuenta como espacios
+    sum += i >= 148 && i < 156 ? 0x20 : block[i]!;
+  }
+  if (stored !== sum) {
+    throw new Error(`Invalid TAR file: corrupt header at offset ${offset}`);
+  }
+
+  const type = String.fromCharCode(block[156]!);
+  const ustar = readString(block, 257, 5) === 'ustar';
+  const prefix = ustar ? readString(block, 345, 155) : '';
+  const shortName = readString(block, 0, 100);
+  // Los metadatos pendientes solo se aplican a la entrada que los sigue
+  const { pax, longName, longLink } = isMetadataType(type)
+    ? { pax: {} as Record<string, string>, longName: null, longLink: null }
+    : pending;
+
+  return {
+    name: pax.path ?? longName ?? (prefix ? `${prefix}/${shortName}` : shortName),
+    mode: readOctal(block, 100, 8),
+    size: pax.size !== undefined ? Number(pax.size) : readNumber(block, 124, 12),
+    mtime: pax.mtime !== undefined ? Math.floor(Number(pax.mtime)) : readNumber(block, 136, 12),
+    type,
+    linkName: pax.linkpath ?? longLink ?? readString(block, 157, 100)
+  };
+}
+
+/**
+ * Aplica un nombre largo de GNU o una cabecera PAX a la siguiente entrada
+ */
+function applyMetadata(pending: PendingMetadata, type: string, data: Uint8Array): void {
+  switch (type) {
+    case TAR_TYPES.GNU_LONG_NAME:
+      pending.longName = readString(data, 0, data.byteLength);
+      break;
+    case TAR_TYPES.GNU_LONG_LINK:
+      pending.longLink = readString(data, 0, data.byteLength);
+      break;
+    case TAR_TYPES.PAX_HEADER:
+      pending.pax = { ...pending.pax, ...parsePaxRecords(data) };
+      break;
+  }
+}
+
+/**
+ * Registros PAX "<longitud> <clave>=<valor>\n"
+ */
+function parsePaxRecords(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {};
+  let position = 0;
+
+  while (position < data.byteLength) {
+    const space = data.indexOf(0x20, position);
+    const length = space === -1 ? NaN : parseInt(utf8Decoder.decode(data.subarray(position, space)), 10);
+    if (!Number.isFinite(length) || length <= 0 || position + length > data.byteLength) {
+      break;
+    }
+
+    const record = utf8Decoder.decode(data.subarray(space + 1, position + length - 1));
+    const separator = record.indexOf('=');
+    if (separator > 0) {
+      records[record.slice(0, separator)] = record.slice(separator + 1);
+    }
+    position += length;
+  }
+
+  return records;
+}
+
+/**
+ * Número octal o, con el bit alto activo, binario big-endian (GNU, tamaños de más de 8GB)
+ */
+function readNumber(block: Uint8Array, offset: number, length: number): number {
+  if ((block[offset]! & 0x80) === 0) {
+    return readOctal(block, offset, length);
+  }
+
+  let value = block[offset]! & 0x7f;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + block[offset + i]!;
+  }
+  return value;
+}
+
+function readOctal(block: Uint8Array, offset: number, length: number): number {
+  const text = readString(block, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function readString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return utf8Decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+/**
+ * Rutas relativas con '/' final en los directorios; sin './' ni '/' iniciales
+ */
+function normalizePath(path: string, directory: boolean): string {
+  const normalized = path.replace(/^(\.?\/)+/, '').replace(/\/+$/, '');
+  if (!normalized || normalized === '.') {
+    return '';
+  }
+  return directory ? `${normalized}/` : normalized;
+}
+
+function isMetadataType(type: string): boolean {
+  return type === TAR_TYPES.PAX_HEADER || type === TAR_TYPES.PAX_GLOBAL ||
+    type === TAR_TYPES.GNU_LONG_NAME || type === TAR_TYPES.GNU_LONG_LINK;
+}
+
+function isFileType(type: string): boolean {
+  return type === TAR_TYPES.FILE || type === TAR_TYPES.OLD_FILE || type === TAR_TYPES.CONTIGUOUS;
+}
+
+function isRegularFile(header: TarHeader): boolean {
+  return isFileType(header.type) && !header.name.endsWith('/');
+}
@@ -0,0 +1,283 @@
+/**
+ * TAR Writer
+ * Ensambla archivos TAR (ustar con extensiones PAX para rutas largas o no ASCII)
+ * y, opcionalmente, los comprime con gzip mediante CompressionStream
+ */
+
+import { ZIP_HOST_SYSTEMS } from './zip-format';
+import {
+  TAR_BLOCK_SIZE,
+  TAR_END_OF_ARCHIVE_SIZE,
+  TAR_TYPES,
+  S_IFMT,
+  S_IFREG,
+  S_IFDIR,
+  S_IFLNK,
+  getTarPadding
+} from './tar-format';
+
+// Límites de los campos de la cabecera ustar
+const NAME_LENGTH = 100;
+const PREFIX_LENGTH = 155;
+const MAX_OCTAL_SIZE = 0o77777777777; // 11 dígitos octales: 8 GB - 1
+// Cabecera y trailer de gzip
+const GZIP_OVERHEAD = 18;
+// Atributos DOS de solo lectura y de directorio
+const DOS_READ_ONLY = 0x01;
+const DOS_DIRECTORY = 0x10;
+
+export interface TarWriterEntryOptions {
+  lastModified?: Date;
+  versionMadeBy?: number; // El byte alto indica cómo interpretar externalAttributes
+  externalAttributes?: number;
+}
+
+/**
+ * Campos de una entrada tal como se escriben en la cabecera
+ */
+interface TarRecord {
+  name: string;
+  mode: number;
+  size: number;
+  mtime: number; // Segundos desde 1970
+  type: string;
+  linkName: string;
+}
+
+const utf8Encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder('utf-8');
+
+/**
+ * Escritor de TAR que acumula las partes y genera un único Blob al final
+ */
+export class TarWriter {
+  private readonly parts: BlobPart[] = [];
+  private readonly gzip: boolean;
+  private offset = 0;
+
+  constructor(gzip = false) {
+    this.gzip = gzip;
+  }
+
+  /**
+   * Bytes que ocupa una entrada de dataSize bytes: cabeceras (PAX incluida) y relleno
+   */
+  public static estimateEntryOverhead(name: string, dataSize = 0): number {
+    const headers = encodeHeaders({ name, mode: S_IFREG, size: dataSize, mtime: 0, type: TAR_TYPES.FILE, linkName: '' });
+    return headers.byteLength + getTarPadding(dataSize);
+  }
+
+  /**
+   * Bytes del final del archivo y, comprimido, de la cabecera y el trailer de gzip
+   */
+  public static estimateArchiveOverhead(gzip = false): number {
+    return TAR_END_OF_ARCHIVE_SIZE + (gzip ? GZIP_OVERHEAD : 0);
+  }
+
+  /**
+   * Bytes escritos hasta ahora (sin comprimir y sin el final del archivo)
+   */
+  public get size(): number {
+    return this.offset;
+  }
+
+  /**
+   * Agrega una entrada; los permisos POSIX salen de los atributos externos del ZIP
+   * y en los enlaces simbólicos el contenido es el destino del enlace
+   */
+  public addEntry(name: string, data: Uint8Array | Blob, options: TarWriterEntryOptions = {}): void {
+    const mode = getEntryMode(name, options);
+    const type = (mode & S_IFMT) === S_IFDIR
+      ? TAR_TYPES.DIRECTORY
+      : (mode & S_IFMT) === S_IFLNK ? TAR_TYPES.SYMLINK : TAR_TYPES.FILE;
+    const dataSize = data instanceof Blob ? data.size : data.byteLength;
+
+    if (type === TAR_TYPES.SYMLINK && data instanceof Blob) {
+      throw new Error(`Symbolic link "${name}" must be added with its target in memory`);
+    }
+    const linkName = type === TAR_TYPES.SYMLINK ? utf8Decoder.decode(data as Uint8Array) : '';
+    const size = type === TAR_TYPES.FILE ? dataSize : 0;
+
+    const headers = encodeHeaders({
+      name: type === TAR_TYPES.DIRECTORY && !name.endsWith('/') ? `${name}/` : name,
+      mode,
+      size,
+      mtime: Math.max(0, Math.floor((options.lastModified ?? new Date()).getTime() / 1000)),
+      type,
+      linkName
+    });
+
+    this.parts.push(headers);
+    this.offset += headers.byteLength;
+
+    if (size > 0) {
+      this.parts.push(data as BlobPart);
+      this.parts.push(new Uint8Array(getTarPadding(size)));
+      this.offset += size + getTarPadding(size);
+    }
+  }
+
+  /**
+   * Genera el TAR final (comprimido con gzip si se pidió)
+   */
+  public async generate(): Promise<Blob> {
+    const tar = new Blob([...this.parts, new Uint8Array(TAR_END_OF_ARCHIVE_SIZE)], { type: 'application/x-tar' });
+    if (!this.gzip) {
+      return tar;
+    }
+
+    const compressed = await new Response(tar.stream().pipeThrough(new CompressionStream('gzip'))).blob();
+    return new Blob([compressed], { type: 'application/gzip' });
+  }
+}
+
+/**
+ * Modo st_mode de una entrada: el del origen si es UNIX; si no, permisos por defecto
+ * (sin escritura para las entradas DOS de solo lectura)
+ */
+function getEntryMode(name: string, options: TarWriterEntryOptions): number {
+  const externalAttributes = options.externalAttributes ?? 0;
+  const hostSystem = (options.versionMadeBy ?? 0) >> 8;
+  const unixMode = externalAttributes >>> 16;
+
+  if (hostSystem === ZIP_HOST_SYSTEMS.UNIX && (unixMode & S_IFMT) !== 0) {
+    return unixMode;
+  }
+  if (name.endsWith('/') || (externalAttributes & DOS_DIRECTORY) !== 0) {
+    return S_IFDIR | 0o755;
+  }
+  return S_IFREG | ((externalAttributes & DOS_READ_ONLY) !== 0 ? 0o444 : 0o644);
+}
+
+/**
+ * Cabecera ustar de la entrada, precedida de una cabecera PAX si algún campo no cabe
+ */
+function encodeHeaders(record: TarRecord): Uint8Array<ArrayBuffer> {
+  const pax: Record<string, string> = {};
+  const split = splitUstarName(record.name);
+  if (!split) {
+    pax.path = record.name;
+  }
+  if (!isUstarString(record.linkName, NAME_LENGTH)) {
+    pax.linkpath = record.linkName;
+  }
+  if (record.size > MAX_OCTAL_SIZE) {
+    pax.size = record.size.toString();
+  }
+
+  const header = encodeUstarHeader({
+    ...record,
+    name: split?.name ?? fallbackName(record.name),
+    linkName: pax.linkpath ? '' : record.linkName,
+    size: pax.size ? 0 : record.size
+  }, split?.prefix ?? '');
+
+  if (Object.keys(pax).length === 0) {
+    return header;
+  }
+
+  const records = encodePaxRecords(pax);
+  const paxHeader = encodeUstarHeader({
+    name: fallbackName(`PaxHeaders/${record.name.replace(/\/+$/, '').split('/').pop()}`),
+    mode: 0o644,
+    size: records.byteLength,
+    mtime: record.mtime,
+    type: TAR_TYPES.PAX_HEADER,
+    linkName: ''
+  }, '');
+
+  const output = new Uint8Array(
+    paxHeader.byteLength + records.byteLength + getTarPadding(records.byteLength) + header.byteLength
+  );
+  output.set(paxHeader, 0);
+  output.set(records, paxHeader.byteLength);
+  output.set(header, output.byteLength - header.byteLength);
+  return output;
+}
+
+/**
+ * Bloque de cabecera ustar con su checksum
+ */
+function encodeUstarHeader(record: TarRecord, prefix: string): Uint8Array<ArrayBuffer> {
+  const block = new Uint8Array(TAR_BLOCK_SIZE);
+
+  writeString(block, 0, NAME_LENGTH, record.name);
+  writeOctal(block, 100, 8, record.mode & 0o7777);
+  writeOctal(block, 108, 8, 0); // uid
+  writeOctal(block, 116, 8, 0); // gid
+  writeOctal(block, 124, 12, record.size);
+  writeOctal(block, 136, 12, Math.min(record.mtime, MAX_OCTAL_SIZE));
+  block[156] = record.type.charCodeAt(0);
+  writeString(block, 157, NAME_LENGTH, record.linkName);
+  writeString(block, 257, 6, 'ustar');
+  writeString(block, 263, 2, '00');
+  writeOctal(block, 329, 8, 0); // devmajor
+  writeOctal(block, 337, 8, 0); // devminor
+  writeString(block, 345, PREFIX_LENGTH, prefix);
+
+  // El checksum se calcula con su propio campo lleno de espacios
+  block.fill(0x20, 148, 156);
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  writeString(block, 148, 8, checksum.toString(8).padStart(6, '0') + '\0 ');
+
+  return block;
+}
+
+/**
+ * Registros PAX "<longitud> <clave>=<valor>\n", donde la longitud incluye sus propios dígitos
+ */
+function encodePaxRecords(records: Record<string, string>): Uint8Array<ArrayBuffer> {
+  const text = Object.entries(records).map(([key, value]) => {
+    const body = ` ${key}=${value}\n`;
+    const bodyLength = utf8Encoder.encode(body).byteLength;
+    let length = bodyLength + 1;
+    while (String(length).length + bodyLength !== length) {
+      length = String(length).length + bodyLength;
+    }
+    return `${length}${body}`;
+  }).join('');
+
+  return utf8Encoder.encode(text);
+}
+
+/**
+ * Reparte una ruta ASCII entre los campos prefix y name de ustar; null si no cabe
+ */
+function splitUstarName(name: string): { prefix: string; name: string } | null {
+  if (isUstarString(name, NAME_LENGTH)) {
+    return { prefix: '', name };
+  }
+  if (!isUstarString(name, PREFIX_LENGTH + 1 + NAME_LENGTH)) {
+    return null;
+  }
+
+  // El corte se hace en una '/' (sin contar la final de los directorios)
+  for (let i = name.lastIndexOf('/', name.length - 2); i > 0; i = name.lastIndexOf('/', i - 1)) {
+    if (i <= PREFIX_LENGTH && name.length - i - 1 <= NAME_LENGTH) {
+      return { prefix: name.slice(0, i), name: name.slice(i + 1) };
+    }
+    if (name.length - i - 1 > NAME_LENGTH) {
+      break;
+    }
+  }
+  return null;
+}
+
+/**
+ * Nombre ASCII truncado para los lectores sin soporte de PAX
+ */
+function fallbackName(name: string): string {
+  return name.replace(/[^\x20-\x7e]/g, '_').slice(0, NAME_LENGTH);
+}
+
+function isUstarString(value: string, maxLength: number): boolean {
+  return value.length <= maxLength && /^[\x20-\x7e]*$/.test(value);
+}
+
+function writeString(block: Uint8Array, offset: number, length: number, value: string): void {
+  block.set(utf8Encoder.encode(value).subarray(0, length), offset);
+}
+
+function writeOctal(block: Uint8Array, offset: number, length: number, value: number): void {
+  writeString(block, offset, length, value.toString(8).padStart(length - 1, '0'));
+}
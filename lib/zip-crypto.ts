@@ -0,0 +1,389 @@
+/**
+ * ZIP Crypto
+ * Descifrado de entradas protegidas con contraseña (ZipCrypto tradicional de
+ * PKWARE y WinZip AES AE-1/AE-2) y cifrado con WinZip AES-256
+ */
+
+import { AesCtrLittleEndian } from './aes';
+import { HmacSha1 } from './sha1';
+import {
+  ZIP_FLAG_ENCRYPTED,
+  ZIP_FLAG_STRONG_ENCRYPTION,
+  ZIP_FLAG_DATA_DESCRIPTOR,
+  WINZIP_AES_METHOD,
+  WINZIP_AES_EXTRA_FIELD_ID,
+  WRONG_PASSWORD,
+  ZipFormatError,
+  findExtraField,
+  crc32,
+  updateCrc32
+} from './zip-format';
+import type { ZipEntryInfo } from './zip-reader';
+
+export type ZipEntryEncryption =
+  | { method: 'zipcrypto' }
+  | { method: 'aes'; version: number; strength: number; compressionMethod: number }
+  | { method: 'unsupported' }; // Cifrado fuerte de PKWARE u otros formatos
+
+// Versión del formato WinZip AES: AE-2 no guarda el CRC (lo sustituye el código de autenticación)
+export const WINZIP_AES_VERSIONS = {
+  AE1: 1,
+  AE2: 2
+} as const;
+
+// Cabecera cifrada de ZipCrypto: 12 bytes, el último sirve para verificar la contraseña
+const ZIPCRYPTO_HEADER_SIZE = 12;
+
+// Longitudes de sal y clave según la fuerza de WinZip AES (1 = 128, 2 = 192, 3 = 256 bits)
+const AES_SALT_SIZES = [8, 12, 16];
+const AES_KEY_SIZES = [16, 24, 32];
+const AES_VERIFIER_SIZE = 2;
+const AES_AUTH_CODE_SIZE = 10;
+const AES_PBKDF2_ITERATIONS = 1000;
+
+// Datos del extra field de WinZip AES: versión, proveedor ('AE'), fuerza y método real
+const AES_VENDOR_ID = 0x4541;
+const AES_EXTRA_DATA_SIZE = 7;
+
+// Extra field completo de WinZip AES, incluidos id y longitud
+export const WINZIP_AES_EXTRA_FIELD_SIZE = 4 + AES_EXTRA_DATA_SIZE;
+
+const utf8Encoder = new TextEncoder();
+
+// Claves derivadas de la contraseña y la sal de una entrada WinZip AES
+type WinZipAesKeys = { encryptionKey: Uint8Array; authenticationKey: Uint8Array; verifier: Uint8Array };
+
+/**
+ * Identifica el cifrado de una entrada a partir de sus flags, método y extra fields
+ */
+export function readEntryEncryption(
+  flags: number,
+  compressionMethod: number,
+  extra: Uint8Array
+): ZipEntryEncryption | null {
+  if ((flags & ZIP_FLAG_ENCRYPTED) === 0) {
+    return null;
+  }
+
+  if ((flags & ZIP_FLAG_STRONG_ENCRYPTION) !== 0) {
+    return { method: 'unsupported' };
+  }
+
+  if (compressionMethod !== WINZIP_AES_METHOD) {
+    return { method: 'zipcrypto' };
+  }
+
+  const field = findExtraField(extra, WINZIP_AES_EXTRA_FIELD_ID);
+  if (!field || field.byteLength < AES_EXTRA_DATA_SIZE) {
+    return { method: 'unsupported' };
+  }
+
+  const view = new DataView(field.buffer, field.byteOffset, field.byteLength);
+  const strength = view.getUint8(4);
+  if (view.getUint16(2, true) !== AES_VENDOR_ID || strength < 1 || strength > AES_KEY_SIZES.length) {
+    return { method: 'unsupported' };
+  }
+
+  return {
+    method: 'aes',
+    version: view.getUint16(0, true),
+    strength,
+    compressionMethod: view.getUint16(5, true)
+  };
+}
+
+/**
+ * Construye el extra field de WinZip AES (id, longitud y datos)
+ */
+export function buildWinZipAesExtraField(
+  encryption: Extract<ZipEntryEncryption, { method: 'aes' }>
+): Uint8Array {
+  const field = new Uint8Array(WINZIP_AES_EXTRA_FIELD_SIZE);
+  const view = new DataView(field.buffer);
+  view.setUint16(0, WINZIP_AES_EXTRA_FIELD_ID, true);
+  view.setUint16(2, AES_EXTRA_DATA_SIZE, true);
+  view.setUint16(4, encryption.version, true);
+  view.setUint16(6, AES_VENDOR_ID, true);
+  view.setUint8(8, encryption.strength);
+  view.setUint16(9, encryption.compressionMethod, true);
+  return field;
+}
+
+/**
+ * Descifra los datos de una entrada tal como están en el archivo. El resultado
+ * sigue comprimido con el método real de la entrada.
+ */
+export async function decryptEntryData(
+  raw: Blob,
+  entry: ZipEntryInfo,
+  password: string
+): Promise<ReadableStream<Uint8Array<ArrayBuffer>>> {
+  const encryption = entry.encryption;
+
+  if (encryption?.method === 'zipcrypto') {
+    return decryptZipCrypto(raw, entry, password);
+  }
+
+  if (encryption?.method === 'aes') {
+    return decryptWinZipAes(raw, entry, encryption, password);
+  }
+
+  throw new Error(`Entry "${entry.name}" uses an unsupported encryption method`);
+}
+
+/**
+ * Indica si la entrada guarda el CRC32 de su contenido: AE-2 guarda 0 y su integridad
+ * la comprueba el código de autenticación
+ */
+export function hasStoredCrc32(entry: ZipEntryInfo): boolean {
+  return entry.encryption?.method !== 'aes' || entry.encryption.version === WINZIP_AES_VERSIONS.AE1;
+}
+
+/**
+ * Comprueba el contenido ya descifrado y descomprimido: un error de descompresión
+ * o un CRC distinto indican una contraseña incorrecta (o datos dañados)
+ */
+export function verifyDecryptedContent(
+  content: ReadableStream<Uint8Array>,
+  entry: ZipEntryInfo
+): ReadableStream<Uint8Array> {
+  const checkCrc = hasStoredCrc32(entry);
+  const reader = content.getReader();
+  let crc = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          if (checkCrc && crc !== entry.crc32) {
+            throw corruptedEntryError(entry.name);
+          }
+          controller.close();
+          return;
+        }
+
+        if (checkCrc) {
+          crc = crc32(value, crc);
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        controller.error(error instanceof ZipFormatError ? error : corruptedEntryError(entry.name));
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+}
+
+/**
+ * Descifra una entrada con ZipCrypto tradicional
+ */
+async function decryptZipCrypto(
+  raw: Blob,
+  entry: ZipEntryInfo,
+  password: string
+): Promise<ReadableStream<Uint8Array<ArrayBuffer>>> {
+  if (raw.size < ZIPCRYPTO_HEADER_SIZE) {
+    throw new Error(`Invalid encryption header in entry "${entry.name}"`);
+  }
+
+  const keys = new ZipCryptoKeys(utf8Encoder.encode(password));
+  const header = keys.decrypt(new Uint8Array(await raw.slice(0, ZIPCRYPTO_HEADER_SIZE).arrayBuffer()));
+
+  // Con data descriptor el CRC aún no se conocía: se verifica con el byte alto de la hora
+  const check = (entry.flags & ZIP_FLAG_DATA_DESCRIPTOR) !== 0
+    ? (entry.dosTime >>> 8) & 0xff
+    : entry.crc32 >>> 24;
+  if (header[ZIPCRYPTO_HEADER_SIZE - 1] !== check) {
+    throw wrongPasswordError(entry.name);
+  }
+
+  return raw.slice(ZIPCRYPTO_HEADER_SIZE).stream().pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array<ArrayBuffer>>({
+      transform(chunk, controller) {
+        controller.enqueue(keys.decrypt(chunk));
+      }
+    })
+  );
+}
+
+/**
+ * Descifra una entrada WinZip AES verificando su código de autenticación
+ */
+async function decryptWinZipAes(
+  raw: Blob,
+  entry: ZipEntryInfo,
+  encryption: Extract<ZipEntryEncryption, { method: 'aes' }>,
+  password: string
+): Promise<ReadableStream<Uint8Array<ArrayBuffer>>> {
+  const saltSize = AES_SALT_SIZES[encryption.strength - 1]!;
+  const keySize = AES_KEY_SIZES[encryption.strength - 1]!;
+  const headerSize = saltSize + AES_VERIFIER_SIZE;
+  const dataEnd = raw.size - AES_AUTH_CODE_SIZE;
+
+  if (dataEnd < headerSize) {
+    throw new Error(`Invalid encryption header in entry "${entry.name}"`);
+  }
+
+  const header = new Uint8Array(await raw.slice(0, headerSize).arrayBuffer());
+  const authCode = new Uint8Array(await raw.slice(dataEnd).arrayBuffer());
+  const keys = await deriveWinZipAesKeys(password, header.subarray(0, saltSize), keySize);
+
+  if (!equalBytes(keys.verifier, header.subarray(saltSize))) {
+    throw wrongPasswordError(entry.name);
+  }
+
+  const cipher = new AesCtrLittleEndian(keys.encryptionKey);
+  const hmac = new HmacSha1(keys.authenticationKey);
+
+  return raw.slice(headerSize, dataEnd).stream().pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array<ArrayBuffer>>({
+      transform(chunk, controller) {
+        // El código de autenticación se calcula sobre los datos cifrados
+        hmac.update(chunk);
+        controller.enqueue(cipher.process(chunk));
+      },
+      flush() {
+        if (!equalBytes(hmac.digest().subarray(0, AES_AUTH_CODE_SIZE), authCode)) {
+          throw corruptedEntryError(entry.name);
+        }
+      }
+    })
+  );
+}
+
+/**
+ * Deriva las claves de cifrado y autenticación y el verificador de la contraseña
+ */
+async function deriveWinZipAesKeys(
+  password: string,
+  salt: Uint8Array,
+  keySize: number
+): Promise<WinZipAesKeys> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    utf8Encoder.encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations: AES_PBKDF2_ITERATIONS, hash: 'SHA-1' },
+    baseKey,
+    (keySize * 2 + AES_VERIFIER_SIZE) * 8
+  ));
+
+  return {
+    encryptionKey: bits.subarray(0, keySize),
+    authenticationKey: bits.subarray(keySize, keySize * 2),
+    verifier: bits.subarray(keySize * 2)
+  };
+}
+
+/**
+ * Cifrador WinZip AES-256 (AE-2) de una entrada. Cada entrada necesita el suyo:
+ * la sal aleatoria evita reutilizar el keystream entre entradas.
+ */
+export class WinZipAesEncryptor {
+  // Bytes que el cifrado añade a los datos: sal, verificador y código de autenticación
+  public static readonly DATA_OVERHEAD = AES_SALT_SIZES[2]! + AES_VERIFIER_SIZE + AES_AUTH_CODE_SIZE;
+
+  private used = false;
+
+  private constructor(
+    private readonly salt: Uint8Array,
+    private readonly keys: WinZipAesKeys
+  ) {}
+
+  /**
+   * Deriva las claves de una entrada a partir de la contraseña y una sal nueva
+   */
+  public static async create(password: string): Promise<WinZipAesEncryptor> {
+    const salt = crypto.getRandomValues(new Uint8Array(AES_SALT_SIZES[2]!));
+    const keys = await deriveWinZipAesKeys(password, salt, AES_KEY_SIZES[2]!);
+    return new WinZipAesEncryptor(salt, keys);
+  }
+
+  /**
+   * Descripción del cifrado para el extra field, con el método real de compresión
+   */
+  public describe(compressionMethod: number): Extract<ZipEntryEncryption, { method: 'aes' }> {
+    return { method: 'aes', version: WINZIP_AES_VERSIONS.AE2, strength: 3, compressionMethod };
+  }
+
+  /**
+   * Cifra los datos ya comprimidos: sal + verificador + datos cifrados + autenticación
+   */
+  public encrypt(data: Uint8Array): Uint8Array<ArrayBuffer> {
+    if (this.used) {
+      throw new Error('A WinZip AES encryptor can only encrypt one entry');
+    }
+    this.used = true;
+
+    const encrypted = new AesCtrLittleEndian(this.keys.encryptionKey).process(data);
+    const authCode = new HmacSha1(this.keys.authenticationKey).update(encrypted).digest();
+    const output = new Uint8Array(data.byteLength + WinZipAesEncryptor.DATA_OVERHEAD);
+    let offset = 0;
+
+    for (const chunk of [this.salt, this.keys.verifier, encrypted, authCode.subarray(0, AES_AUTH_CODE_SIZE)]) {
+      output.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+
+    return output;
+  }
+}
+
+/**
+ * Estado de las tres claves de ZipCrypto
+ */
+class ZipCryptoKeys {
+  private key0 = 0x12345678;
+  private key1 = 0x23456789;
+  private key2 = 0x34567890;
+
+  constructor(password: Uint8Array) {
+    password.forEach(byte => this.update(byte));
+  }
+
+  /**
+   * Descifra un bloque avanzando las claves con cada byte en claro
+   */
+  public decrypt(data: Uint8Array): Uint8Array<ArrayBuffer> {
+    const output = new Uint8Array(data.byteLength);
+
+    for (let i = 0; i < data.byteLength; i++) {
+      const byte = data[i]! ^ this.streamByte();
+      this.update(byte);
+      output[i] = byte;
+    }
+
+    return output;
+  }
+
+  private streamByte(): number {
+    const temp = (this.key2 | 2) & 0xffff;
+    return ((temp * (temp ^ 1)) >>> 8) & 0xff;
+  }
+
+  private update(byte: number): void {
+    this.key0 = updateCrc32(this.key0, byte);
+    this.key1 = (Math.imul((this.key1 + (this.key0 & 0xff)) >>> 0, 134775813) + 1) >>> 0;
+    this.key2 = updateCrc32(this.key2, this.key1 >>> 24);
+  }
+}
+
+function wrongPasswordError(name: string): ZipFormatError {
+  return new ZipFormatError(`Wrong password for encrypted entry "${name}"`, WRONG_PASSWORD);
+}
+
+function corruptedEntryError(name: string): ZipFormatError {
+  return new ZipFormatError(`Wrong password or corrupted data in encrypted entry "${name}"`, WRONG_PASSWORD);
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.byteLength === b.byteLength && a.every((byte, i) => byte === b[i]);
+}
@@ -0,0 +1,218 @@
+/**
+ * ZIP Format
+ * Constantes y utilidades compartidas del formato ZIP (PKWARE APPNOTE)
+ */
+
+// Firmas de los registros ZIP
+export const ZIP_SIGNATURES = {
+  LOCAL_FILE_HEADER: 0x04034b50,
+  CENTRAL_DIRECTORY_HEADER: 0x02014b50,
+  END_OF_CENTRAL_DIRECTORY: 0x06054b50,
+  ZIP64_END_OF_CENTRAL_DIRECTORY: 0x06064b50,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR: 0x07064b50
+} as const;
+
+// Tamaños fijos de los registros (sin campos variables)
+export const ZIP_RECORD_SIZES = {
+  LOCAL_FILE_HEADER: 30,
+  CENTRAL_DIRECTORY_HEADER: 46,
+  END_OF_CENTRAL_DIRECTORY: 22,
+  ZIP64_END_OF_CENTRAL_DIRECTORY: 56,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR: 20
+} as const;
+
+// Valores máximos de los campos clásicos; al alcanzarlos el valor real va en los registros ZIP64
+export const ZIP64_LIMITS = {
+  SIZE: 0xffffffff,
+  ENTRIES: 0xffff,
+  DISK: 0xffff
+} as const;
+
+// Extra field ZIP64 (tamaños, desplazamiento y disco de 64 bits)
+export const ZIP64_EXTRA_FIELD_ID = 0x0001;
+
+// Versión 4.5 del formato, necesaria para leer extensiones ZIP64
+export const ZIP_VERSION_ZIP64 = 45;
+
+// Código de error para archivos que requieren ZIP64 y no pueden procesarse
+export const ZIP64_UNSUPPORTED = 'ZIP64_UNSUPPORTED';
+
+// Código de error para contraseñas que no descifran las entradas
+export const WRONG_PASSWORD = 'WRONG_PASSWORD';
+
+// Métodos de compresión soportados
+export const ZIP_COMPRESSION_METHODS = {
+  STORE: 0,
+  DEFLATE: 8
+} as const;
+
+// Bit 0 del general purpose flag: entrada cifrada
+export const ZIP_FLAG_ENCRYPTED = 0x0001;
+
+// Bit 6 del general purpose flag: cifrado fuerte de PKWARE (no soportado)
+export const ZIP_FLAG_STRONG_ENCRYPTION = 0x0040;
+
+// Método y extra field de WinZip AES; el método real de compresión va en el extra field
+export const WINZIP_AES_METHOD = 99;
+export const WINZIP_AES_EXTRA_FIELD_ID = 0x9901;
+
+// Bit 11 del general purpose flag: nombre y comentario en UTF-8
+export const ZIP_FLAG_UTF8 = 0x0800;
+
+// Bit 3 del general purpose flag: tamaños y CRC en un data descriptor posterior
+export const ZIP_FLAG_DATA_DESCRIPTOR = 0x0008;
+
+// Sistema de origen (byte alto de "version made by"): define el significado de los atributos externos
+export const ZIP_HOST_SYSTEMS = {
+  DOS: 0,
+  UNIX: 3
+} as const;
+
+// Versión 2.0 del formato (DEFLATE y directorios)
+export const ZIP_VERSION_DEFAULT = 20;
+
+// Versión 5.1 del formato, la que declara WinZip AES
+export const ZIP_VERSION_AES = 51;
+
+// Longitud máxima del comentario del archivo (limita la búsqueda del EOCD)
+export const ZIP_MAX_COMMENT_LENGTH = 0xffff;
+
+// Code page 437 para los bytes 0x80-0xFF (nombres sin el flag UTF-8)
+const CP437_HIGH =
+  'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+  '└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■ ';
+
+/**
+ * Error de formato ZIP con código para la interfaz
+ */
+export class ZipFormatError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+/**
+ * Busca un extra field por su id y devuelve sus datos (sin id ni longitud)
+ */
+export function findExtraField(extra: Uint8Array, id: number): Uint8Array | null {
+  const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength);
+  let offset = 0;
+
+  while (offset + 4 <= extra.byteLength) {
+    const fieldId = view.getUint16(offset, true);
+    const size = view.getUint16(offset + 2, true);
+    const end = offset + 4 + size;
+
+    if (end > extra.byteLength) {
+      break;
+    }
+    if (fieldId === id) {
+      return extra.subarray(offset + 4, end);
+    }
+
+    offset = end;
+  }
+
+  return null;
+}
+
+/**
+ * Lee un entero de 64 bits little-endian, que debe ser representable exactamente
+ */
+export function getUint64(view: DataView, offset: number): number {
+  const value = view.getBigUint64(offset, true);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new ZipFormatError('ZIP64 value exceeds the supported range', ZIP64_UNSUPPORTED);
+  }
+  return Number(value);
+}
+
+/**
+ * Escribe un entero de 64 bits little-endian
+ */
+export function setUint64(view: DataView, offset: number, value: number): void {
+  view.setBigUint64(offset, BigInt(value), true);
+}
+
+const utf8Decoder = new TextDecoder('utf-8');
+const strictUtf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Decodifica un nombre o comentario según el flag UTF-8 de la entrada
+ */
+export function decodeZipString(bytes: Uint8Array, utf8: boolean): string {
+  if (utf8) {
+    return utf8Decoder.decode(bytes);
+  }
+
+  // Muchas herramientas escriben UTF-8 sin marcar el flag
+  try {
+    return strictUtf8Decoder.decode(bytes);
+  } catch {
+    // No es UTF-8 válido: usar CP437
+  }
+
+  let result = '';
+  for (const byte of bytes) {
+    result += byte < 0x80 ? String.fromCharCode(byte) : CP437_HIGH.charAt(byte - 0x80);
+  }
+  return result;
+}
+
+/**
+ * Convierte fecha y hora MS-DOS a Date (hora local)
+ */
+export function dosDateTimeToDate(dosDate: number, dosTime: number): Date {
+  const year = ((dosDate >> 9) & 0x7f) + 1980;
+  const month = ((dosDate >> 5) & 0x0f) - 1;
+  const day = dosDate & 0x1f;
+  const hours = (dosTime >> 11) & 0x1f;
+  const minutes = (dosTime >> 5) & 0x3f;
+  const seconds = (dosTime & 0x1f) * 2;
+
+  return new Date(year, month, day, hours, minutes, seconds);
+}
+
+/**
+ * Convierte un Date (hora local) a fecha y hora MS-DOS
+ */
+export function dateToDosDateTime(date: Date): { dosDate: number; dosTime: number } {
+  const year = Math.max(1980, Math.min(2107, date.getFullYear()));
+
+  return {
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2)
+  };
+}
+
+// Tabla CRC-32 (polinomio 0xEDB88320), generada una sola vez
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Avanza un CRC-32 un byte, sin las inversiones inicial y final (claves de ZipCrypto)
+ */
+export function updateCrc32(crc: number, byte: number): number {
+  return (CRC32_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8)) >>> 0;
+}
+
+/**
+ * Calcula el CRC-32 de un bloque; acepta el CRC previo para cálculo incremental
+ */
+export function crc32(data: Uint8Array, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -3,8 +3,41 @@
  * Sistema de procesamiento de archivos ZIP con estrategia CLIENT_SIDE
  */
 
-import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
+import {
+  ZipReader,
+  canReadEntryData,
+  getDataCompressionMethod,
+  type ZipArchiveInfo,
+  type ZipEntryInfo
+} from './zip-reader';
+import { ARCHIVE_FILE_TYPES, createArchiveReader, type ArchiveReader } from './archive-reader';
+import { FileCollection, type InputSource } from './file-collection';
+import { ZipWriter } from './zip-writer';
+import { TarWriter } from './tar-writer';
+import { TarReader } from './tar-reader';
+import { WINZIP_AES_EXTRA_FIELD_SIZE, WinZipAesEncryptor, hasStoredCrc32 } from './zip-crypto';
+import {
+  ZIP_COMPRESSION_METHODS,
+  ZIP64_UNSUPPORTED,
+  WRONG_PASSWORD,
+  ZipFormatError,
+  crc32
+} from './zip-format';
+import {
+  ENVELOPE_EXTENSION,
+  estimateEnvelopeOverhead,
+  importRecipients,
+  sealBlob
+} from './envelope-crypto';
+import { getPartName, planEntryRanges, readEntryRanges, type EntryRange } from './entry-chunks';
+import { FileSplitter, type SplittingOptions } from './file-splitter';
+import { EntryFilter } from './entry-filter';
+import { findDuplicateEntries, type DuplicateGroup } from './entry-dedup';
+import { CompressionPolicy, getCompressionRuleError } from './compression-policy';
+import { Sha256, sha256Hex } from './sha256';
+import { MANIFEST_FILE_NAME, MANIFEST_VERSION, createManifestBlob } from './manifest';
+import { getSigningKey, signManifest } from './manifest-signing';
 import type {
   ProcessingOptions,
   ProcessingResult,
@@ -12,12 +45,20 @@ import type {
   ProcessingManifest,
   ProcessingError,
   ProcessingMetrics,
-  FileAnalysis
+  FileAnalysis,
+  RecipientKey,
+  ManifestEntryLocation,
+  ManifestChunkedEntry,
+  ManifestEntryPart,
+  ManifestExcludedEntry,
+  FragmentSizeReport
 } from '@/types/processing';
 
 // Configuración del procesador
 const CHUNK_SIZE = 64 * 1024; // 64KB chunks para lectura progresiva
-const MAX_MEMORY_USAGE = 500 * 1024 * 1024; // 500MB límite de memoria
+const MAX_MEMORY_USAGE = 500 * 1024 * 1024; // 500MB límite de memoria por fragmento en construcción
+const MIN_VOLUME_SIZE = 64 * 1024; // 64KB, mínimo habitual para volúmenes de ZIP dividido
+const MAX_ENTRY_BUFFER_SIZE = 128 * 1024 * 1024; // 128MB descomprimidos por entrada o parte que se recomprime
 const COMPRESSION_LEVELS = {
   0: 'No compression',
   1: 'Fast compression',
@@ -25,6 +66,40 @@ const COMPRESSION_LEVELS = {
   9: 'Maximum compression'
 } as const;
 
+/**
+ * Fragmentos generados junto con la ubicación de cada entrada
+ */
+interface FragmentBuildResult {
+  fragments: ProcessedFragment[];
+  entries: ManifestEntryLocation[];
+  chunkedEntries?: ManifestChunkedEntry[];
+  repackedFragmentIds?: string[];
+  excludedEntries?: ManifestExcludedEntry[];
+  sourceChecksum?: string; // SHA-256 del archivo de entrada, calculado al leerlo ('' en una carpeta)
+}
+
+/**
+ * CRC32 y SHA-256 del contenido descomprimido de una entrada
+ */
+interface EntryDigest {
+  crc32: number;
+  sha256: string;
+}
+
+/**
+ * Escritor del formato de salida elegido
+ */
+type FragmentWriter = ZipWriter | TarWriter;
+
+/**
+ * Fragmento construido junto con las entradas que contiene
+ */
+interface PackedFragment {
+  fragment: ProcessedFragment;
+  entries: ZipEntryInfo[];
+  repacked: boolean;
+}
+
 /**
  * Clase principal para procesamiento de archivos ZIP
  */
@@ -32,6 +107,9 @@ export class ZipProcessor {
   private progressCallback?: (progress: number, message: string) => void;
   private metrics: ProcessingMetrics;
   private abortController: AbortController;
+  private archiveComment = ''; // Comentario del ZIP original, se repite en cada fragmento
+  private entryDigests = new Map<ZipEntryInfo, EntryDigest>(); // Hashes del índice del manifest
+  private compressionPolicy = new CompressionPolicy(); // Nivel de compresión de cada entrada recomprimida
 
   constructor() {
     this.metrics = this.initializeMetrics();
@@ -49,34 +127,55 @@ export class ZipProcessor {
    * Procesa un archivo ZIP según las opciones especificadas
    */
   public async processFile(
-    file: File, 
+    file: InputSource, 
     options: ProcessingOptions
   ): Promise<ProcessingResult> {
+    this.metrics = this.initializeMetrics();
     this.metrics.startTime = performance.now();
+    this.abortController = new AbortController();
+    this.archiveComment = '';
+    this.entryDigests = new Map();
     this.reportProgress(0, 'Initializing ZIP processor...');
 
     try {
       // Validar opciones
       this.validateProcessingOptions(options);
-      
-      // Validar disponibilidad de memoria
-      await this.checkMemoryAvailability(file.size);
+      this.compressionPolicy = new CompressionPolicy(options.compressionRules, options.compressionLevel);
+      if (options.signManifest && !(await getSigningKey())) {
+        throw new Error('No signing key in this browser: generate one in Advanced Settings');
+      }
 
-      // Leer y parsear el archivo ZIP
-      this.reportProgress(10, 'Reading ZIP file...');
-      const zipData = await this.readZipFile(file);
+      // El sobre de los destinatarios ocupa parte de cada fragmento
+      const buildOptions = options.recipients
+        ? {
+          ...options,
+          fragmentSize: options.fragmentSize - estimateEnvelopeOverhead(options.fragmentSize, options.recipients)
+        }
+        : options;
 
-      // Analizar contenido del ZIP
-      this.reportProgress(25, 'Analyzing ZIP contents...');
-      const zipAnalysis = await this.analyzeZipContents(zipData);
+      // En modo raw el archivo no se interpreta: se corta en rangos de bytes
+      const build = options.splitMode === 'raw'
+        ? await this.createByteRangeParts(file, buildOptions)
+        : await this.createArchiveFragments(file, buildOptions);
 
-      // Crear fragmentos según la estrategia
-      this.reportProgress(40, 'Creating file fragments...');
-      const fragments = await this.createFragments(zipData, options, zipAnalysis);
+      // Cifrar cada fragmento para los destinatarios
+      if (options.recipients) {
+        build.fragments = await this.sealFragments(build.fragments, options.recipients);
+      }
+      const { fragments } = build;
+
+      // Los volúmenes y los fragmentos reempaquetados no pasan por el plan de FileSplitter
+      if (options.maxFragments && fragments.length > options.maxFragments) {
+        throw new Error(`Created ${fragments.length} fragments, more than the maximum of ${options.maxFragments}`);
+      }
+
+      // El SHA-256 del archivo de entrada se calcula mientras se lee
+      const sourceChecksum = build.sourceChecksum ?? '';
 
       // Generar manifest
       this.reportProgress(80, 'Generating manifest...');
-      const manifest = this.generateManifest(file, fragments, options);
+      const unsigned = this.generateManifest(file, build, sourceChecksum, options);
+      const manifest = options.signManifest ? await signManifest(unsigned) : unsigned;
 
       // Finalizar métricas
       this.metrics.endTime = performance.now();
@@ -89,7 +188,8 @@ export class ZipProcessor {
         success: true,
         fragments,
         manifest,
-        metrics: this.metrics
+        metrics: this.metrics,
+        sizeReport: this.createSizeReport(build, options)
       };
 
     } catch (error) {
@@ -98,70 +198,302 @@ export class ZipProcessor {
   }
 
   /**
-   * Lee y parsea el archivo ZIP
+   * Lee el archivo de entrada y crea los fragmentos según el modo de salida
+   */
+  private async createArchiveFragments(file: InputSource, options: ProcessingOptions): Promise<FragmentBuildResult> {
+    // Leer solo el directorio central del ZIP (o el índice del TAR, o la lista de archivos de una carpeta)
+    this.reportProgress(10, 'Reading archive directory...');
+    const reader = createArchiveReader(file, options.password);
+    const filtered = this.filterEntries(await this.readZipFile(reader), options);
+    let archive = filtered.archive;
+    this.archiveComment = archive.comment;
+
+    // Comprobar la contraseña antes de generar fragmentos
+    if (options.password) {
+      this.reportProgress(20, 'Verifying password...');
+      await this.verifyPassword(reader, archive);
+    }
+
+    // Los fragmentos TAR necesitan el contenido descomprimido de todas las entradas
+    this.checkTarCompatibility(archive, options);
+
+    // Las copias de un mismo contenido no se escriben: solo se registran en el índice
+    let duplicateGroups: DuplicateGroup<ZipEntryInfo>[] = [];
+    if (options.deduplicate) {
+      this.reportProgress(22, 'Finding duplicate entries...');
+      duplicateGroups = await findDuplicateEntries(
+        reader,
+        archive.entries,
+        this.shouldDecrypt(options),
+        this.abortController.signal,
+        { ...options.knownHashes }
+      );
+      const duplicates = new Set(duplicateGroups.flatMap(group => group.duplicates));
+      archive = { ...archive, entries: archive.entries.filter(entry => !duplicates.has(entry)) };
+    }
+
+    // Analizar contenido del ZIP
+    this.reportProgress(25, 'Analyzing ZIP contents...');
+    const zipAnalysis = this.analyzeZipContents(archive);
+
+    // Validar disponibilidad de memoria: las entradas que se dividen en partes nunca se
+    // cargan completas, pero el ZIP dividido guarda todo lo que escribe hasta generar los volúmenes
+    // y un TAR.GZ se mantiene descomprimido
+    const inputInMemory = reader instanceof TarReader ? reader.bytesInMemory : 0;
+    if (options.splitMode === 'spanned') {
+      await this.checkMemoryAvailability(
+        zipAnalysis.largestFile,
+        this.estimateSpannedOutputInMemory(archive, options),
+        inputInMemory
+      );
+    } else {
+      await this.checkMemoryAvailability(
+        Math.min(zipAnalysis.largestFile, this.getMaxEntryBufferSize(options)),
+        options.fragmentSize,
+        inputInMemory
+      );
+    }
+
+    // El SHA-256 del ZIP se calcula con los datos que se leen al crear los fragmentos
+    // (el TAR ya lo calculó al indexarse)
+    if (reader instanceof ZipReader) {
+      reader.trackChecksum();
+    }
+
+    // Crear fragmentos según el modo de salida
+    this.reportProgress(40, 'Creating file fragments...');
+    const build = options.splitMode === 'spanned'
+      ? await this.createSpannedVolumes(reader, archive, options)
+      : await this.createFragments(reader, archive, options);
+    build.entries.push(...this.locateDuplicates(duplicateGroups, build.entries));
+
+    // Solo se lee lo que no pasó por el lector (p. ej. datos copiados sin recomprimir); una
+    // carpeta no tiene un archivo único y sus entradas ya llevan su propio hash en el índice
+    if (reader instanceof ZipReader || reader instanceof TarReader) {
+      this.reportProgress(78, 'Computing checksum of the original file...');
+      build.sourceChecksum = await reader.getChecksum();
+    } else {
+      build.sourceChecksum = '';
+    }
+
+    return filtered.excludedEntries.length > 0 ? { ...build, excludedEntries: filtered.excludedEntries } : build;
+  }
+
+  /**
+   * Entradas del índice de las copias: apuntan a los fragmentos de la entrada original,
+   * cuyo contenido comparten
+   */
+  private locateDuplicates(
+    groups: DuplicateGroup<ZipEntryInfo>[],
+    locations: ManifestEntryLocation[]
+  ): ManifestEntryLocation[] {
+    const byPath = new Map(locations.map(location => [location.path, location]));
+
+    return groups.flatMap(group => {
+      const original = byPath.get(group.original.name);
+      if (!original) {
+        throw new Error(`"${group.original.name}" is missing from the entry index`);
+      }
+
+      return group.duplicates.map(entry => {
+        // El CRC32 real es el del original (las entradas AES AE-2 guardan 0)
+        this.entryDigests.set(entry, { crc32: original.crc32 ?? entry.crc32, sha256: group.sha256 });
+        return {
+          ...this.describeEntry(entry),
+          fragmentId: original.fragmentId,
+          ...(original.lastFragmentId && { lastFragmentId: original.lastFragmentId }),
+          ...(original.ranges && { ranges: original.ranges }),
+          duplicateOf: original.path
+        };
+      });
+    });
+  }
+
+  /**
+   * Aplica los patrones de inclusión y exclusión antes de analizar el archivo, de modo
+   * que las entradas descartadas nunca se leen
+   */
+  private filterEntries(
+    archive: ZipArchiveInfo,
+    options: ProcessingOptions
+  ): { archive: ZipArchiveInfo; excludedEntries: ManifestExcludedEntry[] } {
+    const filter = new EntryFilter(options.includePatterns, options.excludePatterns);
+    if (filter.isEmpty) {
+      return { archive, excludedEntries: [] };
+    }
+
+    const { kept, excluded } = filter.apply(archive.entries);
+    if (!kept.some(entry => !entry.dir)) {
+      throw new Error('The include/exclude filters leave no files to split');
+    }
+
+    return { archive: { ...archive, entries: kept }, excludedEntries: excluded };
+  }
+
+  /**
+   * Modo raw: corta cualquier archivo en partes de bytes consecutivas (nombre.001,
+   * nombre.002, ...) con el hash de cada una para poder reconstruirlo
+   */
+  private async createByteRangeParts(file: InputSource, options: ProcessingOptions): Promise<FragmentBuildResult> {
+    if (file instanceof FileCollection) {
+      throw new Error('Raw mode splits a single file; select one file instead of a folder');
+    }
+    if (file.size === 0) {
+      throw new Error('Cannot split an empty file');
+    }
+    await this.checkMemoryAvailability(0, options.fragmentSize);
+
+    const ranges = planEntryRanges(file.size, options.fragmentSize);
+    const fragments: ProcessedFragment[] = [];
+    const parts: ManifestEntryPart[] = [];
+    const wholeHash = new Sha256();
+    let fileCrc = 0;
+
+    this.reportProgress(40, 'Splitting file into parts...');
+    for (const range of ranges) {
+      this.throwIfAborted();
+
+      // Cada parte es una vista del archivo original; solo se lee para calcular los hashes
+      const blob = file.slice(range.offset, range.offset + range.length, 'application/octet-stream');
+      const data = new Uint8Array(await blob.arrayBuffer());
+      wholeHash.update(data);
+      fileCrc = crc32(data, fileCrc);
+
+      const id = `fragment_${fragments.length.toString().padStart(3, '0')}`;
+      const name = getPartName(file.name, range.part, range.totalParts);
+      const checksum = await sha256Hex(data);
+
+      fragments.push({ id, name, size: range.length, blob, checksum });
+      parts.push({ name, fragmentId: id, offset: range.offset, length: range.length, sha256: checksum });
+
+      this.reportProgress(
+        40 + Math.round((range.part / range.totalParts) * 40),
+        `Created part ${range.part} of ${range.totalParts}`
+      );
+    }
+
+    const sha256 = wholeHash.digestHex();
+    return {
+      fragments,
+      entries: [],
+      chunkedEntries: [{
+        path: file.name,
+        size: file.size,
+        crc32: fileCrc,
+        sha256,
+        parts
+      }],
+      sourceChecksum: sha256
+    };
+  }
+
+  /**
+   * Cifra cada fragmento para los destinatarios; el checksum pasa a ser el del archivo cifrado
    */
-  private async readZipFile(file: File): Promise<JSZip> {
+  private async sealFragments(
+    fragments: ProcessedFragment[],
+    recipients: RecipientKey[]
+  ): Promise<ProcessedFragment[]> {
+    const keys = await importRecipients(recipients);
+    const sealed: ProcessedFragment[] = [];
+
+    for (const fragment of fragments) {
+      this.throwIfAborted();
+
+      const blob = await sealBlob(fragment.blob!, keys);
+      sealed.push({
+        ...fragment,
+        name: fragment.name + ENVELOPE_EXTENSION,
+        size: blob.size,
+        blob,
+        checksum: await sha256Hex(blob)
+      });
+
+      this.reportProgress(
+        80,
+        `Encrypted ${sealed.length} of ${fragments.length} fragments for recipients`
+      );
+    }
+
+    return sealed;
+  }
+
+  /**
+   * Lee el directorio central del archivo ZIP o el índice del TAR
+   */
+  private async readZipFile(reader: ArchiveReader): Promise<ZipArchiveInfo> {
     try {
-      const zip = new JSZip();
-      const arrayBuffer = await this.readFileProgressively(file);
-      return await zip.loadAsync(arrayBuffer);
+      return await reader.readCentralDirectory();
     } catch (error) {
-      throw new Error(`Failed to read ZIP file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // Los errores de formato conservan su código para la interfaz
+      if (error instanceof ZipFormatError) {
+        throw error;
+      }
+      throw new Error(`Failed to read archive: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Lee archivo de forma progresiva para mostrar progreso
+   * Descifra por completo la entrada cifrada más pequeña para validar la contraseña
    */
-  private async readFileProgressively(file: File): Promise<ArrayBuffer> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = () => {
-        if (reader.result instanceof ArrayBuffer) {
-          resolve(reader.result);
-        } else {
-          reject(new Error('Failed to read file as ArrayBuffer'));
-        }
-      };
-      
-      reader.onerror = () => reject(new Error('FileReader error'));
-      reader.onabort = () => reject(new Error('FileReader aborted'));
-      
-      // Para archivos grandes, se podría implementar lectura por chunks
-      reader.readAsArrayBuffer(file);
-    });
+  private async verifyPassword(reader: ArchiveReader, archive: ZipArchiveInfo): Promise<void> {
+    const encrypted = archive.entries.filter(entry =>
+      entry.encryption !== null && !entry.dir && canReadEntryData(entry, true)
+    );
+
+    if (encrypted.length === 0) {
+      return;
+    }
+
+    const smallest = encrypted.reduce((a, b) => (b.compressedSize < a.compressedSize ? b : a));
+    await reader.readEntryData(smallest);
+  }
+
+  /**
+   * Comprueba que todas las entradas pueden escribirse en un fragmento TAR,
+   * donde los datos se guardan siempre sin comprimir ni cifrar
+   */
+  private checkTarCompatibility(archive: ZipArchiveInfo, options: ProcessingOptions): void {
+    if (!this.isTarOutput(options)) {
+      return;
+    }
+
+    const decrypt = this.shouldDecrypt(options);
+    const unreadable = archive.entries.find(entry => !entry.dir && !canReadEntryData(entry, decrypt));
+    if (unreadable) {
+      throw new Error(
+        `"${unreadable.name}" is encrypted or uses an unsupported compression method and cannot be written to a TAR fragment`
+      );
+    }
   }
 
   /**
    * Analiza el contenido del ZIP
    */
-  private async analyzeZipContents(zip: JSZip): Promise<{
+  private analyzeZipContents(archive: ZipArchiveInfo): {
     totalEntries: number;
     totalUncompressedSize: number;
     largestFile: number;
     fileTypes: Record<string, number>;
-  }> {
+  } {
     let totalUncompressedSize = 0;
     let largestFile = 0;
     const fileTypes: Record<string, number> = {};
     
-    const entries = Object.values(zip.files);
+    const entries = archive.entries.filter(e => !e.dir);
     
     for (const entry of entries) {
-      if (!entry.dir) {
-        const size = entry._data?.uncompressedSize || 0;
-        totalUncompressedSize += size;
-        largestFile = Math.max(largestFile, size);
-        
-        // Contar tipos de archivo
-        const extension = entry.name.split('.').pop()?.toLowerCase() || 'unknown';
-        fileTypes[extension] = (fileTypes[extension] || 0) + 1;
-      }
+      const size = entry.uncompressedSize;
+      totalUncompressedSize += size;
+      largestFile = Math.max(largestFile, size);
+      
+      // Contar tipos de archivo
+      const extension = entry.name.split('.').pop()?.toLowerCase() || 'unknown';
+      fileTypes[extension] = (fileTypes[extension] || 0) + 1;
     }
 
     return {
-      totalEntries: entries.filter(e => !e.dir).length,
+      totalEntries: entries.length,
       totalUncompressedSize,
       largestFile,
       fileTypes
@@ -169,93 +501,494 @@ export class ZipProcessor {
   }
 
   /**
-   * Crea fragmentos del archivo según las opciones
+   * Crea fragmentos del archivo según el plan de FileSplitter
    */
   private async createFragments(
-    zip: JSZip,
-    options: ProcessingOptions,
-    analysis: any
-  ): Promise<ProcessedFragment[]> {
+    reader: ArchiveReader,
+    archive: ZipArchiveInfo,
+    options: ProcessingOptions
+  ): Promise<FragmentBuildResult> {
     const fragments: ProcessedFragment[] = [];
-    const entries = Object.values(zip.files).filter(entry => !entry.dir);
-    
-    let currentFragmentSize = 0;
-    let currentFragmentEntries: typeof entries = [];
-    let fragmentIndex = 0;
+    const locations: ManifestEntryLocation[] = [];
+    const chunkedEntries: ManifestChunkedEntry[] = [];
+    const repackedFragmentIds: string[] = [];
 
-    for (let i = 0; i < entries.length; i++) {
-      const entry = entries[i];
-      const entrySize = entry._data?.uncompressedSize || 0;
-      
-      // Si agregar esta entrada excede el tamaño del fragmento, crear fragmento actual
-      if (currentFragmentSize + entrySize > options.fragmentSize && currentFragmentEntries.length > 0) {
-        const fragment = await this.createFragmentFromEntries(
-          currentFragmentEntries,
-          fragmentIndex,
-          options
-        );
-        fragments.push(fragment);
-        
-        // Reiniciar para el próximo fragmento
-        currentFragmentEntries = [entry];
-        currentFragmentSize = entrySize;
-        fragmentIndex++;
-        
-        this.reportProgress(
-          40 + Math.round((i / entries.length) * 40),
-          `Creating fragment ${fragmentIndex + 1}...`
-        );
+    const splitter = new FileSplitter(this.getSplittingOptions(options));
+    const plans = await splitter.createSplittingPlan(archive);
+
+    for (let i = 0; i < plans.length; i++) {
+      this.throwIfAborted();
+
+      const plan = plans[i]!;
+      const range = plan.entries[0]?.range;
+
+      if (range) {
+        // Partes de una entrada grande: planes consecutivos, uno por rango de bytes
+        const entry = plan.entries[0]!.zipEntry;
+        const partPlans = plans.slice(i, i + range.totalParts);
+        const ranges = partPlans.map(partPlan => partPlan.entries[0]!.range!);
+        // Entradas que el plan coloca en el hueco de la última parte
+        const fillers = partPlans[partPlans.length - 1]!.entries.slice(1).map(fileEntry => fileEntry.zipEntry);
+
+        const chunked = await this.createChunkedEntryFragments(reader, entry, ranges, fragments.length, options, fillers);
+        fragments.push(...chunked.fragments);
+        chunkedEntries.push(chunked.manifest);
+
+        const firstPart = chunked.manifest.parts[0];
+        const lastPart = chunked.manifest.parts[chunked.manifest.parts.length - 1];
+        if (firstPart && lastPart) {
+          locations.push({
+            ...this.describeEntry(entry),
+            fragmentId: firstPart.fragmentId,
+            lastFragmentId: lastPart.fragmentId,
+            ranges: chunked.manifest.parts.map(({ fragmentId, offset, length }) => ({ fragmentId, offset, length }))
+          });
+        }
+
+        if (chunked.fillersAdded && lastPart) {
+          locations.push(...this.locateEntries(fillers, lastPart.fragmentId));
+        } else if (fillers.length > 0) {
+          // No cupieron junto a la última parte: van en sus propios fragmentos
+          for (const { fragment, entries: fragmentEntries, repacked } of
+            await this.createVerifiedFragments(reader, fillers, fragments.length, options)) {
+            fragments.push(fragment);
+            locations.push(...this.locateEntries(fragmentEntries, fragment.id));
+            if (repacked) {
+              repackedFragmentIds.push(fragment.id);
+            }
+          }
+        }
+
+        i += ranges.length - 1;
       } else {
-        currentFragmentEntries.push(entry);
-        currentFragmentSize += entrySize;
+        const entries = plan.entries.map(fileEntry => fileEntry.zipEntry);
+        const packed = await this.createVerifiedFragments(reader, entries, fragments.length, options);
+
+        for (const { fragment, entries: fragmentEntries, repacked } of packed) {
+          fragments.push(fragment);
+          locations.push(...this.locateEntries(fragmentEntries, fragment.id));
+          if (repacked) {
+            repackedFragmentIds.push(fragment.id);
+          }
+        }
       }
+
+      this.reportProgress(
+        40 + Math.round(((i + 1) / plans.length) * 40),
+        `Creating fragment ${fragments.length + 1}...`
+      );
     }
 
-    // Crear el último fragmento si hay entradas restantes
-    if (currentFragmentEntries.length > 0) {
-      const fragment = await this.createFragmentFromEntries(
-        currentFragmentEntries,
-        fragmentIndex,
-        options
+    return { fragments, entries: locations, chunkedEntries, repackedFragmentIds };
+  }
+
+  /**
+   * Traduce las opciones de procesamiento a opciones de FileSplitter
+   */
+  private getSplittingOptions(options: ProcessingOptions): SplittingOptions {
+    const strategy = options.splittingStrategy || 'size-based';
+
+    return {
+      strategy,
+      targetFragmentSize: options.fragmentSize,
+      ...(options.maxFragments && { maxFragments: options.maxFragments }),
+      preserveDirectoryStructure: options.preserveStructure,
+      balanceFragmentSizes: strategy === 'balanced',
+      prioritizeLargeFiles: strategy === 'smart',
+      groupSimilarFiles: strategy === 'smart',
+      // La copia directa conserva el tamaño comprimido; al recomprimir, FileSplitter estima
+      // cada entrada con el nivel de la política (en TAR los datos van siempre descomprimidos)
+      useCompressedSizes: !this.isTarOutput(options) && !!options.rawCopy,
+      getCompressionLevel: path => this.compressionPolicy.getLevel(path),
+      maxInMemorySize: this.getMaxEntryBufferSize(options),
+      decryptEntries: this.shouldDecrypt(options),
+      encryptEntries: !!options.encryptionPassphrase,
+      strictSizeLimit: !!options.strictSizeLimit,
+      ...(options.outputFormat && { outputFormat: options.outputFormat })
+    };
+  }
+
+  /**
+   * Contenido descomprimido máximo de una entrada o parte en memoria: las muy comprimibles
+   * pueden ser mayores que el fragmento que generan
+   */
+  private getMaxEntryBufferSize(options: ProcessingOptions): number {
+    return Math.max(options.fragmentSize, MAX_ENTRY_BUFFER_SIZE);
+  }
+
+  /**
+   * Crea los fragmentos de un plan y, con límite estricto, reempaqueta los que lo superan
+   */
+  private async createVerifiedFragments(
+    reader: ArchiveReader,
+    entries: ZipEntryInfo[],
+    firstIndex: number,
+    options: ProcessingOptions
+  ): Promise<PackedFragment[]> {
+    const packed: PackedFragment[] = [];
+    let pending = entries;
+    let repacked = false;
+
+    while (pending.length > 0) {
+      let group = pending;
+      let fragment = await this.createFragmentFromEntries(reader, group, firstIndex + packed.length, options);
+
+      while (options.strictSizeLimit && fragment.size > options.fragmentSize) {
+        repacked = true;
+
+        if (group.length === 1) {
+          fragment = await this.createOversizedEntryFragment(reader, group[0]!, firstIndex + packed.length, options);
+          break;
+        }
+
+        // Pasar al siguiente fragmento las últimas entradas hasta cubrir el exceso medido
+        const excess = fragment.size - options.fragmentSize;
+        let count = group.length;
+        let removed = 0;
+        while (count > 1 && removed < excess) {
+          count--;
+          removed += this.estimateEntryFootprint(group[count]!, options);
+        }
+
+        group = group.slice(0, count);
+        fragment = await this.createFragmentFromEntries(reader, group, firstIndex + packed.length, options);
+      }
+
+      packed.push({ fragment, entries: group, repacked });
+      pending = pending.slice(group.length);
+    }
+
+    return packed;
+  }
+
+  /**
+   * Reintenta copiando tal cual una entrada cuya recompresión superó el límite
+   */
+  private async createOversizedEntryFragment(
+    reader: ArchiveReader,
+    entry: ZipEntryInfo,
+    index: number,
+    options: ProcessingOptions
+  ): Promise<ProcessedFragment> {
+    // La copia directa ocupa exactamente el tamaño comprimido del origen (no existe en TAR)
+    if (!this.isTarOutput(options) && !this.shouldCopyRaw(entry, options)) {
+      const fragment = await this.createFragmentFromEntries(reader, [entry], index, { ...options, rawCopy: true });
+      if (fragment.size <= options.fragmentSize) {
+        return fragment;
+      }
+    }
+
+    throw new Error(`"${entry.name}" does not fit in a fragment of ${options.fragmentSize} bytes`);
+  }
+
+  /**
+   * Estima lo que ocupa una entrada dentro de un fragmento
+   */
+  private estimateEntryFootprint(entry: ZipEntryInfo, options: ProcessingOptions): number {
+    if (this.isTarOutput(options)) {
+      return entry.uncompressedSize + TarWriter.estimateEntryOverhead(entry.name, entry.uncompressedSize);
+    }
+
+    const copyRaw = this.shouldCopyRaw(entry, options);
+    const encrypt = this.shouldEncrypt(entry, copyRaw, options);
+    const dataSize = (copyRaw || this.compressionPolicy.getLevel(entry.name) > 0
+      ? entry.compressedSize
+      : entry.uncompressedSize) + (encrypt ? WinZipAesEncryptor.DATA_OVERHEAD : 0);
+    const extraLength = (copyRaw && entry.encryption?.method === 'aes') || encrypt ? WINZIP_AES_EXTRA_FIELD_SIZE : 0;
+    return dataSize + ZipWriter.estimateEntryOverhead(entry.name, entry.comment, false, extraLength);
+  }
+
+  /**
+   * Bytes del ZIP dividido que quedan en memoria hasta generar los volúmenes: las copias
+   * directas sin cifrar son vistas del archivo de entrada, el resto se guarda entero
+   */
+  private estimateSpannedOutputInMemory(archive: ZipArchiveInfo, options: ProcessingOptions): number {
+    return archive.entries
+      .filter(entry => {
+        const copyRaw = this.shouldCopyRaw(entry, options);
+        return !entry.dir && (!copyRaw || this.shouldEncrypt(entry, copyRaw, options));
+      })
+      .reduce((total, entry) => total + this.estimateEntryFootprint(entry, options), 0);
+  }
+
+  /**
+   * Compara el tamaño final de cada fragmento con el tamaño solicitado
+   */
+  private createSizeReport(build: FragmentBuildResult, options: ProcessingOptions): FragmentSizeReport[] {
+    const repacked = new Set(build.repackedFragmentIds || []);
+
+    return build.fragments.map(fragment => ({
+      fragmentId: fragment.id,
+      name: fragment.name,
+      size: fragment.size,
+      limit: options.fragmentSize,
+      utilization: fragment.size / options.fragmentSize,
+      repacked: repacked.has(fragment.id)
+    }));
+  }
+
+  /**
+   * Divide una entrada grande en partes, cada una en su propio fragmento
+   */
+  private async createChunkedEntryFragments(
+    reader: ArchiveReader,
+    entry: ZipEntryInfo,
+    ranges: EntryRange[],
+    firstIndex: number,
+    options: ProcessingOptions,
+    fillers: ZipEntryInfo[] = []
+  ): Promise<{ fragments: ProcessedFragment[]; manifest: ManifestChunkedEntry; fillersAdded: boolean }> {
+    // Las partes conservan el método del origen: STORE sigue sin comprimir
+    const level = getDataCompressionMethod(entry) === ZIP_COMPRESSION_METHODS.STORE
+      ? 0
+      : this.compressionPolicy.getLevel(entry.name);
+    const fragments: ProcessedFragment[] = [];
+    const parts: ManifestEntryPart[] = [];
+    const wholeHash = new Sha256();
+    let entryCrc = 0;
+    let fillersAdded = false;
+
+    // Escribe en un fragmento el mayor prefijo de data que cabe y devuelve cuántos bytes escribió
+    const writePart = async (offset: number, data: Uint8Array, totalParts: number, withFillers: boolean): Promise<number> => {
+      const partNumber = parts.length + 1;
+      // Los nombres usan el ancho del plan aunque haya más partes de las previstas
+      const partName = getPartName(entry.name, partNumber, Math.max(totalParts, partNumber));
+      const index = firstIndex + fragments.length;
+      let length = data.byteLength;
+      let fragment = await this.createPartFragment(
+        reader, entry, partName, data, level, withFillers ? fillers : [], index, options
       );
+
+      // Si la última parte no cabe con las entradas que la acompañan, va sola
+      if (withFillers) {
+        fillersAdded = fragment.size <= options.fragmentSize;
+        if (!fillersAdded) {
+          fragment = await this.createPartFragment(reader, entry, partName, data, level, [], index, options);
+        }
+      }
+
+      // La salida crece casi en proporción a la entrada: se prueba con la parte que cabría
+      while (fragment.size > options.fragmentSize) {
+        const fit = Math.floor(length * (options.fragmentSize / fragment.size));
+        if (fit === 0 || fit >= length) {
+          throw new Error(`Part ${partNumber} of "${entry.name}" does not fit in a fragment of ${options.fragmentSize} bytes`);
+        }
+        length = fit;
+        fillersAdded = false;
+        fragment = await this.createPartFragment(reader, entry, partName, data.subarray(0, length), level, [], index, options);
+      }
+
       fragments.push(fragment);
+      parts.push({
+        name: partName,
+        fragmentId: fragment.id,
+        offset,
+        length,
+        sha256: await sha256Hex(data.subarray(0, length))
+      });
+      return length;
+    };
+
+    // Los rangos se planifican con el tamaño comprimido estimado: lo que no cabe en una
+    // parte pasa a la siguiente
+    let pending: Uint8Array = new Uint8Array(0);
+    let pendingOffset = 0;
+
+    for await (const { range, data } of readEntryRanges(await reader.streamEntryData(entry), ranges)) {
+      this.throwIfAborted();
+
+      wholeHash.update(data);
+      entryCrc = crc32(data, entryCrc);
+
+      if (pending.byteLength === 0) {
+        pending = data;
+        pendingOffset = range.offset;
+      } else {
+        const joined = new Uint8Array(pending.byteLength + data.byteLength);
+        joined.set(pending);
+        joined.set(data, pending.byteLength);
+        pending = joined;
+      }
+
+      const isLastRange = range.part === range.totalParts;
+      do {
+        const written = await writePart(pendingOffset, pending, range.totalParts, isLastRange && fillers.length > 0);
+        pending = pending.subarray(written);
+        pendingOffset += written;
+      } while (isLastRange && pending.byteLength > 0);
+
+      this.reportProgress(
+        40,
+        `Splitting ${entry.name} (part ${range.part} of ${range.totalParts})...`
+      );
+    }
+
+    // AE-2 guarda CRC 0: el contenido ya lo comprobó el código de autenticación al descifrarlo
+    this.checkEntryCrc(entry, entryCrc);
+
+    const sha256 = wholeHash.digestHex();
+    this.entryDigests.set(entry, { crc32: entryCrc, sha256 });
+
+    return {
+      fragments,
+      manifest: {
+        path: entry.name,
+        size: entry.uncompressedSize,
+        crc32: entryCrc,
+        sha256,
+        parts
+      },
+      fillersAdded
+    };
+  }
+
+  /**
+   * Crea el fragmento de una parte, seguida de las entradas que ocupan el resto del fragmento
+   */
+  private async createPartFragment(
+    reader: ArchiveReader,
+    entry: ZipEntryInfo,
+    partName: string,
+    data: Uint8Array,
+    level: number,
+    fillers: ZipEntryInfo[],
+    index: number,
+    options: ProcessingOptions
+  ): Promise<ProcessedFragment> {
+    const writer = this.createWriter(options);
+    const entryOptions = {
+      lastModified: entry.lastModified,
+      versionMadeBy: entry.versionMadeBy,
+      externalAttributes: entry.externalAttributes
+    };
+    if (writer instanceof TarWriter) {
+      writer.addEntry(partName, data, entryOptions);
+    } else {
+      writer.addEntry(partName, data, level, { ...entryOptions, encryption: await this.createEncryptor(options) });
+    }
+
+    for (const filler of fillers) {
+      this.throwIfAborted();
+      await this.addEntryToWriter(writer, reader, filler, options);
+    }
+
+    return this.buildFragment(writer, index, options);
+  }
+
+  /**
+   * Crea un ZIP dividido estándar: volúmenes .z01, .z02, ... y un .zip final
+   */
+  private async createSpannedVolumes(
+    reader: ArchiveReader,
+    archive: ZipArchiveInfo,
+    options: ProcessingOptions
+  ): Promise<FragmentBuildResult> {
+    const writer = new ZipWriter();
+    const entries = archive.entries;
+
+    for (let i = 0; i < entries.length; i++) {
+      this.throwIfAborted();
+      await this.addEntryToWriter(writer, reader, entries[i]!, options);
+
+      this.reportProgress(
+        40 + Math.round(((i + 1) / entries.length) * 30),
+        `Adding ${i + 1} of ${entries.length} entries...`
+      );
     }
 
-    return fragments;
+    const output = writer.generateSpanned(options.fragmentSize, archive.comment);
+    const originalName = options.customFilename || 'archive';
+    const fragments: ProcessedFragment[] = [];
+
+    for (let i = 0; i < output.volumes.length; i++) {
+      this.throwIfAborted();
+
+      const volume = output.volumes[i]!;
+      const isLast = i === output.volumes.length - 1;
+
+      fragments.push({
+        id: `fragment_${i.toString().padStart(3, '0')}`,
+        name: isLast
+          ? `${originalName}.zip`
+          : `${originalName}.z${(i + 1).toString().padStart(2, '0')}`,
+        size: volume.size,
+        blob: volume,
+        checksum: await sha256Hex(volume)
+      });
+
+      this.reportProgress(
+        70 + Math.round(((i + 1) / output.volumes.length) * 10),
+        `Created volume ${i + 1} of ${output.volumes.length}`
+      );
+    }
+
+    return {
+      fragments,
+      // Las entradas del ZIP dividido siguen el orden en que se agregaron
+      entries: output.entries.map((entry, i) => ({
+        ...this.describeEntry(entries[i]!),
+        fragmentId: fragments[entry.firstVolume]!.id,
+        ...(entry.lastVolume !== entry.firstVolume && {
+          lastFragmentId: fragments[entry.lastVolume]!.id
+        })
+      }))
+    };
   }
 
   /**
-   * Crea un fragmento ZIP a partir de entradas
+   * Crea un fragmento a partir de entradas
    */
   private async createFragmentFromEntries(
-    entries: JSZip.JSZipObject[],
+    reader: ArchiveReader,
+    entries: ZipEntryInfo[],
     index: number,
     options: ProcessingOptions
   ): Promise<ProcessedFragment> {
-    const fragmentZip = new JSZip();
-    const fragmentId = `fragment_${index.toString().padStart(3, '0')}`;
+    const writer = this.createWriter(options);
     
-    // Agregar archivos al fragmento
+    // Agregar archivos al fragmento, leyendo cada entrada solo cuando se necesita
     for (const entry of entries) {
-      const content = await entry.async('arraybuffer');
-      fragmentZip.file(entry.name, content);
+      this.throwIfAborted();
+      await this.addEntryToWriter(writer, reader, entry, options);
     }
 
-    // Generar el ZIP del fragmento
-    const fragmentBlob = await fragmentZip.generateAsync({
-      type: 'blob',
-      compression: 'DEFLATE',
-      compressionOptions: {
-        level: options.compressionLevel
-      }
-    });
+    return this.buildFragment(writer, index, options);
+  }
+
+  /**
+   * Crea el escritor del formato de salida
+   */
+  private createWriter(options: ProcessingOptions): FragmentWriter {
+    return this.isTarOutput(options) ? new TarWriter(options.outputFormat === 'tar.gz') : new ZipWriter();
+  }
+
+  /**
+   * Indica si los fragmentos se generan como TAR o TAR.GZ
+   */
+  private isTarOutput(options: ProcessingOptions): boolean {
+    return options.outputFormat === 'tar' || options.outputFormat === 'tar.gz';
+  }
+
+  /**
+   * Genera el archivo de un fragmento y calcula su checksum
+   */
+  private async buildFragment(
+    writer: FragmentWriter,
+    index: number,
+    options: ProcessingOptions
+  ): Promise<ProcessedFragment> {
+    const fragmentBlob = writer instanceof TarWriter
+      ? await writer.generate()
+      : writer.generate(this.archiveComment);
+    const fragmentId = `fragment_${index.toString().padStart(3, '0')}`;
 
     // Calcular checksum
-    const checksum = await this.calculateChecksum(fragmentBlob);
+    const checksum = await sha256Hex(fragmentBlob);
     
     // Crear nombre del fragmento
     const originalName = options.customFilename || 'archive';
-    const fragmentName = `${originalName}_part${(index + 1).toString().padStart(3, '0')}.zip`;
+    const extension = ARCHIVE_FILE_TYPES[options.outputFormat || 'zip'].extension;
+    const fragmentName = `${originalName}_part${(index + 1).toString().padStart(3, '0')}${extension}`;
 
     return {
       id: fragmentId,
@@ -266,19 +999,187 @@ export class ZipProcessor {
     };
   }
 
+  /**
+   * Escribe una entrada en el fragmento, copiándola o recomprimiéndola
+   */
+  private async addEntryToWriter(
+    writer: FragmentWriter,
+    reader: ArchiveReader,
+    entry: ZipEntryInfo,
+    options: ProcessingOptions
+  ): Promise<void> {
+    if (writer instanceof TarWriter) {
+      // En TAR los datos se guardan descomprimidos y los permisos POSIX salen de los atributos
+      const content = entry.dir ? new Uint8Array(0) : await reader.readEntryData(entry);
+      await this.recordEntryDigest(entry, content);
+      writer.addEntry(entry.name, content, {
+        lastModified: entry.lastModified,
+        versionMadeBy: entry.versionMadeBy,
+        externalAttributes: entry.externalAttributes
+      });
+      return;
+    }
+
+    const copyRaw = this.shouldCopyRaw(entry, options);
+    const encryption = this.shouldEncrypt(entry, copyRaw, options)
+      ? await this.createEncryptor(options)
+      : undefined;
+
+    if (copyRaw) {
+      // Copia directa: mismos bytes comprimidos, CRC32 y tamaños que el origen
+      // (para cifrarlos hay que tenerlos en memoria)
+      writer.addRawEntry(
+        entry,
+        encryption ? await reader.readRawData(entry) : await reader.sliceRawData(entry),
+        encryption
+      );
+      await this.streamEntryDigest(reader, entry, options);
+      return;
+    }
+
+    const content = await reader.readEntryData(entry);
+    await this.recordEntryDigest(entry, content);
+    // Los directorios no tienen contenido que comprimir; el resto sigue la política por tipo de archivo
+    const level = entry.dir ? 0 : this.compressionPolicy.getLevel(entry.name);
+    writer.addEntry(entry.name, content, level, {
+      lastModified: entry.lastModified,
+      comment: entry.comment,
+      versionMadeBy: entry.versionMadeBy,
+      externalAttributes: entry.externalAttributes,
+      encryption
+    });
+  }
+
+  /**
+   * Guarda el CRC32 y el SHA-256 de una entrada cuyo contenido ya está en memoria
+   */
+  private async recordEntryDigest(entry: ZipEntryInfo, content: Uint8Array): Promise<void> {
+    if (!entry.dir && !this.entryDigests.has(entry)) {
+      const checksum = this.checkEntryCrc(entry, crc32(content));
+      this.entryDigests.set(entry, { crc32: checksum, sha256: await sha256Hex(content) });
+    }
+  }
+
+  /**
+   * Calcula por streaming el hash de una entrada copiada sin descomprimir, solo si se pidió:
+   * si no, el índice usa el CRC32 del directorio central. Las que no pueden leerse (cifradas
+   * sin contraseña o con métodos no soportados) quedan sin hash
+   */
+  private async streamEntryDigest(reader: ArchiveReader, entry: ZipEntryInfo, options: ProcessingOptions): Promise<void> {
+    if (!options.hashCopiedEntries || entry.dir || this.entryDigests.has(entry) ||
+      !canReadEntryData(entry, this.shouldDecrypt(options))) {
+      return;
+    }
+
+    const stream = (await reader.streamEntryData(entry)).getReader();
+    const hash = new Sha256();
+    let checksum = 0;
+    for (;;) {
+      const { done, value } = await stream.read();
+      if (done) {
+        break;
+      }
+      checksum = crc32(value, checksum);
+      hash.update(value);
+    }
+
+    this.entryDigests.set(entry, { crc32: this.checkEntryCrc(entry, checksum), sha256: hash.digestHex() });
+  }
+
+  /**
+   * Compara el CRC32 calculado al descomprimir con el del origen; AE-2 guarda 0, así que
+   * en ese caso el calculado es el que se registra
+   */
+  private checkEntryCrc(entry: ZipEntryInfo, checksum: number): number {
+    if (hasStoredCrc32(entry) && checksum !== entry.crc32) {
+      throw new Error(`CRC32 mismatch in entry "${entry.name}"`);
+    }
+    return checksum;
+  }
+
+  /**
+   * Indica si una entrada se cifra con la contraseña de salida: los directorios no
+   * tienen datos y las entradas que se copian cifradas conservan su cifrado
+   */
+  private shouldEncrypt(entry: ZipEntryInfo, copyRaw: boolean, options: ProcessingOptions): boolean {
+    return !!options.encryptionPassphrase && !entry.dir && !(copyRaw && entry.encryption);
+  }
+
+  /**
+   * Crea el cifrador WinZip AES-256 de una entrada (sal nueva en cada una)
+   */
+  private async createEncryptor(options: ProcessingOptions): Promise<WinZipAesEncryptor | undefined> {
+    return options.encryptionPassphrase
+      ? WinZipAesEncryptor.create(options.encryptionPassphrase)
+      : undefined;
+  }
+
+  /**
+   * Asocia cada entrada con el fragmento que la contiene
+   */
+  private locateEntries(entries: ZipEntryInfo[], fragmentId: string): ManifestEntryLocation[] {
+    return entries.map(entry => ({ ...this.describeEntry(entry), fragmentId }));
+  }
+
+  /**
+   * Metadatos de una entrada que se registran en el manifest
+   */
+  private describeEntry(entry: ZipEntryInfo): Omit<ManifestEntryLocation, 'fragmentId'> {
+    const digest = this.entryDigests.get(entry);
+
+    return {
+      path: entry.name,
+      ...(entry.dir && { dir: true }),
+      size: entry.uncompressedSize,
+      // Las entradas AES AE-2 guardan CRC 0; el calculado al leerlas es el real
+      crc32: digest?.crc32 ?? entry.crc32,
+      ...(digest && { sha256: digest.sha256 }),
+      date: entry.lastModified.toISOString(),
+      ...(entry.unixPermissions !== null && { unixPermissions: entry.unixPermissions }),
+      ...(entry.dosPermissions !== null && { dosPermissions: entry.dosPermissions }),
+      ...(entry.comment && { comment: entry.comment })
+    };
+  }
+
+  /**
+   * Decide si una entrada se copia sin recomprimir
+   */
+  private shouldCopyRaw(entry: ZipEntryInfo, options: ProcessingOptions): boolean {
+    const decrypt = this.shouldDecrypt(options);
+
+    // Las entradas descifradas se escriben de nuevo aunque se pida copia directa
+    if (options.rawCopy && !(decrypt && entry.encryption)) {
+      return true;
+    }
+
+    // Entradas cifradas sin descifrar o con métodos no soportados solo pueden copiarse tal cual
+    return !canReadEntryData(entry, decrypt);
+  }
+
+  /**
+   * Indica si las entradas cifradas se escriben descifradas en los fragmentos
+   */
+  private shouldDecrypt(options: ProcessingOptions): boolean {
+    return !!options.password && !options.keepEncryption;
+  }
+
   /**
    * Genera manifest del procesamiento
    */
   private generateManifest(
-    originalFile: File,
-    fragments: ProcessedFragment[],
+    originalFile: InputSource,
+    build: FragmentBuildResult,
+    checksum: string,
     options: ProcessingOptions
   ): ProcessingManifest {
+    const { fragments, entries, chunkedEntries, excludedEntries } = build;
+
     return {
       originalFile: {
         name: originalFile.name,
         size: originalFile.size,
-        checksum: '' // Se calculará después si es necesario
+        checksum,
+        ...(this.archiveComment && { comment: this.archiveComment })
       },
       fragments: fragments.map((fragment, index) => ({
         id: fragment.id,
@@ -287,11 +1188,26 @@ export class ZipProcessor {
         checksum: fragment.checksum,
         order: index + 1
       })),
+      entries,
+      ...(chunkedEntries && chunkedEntries.length > 0 && { chunkedEntries }),
+      ...(excludedEntries && { excludedEntries }),
       metadata: {
         createdAt: new Date().toISOString(),
-        version: '1.0.0',
+        version: MANIFEST_VERSION,
         strategy: options.strategy,
-        compressionLevel: options.compressionLevel
+        compressionLevel: options.compressionLevel,
+        ...(options.compressionRules && options.compressionRules.length > 0 && {
+          compressionRules: options.compressionRules
+        }),
+        splitMode: options.splitMode || 'independent',
+        ...(options.splitMode !== 'raw' && { outputFormat: options.outputFormat || 'zip' }),
+        ...(options.encryptionPassphrase && { encryption: 'winzip-aes-256' as const }),
+        ...(options.recipients && {
+          recipients: options.recipients.map(({ algorithm, fingerprint }) => ({ algorithm, fingerprint }))
+        }),
+        ...(excludedEntries && {
+          entryFilter: { include: options.includePatterns || [], exclude: options.excludePatterns || [] }
+        })
       }
     };
   }
@@ -325,20 +1241,7 @@ export class ZipProcessor {
    * Descarga el manifest
    */
   public downloadManifest(manifest: ProcessingManifest): void {
-    const manifestBlob = new Blob([JSON.stringify(manifest, null, 2)], {
-      type: 'application/json'
-    });
-    saveAs(manifestBlob, 'manifest.json');
-  }
-
-  /**
-   * Calcula checksum de un blob
-   */
-  private async calculateChecksum(blob: Blob): Promise<string> {
-    const arrayBuffer = await blob.arrayBuffer();
-    const hashBuffer = await crypto.subtle.digest('SHA-256', arrayBuffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+    saveAs(createManifestBlob(manifest), MANIFEST_FILE_NAME);
   }
 
   /**
@@ -352,6 +1255,51 @@ export class ZipProcessor {
     if (options.compressionLevel < 0 || options.compressionLevel > 9) {
       throw new Error('Compression level must be between 0 and 9');
     }
+
+    const ruleError = options.compressionRules ? getCompressionRuleError(options.compressionRules) : null;
+    if (ruleError) {
+      throw new Error(ruleError);
+    }
+
+    if (options.maxFragments !== undefined && options.maxFragments < 1) {
+      throw new Error('Maximum number of fragments must be at least 1');
+    }
+
+    if (options.encryptionPassphrase !== undefined && options.encryptionPassphrase.length === 0) {
+      throw new Error('Encryption passphrase cannot be empty');
+    }
+
+    if (options.recipients !== undefined && options.recipients.length === 0) {
+      throw new Error('Select at least one recipient key to encrypt fragments');
+    }
+
+    if (options.splitMode === 'raw' && (options.includePatterns?.length || options.excludePatterns?.length)) {
+      throw new Error('Include/exclude filters need an archive or folder; raw mode splits the file as it is');
+    }
+
+    if (options.splitMode === 'raw' && options.deduplicate) {
+      throw new Error('Deduplication needs an archive or folder; raw mode splits the file as it is');
+    }
+
+    if (options.splitMode === 'raw' && options.encryptionPassphrase !== undefined) {
+      throw new Error('Passphrase encryption is not available for raw parts; use recipient keys instead');
+    }
+
+    if (this.isTarOutput(options) && options.splitMode !== 'raw') {
+      if (options.splitMode === 'spanned') {
+        throw new Error('Split archive volumes are only available for ZIP fragments');
+      }
+      if (options.encryptionPassphrase !== undefined) {
+        throw new Error('Passphrase encryption is only available for ZIP fragments; use recipient keys with TAR fragments');
+      }
+      if (options.keepEncryption) {
+        throw new Error('Encrypted entries can only be copied into ZIP fragments');
+      }
+    }
+
+    if (options.splitMode === 'spanned' && options.fragmentSize < MIN_VOLUME_SIZE) {
+      throw new Error(`Split archive volumes must be at least ${MIN_VOLUME_SIZE / 1024}KB`);
+    }
     
     if (options.strategy !== 'CLIENT_SIDE') {
       throw new Error('ZipProcessor only supports CLIENT_SIDE strategy');
@@ -361,13 +1309,19 @@ export class ZipProcessor {
   /**
    * Verifica disponibilidad de memoria
    */
-  private async checkMemoryAvailability(fileSize: number): Promise<void> {
-    // Estimar memoria necesaria (aproximadamente 3x el tamaño del archivo)
-    const estimatedMemoryUsage = fileSize * 3;
+  private async checkMemoryAvailability(
+    largestEntrySize: number,
+    outputInMemory: number,
+    inputInMemory = 0
+  ): Promise<void> {
+    // Se mantiene en memoria la salida en construcción (un fragmento, o todo lo recomprimido
+    // de un ZIP dividido), la entrada actual (comprimida y descomprimida) y, con un TAR.GZ,
+    // el TAR descomprimido
+    const estimatedMemoryUsage = inputInMemory + outputInMemory + largestEntrySize * 2;
     
     if (estimatedMemoryUsage > MAX_MEMORY_USAGE) {
       throw new Error(
-        `File too large for client-side processing. ` +
+        `Entries too large for client-side processing. ` +
         `Estimated memory usage: ${Math.round(estimatedMemoryUsage / (1024 * 1024))}MB. ` +
         `Maximum allowed: ${Math.round(MAX_MEMORY_USAGE / (1024 * 1024))}MB.`
       );
@@ -396,6 +1350,16 @@ export class ZipProcessor {
       suggestedAction: 'Try with a smaller file or use Google Drive integration for large files'
     };
 
+    if (error instanceof ZipFormatError) {
+      processingError.code = error.code;
+      if (error.code === ZIP64_UNSUPPORTED) {
+        processingError.suggestedAction = 'Re-create the archive with a ZIP64-capable tool such as 7-Zip or Info-ZIP 3.0';
+      } else if (error.code === WRONG_PASSWORD) {
+        processingError.recoverable = true;
+        processingError.suggestedAction = 'Check the password and try again';
+      }
+    }
+
     // Finalizar métricas en caso de error
     this.metrics.endTime = performance.now();
     this.metrics.totalTime = this.metrics.endTime - this.metrics.startTime;
@@ -440,8 +1404,17 @@ export class ZipProcessor {
     this.metrics.compressionRatio = originalSize > 0 ? totalFragmentSize / originalSize : 1;
     this.metrics.throughput = this.metrics.totalTime > 0 ? originalSize / (this.metrics.totalTime / 1000) : 0;
     
-    // Estimar uso de memoria (aproximación)
-    this.metrics.memoryUsage = Math.max(originalSize * 2, totalFragmentSize);
+    // Estimar uso de memoria (aproximación): el fragmento más grande en construcción
+    this.metrics.memoryUsage = fragments.reduce((max, fragment) => Math.max(max, fragment.size), 0);
+  }
+
+  /**
+   * Interrumpe el procesamiento si se solicitó cancelación
+   */
+  private throwIfAborted(): void {
+    if (this.abortController.signal.aborted) {
+      throw new Error('Processing cancelled');
+    }
   }
 
   /**
@@ -0,0 +1,491 @@
+/**
+ * ZIP Reader
+ * Lector de archivos ZIP por demanda: parsea el directorio central desde el final
+ * del archivo con File.slice y lee cada entrada solo cuando se necesita
+ */
+
+import {
+  ZIP_SIGNATURES,
+  ZIP_RECORD_SIZES,
+  ZIP_COMPRESSION_METHODS,
+  ZIP_FLAG_UTF8,
+  ZIP_MAX_COMMENT_LENGTH,
+  ZIP_HOST_SYSTEMS,
+  ZIP64_LIMITS,
+  ZIP64_EXTRA_FIELD_ID,
+  ZIP64_UNSUPPORTED,
+  ZipFormatError,
+  getUint64,
+  findExtraField,
+  decodeZipString,
+  dosDateTimeToDate
+} from './zip-format';
+import {
+  decryptEntryData,
+  readEntryEncryption,
+  verifyDecryptedContent,
+  type ZipEntryEncryption
+} from './zip-crypto';
+import { BlobSha256 } from './sha256';
+import type { ArchiveReader } from './archive-reader';
+
+export interface ZipEntryInfo {
+  name: string;
+  dir: boolean;
+  versionNeeded: number;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  crc32: number;
+  flags: number;
+  dosDate: number;
+  dosTime: number;
+  lastModified: Date;
+  versionMadeBy: number;
+  internalAttributes: number;
+  externalAttributes: number;
+  unixPermissions: number | null; // Modo st_mode completo si el origen es UNIX
+  dosPermissions: number | null; // Atributos DOS (solo lectura, oculto, sistema...) si el origen es DOS
+  comment: string;
+  localHeaderOffset: number;
+  encryption: ZipEntryEncryption | null; // null si la entrada no está cifrada
+}
+
+export interface ZipArchiveInfo {
+  entries: ZipEntryInfo[];
+  comment: string;
+  centralDirectoryOffset: number;
+  centralDirectorySize: number;
+}
+
+/**
+ * Lector de ZIP que nunca carga el archivo completo en memoria
+ */
+export class ZipReader implements ArchiveReader {
+  public readonly format = 'zip';
+  private readonly file: Blob;
+  private readonly password: string | undefined; // Descifra las entradas protegidas
+  // Inicio de cada volumen cuando file son los volúmenes de un ZIP dividido unidos en orden
+  private readonly volumeStarts: number[] | undefined;
+  private checksum: BlobSha256 | null = null; // SHA-256 del archivo con los bytes que se van leyendo
+
+  constructor(file: Blob, password?: string, volumeStarts?: number[]) {
+    this.file = file;
+    this.password = password;
+    this.volumeStarts = volumeStarts;
+  }
+
+  /**
+   * Tamaño total del archivo subyacente
+   */
+  public get size(): number {
+    return this.file.size;
+  }
+
+  /**
+   * Empieza a calcular el SHA-256 del archivo con los datos que se leen desde ahora; se
+   * llama después de leer el directorio central, que está al final del archivo
+   */
+  public trackChecksum(): void {
+    this.checksum ??= new BlobSha256(this.file);
+  }
+
+  /**
+   * SHA-256 del archivo completo: solo se lee lo que no ha pasado ya por el lector
+   */
+  public async getChecksum(): Promise<string> {
+    this.trackChecksum();
+    return this.checksum!.digestHex();
+  }
+
+  /**
+   * Lee el directorio central y devuelve la lista de entradas
+   */
+  public async readCentralDirectory(): Promise<ZipArchiveInfo> {
+    const eocd = await this.findEndOfCentralDirectory();
+
+    if (eocd.centralDirectoryOffset + eocd.centralDirectorySize > this.file.size) {
+      throw new Error('Invalid ZIP file: central directory lies outside the file');
+    }
+
+    const directory = await this.readBytes(
+      eocd.centralDirectoryOffset,
+      eocd.centralDirectorySize
+    );
+    const view = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+    const entries: ZipEntryInfo[] = [];
+    let offset = 0;
+
+    for (let i = 0; i < eocd.totalEntries; i++) {
+      if (offset + ZIP_RECORD_SIZES.CENTRAL_DIRECTORY_HEADER > directory.byteLength ||
+          view.getUint32(offset, true) !== ZIP_SIGNATURES.CENTRAL_DIRECTORY_HEADER) {
+        throw new Error(`Invalid ZIP file: corrupt central directory at entry ${i + 1}`);
+      }
+
+      const flags = view.getUint16(offset + 8, true);
+      const dosTime = view.getUint16(offset + 12, true);
+      const dosDate = view.getUint16(offset + 14, true);
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      const utf8 = (flags & ZIP_FLAG_UTF8) !== 0;
+
+      const nameStart = offset + ZIP_RECORD_SIZES.CENTRAL_DIRECTORY_HEADER;
+      const commentStart = nameStart + nameLength + extraLength;
+      const name = decodeZipString(directory.subarray(nameStart, nameStart + nameLength), utf8);
+      const versionMadeBy = view.getUint16(offset + 4, true);
+      const externalAttributes = view.getUint32(offset + 38, true);
+      const hostSystem = versionMadeBy >> 8;
+      const compressionMethod = view.getUint16(offset + 10, true);
+      const extra = directory.subarray(nameStart + nameLength, commentStart);
+      const zip64 = this.readZip64Fields(
+        extra,
+        {
+          uncompressedSize: view.getUint32(offset + 24, true),
+          compressedSize: view.getUint32(offset + 20, true),
+          localHeaderOffset: view.getUint32(offset + 42, true)
+        },
+        name
+      );
+      const localHeaderOffset = this.getVolumeOffset(view.getUint16(offset + 34, true), zip64.localHeaderOffset);
+
+      entries.push({
+        name,
+        dir: name.endsWith('/') || (externalAttributes & 0x10) !== 0,
+        versionNeeded: view.getUint16(offset + 6, true),
+        compressionMethod,
+        compressedSize: zip64.compressedSize,
+        uncompressedSize: zip64.uncompressedSize,
+        crc32: view.getUint32(offset + 16, true),
+        flags,
+        dosDate,
+        dosTime,
+        lastModified: dosDateTimeToDate(dosDate, dosTime),
+        versionMadeBy,
+        internalAttributes: view.getUint16(offset + 36, true),
+        externalAttributes,
+        unixPermissions: hostSystem === ZIP_HOST_SYSTEMS.UNIX ? (externalAttributes >>> 16) & 0xffff : null,
+        dosPermissions: hostSystem === ZIP_HOST_SYSTEMS.DOS ? externalAttributes & 0x3f : null,
+        comment: decodeZipString(directory.subarray(commentStart, commentStart + commentLength), utf8),
+        localHeaderOffset,
+        encryption: readEntryEncryption(flags, compressionMethod, extra)
+      });
+
+      offset = commentStart + commentLength;
+    }
+
+    return {
+      entries,
+      comment: eocd.comment,
+      centralDirectoryOffset: eocd.centralDirectoryOffset,
+      centralDirectorySize: eocd.centralDirectorySize
+    };
+  }
+
+  /**
+   * Lee los bytes comprimidos de una entrada tal como están en el archivo
+   */
+  public async readRawData(entry: ZipEntryInfo): Promise<Uint8Array> {
+    const dataOffset = await this.getDataOffset(entry);
+    return this.readBytes(dataOffset, entry.compressedSize);
+  }
+
+  /**
+   * Devuelve los bytes comprimidos de una entrada como Blob, sin leerlos
+   */
+  public async sliceRawData(entry: ZipEntryInfo): Promise<Blob> {
+    const dataOffset = await this.getDataOffset(entry);
+    return this.file.slice(dataOffset, dataOffset + entry.compressedSize);
+  }
+
+  /**
+   * Devuelve el contenido descifrado y descomprimido de una entrada como stream
+   */
+  public async streamEntryData(entry: ZipEntryInfo): Promise<ReadableStream<Uint8Array>> {
+    const dataOffset = await this.getDataOffset(entry);
+    const raw = this.file.slice(dataOffset, dataOffset + entry.compressedSize);
+    const data = entry.encryption
+      ? await decryptEntryData(raw, entry, this.requirePassword(entry))
+      : this.trackStream(raw.stream(), dataOffset);
+    let content: ReadableStream<Uint8Array>;
+
+    switch (getDataCompressionMethod(entry)) {
+      case ZIP_COMPRESSION_METHODS.STORE:
+        content = data;
+        break;
+      case ZIP_COMPRESSION_METHODS.DEFLATE:
+        content = data.pipeThrough(new DecompressionStream('deflate-raw'));
+        break;
+      default:
+        throw new Error(
+          `Unsupported compression method ${getDataCompressionMethod(entry)} for entry "${entry.name}"`
+        );
+    }
+
+    return entry.encryption ? verifyDecryptedContent(content, entry) : content;
+  }
+
+  /**
+   * Lee, descifra y descomprime el contenido de una entrada
+   */
+  public async readEntryData(entry: ZipEntryInfo): Promise<Uint8Array> {
+    // Las entradas cifradas pasan por el stream, que verifica la contraseña
+    if (entry.encryption) {
+      return new Uint8Array(await new Response(await this.streamEntryData(entry)).arrayBuffer());
+    }
+
+    const raw = await this.readRawData(entry);
+
+    switch (entry.compressionMethod) {
+      case ZIP_COMPRESSION_METHODS.STORE:
+        return raw;
+      case ZIP_COMPRESSION_METHODS.DEFLATE:
+        return inflateRaw(raw);
+      default:
+        throw new Error(
+          `Unsupported compression method ${entry.compressionMethod} for entry "${entry.name}"`
+        );
+    }
+  }
+
+  /**
+   * Contraseña para descifrar una entrada; falla si no se indicó ninguna
+   */
+  private requirePassword(entry: ZipEntryInfo): string {
+    if (this.password === undefined) {
+      throw new Error(`Entry "${entry.name}" is encrypted and no password was provided`);
+    }
+    return this.password;
+  }
+
+  /**
+   * Calcula dónde empiezan los datos de una entrada leyendo su cabecera local
+   */
+  private async getDataOffset(entry: ZipEntryInfo): Promise<number> {
+    const header = await this.readBytes(entry.localHeaderOffset, ZIP_RECORD_SIZES.LOCAL_FILE_HEADER);
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+
+    if (header.byteLength < ZIP_RECORD_SIZES.LOCAL_FILE_HEADER ||
+        view.getUint32(0, true) !== ZIP_SIGNATURES.LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid ZIP file: missing local header for entry "${entry.name}"`);
+    }
+
+    const nameLength = view.getUint16(26, true);
+    const extraLength = view.getUint16(28, true);
+
+    return entry.localHeaderOffset + ZIP_RECORD_SIZES.LOCAL_FILE_HEADER + nameLength + extraLength;
+  }
+
+  /**
+   * Busca el registro End Of Central Directory en la cola del archivo
+   */
+  private async findEndOfCentralDirectory(): Promise<{
+    totalEntries: number;
+    centralDirectorySize: number;
+    centralDirectoryOffset: number; // Desde el inicio del archivo, también en los volúmenes unidos
+    comment: string;
+  }> {
+    const tailLength = Math.min(
+      this.file.size,
+      ZIP_RECORD_SIZES.END_OF_CENTRAL_DIRECTORY + ZIP_MAX_COMMENT_LENGTH
+    );
+    const tailStart = this.file.size - tailLength;
+    const tail = await this.readBytes(tailStart, tailLength);
+    const view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+    for (let i = tail.byteLength - ZIP_RECORD_SIZES.END_OF_CENTRAL_DIRECTORY; i >= 0; i--) {
+      if (view.getUint32(i, true) !== ZIP_SIGNATURES.END_OF_CENTRAL_DIRECTORY) {
+        continue;
+      }
+
+      const commentLength = view.getUint16(i + 20, true);
+      if (i + ZIP_RECORD_SIZES.END_OF_CENTRAL_DIRECTORY + commentLength > tail.byteLength) {
+        continue;
+      }
+
+      const commentStart = i + ZIP_RECORD_SIZES.END_OF_CENTRAL_DIRECTORY;
+      const eocd = {
+        totalEntries: view.getUint16(i + 10, true),
+        centralDirectorySize: view.getUint32(i + 12, true),
+        centralDirectoryOffset: view.getUint32(i + 16, true),
+        // El comentario del archivo no tiene flag propio; se asume UTF-8
+        comment: decodeZipString(tail.subarray(commentStart, commentStart + commentLength), true)
+      };
+
+      const zip64 = await this.readZip64EndOfCentralDirectory(tailStart + i);
+      if (zip64) {
+        return { ...eocd, ...zip64 };
+      }
+
+      // Campos saturados sin registros ZIP64 (65.535 entradas exactas sí es válido)
+      if (eocd.centralDirectorySize === ZIP64_LIMITS.SIZE || eocd.centralDirectoryOffset === ZIP64_LIMITS.SIZE) {
+        throw new ZipFormatError(
+          'Invalid ZIP file: the archive needs ZIP64 records that are missing',
+          ZIP64_UNSUPPORTED
+        );
+      }
+
+      return {
+        ...eocd,
+        centralDirectoryOffset: this.getVolumeOffset(view.getUint16(i + 6, true), eocd.centralDirectoryOffset)
+      };
+    }
+
+    throw new Error('Invalid ZIP file: end of central directory record not found');
+  }
+
+  /**
+   * Sustituye los campos saturados (0xFFFFFFFF) por sus valores del extra field ZIP64
+   */
+  private readZip64Fields(
+    extra: Uint8Array,
+    fields: { uncompressedSize: number; compressedSize: number; localHeaderOffset: number },
+    name: string
+  ): { uncompressedSize: number; compressedSize: number; localHeaderOffset: number } {
+    const needsZip64 = fields.uncompressedSize === ZIP64_LIMITS.SIZE ||
+      fields.compressedSize === ZIP64_LIMITS.SIZE ||
+      fields.localHeaderOffset === ZIP64_LIMITS.SIZE;
+
+    if (!needsZip64) {
+      return fields;
+    }
+
+    const field = findExtraField(extra, ZIP64_EXTRA_FIELD_ID);
+    if (field) {
+      // Solo aparecen, en este orden, los campos saturados en la cabecera
+      const view = new DataView(field.buffer, field.byteOffset, field.byteLength);
+      const result = { ...fields };
+      let position = 0;
+      const next = (): number => {
+        if (position + 8 > field.byteLength) {
+          throw new ZipFormatError(`Invalid ZIP64 extra field in entry "${name}"`, ZIP64_UNSUPPORTED);
+        }
+        const value = getUint64(view, position);
+        position += 8;
+        return value;
+      };
+
+      if (fields.uncompressedSize === ZIP64_LIMITS.SIZE) result.uncompressedSize = next();
+      if (fields.compressedSize === ZIP64_LIMITS.SIZE) result.compressedSize = next();
+      if (fields.localHeaderOffset === ZIP64_LIMITS.SIZE) result.localHeaderOffset = next();
+
+      return result;
+    }
+
+    throw new ZipFormatError(`Entry "${name}" needs ZIP64 fields that are missing`, ZIP64_UNSUPPORTED);
+  }
+
+  /**
+   * Lee los registros ZIP64 que preceden al EOCD, si existen
+   */
+  private async readZip64EndOfCentralDirectory(eocdOffset: number): Promise<{
+    totalEntries: number;
+    centralDirectorySize: number;
+    centralDirectoryOffset: number;
+  } | null> {
+    const locatorOffset = eocdOffset - ZIP_RECORD_SIZES.ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR;
+    if (locatorOffset < 0) {
+      return null;
+    }
+
+    const locator = await this.readBytes(locatorOffset, ZIP_RECORD_SIZES.ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR);
+    const locatorView = new DataView(locator.buffer, locator.byteOffset, locator.byteLength);
+    if (locatorView.getUint32(0, true) !== ZIP_SIGNATURES.ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR) {
+      return null;
+    }
+
+    if (locatorView.getUint32(16, true) > 1 && !this.volumeStarts) {
+      throw new ZipFormatError('Multi-disk ZIP64 archives are not supported', ZIP64_UNSUPPORTED);
+    }
+
+    const recordOffset = this.getVolumeOffset(locatorView.getUint32(4, true), getUint64(locatorView, 8));
+    const record = await this.readBytes(recordOffset, ZIP_RECORD_SIZES.ZIP64_END_OF_CENTRAL_DIRECTORY);
+    const view = new DataView(record.buffer, record.byteOffset, record.byteLength);
+
+    if (record.byteLength < ZIP_RECORD_SIZES.ZIP64_END_OF_CENTRAL_DIRECTORY ||
+        view.getUint32(0, true) !== ZIP_SIGNATURES.ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw new ZipFormatError('Invalid ZIP file: ZIP64 end of central directory record not found', ZIP64_UNSUPPORTED);
+    }
+
+    return {
+      totalEntries: getUint64(view, 32),
+      centralDirectorySize: getUint64(view, 40),
+      centralDirectoryOffset: this.getVolumeOffset(view.getUint32(20, true), getUint64(view, 48))
+    };
+  }
+
+  /**
+   * Traduce un desplazamiento relativo a su volumen a una posición del archivo; en un
+   * ZIP de un solo archivo los números de disco se ignoran
+   */
+  private getVolumeOffset(disk: number, offset: number): number {
+    if (!this.volumeStarts) {
+      return offset;
+    }
+
+    const volumeStart = this.volumeStarts[disk];
+    if (volumeStart === undefined) {
+      throw new Error(`Invalid split archive: volume ${disk + 1} is missing`);
+    }
+    return volumeStart + offset;
+  }
+
+  /**
+   * Lee un rango de bytes del archivo sin cargar el resto
+   */
+  private async readBytes(offset: number, length: number): Promise<Uint8Array> {
+    const bytes = new Uint8Array(await this.file.slice(offset, offset + length).arrayBuffer());
+    await this.checksum?.update(offset, bytes);
+    return bytes;
+  }
+
+  /**
+   * Agrega al SHA-256 del archivo los bytes de un stream que empieza en offset según se consumen
+   */
+  private trackStream(
+    stream: ReadableStream<Uint8Array<ArrayBuffer>>,
+    offset: number
+  ): ReadableStream<Uint8Array<ArrayBuffer>> {
+    const checksum = this.checksum;
+    if (!checksum) {
+      return stream;
+    }
+
+    let position = offset;
+    return stream.pipeThrough(new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>({
+      async transform(chunk, controller) {
+        await checksum.update(position, chunk);
+        position += chunk.byteLength;
+        controller.enqueue(chunk);
+      }
+    }));
+  }
+}
+
+/**
+ * Método con el que está comprimido el contenido (en WinZip AES va en el extra field)
+ */
+export function getDataCompressionMethod(entry: ZipEntryInfo): number {
+  return entry.encryption?.method === 'aes' ? entry.encryption.compressionMethod : entry.compressionMethod;
+}
+
+/**
+ * Indica si el contenido de una entrada puede descomprimirse: método soportado y,
+ * si está cifrada, un cifrado conocido y la contraseña disponible
+ */
+export function canReadEntryData(entry: ZipEntryInfo, canDecrypt = false): boolean {
+  const method = getDataCompressionMethod(entry);
+  const supported = method === ZIP_COMPRESSION_METHODS.STORE || method === ZIP_COMPRESSION_METHODS.DEFLATE;
+  const decryptable = entry.encryption === null ||
+    (canDecrypt && entry.encryption.method !== 'unsupported');
+
+  return decryptable && supported;
+}
+
+/**
+ * Descomprime datos DEFLATE sin cabecera con la API nativa de streams
+ */
+export async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,117 @@
+/**
+ * ZIP Worker Client
+ * Envía trabajos a un zip-worker con la misma interfaz que ZipProcessor (callback de
+ * progreso, processFile y abort), para procesar fuera del hilo principal sin React
+ */
+
+import { ZipFormatError } from './zip-format';
+import type { InputSource } from './file-collection';
+import type { ProcessingOptions, ProcessingResult } from '@/types/processing';
+
+/**
+ * Mensajes que envía workers/zip-worker.ts
+ */
+type ZipWorkerResponse =
+  | { type: 'PROGRESS'; id: string; payload: { phase: string; progress: number; message: string } }
+  | { type: 'COMPLETE'; id: string; payload: ProcessingResult }
+  | { type: 'ERROR'; id: string; payload: { message: string; code?: string; cancelled?: boolean } }
+  | { type: 'PONG' | 'READY'; id: string; payload: unknown };
+
+/**
+ * Cliente de un zip-worker: procesa un archivo cada vez y puede reutilizarse entre trabajos
+ */
+export class ZipWorkerClient {
+  private readonly worker: Worker;
+  private progressCallback?: (progress: number, message: string) => void;
+  private currentTaskId: string | null = null;
+  private crashed = false;
+
+  constructor(worker: Worker) {
+    this.worker = worker;
+  }
+
+  /**
+   * Indica si el worker puede recibir otro trabajo: no está ocupado ni ha fallado
+   */
+  public get isAvailable(): boolean {
+    return this.currentTaskId === null && !this.crashed;
+  }
+
+  /**
+   * Establece callback para reportar progreso
+   */
+  public setProgressCallback(callback: (progress: number, message: string) => void): void {
+    this.progressCallback = callback;
+  }
+
+  /**
+   * Procesa el archivo en el worker; los errores del procesador llegan como rechazo
+   */
+  public processFile(file: InputSource, options: ProcessingOptions): Promise<ProcessingResult> {
+    if (!this.isAvailable) {
+      return Promise.reject(new Error('The ZIP worker is busy or has stopped'));
+    }
+
+    const taskId = `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.currentTaskId = taskId;
+
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        this.worker.removeEventListener('message', handleMessage);
+        this.worker.removeEventListener('error', handleError);
+        this.currentTaskId = null;
+      };
+
+      const handleMessage = (event: MessageEvent<ZipWorkerResponse>) => {
+        const message = event.data;
+        if (message.id !== taskId) {
+          return;
+        }
+
+        switch (message.type) {
+          case 'PROGRESS':
+            this.progressCallback?.(message.payload.progress, message.payload.message);
+            break;
+          case 'COMPLETE':
+            finish();
+            resolve(message.payload);
+            break;
+          case 'ERROR':
+            finish();
+            reject(message.payload.code
+              ? new ZipFormatError(message.payload.message, message.payload.code)
+              : new Error(message.payload.message));
+            break;
+        }
+      };
+
+      const handleError = (event: ErrorEvent) => {
+        this.crashed = true;
+        finish();
+        reject(new Error(`Worker error: ${event.message}`));
+      };
+
+      this.worker.addEventListener('message', handleMessage);
+      this.worker.addEventListener('error', handleError);
+
+      // El File (o los de una carpeta) se envía por structured clone: el worker lo lee por rangos
+      this.worker.postMessage({ type: 'PROCESS_ZIP', id: taskId, payload: { file, options } });
+    });
+  }
+
+  /**
+   * Cancela el trabajo en curso
+   */
+  public abort(): void {
+    if (this.currentTaskId) {
+      this.worker.postMessage({ type: 'CANCEL', id: this.currentTaskId, payload: {} });
+    }
+  }
+
+  /**
+   * Cierra el worker
+   */
+  public terminate(): void {
+    this.worker.terminate();
+  }
+}
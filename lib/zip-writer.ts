@@ -0,0 +1,711 @@
+/**
+ * ZIP Writer
+ * Ensambla archivos ZIP a partir de datos ya comprimidos (copia directa)
+ * o comprimiendo el contenido con DEFLATE al nivel indicado, como archivo
+ * único o como volúmenes de un ZIP dividido (.z01, .z02, ..., .zip)
+ */
+
+import { deflateRaw } from 'pako';
+import {
+  ZIP_SIGNATURES,
+  ZIP_RECORD_SIZES,
+  ZIP_COMPRESSION_METHODS,
+  ZIP_FLAG_UTF8,
+  ZIP_FLAG_DATA_DESCRIPTOR,
+  ZIP_FLAG_ENCRYPTED,
+  ZIP_VERSION_DEFAULT,
+  ZIP_VERSION_AES,
+  ZIP_VERSION_ZIP64,
+  ZIP64_LIMITS,
+  ZIP64_EXTRA_FIELD_ID,
+  crc32,
+  setUint64,
+  dateToDosDateTime,
+  WINZIP_AES_METHOD
+} from './zip-format';
+import { buildWinZipAesExtraField, type WinZipAesEncryptor } from './zip-crypto';
+import type { ZipEntryInfo } from './zip-reader';
+
+// La misma firma marca el inicio del primer volumen de un ZIP dividido
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const DATA_DESCRIPTOR_SIZE = 16;
+const ZIP64_DATA_DESCRIPTOR_SIZE = 24;
+// Extra field ZIP64 de la cabecera local: id, longitud y ambos tamaños
+const ZIP64_LOCAL_EXTRA_SIZE = 20;
+// Peor caso en el directorio central: id, longitud, ambos tamaños y desplazamiento
+const ZIP64_CENTRAL_EXTRA_SIZE = 28;
+const SPLIT_SIGNATURE_SIZE = 4;
+// Extra field de relleno (el id que usa zipalign); los lectores ignoran su contenido
+const PADDING_EXTRA_FIELD_ID = 0xd935;
+const PADDING_EXTRA_FIELD_MIN_SIZE = 4;
+
+export interface ZipWriterEntryOptions {
+  lastModified?: Date;
+  comment?: string;
+  versionMadeBy?: number; // El byte alto indica cómo interpretar externalAttributes
+  externalAttributes?: number;
+  encryption?: WinZipAesEncryptor | undefined; // Cifra la entrada con WinZip AES-256
+}
+
+/**
+ * Campos de una entrada tal como se escriben en las cabeceras
+ */
+interface ZipRecord {
+  name: Uint8Array;
+  comment: Uint8Array;
+  versionMadeBy: number;
+  versionNeeded: number;
+  flags: number;
+  compressionMethod: number;
+  dosDate: number;
+  dosTime: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  internalAttributes: number;
+  externalAttributes: number;
+  extraFields: Uint8Array; // Se repiten en la cabecera local y en el directorio central
+}
+
+/**
+ * Entrada ya escrita: cabeceras más su posición en el flujo de salida
+ */
+interface WrittenRecord extends ZipRecord {
+  localHeaderOffset: number;
+  endOffset: number;
+}
+
+export interface ZipVolumeEntry {
+  name: string;
+  firstVolume: number;
+  lastVolume: number;
+}
+
+export interface ZipSpannedOutput {
+  volumes: Blob[];
+  entries: ZipVolumeEntry[];
+}
+
+const utf8Encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder('utf-8');
+
+/**
+ * Escritor de ZIP que acumula las partes y genera un único Blob al final
+ */
+export class ZipWriter {
+  private readonly parts: BlobPart[] = [];
+  private readonly records: WrittenRecord[] = [];
+  private offset = 0;
+
+  /**
+   * Bytes de cabeceras (local y directorio central) que añade una entrada;
+   * extraLength son los extra fields que se repiten en ambas
+   */
+  public static estimateEntryOverhead(name: string, comment = '', zip64 = false, extraLength = 0): number {
+    const nameLength = utf8Encoder.encode(name).byteLength;
+    const zip64Extra = zip64 ? ZIP64_LOCAL_EXTRA_SIZE + ZIP64_CENTRAL_EXTRA_SIZE : 0;
+    return ZIP_RECORD_SIZES.LOCAL_FILE_HEADER + ZIP_RECORD_SIZES.CENTRAL_DIRECTORY_HEADER +
+      nameLength * 2 + utf8Encoder.encode(comment).byteLength + zip64Extra + extraLength * 2;
+  }
+
+  /**
+   * Bytes del registro de fin del directorio central, incluido el comentario del archivo
+   */
+  public static estimateArchiveOverhead(comment = '', zip64 = false): number {
+    const zip64Records = zip64
+      ? ZIP_RECORD_SIZES.ZIP64_END_OF_CENTRAL_DIRECTORY + ZIP_RECORD_SIZES.ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR
+      : 0;
+    return ZIP_RECORD_SIZES.END_OF_CENTRAL_DIRECTORY + utf8Encoder.encode(comment).byteLength + zip64Records;
+  }
+
+  /**
+   * Bytes escritos hasta ahora (sin directorio central)
+   */
+  public get size(): number {
+    return this.offset;
+  }
+
+  /**
+   * Copia una entrada sin descomprimirla: mismos bytes, CRC32 y tamaños que el origen.
+   * Con un cifrador, los datos comprimidos se cifran con WinZip AES-256.
+   */
+  public addRawEntry(entry: ZipEntryInfo, rawData: Uint8Array | Blob, encryption?: WinZipAesEncryptor): void {
+    const rawSize = rawData instanceof Blob ? rawData.size : rawData.byteLength;
+    if (rawSize !== entry.compressedSize) {
+      throw new Error(`Raw data size mismatch for entry "${entry.name}"`);
+    }
+
+    if (encryption) {
+      if (rawData instanceof Blob || entry.encryption) {
+        throw new Error(`Entry "${entry.name}" cannot be encrypted while copying`);
+      }
+      this.addEncryptedRawEntry(entry, rawData, encryption);
+      return;
+    }
+
+    const name = utf8Encoder.encode(entry.name);
+    const comment = utf8Encoder.encode(entry.comment);
+
+    this.writeEntry(
+      {
+        name,
+        comment,
+        versionMadeBy: entry.versionMadeBy,
+        versionNeeded: entry.versionNeeded,
+        // Los nombres se reescriben siempre en UTF-8
+        flags: (entry.flags & ~ZIP_FLAG_UTF8) | (this.isAscii(name, comment) ? 0 : ZIP_FLAG_UTF8),
+        compressionMethod: entry.compressionMethod,
+        dosDate: entry.dosDate,
+        dosTime: entry.dosTime,
+        crc32: entry.crc32,
+        compressedSize: entry.compressedSize,
+        uncompressedSize: entry.uncompressedSize,
+        internalAttributes: entry.internalAttributes,
+        externalAttributes: entry.externalAttributes,
+        // WinZip AES necesita su extra field para conocer la fuerza y el método real
+        extraFields: entry.encryption?.method === 'aes'
+          ? buildWinZipAesExtraField(entry.encryption)
+          : new Uint8Array(0)
+      },
+      rawData
+    );
+  }
+
+  /**
+   * Agrega una entrada comprimiendo su contenido (nivel 0 = STORE)
+   */
+  public addEntry(
+    name: string,
+    content: Uint8Array,
+    compressionLevel: number,
+    options: ZipWriterEntryOptions = {}
+  ): void {
+    const store = compressionLevel === 0;
+    const compressionMethod = store ? ZIP_COMPRESSION_METHODS.STORE : ZIP_COMPRESSION_METHODS.DEFLATE;
+    const compressed = store
+      ? content
+      : deflateRaw(content, { level: compressionLevel as 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 });
+    const data = options.encryption ? options.encryption.encrypt(compressed) : compressed;
+    const nameBytes = utf8Encoder.encode(name);
+    const comment = utf8Encoder.encode(options.comment || '');
+    const { dosDate, dosTime } = dateToDosDateTime(options.lastModified || new Date());
+    const utf8Flag = this.isAscii(nameBytes, comment) ? 0 : ZIP_FLAG_UTF8;
+
+    this.writeEntry(
+      {
+        name: nameBytes,
+        comment,
+        versionMadeBy: options.versionMadeBy ?? ZIP_VERSION_DEFAULT,
+        versionNeeded: options.encryption ? ZIP_VERSION_AES : ZIP_VERSION_DEFAULT,
+        flags: options.encryption ? utf8Flag | ZIP_FLAG_ENCRYPTED : utf8Flag,
+        compressionMethod: options.encryption ? WINZIP_AES_METHOD : compressionMethod,
+        dosDate,
+        dosTime,
+        // AE-2 no guarda el CRC32: el código de autenticación protege los datos
+        crc32: options.encryption ? 0 : crc32(content),
+        compressedSize: data.byteLength,
+        uncompressedSize: content.byteLength,
+        internalAttributes: 0,
+        externalAttributes: options.externalAttributes || 0,
+        extraFields: options.encryption
+          ? buildWinZipAesExtraField(options.encryption.describe(compressionMethod))
+          : new Uint8Array(0)
+      },
+      data
+    );
+  }
+
+  /**
+   * Agrega una entrada con STORE a partir de un Blob cuyo CRC32 ya se conoce: los datos
+   * se copian al generar el ZIP sin leerlos nunca en memoria
+   */
+  public addStoredEntry(
+    name: string,
+    data: Blob,
+    checksum: number,
+    options: Omit<ZipWriterEntryOptions, 'encryption'> = {}
+  ): void {
+    const nameBytes = utf8Encoder.encode(name);
+    const comment = utf8Encoder.encode(options.comment || '');
+    const { dosDate, dosTime } = dateToDosDateTime(options.lastModified || new Date());
+
+    this.writeEntry(
+      {
+        name: nameBytes,
+        comment,
+        versionMadeBy: options.versionMadeBy ?? ZIP_VERSION_DEFAULT,
+        versionNeeded: ZIP_VERSION_DEFAULT,
+        flags: this.isAscii(nameBytes, comment) ? 0 : ZIP_FLAG_UTF8,
+        compressionMethod: ZIP_COMPRESSION_METHODS.STORE,
+        dosDate,
+        dosTime,
+        crc32: checksum,
+        compressedSize: data.size,
+        uncompressedSize: data.size,
+        internalAttributes: 0,
+        externalAttributes: options.externalAttributes || 0,
+        extraFields: new Uint8Array(0)
+      },
+      data
+    );
+  }
+
+  /**
+   * Copia una entrada sin cifrar cifrando sus datos comprimidos con WinZip AES-256
+   */
+  private addEncryptedRawEntry(entry: ZipEntryInfo, rawData: Uint8Array, encryption: WinZipAesEncryptor): void {
+    const name = utf8Encoder.encode(entry.name);
+    const comment = utf8Encoder.encode(entry.comment);
+    const data = encryption.encrypt(rawData);
+
+    this.writeEntry(
+      {
+        name,
+        comment,
+        versionMadeBy: entry.versionMadeBy,
+        versionNeeded: Math.max(entry.versionNeeded, ZIP_VERSION_AES),
+        // Los tamaños ya se conocen, así que no hace falta descriptor de datos
+        flags: (entry.flags & ~(ZIP_FLAG_UTF8 | ZIP_FLAG_DATA_DESCRIPTOR)) | ZIP_FLAG_ENCRYPTED |
+          (this.isAscii(name, comment) ? 0 : ZIP_FLAG_UTF8),
+        compressionMethod: WINZIP_AES_METHOD,
+        dosDate: entry.dosDate,
+        dosTime: entry.dosTime,
+        crc32: 0,
+        compressedSize: data.byteLength,
+        uncompressedSize: entry.uncompressedSize,
+        internalAttributes: entry.internalAttributes,
+        externalAttributes: entry.externalAttributes,
+        extraFields: buildWinZipAesExtraField(encryption.describe(entry.compressionMethod))
+      },
+      data
+    );
+  }
+
+  /**
+   * Genera el ZIP completo con directorio central y EOCD
+   */
+  public generate(comment = ''): Blob {
+    const centralDirectory = this.records.map(record =>
+      this.buildCentralRecord(record, 0, record.localHeaderOffset)
+    );
+    const centralDirectorySize = this.sumLengths(centralDirectory);
+
+    const eocd = this.buildEndOfCentralDirectory({
+      diskNumber: 0,
+      centralDirectoryDisk: 0,
+      entriesOnDisk: this.records.length,
+      centralDirectorySize,
+      centralDirectoryOffset: this.offset,
+      endRecordsOffset: this.offset + centralDirectorySize,
+      zip64: this.needsZip64End(this.offset + centralDirectorySize),
+      comment
+    });
+
+    return new Blob([...this.parts, ...centralDirectory, eocd], {
+      type: 'application/zip'
+    });
+  }
+
+  /**
+   * Genera un ZIP dividido (PKWARE split archive) con volúmenes de tamaño fijo
+   *
+   * Cabeceras, datos y registros del directorio central cruzan volúmenes como permite
+   * PKWARE, así que todos los volúmenes menos el último miden exactamente volumeSize.
+   * Solo los registros finales (EOCD y los ZIP64) van enteros en el último volumen: si
+   * cruzarían un límite, el último registro central se rellena hasta ese límite.
+   */
+  public generateSpanned(volumeSize: number, comment = ''): ZipSpannedOutput {
+    const centralDirectorySize = this.estimateCentralDirectorySize();
+    // Los desplazamientos por volumen nunca superan a los globales
+    const zip64 = this.needsZip64End(SPLIT_SIGNATURE_SIZE + this.offset + centralDirectorySize);
+    const eocdLength = ZipWriter.estimateArchiveOverhead(comment, zip64);
+
+    // Si todo cabe en un volumen se genera un ZIP normal
+    if (this.offset + centralDirectorySize + eocdLength <= volumeSize) {
+      return {
+        volumes: [this.generate(comment)],
+        entries: this.records.map(record => ({
+          name: this.decodeName(record),
+          firstVolume: 0,
+          lastVolume: 0
+        }))
+      };
+    }
+
+    // Posiciones globales: el primer volumen empieza con la firma de división
+    const layout = new VolumeLayout(volumeSize);
+    const entries: ZipVolumeEntry[] = [];
+    const headerLocations: Array<{ disk: number; offset: number }> = [];
+
+    for (const record of this.records) {
+      const headerStart = SPLIT_SIGNATURE_SIZE + record.localHeaderOffset;
+      const disk = layout.placeData(headerStart, record.endOffset - record.localHeaderOffset);
+
+      headerLocations.push({ disk, offset: layout.offsetOnDisk(headerStart, disk) });
+      entries.push({ name: this.decodeName(record), firstVolume: disk, lastVolume: layout.currentDisk });
+    }
+
+    const centralDirectory = this.records.map((record, index) => {
+      const location = headerLocations[index]!;
+      return this.buildCentralRecord(record, location.disk, location.offset);
+    });
+    const centralDirectoryStart = SPLIT_SIGNATURE_SIZE + this.offset;
+    let position = centralDirectoryStart + this.sumLengths(centralDirectory);
+
+    // Relleno para que los registros finales empiecen en el último volumen sin acortar el anterior
+    const gap = layout.gapBefore(position, eocdLength);
+    const lastRecord = this.records[this.records.length - 1];
+    if (gap > 0 && lastRecord) {
+      const padding = Math.max(gap, PADDING_EXTRA_FIELD_MIN_SIZE);
+      const last = centralDirectory[centralDirectory.length - 1]!;
+      const extraLength = new DataView(last.buffer).getUint16(30, true);
+      if (extraLength + padding <= 0xffff) {
+        const location = headerLocations[headerLocations.length - 1]!;
+        centralDirectory[centralDirectory.length - 1] =
+          this.buildCentralRecord(lastRecord, location.disk, location.offset, padding);
+        position += padding;
+      }
+    }
+
+    const centralRecordDisks: number[] = [];
+    let recordStart = centralDirectoryStart;
+    for (const central of centralDirectory) {
+      centralRecordDisks.push(layout.placeData(recordStart, central.byteLength));
+      recordStart += central.byteLength;
+    }
+
+    const lastDisk = layout.placeRecord(position, eocdLength);
+    const centralDirectoryDisk = centralRecordDisks[0] ?? lastDisk;
+
+    const eocd = this.buildEndOfCentralDirectory({
+      diskNumber: lastDisk,
+      centralDirectoryDisk,
+      entriesOnDisk: centralRecordDisks.filter(disk => disk === lastDisk).length,
+      centralDirectorySize: position - centralDirectoryStart,
+      centralDirectoryOffset: layout.offsetOnDisk(centralDirectoryStart, centralDirectoryDisk),
+      endRecordsOffset: layout.offsetOnDisk(position, lastDisk),
+      zip64,
+      comment
+    });
+
+    const signature = new Uint8Array(SPLIT_SIGNATURE_SIZE);
+    new DataView(signature.buffer).setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+    const stream = new Blob([signature, ...this.parts, ...centralDirectory, eocd]);
+
+    // Los volúmenes son vistas del flujo completo, sin copiar datos
+    const volumes = layout.diskStarts.map((diskStart, disk) =>
+      disk < lastDisk
+        ? stream.slice(diskStart, layout.diskStarts[disk + 1], 'application/octet-stream')
+        : stream.slice(diskStart, stream.size, 'application/zip')
+    );
+
+    return { volumes, entries };
+  }
+
+  /**
+   * Escribe cabecera local, datos y data descriptor opcional
+   */
+  private writeEntry(record: ZipRecord, data: Uint8Array | Blob): void {
+    const localHeaderOffset = this.offset;
+    // Con el bit 3 activo, CRC y tamaños van en el data descriptor posterior
+    const deferred = (record.flags & ZIP_FLAG_DATA_DESCRIPTOR) !== 0;
+    // Tamaños de 4 GB o más: van en el extra field ZIP64 y el descriptor usa 64 bits
+    const zip64 = record.compressedSize >= ZIP64_LIMITS.SIZE || record.uncompressedSize >= ZIP64_LIMITS.SIZE;
+    const versionNeeded = zip64 ? Math.max(record.versionNeeded, ZIP_VERSION_ZIP64) : record.versionNeeded;
+    const zip64ExtraLength = zip64 ? ZIP64_LOCAL_EXTRA_SIZE : 0;
+    const extraLength = zip64ExtraLength + record.extraFields.byteLength;
+
+    const local = new Uint8Array(ZIP_RECORD_SIZES.LOCAL_FILE_HEADER + record.name.byteLength + extraLength);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, ZIP_SIGNATURES.LOCAL_FILE_HEADER, true);
+    localView.setUint16(4, versionNeeded, true);
+    localView.setUint16(6, record.flags, true);
+    localView.setUint16(8, record.compressionMethod, true);
+    localView.setUint16(10, record.dosTime, true);
+    localView.setUint16(12, record.dosDate, true);
+    localView.setUint32(14, deferred ? 0 : record.crc32, true);
+    localView.setUint32(18, zip64 ? ZIP64_LIMITS.SIZE : deferred ? 0 : record.compressedSize, true);
+    localView.setUint32(22, zip64 ? ZIP64_LIMITS.SIZE : deferred ? 0 : record.uncompressedSize, true);
+    localView.setUint16(26, record.name.byteLength, true);
+    localView.setUint16(28, extraLength, true);
+    local.set(record.name, ZIP_RECORD_SIZES.LOCAL_FILE_HEADER);
+
+    if (zip64) {
+      const extraStart = ZIP_RECORD_SIZES.LOCAL_FILE_HEADER + record.name.byteLength;
+      localView.setUint16(extraStart, ZIP64_EXTRA_FIELD_ID, true);
+      localView.setUint16(extraStart + 2, ZIP64_LOCAL_EXTRA_SIZE - 4, true);
+      setUint64(localView, extraStart + 4, deferred ? 0 : record.uncompressedSize);
+      setUint64(localView, extraStart + 12, deferred ? 0 : record.compressedSize);
+    }
+    local.set(record.extraFields, ZIP_RECORD_SIZES.LOCAL_FILE_HEADER + record.name.byteLength + zip64ExtraLength);
+
+    this.parts.push(local, data as BlobPart);
+    this.offset += local.byteLength + record.compressedSize;
+
+    if (deferred) {
+      const descriptor = new Uint8Array(zip64 ? ZIP64_DATA_DESCRIPTOR_SIZE : DATA_DESCRIPTOR_SIZE);
+      const descriptorView = new DataView(descriptor.buffer);
+      descriptorView.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+      descriptorView.setUint32(4, record.crc32, true);
+      if (zip64) {
+        setUint64(descriptorView, 8, record.compressedSize);
+        setUint64(descriptorView, 16, record.uncompressedSize);
+      } else {
+        descriptorView.setUint32(8, record.compressedSize, true);
+        descriptorView.setUint32(12, record.uncompressedSize, true);
+      }
+      this.parts.push(descriptor);
+      this.offset += descriptor.byteLength;
+    }
+
+    this.records.push({
+      ...record,
+      localHeaderOffset,
+      endOffset: this.offset
+    });
+  }
+
+  /**
+   * Construye el registro del directorio central de una entrada
+   */
+  private buildCentralRecord(
+    record: ZipRecord,
+    diskNumber: number,
+    localHeaderOffset: number,
+    padding = 0 // Bytes de un extra field de relleno al final de los demás
+  ): Uint8Array<ArrayBuffer> {
+    // Solo los campos que no caben en 32 bits van, en este orden, en el extra field ZIP64
+    const zip64Values = [
+      record.uncompressedSize >= ZIP64_LIMITS.SIZE ? record.uncompressedSize : null,
+      record.compressedSize >= ZIP64_LIMITS.SIZE ? record.compressedSize : null,
+      localHeaderOffset >= ZIP64_LIMITS.SIZE ? localHeaderOffset : null
+    ].filter((value): value is number => value !== null);
+    const zip64ExtraLength = zip64Values.length > 0 ? 4 + zip64Values.length * 8 : 0;
+    const extraLength = zip64ExtraLength + record.extraFields.byteLength + padding;
+    const versionNeeded = zip64ExtraLength > 0
+      ? Math.max(record.versionNeeded, ZIP_VERSION_ZIP64)
+      : record.versionNeeded;
+
+    if (diskNumber >= ZIP64_LIMITS.DISK) {
+      throw new Error('Too many volumes for a split archive');
+    }
+
+    const central = new Uint8Array(
+      ZIP_RECORD_SIZES.CENTRAL_DIRECTORY_HEADER + record.name.byteLength + extraLength + record.comment.byteLength
+    );
+    const view = new DataView(central.buffer);
+    view.setUint32(0, ZIP_SIGNATURES.CENTRAL_DIRECTORY_HEADER, true);
+    view.setUint16(4, record.versionMadeBy, true);
+    view.setUint16(6, versionNeeded, true);
+    view.setUint16(8, record.flags, true);
+    view.setUint16(10, record.compressionMethod, true);
+    view.setUint16(12, record.dosTime, true);
+    view.setUint16(14, record.dosDate, true);
+    view.setUint32(16, record.crc32, true);
+    view.setUint32(20, Math.min(record.compressedSize, ZIP64_LIMITS.SIZE), true);
+    view.setUint32(24, Math.min(record.uncompressedSize, ZIP64_LIMITS.SIZE), true);
+    view.setUint16(28, record.name.byteLength, true);
+    view.setUint16(30, extraLength, true);
+    view.setUint16(32, record.comment.byteLength, true);
+    view.setUint16(34, diskNumber, true);
+    view.setUint16(36, record.internalAttributes, true);
+    view.setUint32(38, record.externalAttributes, true);
+    view.setUint32(42, Math.min(localHeaderOffset, ZIP64_LIMITS.SIZE), true);
+    central.set(record.name, ZIP_RECORD_SIZES.CENTRAL_DIRECTORY_HEADER);
+
+    const extraStart = ZIP_RECORD_SIZES.CENTRAL_DIRECTORY_HEADER + record.name.byteLength;
+    if (zip64ExtraLength > 0) {
+      view.setUint16(extraStart, ZIP64_EXTRA_FIELD_ID, true);
+      view.setUint16(extraStart + 2, zip64ExtraLength - 4, true);
+      zip64Values.forEach((value, i) => setUint64(view, extraStart + 4 + i * 8, value));
+    }
+    central.set(record.extraFields, extraStart + zip64ExtraLength);
+    if (padding > 0) {
+      const paddingStart = extraStart + extraLength - padding;
+      view.setUint16(paddingStart, PADDING_EXTRA_FIELD_ID, true);
+      view.setUint16(paddingStart + 2, padding - PADDING_EXTRA_FIELD_MIN_SIZE, true);
+    }
+
+    central.set(record.comment, extraStart + extraLength);
+
+    return central;
+  }
+
+  /**
+   * Construye el registro End Of Central Directory
+   */
+  private buildEndOfCentralDirectory(fields: {
+    diskNumber: number;
+    centralDirectoryDisk: number;
+    entriesOnDisk: number;
+    centralDirectorySize: number;
+    centralDirectoryOffset: number;
+    endRecordsOffset: number; // Desplazamiento (en su volumen) donde empiezan estos registros
+    zip64: boolean;
+    comment: string;
+  }): Uint8Array<ArrayBuffer> {
+    const comment = utf8Encoder.encode(fields.comment);
+    const zip64Length = fields.zip64
+      ? ZIP_RECORD_SIZES.ZIP64_END_OF_CENTRAL_DIRECTORY + ZIP_RECORD_SIZES.ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR
+      : 0;
+    const records = new Uint8Array(zip64Length + ZIP_RECORD_SIZES.END_OF_CENTRAL_DIRECTORY + comment.byteLength);
+    const view = new DataView(records.buffer);
+
+    if (fields.zip64) {
+      // Registro ZIP64 EOCD seguido de su localizador
+      view.setUint32(0, ZIP_SIGNATURES.ZIP64_END_OF_CENTRAL_DIRECTORY, true);
+      setUint64(view, 4, ZIP_RECORD_SIZES.ZIP64_END_OF_CENTRAL_DIRECTORY - 12);
+      view.setUint16(12, ZIP_VERSION_ZIP64, true);
+      view.setUint16(14, ZIP_VERSION_ZIP64, true);
+      view.setUint32(16, fields.diskNumber, true);
+      view.setUint32(20, fields.centralDirectoryDisk, true);
+      setUint64(view, 24, fields.entriesOnDisk);
+      setUint64(view, 32, this.records.length);
+      setUint64(view, 40, fields.centralDirectorySize);
+      setUint64(view, 48, fields.centralDirectoryOffset);
+
+      const locator = ZIP_RECORD_SIZES.ZIP64_END_OF_CENTRAL_DIRECTORY;
+      view.setUint32(locator, ZIP_SIGNATURES.ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR, true);
+      view.setUint32(locator + 4, fields.diskNumber, true);
+      setUint64(view, locator + 8, fields.endRecordsOffset);
+      view.setUint32(locator + 16, fields.diskNumber + 1, true);
+    }
+
+    // Con ZIP64 los campos que no caben quedan saturados
+    const eocd = zip64Length;
+    view.setUint32(eocd, ZIP_SIGNATURES.END_OF_CENTRAL_DIRECTORY, true);
+    view.setUint16(eocd + 4, fields.diskNumber, true);
+    view.setUint16(eocd + 6, fields.centralDirectoryDisk, true);
+    view.setUint16(eocd + 8, Math.min(fields.entriesOnDisk, ZIP64_LIMITS.ENTRIES), true);
+    view.setUint16(eocd + 10, Math.min(this.records.length, ZIP64_LIMITS.ENTRIES), true);
+    view.setUint32(eocd + 12, Math.min(fields.centralDirectorySize, ZIP64_LIMITS.SIZE), true);
+    view.setUint32(eocd + 16, Math.min(fields.centralDirectoryOffset, ZIP64_LIMITS.SIZE), true);
+    view.setUint16(eocd + 20, comment.byteLength, true);
+    records.set(comment, eocd + ZIP_RECORD_SIZES.END_OF_CENTRAL_DIRECTORY);
+
+    return records;
+  }
+
+  /**
+   * Indica si el final del archivo necesita los registros ZIP64
+   */
+  private needsZip64End(endOfCentralDirectory: number): boolean {
+    return this.records.length >= ZIP64_LIMITS.ENTRIES || endOfCentralDirectory >= ZIP64_LIMITS.SIZE;
+  }
+
+  /**
+   * Tamaño que ocupará el directorio central
+   */
+  private estimateCentralDirectorySize(): number {
+    return this.sumLengths(
+      this.records.map(record => this.buildCentralRecord(record, 0, record.localHeaderOffset))
+    );
+  }
+
+  /**
+   * Suma las longitudes de varios bloques
+   */
+  private sumLengths(chunks: Uint8Array[]): number {
+    return chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  }
+
+  /**
+   * Recupera el nombre de una entrada escrita
+   */
+  private decodeName(record: ZipRecord): string {
+    return utf8Decoder.decode(record.name);
+  }
+
+  /**
+   * Indica si los bytes son ASCII puro (no requieren el flag UTF-8)
+   */
+  private isAscii(...chunks: Uint8Array[]): boolean {
+    return chunks.every(chunk => chunk.every(byte => byte < 0x80));
+  }
+}
+
+/**
+ * Reparte un flujo de bytes en volúmenes de tamaño fijo
+ */
+class VolumeLayout {
+  private readonly starts: number[] = [0];
+
+  constructor(private readonly volumeSize: number) {}
+
+  /**
+   * Posición global donde empieza cada volumen
+   */
+  public get diskStarts(): readonly number[] {
+    return this.starts;
+  }
+
+  /**
+   * Volumen que se está llenando
+   */
+  public get currentDisk(): number {
+    return this.starts.length - 1;
+  }
+
+  /**
+   * Ubica datos que pueden cruzar volúmenes y devuelve el volumen donde empiezan
+   */
+  public placeData(position: number, length: number): number {
+    const disk = this.locate(position);
+    if (length > 0) {
+      this.locate(position + length - 1);
+    }
+    return disk;
+  }
+
+  /**
+   * Ubica un registro que no puede partirse y devuelve su volumen; si no cabe en el
+   * que se está llenando, ese volumen se cierra antes
+   */
+  public placeRecord(position: number, length: number): number {
+    this.locate(position);
+
+    if (position > this.currentStart && position + length > this.currentEnd) {
+      this.starts.push(position);
+    }
+
+    return this.currentDisk;
+  }
+
+  /**
+   * Bytes hasta el final del volumen si un registro que no puede partirse lo cruzaría; 0 si cabe
+   */
+  public gapBefore(position: number, length: number): number {
+    this.locate(position);
+    return position > this.currentStart && position + length > this.currentEnd ? this.currentEnd - position : 0;
+  }
+
+  /**
+   * Convierte una posición global en desplazamiento dentro de su volumen
+   */
+  public offsetOnDisk(position: number, disk: number): number {
+    return position - this.starts[disk]!;
+  }
+
+  /**
+   * Volumen que contiene el byte de la posición indicada
+   */
+  private locate(position: number): number {
+    while (position >= this.currentEnd) {
+      this.starts.push(this.currentEnd);
+    }
+
+    let disk = this.currentDisk;
+    while (this.starts[disk]! > position) {
+      disk--;
+    }
+    return disk;
+  }
+
+  private get currentStart(): number {
+    return this.starts[this.starts.length - 1]!;
+  }
+
+  private get currentEnd(): number {
+    return this.currentStart + this.volumeSize;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Utilidades de las pruebas de ida y vuelta: dividir un archivo con ZipProcessor,
+ * volver a unirlo con FragmentMerger y comparar las entradas resultantes
+ */
+
+import { createArchiveReader } from '@/lib/archive-reader';
+import type { InputSource } from '@/lib/file-collection';
+import { FragmentMerger, type MergeOptions } from '@/lib/fragment-merger';
+import { parseManifest } from '@/lib/manifest';
+import { sha256Hex } from '@/lib/sha256';
+import { ZipProcessor } from '@/lib/zip-processor';
+import { ZipWriter } from '@/lib/zip-writer';
+import type { ProcessingManifest, ProcessingOptions } from '@/types/processing';
+
+export interface SplitResult {
+  manifest: ProcessingManifest;
+  fragments: File[];
+}
+
+const BASE_OPTIONS: ProcessingOptions = {
+  strategy: 'CLIENT_SIDE',
+  fragmentSize: 64 * 1024,
+  compressionLevel: 6,
+  includeManifest: true,
+  preserveStructure: true
+};
+
+/**
+ * Contenido pseudoaleatorio (no comprimible) y reproducible a partir de una semilla
+ */
+export function createRandomContent(size: number, seed = 1): Uint8Array<ArrayBuffer> {
+  const data = new Uint8Array(size);
+  let state = seed >>> 0 || 1;
+  for (let i = 0; i < size; i++) {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    data[i] = state & 0xff;
+  }
+  return data;
+}
+
+/**
+ * Texto repetitivo que DEFLATE reduce mucho
+ */
+export function createTextContent(size: number, line = 'INFO request served in 12ms\n'): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(line.repeat(Math.ceil(size / line.length)).slice(0, size));
+}
+
+/**
+ * ZIP de origen con las entradas indicadas; los directorios se escriben primero, vacíos
+ */
+export async function createZip(
+  contents: Map<string, Uint8Array>,
+  compressionLevel = 6,
+  directories: string[] = []
+): Promise<File> {
+  const writer = new ZipWriter();
+  for (const directory of directories) {
+    writer.addEntry(directory, new Uint8Array(0), 0);
+  }
+  for (const [name, content] of contents) {
+    writer.addEntry(name, content, compressionLevel);
+  }
+  return new File([await writer.generate().arrayBuffer()], 'source.zip');
+}
+
+/**
+ * Divide el archivo o la carpeta y devuelve el manifest tal como lo lee la app al unir
+ * (JSON migrado y validado)
+ */
+export async function splitArchive(file: InputSource, options: Partial<ProcessingOptions> = {}): Promise<SplitResult> {
+  const result = await new ZipProcessor().processFile(file, { ...BASE_OPTIONS, ...options });
+  if (!result.success || !result.manifest) {
+    throw new Error(result.error?.message ?? 'Processing failed');
+  }
+
+  // Como al elegirlos en disco: un único bloque por archivo en lugar del Blob compuesto del escritor
+  const fragments = await Promise.all(result.fragments.map(async fragment =>
+    new File([await fragment.blob!.arrayBuffer()], fragment.name)
+  ));
+
+  return { manifest: parseManifest(JSON.stringify(result.manifest)), fragments };
+}
+
+/**
+ * Verifica el conjunto y reconstruye el archivo original
+ */
+export async function mergeFragments(
+  manifest: ProcessingManifest,
+  fragments: File[],
+  options: MergeOptions = {}
+): Promise<File> {
+  const merger = new FragmentMerger();
+  const report = await merger.inspect(manifest, fragments);
+  const merged = await merger.merge(manifest, report, options);
+  return new File([await merged.blob.arrayBuffer()], merged.name);
+}
+
+/**
+ * SHA-256 del contenido de cada entrada, por ruta: comparar hashes es mucho más rápido
+ * que comparar byte a byte con toEqual
+ */
+export async function hashEntries(contents: Map<string, Uint8Array>): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+  for (const [name, content] of contents) {
+    hashes.set(name, await sha256Hex(content));
+  }
+  return hashes;
+}
+
+/**
+ * SHA-256 de cada entrada (sin directorios) de un ZIP, TAR o TAR.GZ, por ruta; las
+ * entradas cifradas se leen con la contraseña
+ */
+export async function readArchiveEntries(file: File, password?: string): Promise<Map<string, string>> {
+  const reader = createArchiveReader(file, password);
+  const { entries } = await reader.readCentralDirectory();
+  const hashes = new Map<string, string>();
+
+  for (const entry of entries) {
+    if (!entry.dir) {
+      hashes.set(entry.name, await sha256Hex(await reader.readEntryData(entry)));
+    }
+  }
+
+  return hashes;
+}
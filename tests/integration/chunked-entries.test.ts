@@ -0,0 +1,87 @@
+import { describe, expect, it } from '@jest/globals';
+import { FragmentMerger } from '@/lib/fragment-merger';
+import { sha256Hex } from '@/lib/sha256';
+import {
+  createRandomContent,
+  createZip,
+  createTextContent,
+  hashEntries,
+  mergeFragments,
+  readArchiveEntries,
+  splitArchive
+} from '../helpers/archives';
+
+const FRAGMENT_SIZE = 64 * 1024;
+
+describe('entries larger than a fragment', () => {
+  const contents = new Map<string, Uint8Array>([
+    ['video.bin', createRandomContent(200 * 1024, 5)],
+    ['notes.txt', createTextContent(1024)]
+  ]);
+
+  it('splits the entry into parts and merges it back', async () => {
+    const { manifest, fragments } = await splitArchive(await createZip(contents), { fragmentSize: FRAGMENT_SIZE });
+
+    const chunked = manifest.chunkedEntries?.find(entry => entry.path === 'video.bin');
+    expect(chunked?.parts.length).toBeGreaterThan(1);
+    expect(chunked?.parts.reduce((total, part) => total + part.length, 0)).toBe(200 * 1024);
+
+    const merged = await mergeFragments(manifest, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(contents));
+  });
+
+  it('keeps every fragment within the limit in strict mode', async () => {
+    const { manifest, fragments } = await splitArchive(await createZip(contents), {
+      fragmentSize: FRAGMENT_SIZE,
+      strictSizeLimit: true
+    });
+
+    for (const fragment of fragments) {
+      expect(fragment.size).toBeLessThanOrEqual(FRAGMENT_SIZE);
+    }
+    const merged = await mergeFragments(manifest, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(contents));
+  });
+
+  it('sizes the parts of a compressible entry by its compressed size', async () => {
+    const log = new Map([['app.log', createTextContent(1024 * 1024)]]);
+    const { manifest, fragments } = await splitArchive(await createZip(log), {
+      fragmentSize: FRAGMENT_SIZE,
+      strictSizeLimit: true
+    });
+
+    // Sin comprimir harían falta 16 partes; comprimido el registro cabe en muchas menos
+    expect(fragments.length).toBeLessThan(4);
+    const merged = await mergeFragments(manifest, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(log));
+  });
+
+  it('refuses to merge when a fragment holding a part was altered', async () => {
+    const { manifest, fragments } = await splitArchive(await createZip(contents), { fragmentSize: FRAGMENT_SIZE });
+    const part = manifest.chunkedEntries![0]!.parts[0]!;
+    const index = manifest.fragments.findIndex(fragment => fragment.id === part.fragmentId);
+
+    const bytes = new Uint8Array(await fragments[index]!.arrayBuffer());
+    bytes[bytes.byteLength >> 1]! ^= 0xff;
+    fragments[index] = new File([bytes], fragments[index]!.name);
+
+    const merger = new FragmentMerger();
+    const report = await merger.inspect(manifest, fragments);
+    expect(report.complete).toBe(false);
+    expect(report.fragments[index]!.status).toBe('checksum-mismatch');
+    await expect(merger.merge(manifest, report)).rejects.toThrow('incomplete or has damaged fragments');
+  });
+
+  it('checks the part hashes even when the fragment checksums were rewritten', async () => {
+    const { manifest, fragments } = await splitArchive(await createZip(contents), { fragmentSize: FRAGMENT_SIZE });
+    const part = manifest.chunkedEntries![0]!.parts[0]!;
+    const index = manifest.fragments.findIndex(fragment => fragment.id === part.fragmentId);
+
+    const bytes = new Uint8Array(await fragments[index]!.arrayBuffer());
+    bytes[bytes.byteLength >> 1]! ^= 0xff;
+    fragments[index] = new File([bytes], fragments[index]!.name);
+    manifest.fragments[index]!.checksum = await sha256Hex(bytes);
+
+    await expect(mergeFragments(manifest, fragments)).rejects.toThrow(`Checksum mismatch in part "${part.name}"`);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEFAULT_COMPRESSION_RULES } from '@/lib/compression-policy';
+import { ZIP_COMPRESSION_METHODS } from '@/lib/zip-format';
+import { ZipReader } from '@/lib/zip-reader';
+import {
+  createRandomContent,
+  createTextContent,
+  createZip,
+  hashEntries,
+  mergeFragments,
+  readArchiveEntries,
+  splitArchive
+} from '../helpers/archives';
+
+describe('per-entry compression in the fragments', () => {
+  const contents = new Map<string, Uint8Array>([
+    ['photos/a.jpg', createRandomContent(30 * 1024, 51)],
+    ['photos/b.JPEG', createRandomContent(20 * 1024, 52)],
+    ['photos/c.png', createTextContent(8 * 1024)],
+    ['notes.txt', createTextContent(16 * 1024)]
+  ]);
+
+  /**
+   * Método de compresión de cada entrada en los fragmentos, por ruta
+   */
+  async function readMethods(fragments: File[]): Promise<Map<string, number>> {
+    const methods = new Map<string, number>();
+    for (const fragment of fragments) {
+      const { entries } = await new ZipReader(fragment).readCentralDirectory();
+      for (const entry of entries) {
+        methods.set(entry.name, entry.compressionMethod);
+      }
+    }
+    return methods;
+  }
+
+  it('stores JPEG entries with the default rules and deflates the rest', async () => {
+    const { manifest, fragments } = await splitArchive(await createZip(contents, 6), {
+      compressionRules: DEFAULT_COMPRESSION_RULES
+    });
+
+    const methods = await readMethods(fragments);
+    expect(methods.get('photos/a.jpg')).toBe(ZIP_COMPRESSION_METHODS.STORE);
+    expect(methods.get('photos/b.JPEG')).toBe(ZIP_COMPRESSION_METHODS.STORE);
+    expect(methods.get('photos/c.png')).toBe(ZIP_COMPRESSION_METHODS.DEFLATE);
+    expect(methods.get('notes.txt')).toBe(ZIP_COMPRESSION_METHODS.DEFLATE);
+    expect(manifest.metadata.compressionRules).toEqual(DEFAULT_COMPRESSION_RULES);
+
+    const merged = await mergeFragments(manifest, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(contents));
+  });
+
+  it('applies MIME type rules to each entry', async () => {
+    const { fragments } = await splitArchive(await createZip(contents, 6), {
+      compressionLevel: 0,
+      compressionRules: [{ match: 'text/plain', level: 9 }]
+    });
+
+    const methods = await readMethods(fragments);
+    expect(methods.get('notes.txt')).toBe(ZIP_COMPRESSION_METHODS.DEFLATE);
+    expect(methods.get('photos/c.png')).toBe(ZIP_COMPRESSION_METHODS.STORE);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import { WRONG_PASSWORD } from '@/lib/zip-format';
+import { ZipReader } from '@/lib/zip-reader';
+import {
+  createRandomContent,
+  createTextContent,
+  createZip,
+  hashEntries,
+  mergeFragments,
+  readArchiveEntries,
+  splitArchive
+} from '../helpers/archives';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+describe('AES-256 encrypted fragments', () => {
+  const contents = new Map<string, Uint8Array>([
+    ['notes.txt', createTextContent(8 * 1024)],
+    ['video.bin', createRandomContent(150 * 1024, 3)] // Mayor que un fragmento: se divide en partes
+  ]);
+
+  it('encrypts every entry and merges back the original contents', async () => {
+    const { manifest, fragments } = await splitArchive(await createZip(contents), {
+      fragmentSize: 64 * 1024,
+      encryptionPassphrase: PASSPHRASE
+    });
+
+    for (const fragment of fragments) {
+      const { entries } = await new ZipReader(fragment).readCentralDirectory();
+      for (const entry of entries) {
+        expect(entry.encryption).toMatchObject({ method: 'aes', version: 2, strength: 3 });
+      }
+    }
+
+    await expect(mergeFragments(manifest, fragments)).rejects.toThrow('Enter the passphrase');
+    const merged = await mergeFragments(manifest, fragments, { password: PASSPHRASE });
+    expect(await readArchiveEntries(merged, PASSPHRASE)).toEqual(await hashEntries(contents));
+  });
+
+  it('fails to read an entry with a tampered byte or a wrong passphrase', async () => {
+    // Sin compresión un byte alterado no rompe el DEFLATE: solo lo detecta el HMAC
+    const { fragments } = await splitArchive(await createZip(new Map([['notes.txt', createTextContent(1024)]])), {
+      fragmentSize: 64 * 1024,
+      compressionLevel: 0,
+      encryptionPassphrase: PASSPHRASE
+    });
+    const bytes = new Uint8Array(await fragments[0]!.arrayBuffer());
+    const { entries } = await new ZipReader(fragments[0]!).readCentralDirectory();
+    const entry = entries[0]!;
+
+    // Datos: cabecera local, nombre y extra fields; luego sal (16) y verificador (2)
+    const view = new DataView(bytes.buffer);
+    const dataOffset = entry.localHeaderOffset + 30 +
+      view.getUint16(entry.localHeaderOffset + 26, true) + view.getUint16(entry.localHeaderOffset + 28, true);
+    await expect(new ZipReader(new Blob([bytes]), PASSPHRASE).readEntryData(entry)).resolves.toHaveLength(1024);
+
+    await expect(new ZipReader(new Blob([bytes]), 'wrong passphrase').readEntryData(entry))
+      .rejects.toMatchObject({ code: WRONG_PASSWORD });
+
+    bytes[dataOffset + 18 + 100]! ^= 0x01;
+    await expect(new ZipReader(new Blob([bytes]), PASSPHRASE).readEntryData(entry))
+      .rejects.toThrow('Wrong password or corrupted data in encrypted entry "notes.txt"');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import { FileCollection } from '@/lib/file-collection';
+import { ZipReader } from '@/lib/zip-reader';
+import type { SourceFile } from '@/types/processing';
+import {
+  createRandomContent,
+  createTextContent,
+  hashEntries,
+  mergeFragments,
+  readArchiveEntries,
+  splitArchive
+} from '../helpers/archives';
+
+const contents = new Map<string, Uint8Array<ArrayBuffer>>([
+  ['project/readme.md', createTextContent(2 * 1024)],
+  ['project/src/index.ts', createTextContent(6 * 1024, 'export const value = 1;\n')],
+  ['project/src/lib/util.ts', createTextContent(3 * 1024, 'export {};\n')],
+  ['project/assets/photo.jpg', createRandomContent(50 * 1024, 41)],
+  ['project/assets/video.bin', createRandomContent(120 * 1024, 42)]
+]);
+
+/**
+ * Carpeta como la devuelve pickDirectory: cada carpeta se registra antes que su contenido
+ */
+function createCollection(): FileCollection {
+  const sources: SourceFile[] = [
+    { path: 'project', file: null },
+    { path: 'project/empty', file: null },
+    { path: 'project/src', file: null },
+    { path: 'project/src/lib', file: null },
+    { path: 'project/assets', file: null }
+  ];
+  for (const [path, content] of contents) {
+    sources.push({ path, file: new File([content], path.split('/').pop()!, { lastModified: Date.UTC(2024, 1, 2) }) });
+  }
+  return FileCollection.fromSources(sources);
+}
+
+describe('folder round trip', () => {
+  it('splits a folder and merges it back with its files and empty subfolders', async () => {
+    const collection = createCollection();
+    expect(collection.name).toBe('project');
+
+    const { manifest, fragments } = await splitArchive(collection, { fragmentSize: 64 * 1024, customFilename: 'project' });
+    expect(fragments.length).toBeGreaterThan(1);
+    expect(manifest.originalFile).toMatchObject({ name: 'project', size: collection.size, checksum: '' });
+
+    const merged = await mergeFragments(manifest, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(contents));
+
+    const { entries } = await new ZipReader(merged).readCentralDirectory();
+    expect(entries.filter(entry => entry.dir).map(entry => entry.name).sort())
+      .toEqual(['project/', 'project/assets/', 'project/empty/', 'project/src/', 'project/src/lib/']);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from '@jest/globals';
+import { FragmentVerifier, type FragmentVerification } from '@/lib/fragment-verifier';
+import { sha256Hex } from '@/lib/sha256';
+import { ZipReader } from '@/lib/zip-reader';
+import type { ProcessingManifest } from '@/types/processing';
+import { createRandomContent, createTextContent, createZip, splitArchive } from '../helpers/archives';
+
+const contents = new Map<string, Uint8Array>([
+  ['docs/readme.txt', createTextContent(20 * 1024)],
+  ['data/a.bin', createRandomContent(40 * 1024, 41)],
+  ['data/b.bin', createRandomContent(40 * 1024, 42)],
+  ['data/c.bin', createRandomContent(40 * 1024, 43)]
+]);
+
+// Sin compresión el contenido de cada entrada se puede alterar byte a byte sin romper el formato
+const splitStored = async (options = {}) =>
+  splitArchive(await createZip(contents, 0), { compressionLevel: 0, ...options });
+
+/**
+ * Copia del fragmento con un byte cambiado en el contenido de la entrada indicada
+ */
+async function corruptEntry(fragment: File, name: string): Promise<File> {
+  const bytes = new Uint8Array(await fragment.arrayBuffer());
+  const { entries } = await new ZipReader(fragment).readCentralDirectory();
+  const entry = entries.find(item => item.name === name)!;
+  const view = new DataView(bytes.buffer);
+  const header = entry.localHeaderOffset;
+  const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  bytes[dataStart + 100] = bytes[dataStart + 100]! ^ 0xff;
+  return new File([bytes], fragment.name);
+}
+
+/**
+ * Posición en el manifest del fragmento donde está la entrada
+ */
+function fragmentWith(manifest: ProcessingManifest, name: string): number {
+  const location = manifest.entries!.find(item => item.path === name)!;
+  return manifest.fragments.findIndex(fragment => fragment.id === location.fragmentId);
+}
+
+const statusesOf = (fragments: FragmentVerification[]) => fragments.map(fragment => fragment.status);
+
+describe('fragment verification', () => {
+  it('fails a fragment whose SHA-256 does not match the manifest', async () => {
+    const { manifest, fragments } = await splitStored();
+    const index = fragmentWith(manifest, 'data/b.bin');
+    const damaged = [...fragments];
+    damaged[index] = await corruptEntry(fragments[index]!, 'data/b.bin');
+
+    const report = await new FragmentVerifier().verify(manifest, damaged);
+    const result = report.fragments[index]!;
+
+    expect(report.passed).toBe(false);
+    expect(result.status).toBe('fail');
+    expect(result.checksum).toBe(await sha256Hex(new Uint8Array(await damaged[index]!.arrayBuffer())));
+    expect(result.issues).toEqual(['SHA-256 checksum does not match the manifest', 'CRC32 mismatch in "data/b.bin"']);
+    expect(statusesOf(report.fragments.filter((_, i) => i !== index)).every(status => status === 'pass')).toBe(true);
+  });
+
+  it('reports a CRC32 mismatch inside a fragment whose checksum matches', async () => {
+    const { manifest, fragments } = await splitStored();
+    const index = fragmentWith(manifest, 'data/a.bin');
+    const damaged = [...fragments];
+    damaged[index] = await corruptEntry(fragments[index]!, 'data/a.bin');
+    // El fragmento alterado antes de calcular el manifest: solo el CRC32 de la entrada lo delata
+    manifest.fragments[index]!.checksum = await sha256Hex(new Uint8Array(await damaged[index]!.arrayBuffer()));
+
+    const report = await new FragmentVerifier().verify(manifest, damaged);
+
+    expect(report.fragments[index]).toMatchObject({
+      status: 'fail',
+      issues: ['CRC32 mismatch in "data/a.bin"']
+    });
+    expect(report.passed).toBe(false);
+  });
+
+  it('reports missing and unexpected entries on the fragments involved', async () => {
+    const { manifest, fragments } = await splitStored();
+    const from = fragmentWith(manifest, 'data/c.bin');
+    const to = (from + 1) % fragments.length;
+    // El manifest sitúa la entrada en otro fragmento
+    manifest.entries!.find(item => item.path === 'data/c.bin')!.fragmentId = manifest.fragments[to]!.id;
+
+    const report = await new FragmentVerifier().verify(manifest, fragments);
+
+    expect(report.fragments[from]).toMatchObject({ status: 'fail', issues: ['Unexpected entry "data/c.bin"'] });
+    expect(report.fragments[to]).toMatchObject({ status: 'fail', issues: ['Missing entry "data/c.bin"'] });
+    expect(report.passed).toBe(false);
+  });
+
+  it('reports a missing spanned volume without checking the entries of the others', async () => {
+    const { manifest, fragments } = await splitStored({ splitMode: 'spanned' });
+    expect(fragments.length).toBeGreaterThan(2);
+
+    const report = await new FragmentVerifier().verify(manifest, fragments.filter((_, i) => i !== 1));
+
+    expect(report.fragments[1]).toMatchObject({ status: 'missing', size: null, issues: ['Fragment not found'] });
+    for (const result of report.fragments.filter((_, i) => i !== 1)) {
+      expect(result).toMatchObject({
+        status: 'pass',
+        entriesChecked: 0,
+        notes: ['Entries not checked: some volumes are missing or could not be opened']
+      });
+    }
+    expect(report.passed).toBe(false);
+  });
+
+  it('produces a report that survives JSON export', async () => {
+    const { manifest, fragments } = await splitStored();
+    const report = await new FragmentVerifier().verify(manifest, [...fragments, new File(['x'], 'notes.txt')]);
+    const exported = JSON.parse(JSON.stringify(report));
+
+    expect(exported).toEqual(report);
+    expect(exported).toMatchObject({
+      originalFile: 'source.zip',
+      manifestCreatedAt: manifest.metadata.createdAt,
+      splitMode: 'independent',
+      passed: true,
+      extra: ['notes.txt'],
+      orderErrors: [],
+      signature: { status: 'unsigned' }
+    });
+    expect(Object.keys(exported.fragments[0]).sort()).toEqual([
+      'checksum', 'entriesChecked', 'expectedChecksum', 'expectedSize', 'id',
+      'issues', 'name', 'notes', 'order', 'size', 'status'
+    ]);
+    expect(exported.fragments.map((fragment: FragmentVerification) => fragment.checksum))
+      .toEqual(manifest.fragments.map(fragment => fragment.checksum));
+    expect(exported.fragments.reduce((sum: number, fragment: FragmentVerification) => sum + fragment.entriesChecked, 0))
+      .toBe(contents.size);
+  });
+});
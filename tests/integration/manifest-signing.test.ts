@@ -0,0 +1,110 @@
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import { FragmentVerifier } from '@/lib/fragment-verifier';
+import { parseManifest } from '@/lib/manifest';
+import { signManifestWithKey, verifyManifestSignature, type KnownSigner } from '@/lib/manifest-signing';
+import { sha256Hex } from '@/lib/sha256';
+import { ZipWriter } from '@/lib/zip-writer';
+import type { ProcessingManifest } from '@/types/processing';
+import { createRandomContent, splitArchive, type SplitResult } from '../helpers/archives';
+
+interface TestSigningKey {
+  info: { publicKey: string; fingerprint: string };
+  privateKey: CryptoKey;
+}
+
+async function createSigningKey(): Promise<TestSigningKey> {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', pair.publicKey));
+  return {
+    info: { publicKey: Buffer.from(spki).toString('base64'), fingerprint: await sha256Hex(spki) },
+    privateKey: pair.privateKey
+  };
+}
+
+function sign(manifest: ProcessingManifest, key: TestSigningKey): Promise<ProcessingManifest> {
+  return signManifestWithKey(manifest, key.info, key.privateKey);
+}
+
+// El manifest pasa por JSON como al descargarlo y volver a leerlo
+function roundTrip(manifest: ProcessingManifest): ProcessingManifest {
+  return parseManifest(JSON.stringify(manifest));
+}
+
+describe('manifest signatures', () => {
+  let split: SplitResult;
+  let key: TestSigningKey;
+  let pinned: KnownSigner[];
+
+  beforeAll(async () => {
+    const writer = new ZipWriter();
+    writer.addEntry('a.bin', createRandomContent(100 * 1024, 2), 6);
+    writer.addEntry('b.bin', createRandomContent(100 * 1024, 4), 6);
+    const source = new File([await writer.generate().arrayBuffer()], 'source.zip');
+
+    split = await splitArchive(source, { fragmentSize: 64 * 1024 });
+    key = await createSigningKey();
+    pinned = [{ name: 'Release key', fingerprint: key.info.fingerprint }];
+  });
+
+  it('reports an unsigned manifest as unsigned', async () => {
+    expect(await verifyManifestSignature(split.manifest, pinned)).toEqual({ status: 'unsigned' });
+  });
+
+  it('accepts a signature from a pinned key', async () => {
+    const signed = roundTrip(await sign(split.manifest, key));
+    const check = await verifyManifestSignature(signed, pinned);
+
+    expect(check.status).toBe('valid');
+    expect(check.signer).toBe('Release key');
+    expect(check.fingerprint).toBe(key.info.fingerprint);
+  });
+
+  it('reports a correct signature from a key that is not pinned as untrusted', async () => {
+    const signed = roundTrip(await sign(split.manifest, await createSigningKey()));
+    const check = await verifyManifestSignature(signed, pinned);
+
+    expect(check.status).toBe('untrusted');
+    expect(check.signer).toBeUndefined();
+  });
+
+  it('does not let a tampered manifest pass by re-signing it with a new key', async () => {
+    const tampered = structuredClone(await sign(split.manifest, key));
+    tampered.fragments[0]!.checksum = '0'.repeat(64);
+    const resigned = roundTrip(await sign(tampered, await createSigningKey()));
+
+    expect((await verifyManifestSignature(resigned, pinned)).status).toBe('untrusted');
+  });
+
+  it('rejects a manifest modified after it was signed', async () => {
+    const tampered = structuredClone(await sign(split.manifest, key));
+    tampered.fragments[0]!.checksum = '0'.repeat(64);
+    const check = await verifyManifestSignature(roundTrip(tampered), pinned);
+
+    expect(check.status).toBe('invalid');
+    expect(check.error).toBe('The manifest was modified after it was signed');
+  });
+
+  it('rejects a signature whose public key does not match its fingerprint', async () => {
+    const signed = structuredClone(await sign(split.manifest, key));
+    signed.signature!.publicKey = (await createSigningKey()).info.publicKey;
+    const check = await verifyManifestSignature(roundTrip(signed), pinned);
+
+    expect(check.status).toBe('invalid');
+    expect(check.error).toBe('The signer fingerprint does not match its public key');
+  });
+
+  it('fails set verification when the signer is not pinned', async () => {
+    // Sin IndexedDB no hay claves fijadas: cualquier firma es de una clave desconocida
+    const signed = roundTrip(await sign(split.manifest, key));
+    const report = await new FragmentVerifier().verify(signed, split.fragments);
+
+    expect(report.signature.status).toBe('untrusted');
+    expect(report.fragments.every(fragment => fragment.status === 'pass')).toBe(true);
+    expect(report.passed).toBe(false);
+  });
+
+  it('passes set verification for an unsigned manifest with intact fragments', async () => {
+    const report = await new FragmentVerifier().verify(split.manifest, split.fragments);
+    expect(report.passed).toBe(true);
+  });
+});
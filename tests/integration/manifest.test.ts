@@ -0,0 +1,151 @@
+import { describe, expect, it } from '@jest/globals';
+import { MANIFEST_VERSION, parseManifest, upgradeManifest } from '@/lib/manifest';
+import { sha256Hex } from '@/lib/sha256';
+import { TarWriter } from '@/lib/tar-writer';
+import { ZipReader } from '@/lib/zip-reader';
+import type { ProcessingManifest } from '@/types/processing';
+import {
+  createRandomContent,
+  createZip,
+  createTextContent,
+  hashEntries,
+  mergeFragments,
+  readArchiveEntries,
+  splitArchive
+} from '../helpers/archives';
+
+const contents = new Map<string, Uint8Array>([
+  ['video.bin', createRandomContent(150 * 1024, 9)],
+  ['docs/readme.txt', createTextContent(4 * 1024)]
+]);
+
+const createSource = () => createZip(contents, 6, ['docs/']);
+
+/**
+ * Devuelve el manifest como lo escribía la versión 1.0.0: sin modo ni formato de salida y
+ * sin tamaños, hashes ni rangos en el índice de entradas
+ */
+function downgradeTo1(manifest: ProcessingManifest): Record<string, unknown> {
+  const legacy = structuredClone(manifest);
+  legacy.metadata.version = '1.0.0';
+  delete legacy.metadata.splitMode;
+  delete legacy.metadata.outputFormat;
+  for (const location of legacy.entries ?? []) {
+    delete location.size;
+    delete location.crc32;
+    delete location.sha256;
+    delete location.ranges;
+  }
+  return JSON.parse(JSON.stringify(legacy));
+}
+
+describe('manifest 1.0.0 upgrade', () => {
+  it('fills in the fields that 2.0.0 made explicit', async () => {
+    const { manifest } = await splitArchive(await createSource(), { fragmentSize: 64 * 1024 });
+    const upgraded = parseManifest(JSON.stringify(downgradeTo1(manifest)));
+
+    expect(upgraded.metadata.version).toBe(MANIFEST_VERSION);
+    expect(upgraded.metadata.splitMode).toBe('independent');
+    expect(upgraded.metadata.outputFormat).toBe('zip');
+
+    // Las entradas divididas y los directorios recuperan tamaño, hashes y rangos
+    const find = (entries: ProcessingManifest['entries'], path: string) =>
+      entries?.find(location => location.path === path);
+    expect(find(manifest.entries, 'video.bin')?.ranges?.length).toBeGreaterThan(1);
+    expect(find(upgraded.entries, 'video.bin')).toEqual(find(manifest.entries, 'video.bin'));
+    expect(find(upgraded.entries, 'docs/')).toMatchObject({ dir: true, size: 0, crc32: 0 });
+    // El resto sigue sin ellos: 1.0.0 no los registraba
+    expect(find(upgraded.entries, 'docs/readme.txt')?.sha256).toBeUndefined();
+  });
+
+  it('merges a fragment set described by a 1.0.0 manifest', async () => {
+    const { manifest, fragments } = await splitArchive(await createSource(), { fragmentSize: 64 * 1024 });
+    const upgraded = parseManifest(JSON.stringify(downgradeTo1(manifest)));
+
+    const merged = await mergeFragments(upgraded, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(contents));
+  });
+
+  it('leaves a current manifest unchanged', async () => {
+    const { manifest } = await splitArchive(await createSource(), { fragmentSize: 64 * 1024 });
+    expect(upgradeManifest(JSON.parse(JSON.stringify(manifest)))).toEqual(manifest);
+  });
+
+  it('rejects versions it cannot migrate', async () => {
+    const { manifest } = await splitArchive(await createSource(), { fragmentSize: 64 * 1024 });
+    const withVersion = (version: string) =>
+      JSON.stringify({ ...manifest, metadata: { ...manifest.metadata, version } });
+
+    expect(() => parseManifest(withVersion('9.0.0'))).toThrow('newer than this app supports');
+    expect(() => parseManifest(withVersion('0.9.0'))).toThrow('unknown format version: 0.9.0');
+    expect(() => parseManifest(withVersion('3.0.0'))).toThrow('newer than this app supports');
+  });
+
+  it('reads a later minor version with fields it does not know', async () => {
+    const { manifest, fragments } = await splitArchive(await createSource(), { fragmentSize: 64 * 1024 });
+    const later = JSON.stringify({
+      ...manifest,
+      metadata: { ...manifest.metadata, version: '2.1.0', addedInMinor: true }
+    });
+
+    const parsed = parseManifest(later);
+    expect(parsed.metadata.version).toBe('2.1.0');
+    const merged = await mergeFragments(parsed, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(contents));
+  });
+
+  it('rejects a 1.0.0 manifest that is still invalid after the upgrade', async () => {
+    const { manifest } = await splitArchive(await createSource(), { fragmentSize: 64 * 1024 });
+    const legacy = downgradeTo1(manifest);
+    delete legacy.fragments;
+
+    expect(() => parseManifest(JSON.stringify(legacy))).toThrow('manifest.json is invalid');
+  });
+});
+
+describe('source checksum and entry index', () => {
+  it.each([
+    ['ZIP', createSource],
+    ['TAR.GZ', async () => {
+      const writer = new TarWriter(true);
+      for (const [name, content] of contents) {
+        writer.addEntry(name, content);
+      }
+      return new File([await (await writer.generate()).arrayBuffer()], 'source.tar.gz');
+    }]
+  ])('records the SHA-256 of the %s file and of every entry', async (_, create) => {
+    const source = await create();
+    const { manifest } = await splitArchive(source, { fragmentSize: 64 * 1024 });
+
+    expect(manifest.originalFile.checksum).toBe(await sha256Hex(source));
+    for (const [path, hash] of await hashEntries(contents)) {
+      expect(manifest.entries?.find(location => location.path === path)?.sha256).toBe(hash);
+    }
+  });
+
+  it('indexes copied entries by their stored CRC32 and hashes them only on request', async () => {
+    const source = await createSource();
+    const { manifest } = await splitArchive(source, { fragmentSize: 64 * 1024, rawCopy: true });
+    const readme = manifest.entries?.find(location => location.path === 'docs/readme.txt');
+    const { entries } = await new ZipReader(source).readCentralDirectory();
+
+    expect(readme?.crc32).toBe(entries.find(entry => entry.name === 'docs/readme.txt')?.crc32);
+    expect(readme?.sha256).toBeUndefined();
+
+    const hashed = await splitArchive(source, { fragmentSize: 64 * 1024, rawCopy: true, hashCopiedEntries: true });
+    expect(hashed.manifest.entries?.find(location => location.path === 'docs/readme.txt')?.sha256)
+      .toBe((await hashEntries(contents)).get('docs/readme.txt'));
+  });
+
+  it.each([
+    ['recompressing', {}],
+    ['hashing copied entries', { rawCopy: true, hashCopiedEntries: true }]
+  ])('fails on a CRC32 mismatch when %s', async (_, options) => {
+    // Sin comprimir, el primer byte de datos está justo detrás de la cabecera local y el nombre
+    const bytes = new Uint8Array(await (await createZip(new Map([['a.txt', createTextContent(1024)]]), 0)).arrayBuffer());
+    bytes[30 + 'a.txt'.length]! ^= 0xff;
+
+    await expect(splitArchive(new File([bytes], 'source.zip'), { fragmentSize: 64 * 1024, ...options }))
+      .rejects.toThrow('CRC32 mismatch in entry "a.txt"');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals';
+import { FragmentMerger } from '@/lib/fragment-merger';
+import { sha256Hex } from '@/lib/sha256';
+import { createRandomContent, mergeFragments, splitArchive } from '../helpers/archives';
+
+const PART_SIZE = 64 * 1024;
+const content = createRandomContent(3 * PART_SIZE + 1000, 31);
+
+const splitRaw = () => splitArchive(new File([content], 'video.mp4'), {
+  splitMode: 'raw',
+  fragmentSize: PART_SIZE
+});
+
+describe('raw mode round trip', () => {
+  it('writes numbered parts of the requested size', async () => {
+    const { manifest, fragments } = await splitRaw();
+
+    expect(fragments.map(fragment => fragment.name))
+      .toEqual(['video.mp4.001', 'video.mp4.002', 'video.mp4.003', 'video.mp4.004']);
+    expect(fragments.map(fragment => fragment.size)).toEqual([PART_SIZE, PART_SIZE, PART_SIZE, 1000]);
+    expect(manifest.metadata.splitMode).toBe('raw');
+    expect(manifest.originalFile.checksum).toBe(await sha256Hex(content));
+  });
+
+  it('records the hash and byte range of every part', async () => {
+    const { manifest, fragments } = await splitRaw();
+    const [entry] = manifest.chunkedEntries ?? [];
+
+    expect(entry).toMatchObject({ path: 'video.mp4', size: content.byteLength, sha256: await sha256Hex(content) });
+    for (const [i, fragment] of fragments.entries()) {
+      const checksum = await sha256Hex(new Uint8Array(await fragment.arrayBuffer()));
+      expect(manifest.fragments[i]).toMatchObject({ name: fragment.name, size: fragment.size, checksum });
+      expect(entry!.parts[i]).toMatchObject({
+        name: fragment.name,
+        fragmentId: manifest.fragments[i]!.id,
+        offset: i * PART_SIZE,
+        length: fragment.size,
+        sha256: checksum
+      });
+    }
+  });
+
+  it('joins the parts back into the original file', async () => {
+    const { manifest, fragments } = await splitRaw();
+
+    // El orden en que se eligen los archivos no importa: cuenta el nombre de cada parte
+    const merged = await mergeFragments(manifest, [...fragments].reverse());
+    expect(merged.name).toBe('video.mp4');
+    expect(await sha256Hex(new Uint8Array(await merged.arrayBuffer()))).toBe(await sha256Hex(content));
+  });
+
+  it('rejects parts whose contents were swapped', async () => {
+    const { manifest, fragments } = await splitRaw();
+    const [first, second, ...rest] = fragments;
+    const swapped = [
+      new File([await second!.arrayBuffer()], first!.name),
+      new File([await first!.arrayBuffer()], second!.name),
+      ...rest
+    ];
+
+    const report = await new FragmentMerger().inspect(manifest, swapped);
+    expect(report.fragments.map(fragment => fragment.status))
+      .toEqual(['checksum-mismatch', 'checksum-mismatch', 'ok', 'ok']);
+    await expect(mergeFragments(manifest, swapped))
+      .rejects.toThrow('The fragment set is incomplete or has damaged fragments');
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, it } from '@jest/globals';
+import { ZipReader } from '@/lib/zip-reader';
+import { ZipWriter } from '@/lib/zip-writer';
+import type { ProcessingManifest } from '@/types/processing';
+import {
+  createRandomContent,
+  createTextContent,
+  createZip,
+  hashEntries,
+  mergeFragments,
+  readArchiveEntries,
+  splitArchive
+} from '../helpers/archives';
+
+const VOLUME_SIZE = 64 * 1024;
+
+const contents = new Map<string, Uint8Array>([
+  ['readme.txt', createTextContent(3 * 1024)],
+  ['assets/video.bin', createRandomContent(150 * 1024, 21)],
+  ['assets/photo.jpg', createRandomContent(40 * 1024, 22)],
+  ['logs/app.log', createTextContent(200 * 1024)],
+  ['assets/raw.dat', createRandomContent(70 * 1024, 23)]
+]);
+
+const createSource = () => createZip(contents, 6, ['assets/', 'logs/']);
+
+const SPANNED_OPTIONS = { splitMode: 'spanned', fragmentSize: VOLUME_SIZE, customFilename: 'source' } as const;
+
+interface CentralRecord {
+  name: string;
+  disk: number;
+  offset: number; // Desplazamiento de la cabecera local dentro de su volumen
+  compressedSize: number;
+}
+
+/**
+ * Volúmenes concatenados: como son trozos consecutivos del mismo flujo, una posición
+ * global se convierte en volumen con la posición donde empieza cada uno
+ */
+async function joinVolumes(volumes: File[]): Promise<{ bytes: Uint8Array<ArrayBuffer>; starts: number[] }> {
+  const starts: number[] = [];
+  const bytes = new Uint8Array(volumes.reduce((total, volume) => total + volume.size, 0));
+  let position = 0;
+  for (const volume of volumes) {
+    starts.push(position);
+    bytes.set(new Uint8Array(await volume.arrayBuffer()), position);
+    position += volume.size;
+  }
+  return { bytes, starts };
+}
+
+/**
+ * Lee el EOCD del último volumen y los registros del directorio central
+ */
+function readCentralDirectory(bytes: Uint8Array, starts: number[]): { lastDisk: number; records: CentralRecord[] } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = bytes.byteLength - 22;
+  while (view.getUint32(eocd, true) !== 0x06054b50) {
+    eocd--;
+  }
+
+  const lastDisk = view.getUint16(eocd + 4, true);
+  const centralDirectoryDisk = view.getUint16(eocd + 6, true);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let position = starts[centralDirectoryDisk]! + view.getUint32(eocd + 16, true);
+
+  const records: CentralRecord[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    records.push({
+      name: new TextDecoder().decode(bytes.subarray(position + 46, position + 46 + nameLength)),
+      disk: view.getUint16(position + 34, true),
+      offset: view.getUint32(position + 42, true),
+      compressedSize: view.getUint32(position + 20, true)
+    });
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return { lastDisk, records };
+}
+
+/**
+ * Volumen que contiene la posición global indicada
+ */
+function diskAt(starts: number[], position: number): number {
+  let disk = 0;
+  while (disk + 1 < starts.length && starts[disk + 1]! <= position) {
+    disk++;
+  }
+  return disk;
+}
+
+function findLocation(manifest: ProcessingManifest, path: string) {
+  return manifest.entries?.find(location => location.path === path);
+}
+
+describe('spanned ZIP round trip', () => {
+  it('writes volumes of the requested size and merges them back', async () => {
+    const { manifest, fragments } = await splitArchive(await createSource(), SPANNED_OPTIONS);
+
+    expect(fragments.length).toBeGreaterThan(3);
+    expect(fragments.map(fragment => fragment.name)).toEqual([
+      ...fragments.slice(0, -1).map((_, i) => `source.z${(i + 1).toString().padStart(2, '0')}`),
+      'source.zip'
+    ]);
+    expect(fragments.slice(0, -1).every(fragment => fragment.size === VOLUME_SIZE)).toBe(true);
+    expect(fragments[fragments.length - 1]!.size).toBeLessThanOrEqual(VOLUME_SIZE);
+    expect(manifest.fragments.map(fragment => fragment.size)).toEqual(fragments.map(fragment => fragment.size));
+
+    const merged = await mergeFragments(manifest, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(contents));
+  });
+
+  it('records the volumes where each entry actually starts and ends', async () => {
+    const { manifest, fragments } = await splitArchive(await createSource(), SPANNED_OPTIONS);
+    const { bytes, starts } = await joinVolumes(fragments);
+    const view = new DataView(bytes.buffer);
+    const fragmentIds = manifest.fragments.map(fragment => fragment.id);
+
+    // El primer volumen empieza con la firma de ZIP dividido y el EOCD indica el último
+    expect(view.getUint32(0, true)).toBe(0x08074b50);
+    const { lastDisk, records } = readCentralDirectory(bytes, starts);
+    expect(lastDisk).toBe(fragments.length - 1);
+    expect(records.map(record => record.name).sort())
+      .toEqual(['assets/', 'logs/', ...contents.keys()].sort());
+
+    let spansVolumes = false;
+    for (const record of records) {
+      const header = starts[record.disk]! + record.offset;
+      expect(view.getUint32(header, true)).toBe(0x04034b50);
+
+      // Cabecera local, datos y data descriptor opcional
+      const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+      let end = dataStart + record.compressedSize;
+      if (view.getUint16(header + 6, true) & 0x08) {
+        end += view.getUint32(end, true) === 0x08074b50 ? 16 : 12;
+      }
+      const lastVolume = diskAt(starts, end - 1);
+      spansVolumes ||= lastVolume !== record.disk;
+
+      const location = findLocation(manifest, record.name);
+      expect(location?.fragmentId).toBe(fragmentIds[record.disk]);
+      expect(location?.lastFragmentId ?? location?.fragmentId).toBe(fragmentIds[lastVolume]);
+    }
+    expect(spansVolumes).toBe(true);
+  });
+
+  it('keeps every volume but the last at the exact size wherever the end records fall', async () => {
+    const writer = new ZipWriter();
+    writer.addEntry('a.txt', createTextContent(700), 0);
+    writer.addEntry('b.bin', createRandomContent(900, 24), 0);
+    writer.addEntry('c.txt', createTextContent(300), 0);
+    const total = (await new ZipReader(writer.generate('comment')).readCentralDirectory()).entries;
+
+    // Tamaños que parten cabeceras y registros centrales, y que dejan los registros finales en un límite
+    for (let volumeSize = 256; volumeSize <= 300; volumeSize++) {
+      const { volumes } = writer.generateSpanned(volumeSize, 'comment');
+      const sizes = volumes.map(volume => volume.size);
+
+      expect(sizes.slice(0, -1).every(size => size === volumeSize)).toBe(true);
+      expect(sizes[sizes.length - 1]).toBeLessThanOrEqual(volumeSize);
+
+      const { bytes, starts } = await joinVolumes(volumes.map((volume, i) => new File([volume], `v${i}`)));
+      const reader = new ZipReader(new Blob([bytes]), undefined, starts);
+      const archive = await reader.readCentralDirectory();
+      expect(archive.comment).toBe('comment');
+      expect(archive.entries.map(entry => [entry.name, entry.crc32]))
+        .toEqual(total.map(entry => [entry.name, entry.crc32]));
+    }
+  });
+});
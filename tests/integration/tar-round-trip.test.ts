@@ -0,0 +1,145 @@
+import { describe, expect, it } from '@jest/globals';
+import { MAX_DECOMPRESSED_TAR_SIZE, TarReader, getDecompressedSizeError } from '@/lib/tar-reader';
+import { TarWriter } from '@/lib/tar-writer';
+import { ZipWriter } from '@/lib/zip-writer';
+import { ZIP_HOST_SYSTEMS, ZIP_VERSION_DEFAULT } from '@/lib/zip-format';
+import {
+  createRandomContent,
+  createTextContent,
+  hashEntries,
+  mergeFragments,
+  readArchiveEntries,
+  splitArchive
+} from '../helpers/archives';
+
+async function createTar(contents: Map<string, Uint8Array>, gzip: boolean): Promise<File> {
+  const writer = new TarWriter(gzip);
+  for (const [name, content] of contents) {
+    writer.addEntry(name, content);
+  }
+  const blob = await writer.generate();
+  return new File([await blob.arrayBuffer()], gzip ? 'source.tar.gz' : 'source.tar');
+}
+
+describe.each([
+  ['TAR', false],
+  ['TAR.GZ', true]
+])('%s round trip', (_, gzip) => {
+  const contents = new Map<string, Uint8Array>([
+    ['readme.txt', createTextContent(2 * 1024)],
+    ['logs/app.log', createTextContent(300 * 1024)],
+    ['assets/photo.jpg', createRandomContent(40 * 1024, 7)],
+    ['assets/video.bin', createRandomContent(90 * 1024, 11)],
+    ['empty.txt', new Uint8Array(0)]
+  ]);
+
+  it('reads back every entry it wrote', async () => {
+    const entries = await readArchiveEntries(await createTar(contents, gzip));
+    expect(entries).toEqual(await hashEntries(contents));
+  });
+
+  it('splits and merges back the original entries', async () => {
+    const source = await createTar(contents, gzip);
+    const { manifest, fragments } = await splitArchive(source, { fragmentSize: 64 * 1024 });
+
+    expect(fragments.length).toBeGreaterThan(1);
+    const merged = await mergeFragments(manifest, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(contents));
+  });
+
+  it('writes TAR fragments that merge back', async () => {
+    const source = await createTar(contents, gzip);
+    const { manifest, fragments } = await splitArchive(source, {
+      fragmentSize: 64 * 1024,
+      outputFormat: gzip ? 'tar.gz' : 'tar'
+    });
+
+    for (const fragment of fragments) {
+      expect(fragment.name.endsWith(gzip ? '.tar.gz' : '.tar')).toBe(true);
+    }
+    const merged = await mergeFragments(manifest, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(contents));
+  });
+});
+
+describe.each<[string, 'tar' | 'tar.gz']>([
+  ['TAR', 'tar'],
+  ['TAR.GZ', 'tar.gz']
+])('%s output fragments', (_, outputFormat) => {
+  const gzip = outputFormat === 'tar.gz';
+  const UNIX = (ZIP_HOST_SYSTEMS.UNIX << 8) | ZIP_VERSION_DEFAULT;
+  // Un nombre de más de 100 bytes sin '/' no cabe en ustar ni repartido en el prefijo
+  const longPath = `deep/${'directory-'.repeat(12)}/${'long-file-name-'.repeat(8)}.txt`;
+  const contents = new Map<string, Uint8Array>([
+    ['bin/run.sh', createTextContent(4 * 1024, 'echo run\n')],
+    [longPath, createTextContent(3 * 1024)],
+    ['docs/résumé ñ.txt', createTextContent(2 * 1024)],
+    ['data/video.bin', createRandomContent(90 * 1024, 17)],
+    ['data/readonly.txt', createTextContent(1024)]
+  ]);
+  const modes = new Map([
+    ['bin/', 0o40750],
+    ['bin/run.sh', 0o100755],
+    [longPath, 0o100600],
+    ['docs/résumé ñ.txt', 0o100640],
+    ['data/video.bin', 0o100660]
+  ]);
+
+  async function createSource(): Promise<File> {
+    const writer = new ZipWriter();
+    writer.addEntry('bin/', new Uint8Array(0), 0, { versionMadeBy: UNIX, externalAttributes: (0o40750 << 16) >>> 0 });
+    for (const [name, content] of contents) {
+      const mode = modes.get(name);
+      writer.addEntry(name, content, 6, mode === undefined
+        // Entrada DOS de solo lectura: en TAR pierde el permiso de escritura
+        ? { versionMadeBy: ZIP_VERSION_DEFAULT, externalAttributes: 0x01 }
+        : { versionMadeBy: UNIX, externalAttributes: (mode << 16) >>> 0 });
+    }
+    return new File([await writer.generate().arrayBuffer()], 'source.zip');
+  }
+
+  async function readTarBytes(fragment: File): Promise<Uint8Array> {
+    const stream = gzip ? fragment.stream().pipeThrough(new DecompressionStream('gzip')) : fragment.stream();
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  it('keeps long and non-ASCII paths in PAX headers and the UNIX modes', async () => {
+    const { manifest, fragments } = await splitArchive(await createSource(), { fragmentSize: 64 * 1024, outputFormat });
+    expect(fragments.length).toBeGreaterThan(1);
+
+    const found = new Map<string, number | null>();
+    let paxRecords = '';
+    for (const fragment of fragments) {
+      expect(fragment.name.endsWith(`.${outputFormat}`)).toBe(true);
+      const { entries } = await new TarReader(fragment, gzip).readCentralDirectory();
+      for (const entry of entries) {
+        found.set(entry.name, entry.unixPermissions);
+      }
+      paxRecords += new TextDecoder().decode(await readTarBytes(fragment));
+    }
+
+    expect(paxRecords).toContain(` path=${longPath}\n`);
+    expect(paxRecords).toContain(' path=docs/résumé ñ.txt\n');
+    // La entrada mayor que un fragmento se guarda en partes con su mismo modo
+    expect(found.has('data/video.bin.002')).toBe(true);
+    for (const [name, mode] of modes) {
+      expect([name, found.get(found.has(name) ? name : `${name}.001`)]).toEqual([name, mode]);
+    }
+    expect(found.get('data/readonly.txt')).toBe(0o100444);
+
+    const merged = await mergeFragments(manifest, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(contents));
+  });
+});
+
+describe('TAR.GZ size limit', () => {
+  it('rejects an archive whose gzip trailer exceeds the decompressed limit before decompressing it', async () => {
+    const archive = await createTar(new Map([['a.txt', createTextContent(100)]]), true);
+    const source = new Uint8Array(await archive.arrayBuffer());
+    // ISIZE: tamaño descomprimido módulo 2^32 en los últimos 4 bytes
+    new DataView(source.buffer).setUint32(source.byteLength - 4, MAX_DECOMPRESSED_TAR_SIZE + 1, true);
+
+    await expect(new TarReader(new Blob([source]), true).readCentralDirectory())
+      .rejects.toThrow(getDecompressedSizeError());
+  });
+});
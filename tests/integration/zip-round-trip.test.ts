@@ -0,0 +1,299 @@
+import { describe, expect, it } from '@jest/globals';
+import { ZipReader, type ZipEntryInfo } from '@/lib/zip-reader';
+import { ZipWriter } from '@/lib/zip-writer';
+import {
+  ZIP_HOST_SYSTEMS,
+  ZIP_RECORD_SIZES,
+  ZIP_SIGNATURES,
+  ZIP_VERSION_DEFAULT,
+  ZIP64_EXTRA_FIELD_ID,
+  ZIP64_LIMITS
+} from '@/lib/zip-format';
+import {
+  createRandomContent,
+  createZip,
+  createTextContent,
+  hashEntries,
+  mergeFragments,
+  readArchiveEntries,
+  splitArchive
+} from '../helpers/archives';
+
+describe('ZIP round trip', () => {
+  const contents = new Map<string, Uint8Array>([
+    ['readme.txt', createTextContent(2 * 1024)],
+    ['logs/app.log', createTextContent(300 * 1024)],
+    ['assets/photo.jpg', createRandomContent(40 * 1024, 7)],
+    ['assets/video.bin', createRandomContent(50 * 1024, 11)],
+    ['empty.txt', new Uint8Array(0)]
+  ]);
+
+  it('reads back every entry it wrote', async () => {
+    const entries = await readArchiveEntries(await createZip(contents));
+    expect(entries).toEqual(await hashEntries(contents));
+  });
+
+  it.each([
+    ['recompressing entries', {}],
+    ['copying compressed data', { rawCopy: true }]
+  ])('splits and merges back the original entries when %s', async (_, options) => {
+    const source = await createZip(contents);
+    const { manifest, fragments } = await splitArchive(source, { fragmentSize: 64 * 1024, ...options });
+
+    expect(fragments.length).toBeGreaterThan(1);
+    for (const fragment of fragments) {
+      await expect(new ZipReader(fragment).readCentralDirectory()).resolves.toBeDefined();
+    }
+
+    const merged = await mergeFragments(manifest, fragments);
+    expect(merged.name).toBe('source.zip');
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(contents));
+  });
+});
+
+describe('ZIP metadata round trip', () => {
+  const UNIX = (ZIP_HOST_SYSTEMS.UNIX << 8) | ZIP_VERSION_DEFAULT;
+  const DOS = (ZIP_HOST_SYSTEMS.DOS << 8) | ZIP_VERSION_DEFAULT;
+  // Los ZIP guardan la hora local con resolución de 2 segundos
+  const date = (day: number) => new Date(2023, 4, day, 10, 30, 42);
+
+  async function createSource(): Promise<File> {
+    const writer = new ZipWriter();
+    writer.addEntry('bin/', new Uint8Array(0), 0, {
+      lastModified: date(1), versionMadeBy: UNIX, externalAttributes: (0o40755 << 16) >>> 0
+    });
+    writer.addEntry('bin/run.sh', createTextContent(8 * 1024, 'echo run\n'), 6, {
+      lastModified: date(2), versionMadeBy: UNIX, externalAttributes: (0o100755 << 16) >>> 0, comment: 'Entry point'
+    });
+    writer.addEntry('empty/', new Uint8Array(0), 0, {
+      lastModified: date(3), versionMadeBy: UNIX, externalAttributes: (0o40700 << 16) >>> 0
+    });
+    writer.addEntry('nested/empty/', new Uint8Array(0), 0, {
+      lastModified: date(4), versionMadeBy: DOS, externalAttributes: 0x10
+    });
+    writer.addEntry('data/video.bin', createRandomContent(90 * 1024, 13), 6, {
+      lastModified: date(5), versionMadeBy: DOS, externalAttributes: 0x01 | 0x20, comment: 'Read-only, archived'
+    });
+    writer.addEntry('data/hidden.txt', createTextContent(1024), 6, {
+      lastModified: date(6), versionMadeBy: DOS, externalAttributes: 0x02
+    });
+    return new File([await writer.generate('Archive comment').arrayBuffer()], 'source.zip');
+  }
+
+  const describeEntry = (entry: ZipEntryInfo) => ({
+    dir: entry.dir,
+    lastModified: entry.lastModified.getTime(),
+    unixPermissions: entry.unixPermissions,
+    dosPermissions: entry.dosPermissions,
+    comment: entry.comment
+  });
+
+  async function readMetadata(file: File) {
+    const archive = await new ZipReader(file).readCentralDirectory();
+    return {
+      comment: archive.comment,
+      entries: new Map(archive.entries.map(entry => [entry.name, describeEntry(entry)]))
+    };
+  }
+
+  it.each([
+    ['recompressing entries', {}],
+    ['copying compressed data', { rawCopy: true }]
+  ])('keeps timestamps, permissions, comments and empty directories when %s', async (_, options) => {
+    const source = await createSource();
+    const { manifest, fragments } = await splitArchive(source, { fragmentSize: 64 * 1024, ...options });
+    expect(fragments.length).toBeGreaterThan(1);
+
+    const original = await readMetadata(source);
+    expect(original.entries.get('bin/run.sh')?.unixPermissions).toBe(0o100755);
+    expect(original.entries.get('data/video.bin')?.dosPermissions).toBe(0x21);
+
+    const merged = await readMetadata(await mergeFragments(manifest, fragments));
+    expect(merged.comment).toBe('Archive comment');
+    expect(merged.entries).toEqual(original.entries);
+  });
+});
+
+describe('ZIP64 round trip', () => {
+  // Más entradas de las que admite el registro de fin clásico
+  const entryCount = ZIP64_LIMITS.ENTRIES + 1;
+  const contents = new Map<string, Uint8Array>();
+  for (let i = 0; i < entryCount; i++) {
+    contents.set(`files/${i}.txt`, new TextEncoder().encode(`${i}`));
+  }
+
+  it('writes and reads back more than 65,535 entries', async () => {
+    const { entries } = await new ZipReader(await createZip(contents, 0)).readCentralDirectory();
+    expect(entries).toHaveLength(entryCount);
+    expect(entries[entryCount - 1]!.name).toBe(`files/${entryCount - 1}.txt`);
+  });
+
+  it('splits and merges back an archive that needs ZIP64 records', async () => {
+    const source = await createZip(contents, 0);
+    const { manifest, fragments } = await splitArchive(source, {
+      fragmentSize: 4 * 1024 * 1024,
+      compressionLevel: 0,
+      strictSizeLimit: true
+    });
+
+    expect(fragments.length).toBeGreaterThan(1);
+    const merged = await mergeFragments(manifest, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(contents));
+  }, 300_000);
+});
+
+/**
+ * Blob de varios GB sin reservarlos: los tramos de ceros solo guardan su longitud. El Blob
+ * de Node no admite más de 4 GB, así que sustituye a Blob mientras se escribe y se lee
+ */
+class SparseBlob {
+  public readonly type: string;
+  public readonly size: number;
+  private readonly segments: Array<Uint8Array | number>; // Bytes o longitud de un tramo de ceros
+
+  constructor(parts: Array<Uint8Array | SparseBlob | number> = [], options: { type?: string } = {}) {
+    this.type = options.type ?? '';
+    this.segments = parts.flatMap(part => part instanceof SparseBlob ? part.segments : [part]);
+    this.size = this.segments.reduce<number>((sum, segment) =>
+      sum + (typeof segment === 'number' ? segment : segment.byteLength), 0);
+  }
+
+  public slice(start = 0, end = this.size, type = ''): SparseBlob {
+    const parts: Array<Uint8Array | number> = [];
+    let position = 0;
+    for (const segment of this.segments) {
+      const length = typeof segment === 'number' ? segment : segment.byteLength;
+      const from = Math.max(start, position) - position;
+      const to = Math.min(end, position + length) - position;
+      if (to > from) {
+        parts.push(typeof segment === 'number' ? to - from : segment.subarray(from, to));
+      }
+      position += length;
+    }
+    return new SparseBlob(parts, { type });
+  }
+
+  public async arrayBuffer(): Promise<ArrayBuffer> {
+    const bytes = new Uint8Array(this.size);
+    let position = 0;
+    for (const segment of this.segments) {
+      if (typeof segment === 'number') {
+        position += segment;
+      } else {
+        bytes.set(segment, position);
+        position += segment.byteLength;
+      }
+    }
+    return bytes.buffer;
+  }
+}
+
+describe('ZIP64 sizes and offsets', () => {
+  const BIG_SIZE = 5 * 1024 * 1024 * 1024;
+  const small = createTextContent(1024);
+
+  const bigEntry: ZipEntryInfo = {
+    name: 'big.bin',
+    dir: false,
+    versionNeeded: ZIP_VERSION_DEFAULT,
+    compressionMethod: 0,
+    compressedSize: BIG_SIZE,
+    uncompressedSize: BIG_SIZE,
+    crc32: 0x12345678,
+    flags: 0,
+    dosDate: 0x5821,
+    dosTime: 0,
+    lastModified: new Date(2024, 0, 1),
+    versionMadeBy: ZIP_VERSION_DEFAULT,
+    internalAttributes: 0,
+    externalAttributes: 0,
+    unixPermissions: null,
+    dosPermissions: null,
+    comment: '',
+    localHeaderOffset: 0,
+    encryption: null
+  };
+
+  // Una entrada de 5 GB de ceros seguida de otra pequeña, que empieza pasados los 4 GB
+  async function writeAndRead() {
+    const nativeBlob = Object.getOwnPropertyDescriptor(globalThis, 'Blob')!;
+    Object.defineProperty(globalThis, 'Blob', { configurable: true, value: SparseBlob });
+    try {
+      const writer = new ZipWriter();
+      writer.addRawEntry(bigEntry, new SparseBlob([BIG_SIZE]) as unknown as Blob);
+      writer.addEntry('small.txt', small, 0);
+      const zip = writer.generate('comment');
+
+      const reader = new ZipReader(zip);
+      const archive = await reader.readCentralDirectory();
+      const content = await reader.readEntryData(archive.entries[1]!);
+      const bytesAt = async (offset: number, length: number) =>
+        new DataView(await zip.slice(offset, offset + length).arrayBuffer());
+
+      return { zip, archive, content, bytesAt };
+    } finally {
+      Object.defineProperty(globalThis, 'Blob', nativeBlob);
+    }
+  }
+
+  it('reads back 64-bit sizes, local header offsets and the central directory offset', async () => {
+    const { archive, content } = await writeAndRead();
+    const [big, last] = archive.entries;
+    const smallOffset = ZIP_RECORD_SIZES.LOCAL_FILE_HEADER + 'big.bin'.length + 20 + BIG_SIZE;
+
+    expect(big).toMatchObject({ name: 'big.bin', compressedSize: BIG_SIZE, uncompressedSize: BIG_SIZE, crc32: 0x12345678 });
+    expect(last).toMatchObject({ name: 'small.txt', localHeaderOffset: smallOffset, compressedSize: small.byteLength });
+    expect(archive.centralDirectoryOffset)
+      .toBe(smallOffset + ZIP_RECORD_SIZES.LOCAL_FILE_HEADER + 'small.txt'.length + small.byteLength);
+    expect(archive.comment).toBe('comment');
+    expect(content).toEqual(small);
+  });
+
+  it('writes ZIP64 extra fields and end records for values past 4 GB', async () => {
+    const { zip, archive, bytesAt } = await writeAndRead();
+    const localExtra = ZIP_RECORD_SIZES.LOCAL_FILE_HEADER + 'big.bin'.length;
+
+    // Cabecera local: tamaños de 32 bits saturados y los reales en el extra field
+    const local = await bytesAt(0, localExtra + 20);
+    expect(local.getUint32(18, true)).toBe(ZIP64_LIMITS.SIZE);
+    expect(local.getUint32(22, true)).toBe(ZIP64_LIMITS.SIZE);
+    expect(local.getUint16(localExtra, true)).toBe(ZIP64_EXTRA_FIELD_ID);
+    expect(Number(local.getBigUint64(localExtra + 4, true))).toBe(BIG_SIZE);
+    expect(Number(local.getBigUint64(localExtra + 12, true))).toBe(BIG_SIZE);
+
+    // Directorio central: ambos tamaños de la grande y el desplazamiento de la pequeña
+    const centralExtra = ZIP_RECORD_SIZES.CENTRAL_DIRECTORY_HEADER + 'big.bin'.length;
+    const bigCentral = await bytesAt(archive.centralDirectoryOffset, centralExtra + 20);
+    expect(bigCentral.getUint32(20, true)).toBe(ZIP64_LIMITS.SIZE);
+    expect(bigCentral.getUint32(24, true)).toBe(ZIP64_LIMITS.SIZE);
+    expect(bigCentral.getUint16(centralExtra, true)).toBe(ZIP64_EXTRA_FIELD_ID);
+    expect(bigCentral.getUint16(centralExtra + 2, true)).toBe(16);
+    expect(bigCentral.getUint32(42, true)).toBe(0);
+
+    const smallCentralOffset = archive.centralDirectoryOffset + centralExtra + 20;
+    const smallExtra = ZIP_RECORD_SIZES.CENTRAL_DIRECTORY_HEADER + 'small.txt'.length;
+    const smallCentral = await bytesAt(smallCentralOffset, smallExtra + 12);
+    expect(smallCentral.getUint32(0, true)).toBe(ZIP_SIGNATURES.CENTRAL_DIRECTORY_HEADER);
+    expect(smallCentral.getUint32(20, true)).toBe(small.byteLength);
+    expect(smallCentral.getUint32(42, true)).toBe(ZIP64_LIMITS.SIZE);
+    expect(smallCentral.getUint16(smallExtra, true)).toBe(ZIP64_EXTRA_FIELD_ID);
+    expect(Number(smallCentral.getBigUint64(smallExtra + 4, true))).toBe(archive.entries[1]!.localHeaderOffset);
+
+    // Registros finales: el EOCD clásico remite al ZIP64, que está pasados los 4 GB
+    const eocdOffset = zip.size - ZIP_RECORD_SIZES.END_OF_CENTRAL_DIRECTORY - 'comment'.length;
+    const eocd = await bytesAt(eocdOffset, ZIP_RECORD_SIZES.END_OF_CENTRAL_DIRECTORY);
+    expect(eocd.getUint32(0, true)).toBe(ZIP_SIGNATURES.END_OF_CENTRAL_DIRECTORY);
+    expect(eocd.getUint32(16, true)).toBe(ZIP64_LIMITS.SIZE);
+
+    const locatorOffset = eocdOffset - ZIP_RECORD_SIZES.ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR;
+    const locator = await bytesAt(locatorOffset, ZIP_RECORD_SIZES.ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR);
+    expect(locator.getUint32(0, true)).toBe(ZIP_SIGNATURES.ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR);
+    const zip64EndOffset = Number(locator.getBigUint64(8, true));
+    expect(zip64EndOffset).toBeGreaterThan(ZIP64_LIMITS.SIZE);
+
+    const zip64End = await bytesAt(zip64EndOffset, ZIP_RECORD_SIZES.ZIP64_END_OF_CENTRAL_DIRECTORY);
+    expect(zip64End.getUint32(0, true)).toBe(ZIP_SIGNATURES.ZIP64_END_OF_CENTRAL_DIRECTORY);
+    expect(Number(zip64End.getBigUint64(32, true))).toBe(2);
+    expect(Number(zip64End.getBigUint64(48, true))).toBe(archive.centralDirectoryOffset);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import { Aes, AesCtrLittleEndian } from '@/lib/aes';
+
+const hex = (value: string) => Uint8Array.from(value.match(/../g)!, byte => parseInt(byte, 16));
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+// FIPS 197, apéndice C: el mismo bloque en claro con claves de 128, 192 y 256 bits
+const PLAINTEXT = '00112233445566778899aabbccddeeff';
+
+describe('Aes', () => {
+  it.each([
+    ['AES-128', '000102030405060708090a0b0c0d0e0f', '69c4e0d86a7b0430d8cdb78070b4c55a'],
+    ['AES-192', '000102030405060708090a0b0c0d0e0f1011121314151617', 'dda97ca4864cdfe06eaf70a0ec0d7191'],
+    ['AES-256', '000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f', '8ea2b7ca516745bfeafc49904b496089']
+  ])('encrypts the FIPS 197 %s example', (_, key, ciphertext) => {
+    const output = new Uint8Array(16);
+    new Aes(hex(key)).encryptBlock(hex(PLAINTEXT), output);
+    expect(toHex(output)).toBe(ciphertext);
+  });
+
+  it('encrypts in place', () => {
+    const block = hex(PLAINTEXT);
+    new Aes(hex('000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f')).encryptBlock(block, block);
+    expect(toHex(block)).toBe('8ea2b7ca516745bfeafc49904b496089');
+  });
+
+  it('rejects keys of other lengths', () => {
+    expect(() => new Aes(new Uint8Array(20))).toThrow('Invalid AES key length: 20 bytes');
+  });
+});
+
+describe('AesCtrLittleEndian', () => {
+  const key = hex('000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f');
+
+  it('uses the encrypted little-endian counter, starting at 1, as keystream', () => {
+    const counter = new Uint8Array(16);
+    const firstBlock = new Uint8Array(16);
+    counter[0] = 1;
+    new Aes(key).encryptBlock(counter, firstBlock);
+
+    expect(new AesCtrLittleEndian(key).process(new Uint8Array(16))).toEqual(firstBlock);
+  });
+
+  it('gives the same output whether the data arrives at once or in pieces', () => {
+    const data = Uint8Array.from({ length: 100 }, (_, i) => i);
+    const whole = new AesCtrLittleEndian(key).process(data);
+
+    const cipher = new AesCtrLittleEndian(key);
+    const pieces = [data.subarray(0, 7), data.subarray(7, 40), data.subarray(40)].map(piece => cipher.process(piece));
+    expect(Uint8Array.from(pieces.flatMap(piece => Array.from(piece)))).toEqual(whole);
+
+    // Cifrar y descifrar son la misma operación
+    expect(new AesCtrLittleEndian(key).process(whole)).toEqual(data);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  CompressionPolicy,
+  DEFAULT_COMPRESSION_RULES,
+  getCompressionRuleError
+} from '@/lib/compression-policy';
+import type { CompressionRule } from '@/types/processing';
+
+describe('CompressionPolicy', () => {
+  it('matches compound extensions and lets the first matching rule win', () => {
+    const policy = new CompressionPolicy([
+      { match: 'tar.gz', level: 0 },
+      { match: '.gz', level: 1 },
+      { match: '*.GZ', level: 9 }
+    ]);
+
+    expect(policy.findRule('backups/site.TAR.GZ')).toEqual({ match: 'tar.gz', level: 0 });
+    expect(policy.findRule('logs/app.log.gz')).toEqual({ match: '.gz', level: 1 });
+    expect(policy.findRule('tar.gz/readme')).toBeNull();
+  });
+
+  it('matches MIME types with and without a wildcard subtype', () => {
+    const policy = new CompressionPolicy([
+      { match: 'video/mp4', level: 0 },
+      { match: 'image/*', level: 1 }
+    ]);
+
+    expect(policy.findRule('photo.JPG')?.match).toBe('image/*');
+    expect(policy.findRule('icons/logo.svg')?.match).toBe('image/*');
+    expect(policy.findRule('clip.mp4')?.match).toBe('video/mp4');
+    expect(policy.findRule('clip.webm')).toBeNull();
+    // Sin tipo MIME conocido ninguna regla por tipo coincide
+    expect(policy.findRule('data.unknown')).toBeNull();
+  });
+
+  it('uses the general level when no rule matches', () => {
+    const policy = new CompressionPolicy([{ match: 'jpg', level: 0 }], 4);
+
+    expect(policy.getLevel('a/photo.jpg')).toBe(0);
+    expect(policy.getLevel('a/notes.txt')).toBe(4);
+    expect(new CompressionPolicy().getLevel('notes.txt')).toBe(6);
+  });
+
+  it('stores the formats that barely compress by default', () => {
+    const matches = DEFAULT_COMPRESSION_RULES.map(rule => rule.match);
+
+    expect(DEFAULT_COMPRESSION_RULES.every(rule => rule.level === 0)).toBe(true);
+    expect(matches).toEqual(expect.arrayContaining(['zip', 'gz', 'jpg', 'jpeg', 'webp', 'mp4', 'mp3']));
+    for (const compressible of ['txt', 'json', 'png', 'pdf', 'wav']) {
+      expect(matches).not.toContain(compressible);
+    }
+
+    const policy = new CompressionPolicy(DEFAULT_COMPRESSION_RULES, 6);
+    expect(policy.getLevel('IMG_0001.JPEG')).toBe(0);
+    expect(policy.getLevel('site.tgz')).toBe(0);
+    expect(policy.getLevel('index.html')).toBe(6);
+  });
+
+  it('reports invalid rules', () => {
+    const check = (rule: CompressionRule) => getCompressionRuleError([{ match: 'jpg', level: 0 }, rule]);
+
+    expect(check({ match: ' *. ', level: 0 })).toBe('Every compression rule needs an extension or MIME type');
+    expect(check({ match: 'png', level: 10 })).toBe('Compression rule "png" must use a level between 0 and 9');
+    expect(check({ match: 'png', level: 1.5 })).toBe('Compression rule "png" must use a level between 0 and 9');
+    expect(check({ match: 'image/', level: 0 })).toBe('Invalid MIME type "image/" in compression rules');
+    expect(check({ match: 'image/*', level: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from '@jest/globals';
+import { getPartName, planEntryRanges, readEntryRanges, reassembleChunkedEntry } from '@/lib/entry-chunks';
+import { sha256Hex } from '@/lib/sha256';
+import { crc32 } from '@/lib/zip-format';
+import type { ManifestChunkedEntry } from '@/types/processing';
+import { createRandomContent } from '../helpers/archives';
+
+// Stream que entrega los datos en bloques que no coinciden con los rangos
+function streamInChunks(data: Uint8Array, chunkSize: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= data.byteLength) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(data.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    }
+  });
+}
+
+async function describeChunkedEntry(data: Uint8Array, partSize: number): Promise<{
+  entry: ManifestChunkedEntry;
+  parts: Map<string, Uint8Array>;
+}> {
+  const parts = new Map<string, Uint8Array>();
+  const entry: ManifestChunkedEntry = {
+    path: 'video.mp4',
+    size: data.byteLength,
+    crc32: crc32(data),
+    sha256: await sha256Hex(data),
+    parts: []
+  };
+
+  const ranges = planEntryRanges(data.byteLength, partSize);
+  for await (const { range, data: partData } of readEntryRanges(streamInChunks(data, 1000), ranges)) {
+    const name = getPartName(entry.path, range.part, range.totalParts);
+    parts.set(name, partData);
+    entry.parts.push({
+      name,
+      fragmentId: `fragment-${range.part}`,
+      offset: range.offset,
+      length: range.length,
+      sha256: await sha256Hex(partData)
+    });
+  }
+
+  return { entry, parts };
+}
+
+describe('planEntryRanges', () => {
+  it('covers the entry with consecutive ranges no larger than the part size', () => {
+    expect(planEntryRanges(10, 4)).toEqual([
+      { part: 1, totalParts: 3, offset: 0, length: 4 },
+      { part: 2, totalParts: 3, offset: 4, length: 4 },
+      { part: 3, totalParts: 3, offset: 8, length: 2 }
+    ]);
+  });
+
+  it('rejects an empty part size', () => {
+    expect(() => planEntryRanges(10, 0)).toThrow('Part size must be greater than 0');
+  });
+});
+
+describe('getPartName', () => {
+  it('numbers parts with at least three digits', () => {
+    expect(getPartName('video.mp4', 2, 12)).toBe('video.mp4.002');
+    expect(getPartName('video.mp4', 7, 1200)).toBe('video.mp4.0007');
+  });
+});
+
+describe('reassembleChunkedEntry', () => {
+  const data = createRandomContent(10_000, 3);
+
+  it('rebuilds the entry from parts read in any order', async () => {
+    const { entry, parts } = await describeChunkedEntry(data, 3000);
+    expect(entry.parts).toHaveLength(4);
+
+    entry.parts.reverse();
+    const { blob, crc32: checksum } = await reassembleChunkedEntry(entry, async part => parts.get(part.name)!);
+
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(data);
+    expect(checksum).toBe(entry.crc32);
+  });
+
+  it('accepts parts given as Blobs', async () => {
+    const { entry, parts } = await describeChunkedEntry(data, 4096);
+    const { blob } = await reassembleChunkedEntry(entry, async part => new Blob([parts.get(part.name)!.slice()]));
+
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(data);
+  });
+
+  it('rejects a part whose content does not match its hash', async () => {
+    const { entry, parts } = await describeChunkedEntry(data, 3000);
+    const tampered = parts.get('video.mp4.002')!.slice();
+    tampered[0]! ^= 0xff;
+    parts.set('video.mp4.002', tampered);
+
+    await expect(reassembleChunkedEntry(entry, async part => parts.get(part.name)!))
+      .rejects.toThrow('Checksum mismatch in part "video.mp4.002"');
+  });
+
+  it('rejects a set with a missing part', async () => {
+    const { entry, parts } = await describeChunkedEntry(data, 3000);
+    entry.parts.splice(1, 1);
+
+    await expect(reassembleChunkedEntry(entry, async part => parts.get(part.name)!))
+      .rejects.toThrow('Missing bytes 3000-6000 of "video.mp4"');
+  });
+
+  it('rejects parts that do not add up to the entry hash', async () => {
+    const { entry, parts } = await describeChunkedEntry(data, 3000);
+    entry.sha256 = await sha256Hex(new Uint8Array(1));
+
+    await expect(reassembleChunkedEntry(entry, async part => parts.get(part.name)!))
+      .rejects.toThrow('Checksum mismatch in reassembled entry "video.mp4"');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { findDuplicateEntries, summarizeDuplicates, type ContentHashes } from '@/lib/entry-dedup';
+import { sha256Hex } from '@/lib/sha256';
+import { analyzeFile } from '@/lib/strategy-selector';
+import { ZipReader } from '@/lib/zip-reader';
+import {
+  createRandomContent,
+  createZip,
+  hashEntries,
+  mergeFragments,
+  readArchiveEntries,
+  splitArchive
+} from '../helpers/archives';
+
+const photo = createRandomContent(20 * 1024, 3);
+const contents = new Map<string, Uint8Array>([
+  ['photo.jpg', photo],
+  ['backup/photo.jpg', photo],
+  ['copy.jpg', photo],
+  // Mismo tamaño y distinto contenido: se lee pero no es duplicado
+  ['other.jpg', createRandomContent(20 * 1024, 4)],
+  ['unique.bin', createRandomContent(5 * 1024, 5)],
+  ['empty.txt', new Uint8Array(0)],
+  ['empty-too.txt', new Uint8Array(0)]
+]);
+
+async function openSource() {
+  const reader = new ZipReader(await createZip(contents));
+  const { entries } = await reader.readCentralDirectory();
+  return { reader, entries };
+}
+
+describe('findDuplicateEntries', () => {
+  it('groups identical entries under the first one and skips empty entries', async () => {
+    const { reader, entries } = await openSource();
+    const groups = await findDuplicateEntries(reader, entries);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]!.sha256).toBe(await sha256Hex(photo));
+    expect(groups[0]!.original.name).toBe('photo.jpg');
+    expect(groups[0]!.duplicates.map(entry => entry.name)).toEqual(['backup/photo.jpg', 'copy.jpg']);
+    expect(summarizeDuplicates(groups)).toEqual({ files: 2, bytes: 2 * photo.byteLength });
+  });
+
+  it('reads only the entries that share size and CRC32 with another one', async () => {
+    const { reader, entries } = await openSource();
+    const stream = jest.spyOn(reader, 'streamEntryData');
+
+    await findDuplicateEntries(reader, entries);
+
+    expect(stream.mock.calls.map(([entry]) => entry.name).sort())
+      .toEqual(['backup/photo.jpg', 'copy.jpg', 'photo.jpg']);
+  });
+
+  it('reuses the hashes of an earlier pass instead of reading the entries again', async () => {
+    const first = await openSource();
+    const hashes: ContentHashes = {};
+    const expected = await findDuplicateEntries(first.reader, first.entries, false, undefined, hashes);
+    expect(Object.keys(hashes)).toHaveLength(3);
+
+    const second = await openSource();
+    const stream = jest.spyOn(second.reader, 'streamEntryData');
+    const groups = await findDuplicateEntries(second.reader, second.entries, false, undefined, { ...hashes });
+
+    expect(stream).not.toHaveBeenCalled();
+    expect(groups.map(group => group.duplicates.map(entry => entry.name)))
+      .toEqual(expected.map(group => group.duplicates.map(entry => entry.name)));
+  });
+
+  it('splits with the hashes found by the analysis and merges the copies back', async () => {
+    const source = await createZip(contents);
+    const analysis = await analyzeFile(source, { findDuplicates: true });
+    expect(analysis.duplicateFiles).toBe(2);
+
+    const { manifest, fragments } = await splitArchive(source, {
+      deduplicate: true,
+      ...(analysis.duplicateHashes && { knownHashes: analysis.duplicateHashes })
+    });
+    expect(manifest.entries?.filter(location => location.duplicateOf === 'photo.jpg')).toHaveLength(2);
+
+    const merged = await mergeFragments(manifest, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(contents));
+  });
+});
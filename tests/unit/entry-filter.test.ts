@@ -0,0 +1,127 @@
+import { describe, expect, it } from '@jest/globals';
+import { EntryFilter, getPatternError, parsePatterns } from '@/lib/entry-filter';
+import type { ZipEntryInfo } from '@/lib/zip-reader';
+import {
+  createTextContent,
+  createZip,
+  hashEntries,
+  mergeFragments,
+  readArchiveEntries,
+  splitArchive
+} from '../helpers/archives';
+
+function createEntry(name: string, size = 10): ZipEntryInfo {
+  const dir = name.endsWith('/');
+  return {
+    name,
+    dir,
+    versionNeeded: 20,
+    compressionMethod: 0,
+    compressedSize: dir ? 0 : size,
+    uncompressedSize: dir ? 0 : size,
+    crc32: 0,
+    flags: 0,
+    dosDate: 0,
+    dosTime: 0,
+    lastModified: new Date(2024, 0, 1),
+    versionMadeBy: 20,
+    internalAttributes: 0,
+    externalAttributes: dir ? 0x10 : 0,
+    unixPermissions: null,
+    dosPermissions: null,
+    comment: '',
+    localHeaderOffset: 0,
+    encryption: null
+  };
+}
+
+/**
+ * Rutas que descartan los patrones de exclusión indicados
+ */
+function excludedBy(exclude: string[], paths: string[]): string[] {
+  const { excluded } = new EntryFilter([], exclude).apply(paths.map(path => createEntry(path)));
+  return excluded.map(entry => entry.path);
+}
+
+describe('EntryFilter patterns', () => {
+  it('matches a pattern without a slash against the name at any depth', () => {
+    expect(excludedBy(['*.log'], ['app.log', 'logs/deep/error.log', 'app.log.txt', 'log']))
+      .toEqual(['app.log', 'logs/deep/error.log']);
+  });
+
+  it('anchors a pattern with a slash to the root, and "*" does not cross directories', () => {
+    expect(excludedBy(['build/*.js'], ['build/app.js', 'src/build/app.js', 'build/sub/app.js']))
+      .toEqual(['build/app.js']);
+    expect(excludedBy(['/readme.md'], ['readme.md', 'docs/readme.md'])).toEqual(['readme.md']);
+  });
+
+  it('matches a pattern ending in "/" only against directories and their contents', () => {
+    expect(excludedBy(['cache/'], ['cache/', 'cache/data.bin', 'src/cache/', 'src/cache/x', 'cache', 'tmp/cache']))
+      .toEqual(['cache/', 'cache/data.bin', 'src/cache/', 'src/cache/x']);
+  });
+
+  it('lets "**/" cover zero or more directories', () => {
+    expect(excludedBy(['src/**/test.ts'], ['src/test.ts', 'src/a/b/test.ts', 'lib/test.ts', 'src/a/test.tsx']))
+      .toEqual(['src/test.ts', 'src/a/b/test.ts']);
+    expect(excludedBy(['docs/**'], ['docs/a.md', 'docs/guide/b.md', 'documents/c.md']))
+      .toEqual(['docs/a.md', 'docs/guide/b.md']);
+  });
+
+  it('supports character classes, negated classes and "?"', () => {
+    expect(excludedBy(['file[!0-9].txt'], ['filea.txt', 'file1.txt', 'fileb.md'])).toEqual(['filea.txt']);
+    expect(excludedBy(['v[12].?'], ['v1.a', 'v2.b', 'v3.c', 'v1.ab'])).toEqual(['v1.a', 'v2.b']);
+  });
+
+  it('supports alternatives in braces', () => {
+    expect(excludedBy(['*.{jpg,png}'], ['a.jpg', 'b/c.png', 'd.gif', 'e.jpgx'])).toEqual(['a.jpg', 'b/c.png']);
+  });
+
+  it('lets exclude patterns win over include patterns and keeps the folders of kept files', () => {
+    const entries = ['docs/', 'docs/a.txt', 'docs/secret.txt', 'images/', 'images/b.png', 'notes.txt'];
+    const { kept, excluded } = new EntryFilter(['*.txt'], ['secret.txt'])
+      .apply(entries.map(path => createEntry(path, 100)));
+
+    expect(kept.map(entry => entry.name)).toEqual(['docs/', 'docs/a.txt', 'notes.txt']);
+    expect(excluded).toEqual([
+      { path: 'docs/secret.txt', size: 100, excludedBy: 'secret.txt' },
+      { path: 'images/', dir: true, size: 0 },
+      { path: 'images/b.png', size: 100 }
+    ]);
+  });
+
+  it('ignores blank lines and comments and reports invalid patterns', () => {
+    expect(parsePatterns(['  *.log ', '', '# comment', '/'])).toEqual(['*.log', '/']);
+    expect(getPatternError(['*.log', '*.{jpg,png'])).toBe('Invalid filter pattern "*.{jpg,png": unclosed "{"');
+    expect(getPatternError(['/'])).toBe('Invalid filter pattern "/"');
+    expect(getPatternError(['*.log', 'build/'])).toBeNull();
+  });
+});
+
+describe('excluded entries in the manifest', () => {
+  it('lists what the filters dropped and merges back only the kept entries', async () => {
+    const kept = new Map([
+      ['src/index.ts', createTextContent(2048, 'export {};\n')],
+      ['readme.md', createTextContent(1024)]
+    ]);
+    const source = await createZip(new Map([
+      ...kept,
+      ['src/debug.log', createTextContent(4096)],
+      ['node_modules/pkg/index.js', createTextContent(512)]
+    ]), 6, ['node_modules/']);
+
+    const { manifest, fragments } = await splitArchive(source, {
+      excludePatterns: ['*.log', 'node_modules/']
+    });
+
+    expect(manifest.excludedEntries).toEqual(expect.arrayContaining([
+      { path: 'src/debug.log', size: 4096, excludedBy: '*.log' },
+      { path: 'node_modules/', dir: true, size: 0, excludedBy: 'node_modules/' },
+      { path: 'node_modules/pkg/index.js', size: 512, excludedBy: 'node_modules/' }
+    ]));
+    expect(manifest.excludedEntries).toHaveLength(3);
+    expect(manifest.entries?.map(location => location.path).sort()).toEqual(['readme.md', 'src/index.ts']);
+
+    const merged = await mergeFragments(manifest, fragments);
+    expect(await readArchiveEntries(merged)).toEqual(await hashEntries(kept));
+  });
+});
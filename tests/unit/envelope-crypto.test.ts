@@ -0,0 +1,141 @@
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import {
+  estimateEnvelopeOverhead,
+  generateRecipientKeyPair,
+  importPrivateKey,
+  importRecipients,
+  openBlob,
+  readEnvelopeRecipients,
+  sealBlob,
+  type EnvelopePrivateKey
+} from '@/lib/envelope-crypto';
+import { sha256Hex } from '@/lib/sha256';
+import type { EnvelopeAlgorithm, RecipientKey } from '@/types/processing';
+import { createRandomContent } from '../helpers/archives';
+
+// Formato del sobre: cabecera fija, destinatarios (algoritmo, huella, longitud y clave envuelta)
+// y segmentos AES-GCM de 1MB con su etiqueta
+const FIXED_HEADER_SIZE = 11;
+const RECIPIENT_HEADER_SIZE = 35;
+const ECDH_WRAPPED_KEY_SIZE = 105;
+const SEGMENT_SIZE = 1024 * 1024;
+const GCM_TAG_SIZE = 16;
+
+interface TestRecipient {
+  recipient: RecipientKey;
+  privateKey: EnvelopePrivateKey;
+}
+
+async function createRecipient(name: string, algorithm: EnvelopeAlgorithm): Promise<TestRecipient> {
+  const pair = await generateRecipientKeyPair(name, algorithm);
+  return { recipient: pair.recipient, privateKey: await importPrivateKey(JSON.stringify(pair.privateKey)) };
+}
+
+async function seal(data: Uint8Array, recipients: TestRecipient[]): Promise<Uint8Array<ArrayBuffer>> {
+  const sealed = await sealBlob(
+    new Blob([data as BlobPart]),
+    await importRecipients(recipients.map(({ recipient }) => recipient))
+  );
+  return new Uint8Array(await sealed.arrayBuffer());
+}
+
+async function open(sealed: Uint8Array, recipient: TestRecipient): Promise<string> {
+  return sha256Hex(await openBlob(new Blob([sealed as BlobPart]), recipient.privateKey));
+}
+
+describe('envelope encryption', () => {
+  // Más de dos segmentos de 1MB, el último incompleto
+  const content = createRandomContent(2 * SEGMENT_SIZE + 1000, 21);
+  let rsa: TestRecipient;
+  let ecdh: TestRecipient;
+  let stranger: TestRecipient;
+  let contentHash: string;
+
+  beforeAll(async () => {
+    [rsa, ecdh, stranger] = await Promise.all([
+      createRecipient('RSA recipient', 'RSA-OAEP'),
+      createRecipient('ECDH recipient', 'ECDH-P256'),
+      createRecipient('Someone else', 'ECDH-P256')
+    ]);
+    contentHash = await sha256Hex(content);
+  }, 60_000);
+
+  // Cuerpo cifrado a partir de la cabecera: segmentos de SEGMENT_SIZE + etiqueta GCM
+  const headerSize = (sealed: Uint8Array) =>
+    sealed.byteLength - (content.byteLength + Math.ceil(content.byteLength / SEGMENT_SIZE) * GCM_TAG_SIZE);
+
+  it.each([
+    ['RSA-OAEP', () => rsa],
+    ['ECDH-P256', () => ecdh]
+  ])('opens a multi-segment blob sealed for a %s recipient', async (_, recipient) => {
+    const sealed = await seal(content, [recipient()]);
+    await expect(open(sealed, recipient())).resolves.toBe(contentHash);
+  });
+
+  it('lets every recipient open the same blob and lists their fingerprints', async () => {
+    const sealed = await seal(content, [rsa, ecdh]);
+
+    await expect(open(sealed, rsa)).resolves.toBe(contentHash);
+    await expect(open(sealed, ecdh)).resolves.toBe(contentHash);
+    await expect(readEnvelopeRecipients(new Blob([sealed]))).resolves.toEqual([
+      rsa.recipient.fingerprint,
+      ecdh.recipient.fingerprint
+    ]);
+  });
+
+  it('seals an empty blob as a single final segment', async () => {
+    const opened = await openBlob(
+      await sealBlob(new Blob([]), await importRecipients([ecdh.recipient])),
+      ecdh.privateKey
+    );
+    expect(opened.size).toBe(0);
+  });
+
+  it('stays within the estimated overhead', async () => {
+    const sealed = await seal(content, [rsa, ecdh]);
+    expect(sealed.byteLength - content.byteLength)
+      .toBeLessThanOrEqual(estimateEnvelopeOverhead(content.byteLength, [rsa.recipient, ecdh.recipient]));
+  });
+
+  it('rejects a private key that is not a recipient', async () => {
+    const sealed = await seal(content, [rsa, ecdh]);
+    await expect(open(sealed, stranger)).rejects.toThrow('This private key is not one of the fragment recipients');
+  });
+
+  it('rejects a blob truncated at a segment boundary', async () => {
+    // Sin el segmento final, el último que queda no está marcado como final en los datos adicionales
+    const sealed = await seal(content, [ecdh]);
+    const truncated = sealed.subarray(0, headerSize(sealed) + 2 * (SEGMENT_SIZE + GCM_TAG_SIZE));
+
+    await expect(open(truncated, ecdh)).rejects.toThrow('The encrypted fragment is corrupted or incomplete');
+  });
+
+  it('rejects a blob truncated inside a segment', async () => {
+    const sealed = await seal(content, [ecdh]);
+    await expect(open(sealed.subarray(0, sealed.byteLength - 100), ecdh))
+      .rejects.toThrow('The encrypted fragment is corrupted or incomplete');
+  });
+
+  it('rejects reordered segments', async () => {
+    const sealed = await seal(content, [ecdh]);
+    const start = headerSize(sealed);
+    const segment = SEGMENT_SIZE + GCM_TAG_SIZE;
+    const reordered = new Uint8Array(sealed);
+    reordered.set(sealed.subarray(start + segment, start + 2 * segment), start);
+    reordered.set(sealed.subarray(start, start + segment), start + segment);
+
+    await expect(open(reordered, ecdh)).rejects.toThrow('The encrypted fragment is corrupted or incomplete');
+  });
+
+  it('authenticates the header in every segment', async () => {
+    // Alterar la huella del segundo destinatario no impide al primero desenvolver la clave,
+    // pero cambia los datos adicionales de cada segmento
+    const sealed = await seal(content, [ecdh, rsa]);
+    const secondFingerprint = FIXED_HEADER_SIZE + RECIPIENT_HEADER_SIZE + ECDH_WRAPPED_KEY_SIZE + 1;
+    const tampered = new Uint8Array(sealed);
+    tampered[secondFingerprint]! ^= 0xff;
+
+    await expect(readEnvelopeRecipients(new Blob([tampered]))).resolves.not.toContain(rsa.recipient.fingerprint);
+    await expect(open(tampered, ecdh)).rejects.toThrow('The encrypted fragment is corrupted or incomplete');
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from '@jest/globals';
+import { FileSplitter, type FragmentPlan, type SplittingOptions } from '@/lib/file-splitter';
+import { ZIP_COMPRESSION_METHODS } from '@/lib/zip-format';
+import type { ZipArchiveInfo, ZipEntryInfo } from '@/lib/zip-reader';
+
+const TARGET_SIZE = 1000;
+
+function createEntry(name: string, size: number): ZipEntryInfo {
+  return {
+    name,
+    dir: false,
+    versionNeeded: 20,
+    compressionMethod: ZIP_COMPRESSION_METHODS.STORE,
+    compressedSize: size,
+    uncompressedSize: size,
+    crc32: 0,
+    flags: 0,
+    dosDate: 0,
+    dosTime: 0,
+    lastModified: new Date(2024, 0, 1),
+    versionMadeBy: 20,
+    internalAttributes: 0,
+    externalAttributes: 0,
+    unixPermissions: null,
+    dosPermissions: null,
+    comment: '',
+    localHeaderOffset: 0,
+    encryption: null
+  };
+}
+
+function createArchive(sizes: Record<string, number>): ZipArchiveInfo {
+  return {
+    entries: Object.entries(sizes).map(([name, size]) => createEntry(name, size)),
+    comment: '',
+    centralDirectoryOffset: 0,
+    centralDirectorySize: 0
+  };
+}
+
+function createPlan(archive: ZipArchiveInfo, options: Partial<SplittingOptions> = {}): Promise<FragmentPlan[]> {
+  return new FileSplitter({
+    strategy: 'min-fragments',
+    targetFragmentSize: TARGET_SIZE,
+    preserveDirectoryStructure: false,
+    balanceFragmentSizes: false,
+    prioritizeLargeFiles: false,
+    groupSimilarFiles: false,
+    useCompressedSizes: true,
+    ...options
+  }).createSplittingPlan(archive);
+}
+
+const namesOf = (plans: FragmentPlan[]) => plans.map(plan => plan.entries.map(entry => entry.name).sort());
+
+describe('FileSplitter min-fragments strategy', () => {
+  it('packs entries best-fit decreasing into the fullest fragment they fit in', async () => {
+    const plans = await createPlan(createArchive({
+      'a.bin': 600, 'b.bin': 500, 'c.bin': 400, 'd.bin': 300, 'e.bin': 200, 'f.bin': 100
+    }));
+
+    expect(namesOf(plans)).toEqual([['a.bin', 'c.bin'], ['b.bin', 'd.bin', 'e.bin'], ['f.bin']]);
+    expect(plans.map(plan => plan.estimatedSize)).toEqual([1000, 1000, 100]);
+  });
+
+  it('needs fewer fragments than the size-based strategy', async () => {
+    const archive = createArchive({ 'a.bin': 600, 'b.bin': 600, 'c.bin': 400, 'd.bin': 400 });
+
+    expect(await createPlan(archive)).toHaveLength(2);
+    expect(await createPlan(archive, { strategy: 'size-based' })).toHaveLength(3);
+  });
+
+  it('fills the free space after the last part of a split entry', async () => {
+    const plans = await createPlan(createArchive({
+      'big.bin': 2000, 'x.txt': 100, 'y.txt': 100, 'z.txt': 100
+    }));
+
+    // Solo los fragmentos de las partes: las entradas pequeñas van con la última
+    expect(plans.every(plan => plan.entries[0]!.range)).toBe(true);
+    const last = plans[plans.length - 1]!;
+    expect(last.entries[0]!.range!.part).toBe(last.entries[0]!.range!.totalParts);
+    expect(last.entries.slice(1).map(entry => entry.name).sort()).toEqual(['x.txt', 'y.txt', 'z.txt']);
+    for (const plan of plans) {
+      expect(plan.estimatedSize).toBeLessThanOrEqual(TARGET_SIZE);
+    }
+  });
+
+  it('fails when the archive needs more than maxFragments', async () => {
+    const archive = createArchive({ 'a.bin': 600, 'b.bin': 600, 'c.bin': 400, 'd.bin': 400 });
+
+    await expect(createPlan(archive, { maxFragments: 1 }))
+      .rejects.toThrow('The archive needs 2 fragments, more than the maximum of 1. Increase the fragment size.');
+    // Otra estrategia sugiere min-fragments si con ella el archivo cabe
+    await expect(createPlan(archive, { strategy: 'size-based', maxFragments: 2 }))
+      .rejects.toThrow('Use the min-fragments strategy (2 fragments) or increase the fragment size.');
+    await expect(createPlan(archive, { maxFragments: 2 })).resolves.toHaveLength(2);
+  });
+});
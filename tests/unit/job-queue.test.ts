@@ -0,0 +1,180 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  QueueJobRunner,
+  createQueueJob,
+  getQueueSummary,
+  type JobProcessor,
+  type QueueJob
+} from '@/lib/job-queue';
+import { WRONG_PASSWORD, ZipFormatError } from '@/lib/zip-format';
+import type { ProcessingMetrics, ProcessingOptions, ProcessingResult } from '@/types/processing';
+
+const OPTIONS: ProcessingOptions = {
+  strategy: 'CLIENT_SIDE',
+  fragmentSize: 1024,
+  compressionLevel: 6,
+  includeManifest: true,
+  preserveStructure: true
+};
+
+function createJob(size: number, changes: Partial<QueueJob> = {}): QueueJob {
+  return { ...createQueueJob(new File([new Uint8Array(size)], 'source.zip'), OPTIONS), ...changes };
+}
+
+function createResult(fragmentCount: number, success = true): ProcessingResult {
+  return {
+    success,
+    fragments: Array.from({ length: fragmentCount }, (_, i) => ({
+      id: `fragment_${i}`,
+      name: `archive_part${i + 1}.zip`,
+      size: 100,
+      checksum: ''
+    })),
+    metrics: {} as ProcessingMetrics,
+    ...(!success && { error: { code: 'PROCESSING_FAILED', message: 'Broken archive', recoverable: false } })
+  };
+}
+
+/**
+ * Procesador de prueba: informa el progreso indicado y termina cuando se resuelve
+ */
+class FakeProcessor implements JobProcessor {
+  public aborted = false;
+  private progressCallback?: (progress: number, message: string) => void;
+  private settle?: { resolve: (result: ProcessingResult) => void; reject: (error: Error) => void };
+
+  public setProgressCallback(callback: (progress: number, message: string) => void): void {
+    this.progressCallback = callback;
+  }
+
+  public processFile(): Promise<ProcessingResult> {
+    return new Promise((resolve, reject) => {
+      this.settle = { resolve, reject };
+    });
+  }
+
+  public abort(): void {
+    this.aborted = true;
+    this.settle?.reject(new Error('Operation was aborted'));
+  }
+
+  public report(progress: number, message: string): void {
+    this.progressCallback?.(progress, message);
+  }
+
+  public resolve(result: ProcessingResult): void {
+    this.settle?.resolve(result);
+  }
+
+  public reject(error: Error): void {
+    this.settle?.reject(error);
+  }
+}
+
+/**
+ * Ejecuta el trabajo y devuelve los cambios que publica junto con el estado resultante
+ */
+function startRunner(job: QueueJob, processor: FakeProcessor) {
+  const updates: Partial<QueueJob>[] = [];
+  const runner = new QueueJobRunner(job, processor);
+  const done = runner.run(changes => updates.push(changes));
+  const current = () => updates.reduce<QueueJob>((merged, changes) => ({ ...merged, ...changes }), job);
+  const statuses = () => updates.flatMap(changes => (changes.status ? [changes.status] : []));
+  return { runner, done, current, statuses };
+}
+
+describe('getQueueSummary', () => {
+  it('summarizes an empty queue', () => {
+    expect(getQueueSummary([])).toEqual({
+      total: 0,
+      pending: 0,
+      running: 0,
+      complete: 0,
+      failed: 0,
+      progress: 0,
+      totalBytes: 0,
+      fragmentCount: 0,
+      estimatedTimeLeft: 0
+    });
+  });
+
+  it('counts jobs by status and weights progress by size', () => {
+    const summary = getQueueSummary([
+      createJob(1000, { status: 'complete', progress: 100, result: createResult(3) }),
+      createJob(2000, { status: 'running', progress: 50, estimatedTimeLeft: 30 }),
+      createJob(500, { status: 'running', progress: 10, estimatedTimeLeft: 90 }),
+      createJob(500, { status: 'pending' }),
+      createJob(500, { status: 'error', progress: 40 }),
+      createJob(500, { status: 'cancelled', progress: 20 })
+    ]);
+
+    expect(summary).toMatchObject({ total: 6, pending: 1, running: 2, complete: 1, failed: 2 });
+    expect(summary.totalBytes).toBe(5000);
+    // Terminados cuentan completos: 1000 + 1000 + 50 + 0 + 500 + 500 de 5000
+    expect(summary.progress).toBe(61);
+    expect(summary.fragmentCount).toBe(3);
+    expect(summary.estimatedTimeLeft).toBe(90);
+  });
+});
+
+describe('QueueJobRunner', () => {
+  it('moves a job from running to complete with its result', async () => {
+    const processor = new FakeProcessor();
+    const { done, current, statuses } = startRunner(createJob(1000), processor);
+
+    expect(current()).toMatchObject({ status: 'running', message: 'Starting...' });
+    expect(current().startedAt).toBeDefined();
+
+    processor.report(40, 'Creating fragment 1...');
+    expect(current().message).toBe('Creating fragment 1...');
+    expect(current().progress).toBeGreaterThan(0);
+
+    const result = createResult(2);
+    processor.resolve(result);
+    await done;
+
+    expect(statuses()).toEqual(['running', 'complete']);
+    expect(current()).toMatchObject({
+      status: 'complete',
+      progress: 100,
+      estimatedTimeLeft: 0,
+      message: 'Created 2 fragments',
+      result
+    });
+    expect(current().completedAt).toBeDefined();
+  });
+
+  it('marks the job as failed when the processor returns an error', async () => {
+    const processor = new FakeProcessor();
+    const { done, current, statuses } = startRunner(createJob(1000), processor);
+
+    processor.resolve(createResult(0, false));
+    await done;
+
+    expect(statuses()).toEqual(['running', 'error']);
+    expect(current()).toMatchObject({ status: 'error', error: 'Broken archive', result: null });
+  });
+
+  it('marks the job as failed when the worker rejects', async () => {
+    const processor = new FakeProcessor();
+    const { done, current, statuses } = startRunner(createJob(1000), processor);
+
+    processor.reject(new ZipFormatError('Wrong password', WRONG_PASSWORD));
+    await done;
+
+    expect(statuses()).toEqual(['running', 'error']);
+    expect(current()).toMatchObject({ status: 'error', error: 'Wrong password' });
+  });
+
+  it('marks the job as cancelled instead of failed when it is cancelled', async () => {
+    const processor = new FakeProcessor();
+    const { runner, done, current, statuses } = startRunner(createJob(1000), processor);
+
+    runner.cancel();
+    await done;
+
+    expect(processor.aborted).toBe(true);
+    expect(statuses()).toEqual(['running', 'cancelled']);
+    expect(current()).toMatchObject({ status: 'cancelled', message: 'Cancelled', error: null });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from '@jest/globals';
+import { HmacSha1, Sha1 } from '@/lib/sha1';
+
+const encoder = new TextEncoder();
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+describe('Sha1', () => {
+  // FIPS 180-2, ejemplos de SHA-1
+  it.each([
+    ['', 'da39a3ee5e6b4b0d3255bfef95601890afd80709'],
+    ['abc', 'a9993e364706816aba3e25717850c26c9cd0d89d'],
+    ['abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq', '84983e441c3bd26ebaae4aa1f95129e5e54670f1']
+  ])('hashes %j', (message, digest) => {
+    expect(toHex(new Sha1().update(encoder.encode(message)).digest())).toBe(digest);
+  });
+
+  it('hashes a million "a" fed in uneven pieces', () => {
+    const hash = new Sha1();
+    const piece = encoder.encode('a'.repeat(999));
+    for (let remaining = 1_000_000; remaining > 0; remaining -= piece.byteLength) {
+      hash.update(piece.subarray(0, Math.min(piece.byteLength, remaining)));
+    }
+    expect(toHex(hash.digest())).toBe('34aa973cd4c4daa4f61eeb2bdbad27316534016f');
+  });
+
+  it('refuses more data after the digest', () => {
+    const hash = new Sha1();
+    hash.digest();
+    expect(() => hash.update(new Uint8Array(1))).toThrow('SHA-1 digest already computed');
+  });
+});
+
+describe('HmacSha1', () => {
+  // RFC 2202, casos 1, 2 y 6 (clave más larga que un bloque)
+  it.each([
+    [new Uint8Array(20).fill(0x0b), 'Hi There', 'b617318655057264e28bc0b6fb378c8ef146be00'],
+    [encoder.encode('Jefe'), 'what do ya want for nothing?', 'effcdf6ae5eb2fa2d27416d5f184df9c259a7c79'],
+    [
+      new Uint8Array(80).fill(0xaa),
+      'Test Using Larger Than Block-Size Key - Hash Key First',
+      'aa4ae5e15272d00e95705637ce8a3b55ed402112'
+    ]
+  ])('authenticates the RFC 2202 example %#', (key, message, digest) => {
+    expect(toHex(new HmacSha1(key).update(encoder.encode(message)).digest())).toBe(digest);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from '@jest/globals';
+import { getAvailableStrategies, isStrategyCompatible, selectOptimalStrategy } from '@/lib/strategy-selector';
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+describe('strategy selection', () => {
+  it('recommends a strategy that can process the file', () => {
+    expect(selectOptimalStrategy(50 * MB)).toBe('CLIENT_SIDE');
+    expect(selectOptimalStrategy(2 * GB)).toBe('CLIENT_DRIVE');
+    // Sin servidor, los ZIP64 de más de 4 GB se procesan en local leyéndolos por trozos
+    expect(selectOptimalStrategy(6 * GB)).toBe('CLIENT_SIDE');
+  });
+
+  it('accepts archives over 4 GB for local and Drive processing', () => {
+    expect(isStrategyCompatible('CLIENT_SIDE', 6 * GB)).toBe(true);
+    expect(isStrategyCompatible('CLIENT_DRIVE', 6 * GB)).toBe(true);
+    expect(getAvailableStrategies(12 * GB).map(strategy => strategy.type)).toEqual(['CLIENT_SIDE', 'CLIENT_DRIVE']);
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { WinZipAesEncryptor } from '@/lib/zip-crypto';
+import { WRONG_PASSWORD } from '@/lib/zip-format';
+import { ZipReader } from '@/lib/zip-reader';
+
+const hex = (value: string) => Uint8Array.from(value.match(/../g)!, byte => parseInt(byte, 16));
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+const fromBase64 = (value: string) => Uint8Array.from(Buffer.from(value, 'base64'));
+
+// Creados con Info-ZIP (zip -P secret, -0 y -9): ambos usan data descriptor, así que la
+// contraseña se comprueba con el byte alto de la hora
+const ZIPCRYPTO_STORED = 'UEsDBAoACQAAAIMYIljQQB9xKwAAAB8AAAAKAAAAc3RvcmVkLnR4dD2wbTWHQ5v7UYSDdZHaK1EliesdEVw4RiLZtBhYplXbZipzrnNNW/pN2LRQSwcI0EAfcSsAAAAfAAAAUEsBAh4DCgAJAAAAgxgiWNBAH3ErAAAAHwAAAAoAAAAAAAAAAAAAAKSBAAAAAHN0b3JlZC50eHRQSwUGAAAAAAEAAQA4AAAAYwAAAAAA';
+const ZIPCRYPTO_DEFLATED = 'UEsDBBQACwAIAIMYIlhp76d+GgAAAEAAAAAMAAAAZGVmbGF0ZWQudHh0Lgi7j1WGbKP43fUeSvVIbCmkECx67z/5s0pQSwcIae+nfhoAAABAAAAAUEsBAh4DFAALAAgAgxgiWGnvp34aAAAAQAAAAAwAAAAAAAAAAQAAAKSBAAAAAGRlZmxhdGVkLnR4dFBLBQYAAAAAAQABADoAAABUAAAAAAA=';
+
+// AE-2 con AES-256 y DEFLATE, cifrado con OpenSSL (PBKDF2-HMAC-SHA1, AES-CTR y HMAC-SHA1 de
+// Node): contraseña "secret", sal 00 01 ... 0f
+const WINZIP_AES_DEFLATED = 'UEsDBDMAAQBjAIMYIlgAAAAAUQAAAE8AAAAKAAsAc2VjcmV0LnR4dAGZBwACAEFFAwgAAAECAwQFBgcICQoLDA0OD6M2UXbyy4S55JXwffTEsAFgXDmrI0VuTuowW8p599SXwmfcHj6Og4SR+yc4VVsl6H3QkXCVLwF3/HJ2aY4Zj/QFUEsBAjMAMwABAGMAgxgiWAAAAABRAAAATwAAAAoACwAAAAAAAAAAAAAAAAAAAHNlY3JldC50eHQBmQcAAgBBRQMIAFBLBQYAAAAAAQABAEMAAACEAAAAAAA=';
+const SALT = hex('000102030405060708090a0b0c0d0e0f');
+
+async function readOnlyEntry(archive: Uint8Array, password: string): Promise<string> {
+  const reader = new ZipReader(new Blob([archive as BlobPart]), password);
+  const { entries } = await reader.readCentralDirectory();
+  return new TextDecoder().decode(await reader.readEntryData(entries[0]!));
+}
+
+describe('ZipCrypto decryption', () => {
+  it.each([
+    ['stored', ZIPCRYPTO_STORED, 'ZipCrypto known-answer fixture\n'],
+    ['deflated', ZIPCRYPTO_DEFLATED, 'deflate '.repeat(8).trimEnd() + '\n']
+  ])('decrypts a %s entry written by Info-ZIP', async (_, archive, content) => {
+    await expect(readOnlyEntry(fromBase64(archive), 'secret')).resolves.toBe(content);
+  });
+
+  it.each([
+    ['stored', ZIPCRYPTO_STORED],
+    ['deflated', ZIPCRYPTO_DEFLATED]
+  ])('rejects a wrong password for a %s entry', async (_, archive) => {
+    await expect(readOnlyEntry(fromBase64(archive), 'Secret')).rejects.toMatchObject({ code: WRONG_PASSWORD });
+  });
+});
+
+describe('WinZip AES decryption', () => {
+  it('decrypts and authenticates an AE-2 entry', async () => {
+    await expect(readOnlyEntry(fromBase64(WINZIP_AES_DEFLATED), 'secret'))
+      .resolves.toBe('WinZip AES AE-2 known-answer fixture, deflated: ' + 'a'.repeat(30) + '\n');
+  });
+
+  it('rejects a wrong password by its verifier', async () => {
+    await expect(readOnlyEntry(fromBase64(WINZIP_AES_DEFLATED), 'Secret'))
+      .rejects.toThrow('Wrong password for encrypted entry "secret.txt"');
+  });
+
+  it('rejects data whose authentication code does not match', async () => {
+    const archive = fromBase64(WINZIP_AES_DEFLATED);
+    // Primer byte cifrado: cabecera local (30), nombre (10), extra field (11), sal (16) y verificador (2)
+    archive[30 + 10 + 11 + 16 + 2]! ^= 0x01;
+
+    await expect(readOnlyEntry(archive, 'secret')).rejects.toMatchObject({ code: WRONG_PASSWORD });
+  });
+});
+
+describe('WinZipAesEncryptor', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes the salt, the PBKDF2 verifier, the ciphertext and the authentication code', async () => {
+    jest.spyOn(crypto, 'getRandomValues').mockImplementation(array => {
+      (array as Uint8Array).set(SALT);
+      return array;
+    });
+
+    const encryptor = await WinZipAesEncryptor.create('secret');
+    const output = encryptor.encrypt(new TextEncoder().encode('known answer'));
+
+    // Calculado con OpenSSL: verificador a336 (bytes 64-65 de PBKDF2), 12 bytes cifrados y 10 de HMAC
+    expect(toHex(output)).toBe(
+      '000102030405060708090a0b0c0d0e0f' + 'a336' + '31d7513720b5d58bf707c7c6' + 'df856d0e8a979d95cf80'
+    );
+    expect(output.byteLength).toBe(12 + WinZipAesEncryptor.DATA_OVERHEAD);
+  });
+
+  it('encrypts a single entry', async () => {
+    const encryptor = await WinZipAesEncryptor.create('secret');
+    encryptor.encrypt(new Uint8Array(1));
+    expect(() => encryptor.encrypt(new Uint8Array(1))).toThrow('can only encrypt one entry');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@jest/globals';
+import { WRONG_PASSWORD } from '@/lib/zip-format';
+import { ZipWorkerClient } from '@/lib/zip-worker-client';
+import type { ProcessingMetrics, ProcessingOptions, ProcessingResult } from '@/types/processing';
+
+const OPTIONS: ProcessingOptions = {
+  strategy: 'CLIENT_SIDE',
+  fragmentSize: 1024,
+  compressionLevel: 6,
+  includeManifest: true,
+  preserveStructure: true
+};
+
+/**
+ * Worker de prueba: guarda lo que recibe y responde con los mensajes que se le indiquen
+ */
+class FakeWorker extends EventTarget {
+  public readonly posted: { type: string; id: string }[] = [];
+  public terminated = false;
+
+  public postMessage(message: { type: string; id: string }): void {
+    this.posted.push(message);
+  }
+
+  public terminate(): void {
+    this.terminated = true;
+  }
+
+  public reply(data: unknown): void {
+    this.dispatchEvent(new MessageEvent('message', { data }));
+  }
+
+  public get taskId(): string {
+    return this.posted.find(message => message.type === 'PROCESS_ZIP')!.id;
+  }
+}
+
+function createClient(): { client: ZipWorkerClient; worker: FakeWorker } {
+  const worker = new FakeWorker();
+  return { client: new ZipWorkerClient(worker as unknown as Worker), worker };
+}
+
+const file = new File([new Uint8Array(10)], 'source.zip');
+
+describe('ZipWorkerClient', () => {
+  it('reports progress for its task and resolves with the result', async () => {
+    const { client, worker } = createClient();
+    const progress: [number, string][] = [];
+    client.setProgressCallback((value, message) => progress.push([value, message]));
+
+    const processing = client.processFile(file, OPTIONS);
+    expect(client.isAvailable).toBe(false);
+
+    worker.reply({ type: 'PROGRESS', id: 'another_task', payload: { phase: 'processing', progress: 90, message: 'Other' } });
+    worker.reply({ type: 'PROGRESS', id: worker.taskId, payload: { phase: 'processing', progress: 40, message: 'Creating' } });
+    const result = { success: true, fragments: [], metrics: {} as ProcessingMetrics } satisfies ProcessingResult;
+    worker.reply({ type: 'COMPLETE', id: worker.taskId, payload: result });
+
+    await expect(processing).resolves.toBe(result);
+    expect(progress).toEqual([[40, 'Creating']]);
+    expect(client.isAvailable).toBe(true);
+  });
+
+  it('rejects with the processor error code and can run another task', async () => {
+    const { client, worker } = createClient();
+
+    const processing = client.processFile(file, OPTIONS);
+    worker.reply({ type: 'ERROR', id: worker.taskId, payload: { message: 'Wrong password', code: WRONG_PASSWORD } });
+
+    await expect(processing).rejects.toMatchObject({ message: 'Wrong password', code: WRONG_PASSWORD });
+    expect(client.isAvailable).toBe(true);
+  });
+
+  it('sends a cancel message for the running task', () => {
+    const { client, worker } = createClient();
+
+    void client.processFile(file, OPTIONS);
+    client.abort();
+
+    expect(worker.posted[1]).toEqual({ type: 'CANCEL', id: worker.taskId, payload: {} });
+  });
+
+  it('refuses a second task while busy and stops after a worker crash', async () => {
+    const { client, worker } = createClient();
+
+    const processing = client.processFile(file, OPTIONS);
+    await expect(client.processFile(file, OPTIONS)).rejects.toThrow('busy or has stopped');
+
+    worker.dispatchEvent(Object.assign(new Event('error'), { message: 'Out of memory' }));
+    await expect(processing).rejects.toThrow('Worker error: Out of memory');
+    expect(client.isAvailable).toBe(false);
+  });
+});
@@ -5,6 +5,42 @@
 
 export type ProcessingStrategyType = 'CLIENT_SIDE' | 'CLIENT_DRIVE' | 'SERVER_PREMIUM';
 export type StorageLocation = 'browser' | 'google-drive' | 'server';
+// independent: un ZIP autónomo por fragmento; spanned: ZIP dividido estándar (.z01, .z02, ..., .zip);
+// raw: cualquier archivo cortado en rangos de bytes (nombre.001, nombre.002, ...)
+export type SplitMode = 'independent' | 'spanned' | 'raw';
+// Cómo se agrupan las entradas en fragmentos (ver FileSplitter)
+export type SplittingStrategy = 'size-based' | 'file-based' | 'balanced' | 'smart' | 'min-fragments';
+// Contenedor de los archivos de entrada y de los fragmentos generados
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+// Archivo o carpeta de una selección con su ruta relativa; las carpetas no tienen File
+export interface SourceFile {
+  path: string;
+  file: File | null;
+}
+
+// Cifrado de las entradas de los fragmentos (la contraseña nunca se guarda)
+export type FragmentEncryption = 'winzip-aes-256';
+// Algoritmo con el que se envuelve la clave de cada fragmento para un destinatario
+export type EnvelopeAlgorithm = 'RSA-OAEP' | 'ECDH-P256';
+
+// Nivel de compresión de las entradas de una extensión (jpg, tar.gz) o un tipo MIME (image/*, video/mp4)
+export interface CompressionRule {
+  match: string;
+  level: number; // 0 = STORE, 1-9 = nivel DEFLATE
+}
+
+// Algoritmo de la firma del manifest
+export type SignatureAlgorithm = 'ECDSA-P256-SHA256';
+
+// Clave pública de un destinatario del keyring local
+export interface RecipientKey {
+  name: string;
+  algorithm: EnvelopeAlgorithm;
+  publicKey: string; // SPKI en base64
+  fingerprint: string; // SHA-256 del SPKI en hexadecimal
+  addedAt: string;
+}
 
 export interface ProcessingStrategy {
   type: ProcessingStrategyType;
@@ -35,12 +71,34 @@ export interface FileAnalysis {
   estimatedProcessingTime: number;
   recommendedStrategy: ProcessingStrategyType;
   recommendedFragmentSize: number;
+  encrypted: boolean; // Alguna entrada está protegida con contraseña
+  // Solo se calculan con la deduplicación activa (hay que leer el contenido de las candidatas)
+  duplicateFiles?: number; // Entradas cuyo contenido ya aparece en otra entrada
+  duplicateBytes?: number; // Bytes descomprimidos que ahorra guardar cada contenido una sola vez
+  duplicateHashes?: Record<string, string>; // SHA-256 de las entradas candidatas que se leyeron
 }
 
 export interface ProcessingOptions {
   strategy: ProcessingStrategyType;
   fragmentSize: number; // En bytes
   compressionLevel: number;
+  compressionRules?: CompressionRule[]; // Nivel por tipo de archivo; la primera regla que coincide sustituye a compressionLevel
+  rawCopy?: boolean; // Copia los datos comprimidos del origen sin recomprimir
+  hashCopiedEntries?: boolean; // Con copia directa, descomprime cada entrada para guardar su SHA-256 en el índice
+  splitMode?: SplitMode; // Por defecto 'independent'
+  outputFormat?: ArchiveFormat; // Por defecto 'zip'
+  splittingStrategy?: SplittingStrategy; // Por defecto 'size-based'
+  strictSizeLimit?: boolean; // fragmentSize como máximo estricto del tamaño final de cada fragmento
+  maxFragments?: number; // Falla si el archivo necesita más fragmentos
+  password?: string; // Contraseña del ZIP de entrada; nunca se guarda en el manifest
+  keepEncryption?: boolean; // Copia las entradas cifradas tal cual en lugar de escribirlas descifradas
+  encryptionPassphrase?: string; // Cifra los fragmentos con WinZip AES-256; nunca se guarda en el manifest
+  recipients?: RecipientKey[]; // Cifra cada fragmento completo para estas claves públicas
+  signManifest?: boolean; // Firma el manifest con la clave de firma guardada en este navegador
+  includePatterns?: string[]; // Globs de las entradas que se conservan (todas si no hay ninguno)
+  excludePatterns?: string[]; // Globs de las entradas que se descartan; tienen prioridad sobre los de inclusión
+  deduplicate?: boolean; // Guarda una sola vez las entradas con el mismo contenido
+  knownHashes?: Record<string, string>; // SHA-256 que ya calculó el análisis; esas entradas no se vuelven a leer
   customFilename?: string;
   includeManifest: boolean;
   preserveStructure: boolean;
@@ -52,6 +110,17 @@ export interface ProcessingResult {
   manifest?: ProcessingManifest;
   error?: ProcessingError;
   metrics: ProcessingMetrics;
+  sizeReport?: FragmentSizeReport[];
+}
+
+// Ocupación de cada fragmento respecto al tamaño solicitado
+export interface FragmentSizeReport {
+  fragmentId: string;
+  name: string;
+  size: number;
+  limit: number;
+  utilization: number; // size / limit (0-1 si respeta el límite)
+  repacked: boolean; // Reempaquetado tras superar el límite en la verificación
 }
 
 export interface ProcessedFragment {
@@ -68,7 +137,8 @@ export interface ProcessingManifest {
   originalFile: {
     name: string;
     size: number;
-    checksum: string;
+    checksum: string; // SHA-256 del archivo de entrada (vacío si es una carpeta)
+    comment?: string; // Comentario del ZIP original, repetido en cada fragmento
   };
   fragments: {
     id: string;
@@ -77,14 +147,108 @@ export interface ProcessingManifest {
     checksum: string;
     order: number;
   }[];
+  entries?: ManifestEntryLocation[];
+  chunkedEntries?: ManifestChunkedEntry[];
+  excludedEntries?: ManifestExcludedEntry[]; // Entradas del original que los filtros dejaron fuera
+  driveInfo?: ManifestDriveInfo; // Solo en los conjuntos subidos a Google Drive
+  instructions?: ManifestInstructions;
+  signature?: ManifestSignature; // Cubre todo el manifest salvo el propio valor de la firma
   metadata: {
     createdAt: string;
-    version: string;
+    version: string; // Versión del formato del manifest (MANIFEST_VERSION en lib/manifest.ts)
     strategy: ProcessingStrategyType;
     compressionLevel: number;
+    compressionRules?: CompressionRule[]; // Niveles por tipo de archivo con los que se recomprimieron las entradas
+    splitMode?: SplitMode;
+    outputFormat?: ArchiveFormat;
+    encryption?: FragmentEncryption; // Solo indica el cifrado, nunca la contraseña
+    recipients?: ManifestRecipient[]; // Destinatarios que pueden descifrar los fragmentos
+    entryFilter?: ManifestEntryFilter; // Patrones con los que se filtraron las entradas
   };
 }
 
+export interface ManifestEntryFilter {
+  include: string[];
+  exclude: string[];
+}
+
+// Carpeta de Google Drive con los fragmentos, en el orden del manifest
+export interface ManifestDriveInfo {
+  folderId: string;
+  folderName: string;
+  folderLink: string;
+  files: {
+    driveFileId: string;
+    shareableLink: string;
+    downloadUrl: string;
+  }[];
+}
+
+export interface ManifestInstructions {
+  howToDownload: string[];
+  howToReassemble: string[];
+}
+
+// Firma del manifest con la clave pública de quien lo firmó, para comprobarla sin más datos
+export interface ManifestSignature {
+  algorithm: SignatureAlgorithm;
+  publicKey: string; // SPKI en base64
+  fingerprint: string; // SHA-256 del SPKI en hexadecimal
+  signedAt: string;
+  value: string; // Firma en base64 (r || s)
+}
+
+export interface ManifestRecipient {
+  algorithm: EnvelopeAlgorithm;
+  fingerprint: string;
+}
+
+// Índice de entradas: permite localizar y comprobar un archivo sin descargar todos los fragmentos
+export interface ManifestEntryLocation {
+  path: string;
+  fragmentId: string; // Fragmento o volumen donde empieza la entrada
+  lastFragmentId?: string; // Último fragmento o volumen, si la entrada cruza varios
+  dir?: boolean;
+  size?: number; // Tamaño descomprimido (los manifests 1.0.0 no lo registran)
+  crc32?: number;
+  sha256?: string; // Hash del contenido; falta si la entrada se copió cifrada sin la contraseña
+  ranges?: ManifestEntryRange[]; // Rangos de bytes de cada parte, si la entrada se dividió
+  date: string; // Fecha de modificación (ISO 8601, resolución de 2 segundos)
+  unixPermissions?: number; // Modo st_mode, si el ZIP se creó en UNIX
+  dosPermissions?: number; // Atributos DOS, si el ZIP se creó en DOS/Windows
+  comment?: string;
+  duplicateOf?: string; // Ruta de la entrada con el mismo contenido que sí se guardó; esta se restaura al reensamblar
+}
+
+// Entrada mayor que un fragmento, dividida en partes por rangos de bytes
+export interface ManifestChunkedEntry {
+  path: string;
+  size: number;
+  crc32: number;
+  sha256: string; // Hash de la entrada completa
+  parts: ManifestEntryPart[];
+}
+
+// Rango de bytes de una entrada guardado en un fragmento
+export interface ManifestEntryRange {
+  fragmentId: string;
+  offset: number;
+  length: number;
+}
+
+// Entrada del original descartada por los filtros de inclusión y exclusión
+export interface ManifestExcludedEntry {
+  path: string;
+  dir?: boolean;
+  size: number;
+  excludedBy?: string; // Patrón de exclusión que la descartó; sin él, no coincidía con ningún patrón de inclusión
+}
+
+export interface ManifestEntryPart extends ManifestEntryRange {
+  name: string; // Nombre de la parte dentro del fragmento
+  sha256: string;
+}
+
 export interface ProcessingError {
   code: string;
   message: string;
@@ -3,10 +3,12 @@
  * Contains type definitions for UI components and interactions
  */
 
+import type { InputSource } from '@/lib/file-collection';
+
 export type ProcessingStrategy = 'CLIENT_SIDE' | 'CLIENT_DRIVE';
 
 export interface FileInfo {
-  file: File;
+  file: InputSource; // Un archivo o una carpeta/selección de archivos
   name: string;
   size: number;
   type: string;
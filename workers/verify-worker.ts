@@ -0,0 +1,94 @@
+/**
+ * Fragment Verification Web Worker
+ * Calcula los checksums y lee las entradas de los fragmentos en background thread
+ */
+
+/// <reference lib="webworker" />
+
+import { FragmentVerifier, type VerifyOptions, type VerifyWorkerResponse } from '@/lib/fragment-verifier';
+import type { ProcessingManifest } from '@/types/processing';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+interface VerifyMessage {
+  type: 'VERIFY' | 'CANCEL';
+  id: string;
+  payload?: {
+    manifest: ProcessingManifest;
+    files: File[];
+    options: VerifyOptions;
+  };
+}
+
+const verifier = new FragmentVerifier();
+let currentTask: string | null = null;
+
+/**
+ * Verifica el conjunto de fragmentos; los File llegan por structured clone sin copiar su contenido
+ * y la clave privada, como CryptoKey, también puede clonarse
+ */
+async function verifyInWorker(taskId: string, payload: NonNullable<VerifyMessage['payload']>): Promise<void> {
+  currentTask = taskId;
+
+  verifier.setProgressCallback((progress, message) => {
+    postMessage({
+      type: 'PROGRESS',
+      id: taskId,
+      payload: { progress, message }
+    } satisfies VerifyWorkerResponse);
+  });
+
+  try {
+    const report = await verifier.verify(payload.manifest, payload.files, payload.options);
+    postMessage({ type: 'COMPLETE', id: taskId, payload: report } satisfies VerifyWorkerResponse);
+  } catch (error) {
+    postMessage({
+      type: 'ERROR',
+      id: taskId,
+      payload: { message: error instanceof Error ? error.message : 'Verification failed' }
+    } satisfies VerifyWorkerResponse);
+  } finally {
+    currentTask = null;
+  }
+}
+
+/**
+ * Maneja mensajes del hilo principal
+ */
+self.addEventListener('message', async (event: MessageEvent<VerifyMessage>) => {
+  const { type, id, payload } = event.data;
+
+  switch (type) {
+    case 'VERIFY':
+      if (currentTask || !payload) {
+        postMessage({
+          type: 'ERROR',
+          id,
+          payload: { message: currentTask ? 'Worker is already verifying another set' : 'Nothing to verify' }
+        } satisfies VerifyWorkerResponse);
+        return;
+      }
+      await verifyInWorker(id, payload);
+      break;
+
+    case 'CANCEL':
+      if (currentTask === id) {
+        verifier.abort();
+      }
+      break;
+
+    default:
+      postMessage({
+        type: 'ERROR',
+        id: id || 'unknown',
+        payload: { message: `Unknown message type: ${type}` }
+      } satisfies VerifyWorkerResponse);
+  }
+});
+
+// Enviar mensaje de inicialización
+postMessage({
+  type: 'READY',
+  id: 'init',
+  payload: { message: 'Verification worker initialized and ready' }
+} satisfies VerifyWorkerResponse);
@@ -5,10 +5,12 @@
 
 /// <reference lib="webworker" />
 
-// Importaciones específicas para el worker
+import { ZipProcessor } from '@/lib/zip-processor';
+import { FileCollection, type InputSource } from '@/lib/file-collection';
+import type { ProcessingOptions } from '@/types/processing';
+
 declare const self: DedicatedWorkerGlobalScope;
 
-// Simular importaciones (en un worker real necesitaríamos bundling especial)
 interface ProcessingMessage {
   type: 'PROCESS_ZIP' | 'CANCEL' | 'PING';
   id: string;
@@ -16,7 +18,7 @@ interface ProcessingMessage {
 }
 
 interface ProgressMessage {
-  type: 'PROGRESS' | 'COMPLETE' | 'ERROR' | 'PONG';
+  type: 'PROGRESS' | 'COMPLETE' | 'ERROR' | 'PONG' | 'READY';
   id: string;
   payload: any;
 }
@@ -59,174 +61,62 @@ class WorkerState {
 }
 
 const workerState = new WorkerState();
+const processor = new ZipProcessor();
 
 /**
  * Procesa archivo ZIP en el worker
+ *
+ * El File llega por structured clone: el worker lee solo los rangos que
+ * necesita con File.slice, sin copiar el archivo completo a memoria.
  */
 async function processZipInWorker(
   taskId: string,
-  fileArrayBuffer: ArrayBuffer,
-  options: any
+  file: InputSource,
+  options: ProcessingOptions
 ): Promise<void> {
-  try {
-    workerState.startTask(taskId);
-    
-    // Simular importación de JSZip (en producción se importaría correctamente)
-    const JSZip = (globalThis as any).JSZip;
-    if (!JSZip) {
-      throw new Error('JSZip not available in worker context');
-    }
-
-    // Reportar inicio
-    postMessage({
-      type: 'PROGRESS',
-      id: taskId,
-      payload: {
-        phase: 'initialization',
-        progress: 0,
-        message: 'Initializing ZIP processing in background...'
-      }
-    } as ProgressMessage);
-
-    // Verificar cancelación
-    if (workerState.cancelled) {
-      throw new Error('Task cancelled');
-    }
+  workerState.startTask(taskId);
 
-    // Cargar ZIP
+  processor.setProgressCallback((progress, message) => {
     postMessage({
       type: 'PROGRESS',
       id: taskId,
       payload: {
-        phase: 'reading',
-        progress: 10,
-        message: 'Loading ZIP file in worker...'
+        phase: progress >= 100 ? 'complete' : 'processing',
+        progress,
+        message
       }
     } as ProgressMessage);
+  });
 
-    const zip = new JSZip();
-    const loadedZip = await zip.loadAsync(fileArrayBuffer);
+  try {
+    const result = await processor.processFile(file, options);
 
     if (workerState.cancelled) {
       throw new Error('Task cancelled');
     }
 
-    // Analizar contenido
-    postMessage({
-      type: 'PROGRESS',
-      id: taskId,
-      payload: {
-        phase: 'analyzing',
-        progress: 25,
-        message: 'Analyzing ZIP structure...'
-      }
-    } as ProgressMessage);
-
-    const files = Object.values(loadedZip.files).filter(f => !f.dir);
-    const totalFiles = files.length;
-    let processedFiles = 0;
-
-    // Crear fragmentos
-    const fragments: any[] = [];
-    const targetSize = options.fragmentSize || (25 * 1024 * 1024); // 25MB default
-    let currentFragment: any[] = [];
-    let currentSize = 0;
-
-    for (const file of files) {
-      if (workerState.cancelled) {
-        throw new Error('Task cancelled');
-      }
-
-      const fileSize = file._data?.uncompressedSize || 0;
-      
-      // Si el archivo actual haría que el fragmento exceda el tamaño objetivo
-      if (currentSize + fileSize > targetSize && currentFragment.length > 0) {
-        // Crear fragmento actual
-        const fragmentBlob = await createFragmentBlob(currentFragment, options);
-        fragments.push({
-          name: `fragment_${fragments.length + 1}.zip`,
-          size: fragmentBlob.size,
-          blob: fragmentBlob
-        });
-
-        currentFragment = [file];
-        currentSize = fileSize;
-      } else {
-        currentFragment.push(file);
-        currentSize += fileSize;
-      }
-
-      processedFiles++;
-      const progress = 25 + (processedFiles / totalFiles) * 50;
-      
+    if (!result.success) {
+      // Conservar el código del procesador para las sugerencias de recuperación
       postMessage({
-        type: 'PROGRESS',
+        type: 'ERROR',
         id: taskId,
         payload: {
-          phase: 'processing',
-          progress,
-          message: `Processing file ${processedFiles}/${totalFiles}...`
+          message: result.error?.message || 'Processing failed',
+          code: result.error?.code,
+          cancelled: false
         }
       } as ProgressMessage);
-
-      // Yield para no bloquear el worker
-      if (processedFiles % 10 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 1));
-      }
-    }
-
-    // Crear último fragmento si hay archivos restantes
-    if (currentFragment.length > 0) {
-      const fragmentBlob = await createFragmentBlob(currentFragment, options);
-      fragments.push({
-        name: `fragment_${fragments.length + 1}.zip`,
-        size: fragmentBlob.size,
-        blob: fragmentBlob
-      });
-    }
-
-    if (workerState.cancelled) {
-      throw new Error('Task cancelled');
+      return;
     }
 
-    // Completar procesamiento
+    // Los Blob de los fragmentos se clonan sin copiar su contenido
     postMessage({
       type: 'COMPLETE',
       id: taskId,
-      payload: {
-        success: true,
-        fragments: fragments.map((f, index) => ({
-          ...f,
-          id: `fragment_${index}`,
-          // El blob se enviará por separado debido a limitaciones de transferencia
-        })),
-        metrics: {
-          totalFiles,
-          totalFragments: fragments.length,
-          processingTime: Date.now() - workerState.currentTaskId
-        }
-      }
+      payload: result
     } as ProgressMessage);
 
-    // Enviar blobs por separado
-    for (let i = 0; i < fragments.length; i++) {
-      if (workerState.cancelled) break;
-      
-      postMessage({
-        type: 'FRAGMENT_BLOB',
-        id: taskId,
-        payload: {
-          fragmentIndex: i,
-          blob: fragments[i].blob
-        }
-      }, [fragments[i].blob]);
-    }
-
-    workerState.completeTask();
-
   } catch (error) {
-    workerState.completeTask();
-    
     postMessage({
       type: 'ERROR',
       id: taskId,
@@ -235,32 +125,11 @@ async function processZipInWorker(
         cancelled: workerState.cancelled
       }
     } as ProgressMessage);
+  } finally {
+    workerState.completeTask();
   }
 }
 
-/**
- * Crea un blob de fragmento a partir de archivos
- */
-async function createFragmentBlob(files: any[], options: any): Promise<Blob> {
-  const JSZip = (globalThis as any).JSZip;
-  const fragmentZip = new JSZip();
-
-  // Agregar archivos al fragmento
-  for (const file of files) {
-    const content = await file.async('arraybuffer');
-    fragmentZip.file(file.name, content);
-  }
-
-  // Generar ZIP del fragmento
-  return await fragmentZip.generateAsync({
-    type: 'blob',
-    compression: 'DEFLATE',
-    compressionOptions: {
-      level: options.compressionLevel || 6
-    }
-  });
-}
-
 /**
  * Maneja mensajes del hilo principal
  */
@@ -295,7 +164,11 @@ self.addEventListener('message', async (event: MessageEvent<ProcessingMessage>)
       }
 
       try {
-        await processZipInWorker(id, payload.fileArrayBuffer, payload.options);
+        // Una FileCollection llega como objeto plano: se reconstruye con sus File
+        const source = payload.file instanceof File
+          ? payload.file
+          : new FileCollection(payload.file.name, payload.file.files);
+        await processZipInWorker(id, source, payload.options);
       } catch (error) {
         postMessage({
           type: 'ERROR',
@@ -311,6 +184,7 @@ self.addEventListener('message', async (event: MessageEvent<ProcessingMessage>)
     case 'CANCEL':
       if (workerState.processing) {
         workerState.cancelTask();
+        processor.abort();
         postMessage({
           type: 'PROGRESS',
           id,
@@ -375,4 +249,4 @@ postMessage({
   }
 } as ProgressMessage);
 
-export {}; // Para que TypeScript trate esto como un módulo
\ No newline at end of file
+export {}; // Para que TypeScript trate esto como un módulo